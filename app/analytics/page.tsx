@@ -19,126 +19,175 @@ import {
   Calculator,
   Eye,
 } from "lucide-react"
-import {
-  format,
-  startOfWeek,
-  endOfWeek,
-  eachWeekOfInterval,
-  startOfMonth,
-  endOfMonth,
-  addMonths,
-  subMonths,
-  isWithinInterval,
-  startOfYear,
-  endOfYear,
-  differenceInDays,
-} from "date-fns"
+import { format, startOfMonth, endOfMonth, addMonths, subMonths, isWithinInterval } from "date-fns"
 import Link from "next/link"
 import { useEntries } from "@/hooks/use-entries"
 import { ConnectionStatus } from "@/components/connection-status"
-import { createLocalDate } from "@/lib/date-utils"
+import { createLocalDate, formatDateForStorage } from "@/lib/date-utils"
 import { FinanceChart } from "@/components/finance-chart"
+import { averageCents, percentOf } from "@/lib/money"
+import { useCurrency } from "@/components/currency-provider"
 import { ThemeToggle } from "@/components/theme-toggle"
+import { UserMenu } from "@/components/user-menu"
+import { WorkspaceSwitcher } from "@/components/workspace-switcher"
+import { useBusinessCalendar } from "@/hooks/use-business-calendar"
+import {
+  fiscalYearRange,
+  monthGridRange,
+  operatingDaysIn,
+  workWeekRange,
+  workWeekStarts,
+} from "@/lib/business-calendar"
+import { useAggregation } from "@/hooks/use-aggregation"
+import { useCategories } from "@/hooks/use-categories"
+import { useBalanceMetric } from "@/hooks/use-balance-metric"
+import { FINANCE_METRICS, METRIC_FORMULAS, METRIC_LABELS, computeMetrics, type FinanceMetric } from "@/lib/metrics"
+import { ENTRY_TYPES, bucketOf, weekKey } from "@/lib/aggregation"
+
+// Colores del resumen: las métricas con signo (utilidad y flujo) cambian a naranja cuando son negativas
+const signed = (positive: string, negative: string) => (value: number) => (value >= 0 ? positive : negative)
+const fixed = (className: string) => () => className
+const METRIC_STYLES: Record<
+  FinanceMetric,
+  { icon: string; row: (value: number) => string; label: (value: number) => string; value: (value: number) => string }
+> = {
+  gross_income: {
+    icon: "💰",
+    row: fixed("bg-green-50 dark:bg-green-900/20"),
+    label: fixed("text-green-800 dark:text-green-300"),
+    value: fixed("text-green-700 dark:text-green-400"),
+  },
+  operating_expenses: {
+    icon: "💸",
+    row: fixed("bg-red-50 dark:bg-red-900/20"),
+    label: fixed("text-red-800 dark:text-red-300"),
+    value: fixed("text-red-700 dark:text-red-400"),
+  },
+  operating_profit: {
+    icon: "📊",
+    row: signed("bg-blue-50 dark:bg-blue-900/20", "bg-orange-50 dark:bg-orange-900/20"),
+    label: signed("text-blue-800 dark:text-blue-300", "text-orange-800 dark:text-orange-300"),
+    value: signed("text-blue-700 dark:text-blue-400", "text-orange-700 dark:text-orange-400"),
+  },
+  investments: {
+    icon: "📈",
+    row: fixed("bg-purple-50 dark:bg-purple-900/20"),
+    label: fixed("text-purple-800 dark:text-purple-300"),
+    value: fixed("text-purple-700 dark:text-purple-400"),
+  },
+  net_cash_flow: {
+    icon: "💎",
+    row: signed("bg-blue-50 dark:bg-blue-900/20", "bg-orange-50 dark:bg-orange-900/20"),
+    label: signed("text-blue-800 dark:text-blue-300", "text-orange-800 dark:text-orange-300"),
+    value: signed("text-blue-700 dark:text-blue-400", "text-orange-700 dark:text-orange-400"),
+  },
+}
 
 export default function AnalyticsPage() {
-  const { entries, loading } = useEntries()
   const [selectedPeriod, setSelectedPeriod] = useState("thisMonth")
   const [currentDate, setCurrentDate] = useState(new Date())
+  const calendar = useBusinessCalendar()
 
-  const filteredEntries = useMemo(() => {
+  const periodRange = useMemo(() => {
     const now = new Date()
-    let startDate: Date
-    let endDate: Date
 
     switch (selectedPeriod) {
       case "thisWeek":
-        // CAMBIADO: Ahora las semanas empiezan en jueves (4)
-        startDate = startOfWeek(now, { weekStartsOn: 4 })
-        endDate = endOfWeek(now, { weekStartsOn: 4 })
-        break
+        return workWeekRange(now, calendar)
       case "thisMonth":
-        startDate = startOfMonth(currentDate)
-        endDate = endOfMonth(currentDate)
-        break
+        return { start: startOfMonth(currentDate), end: endOfMonth(currentDate) }
       case "thisYear":
-        startDate = startOfYear(now)
-        endDate = endOfYear(now)
-        break
+        return fiscalYearRange(now, calendar)
       default:
-        return entries
+        return null
     }
+  }, [selectedPeriod, currentDate, calendar])
+
+  // Pedir al backend solo el periodo visible
+  const entriesQuery = useMemo(
+    () =>
+      periodRange
+        ? { from: formatDateForStorage(periodRange.start), to: formatDateForStorage(periodRange.end) }
+        : undefined,
+    [periodRange],
+  )
+
+  const { entries, loading } = useEntries({ query: entriesQuery })
+  const { formatTotal } = useCurrency()
+
+  const filteredEntries = useMemo(() => {
+    if (!periodRange) return entries
 
     return entries.filter((entry) => {
       const entryDate = createLocalDate(entry.date)
-      return isWithinInterval(entryDate, { start: startDate, end: endDate })
+      return isWithinInterval(entryDate, { start: periodRange.start, end: periodRange.end })
     })
-  }, [entries, selectedPeriod, currentDate])
+  }, [entries, periodRange])
+
+  // Los movimientos de caja no cuentan en los totales, la distribución ni los avisos
+  const { isCashMovement } = useCategories()
+  const aggregation = useAggregation(filteredEntries, isCashMovement)
+  const { balanceOf } = useBalanceMetric()
 
   const analytics = useMemo(() => {
-    const gastos = filteredEntries.filter((e) => e.type === "gasto").reduce((sum, e) => sum + e.amount, 0)
-    const ingresos = filteredEntries.filter((e) => e.type === "ingreso").reduce((sum, e) => sum + e.amount, 0)
-    const inversiones = filteredEntries.filter((e) => e.type === "inversion").reduce((sum, e) => sum + e.amount, 0)
-    const balance = ingresos - inversiones
+    // Totales en centavos
+    const { gastos, ingresos, inversiones } = aggregation.totals
+    const metrics = computeMetrics(aggregation.totals)
+    const balance = balanceOf(aggregation.totals)
 
     // Análisis por categorías
-    const categoriasMasUsadas = {}
-    filteredEntries.forEach((entry) => {
-      const key = `${entry.type}-${entry.category}`
-      categoriasMasUsadas[key] = (categoriasMasUsadas[key] || 0) + 1
-    })
-
-    // Análisis de tendencias
-    // CAMBIADO: Ahora las semanas empiezan en jueves (4)
-    const weeks = eachWeekOfInterval(
-      {
-        start: startOfWeek(startOfMonth(currentDate), { weekStartsOn: 4 }),
-        end: endOfWeek(endOfMonth(currentDate), { weekStartsOn: 4 }),
-      },
-      { weekStartsOn: 4 },
+    const categoriasMasUsadas = Object.fromEntries(
+      ENTRY_TYPES.flatMap((type) =>
+        aggregation.categories[type].map((category) => [`${type}-${category.category}`, category.count]),
+      ),
     )
 
-    const tendenciaSemanal = weeks.map((weekStart) => {
-      // CAMBIADO: Ahora las semanas empiezan en jueves (4)
-      const weekEnd = endOfWeek(weekStart, { weekStartsOn: 4 })
-      const weekEntries = filteredEntries.filter((entry) => {
-        const entryDate = createLocalDate(entry.date)
-        return isWithinInterval(entryDate, { start: weekStart, end: weekEnd })
-      })
+    // Análisis de tendencias por semana de trabajo
+    const grid = monthGridRange(currentDate, calendar)
+    const weeks = workWeekStarts(grid.start, grid.end, calendar)
 
-      const weekIngresos = weekEntries.filter((e) => e.type === "ingreso").reduce((sum, e) => sum + e.amount, 0)
-      const weekGastos = weekEntries.filter((e) => e.type === "gasto").reduce((sum, e) => sum + e.amount, 0)
-      const weekInversiones = weekEntries.filter((e) => e.type === "inversion").reduce((sum, e) => sum + e.amount, 0)
+    const tendenciaSemanal = weeks.map((weekStart) => {
+      const week = bucketOf(aggregation.byWeek, weekKey(weekStart, calendar))
+      const weekMetrics = computeMetrics(week)
 
       return {
         semana: format(weekStart, "dd/MM"),
-        ingresos: weekIngresos,
-        gastos: weekGastos,
-        inversiones: weekInversiones,
-        balance: weekIngresos - weekInversiones,
-        roi: weekInversiones > 0 ? ((weekIngresos - weekInversiones) / weekInversiones) * 100 : 0,
+        ingresos: week.ingresos,
+        gastos: week.gastos,
+        inversiones: week.inversiones,
+        balance: balanceOf(week),
+        roi: percentOf(weekMetrics.operating_profit, weekMetrics.investments),
       }
     })
 
     // Métricas avanzadas
-    const promedioIngresosDiarios =
-      ingresos / (differenceInDays(endOfMonth(currentDate), startOfMonth(currentDate)) + 1)
-    const promedioGastosDiarios = gastos / (differenceInDays(endOfMonth(currentDate), startOfMonth(currentDate)) + 1)
-    const eficienciaInversion = inversiones > 0 ? (balance / inversiones) * 100 : 0
-    const tasaAhorro = ingresos > 0 ? ((ingresos - gastos - inversiones) / ingresos) * 100 : 0
+    // Promedios por día que abrió el negocio en el periodo (sin días de descanso ni cerrados)
+    const diasOperacion = Math.max(
+      1,
+      operatingDaysIn(periodRange || { start: startOfMonth(currentDate), end: endOfMonth(currentDate) }, calendar)
+        .length,
+    )
+    const promedioIngresosDiarios = averageCents(ingresos, diasOperacion)
+    const promedioGastosDiarios = averageCents(gastos, diasOperacion)
+    // Utilidad operativa por cada peso invertido; el ahorro es el flujo neto sobre los ingresos brutos
+    const eficienciaInversion = percentOf(metrics.operating_profit, metrics.investments)
+    const tasaAhorro = percentOf(metrics.net_cash_flow, metrics.gross_income)
 
     return {
       gastos,
       ingresos,
       inversiones,
       balance,
+      metrics,
       categoriasMasUsadas,
       tendenciaSemanal,
       promedioIngresosDiarios,
       promedioGastosDiarios,
+      diasOperacion,
       eficienciaInversion,
       tasaAhorro,
     }
-  }, [filteredEntries, currentDate])
+  }, [aggregation, currentDate, periodRange, calendar, balanceOf])
 
   const chartData = useMemo(() => {
     // Datos para gráfico de evolución
@@ -244,7 +293,9 @@ export default function AnalyticsPage() {
               <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
                 <SelectItem value="thisWeek">📅 Esta Semana</SelectItem>
                 <SelectItem value="thisMonth">📅 Este Mes</SelectItem>
-                <SelectItem value="thisYear">📅 Este Año</SelectItem>
+                <SelectItem value="thisYear">
+                  📅 {calendar.fiscal_year_start_month === 1 ? "Este Año" : "Año Fiscal"}
+                </SelectItem>
               </SelectContent>
             </Select>
 
@@ -268,7 +319,9 @@ export default function AnalyticsPage() {
                 </Button>
               </div>
             )}
+            <WorkspaceSwitcher />
             <ThemeToggle />
+            <UserMenu />
           </div>
         </div>
 
@@ -282,8 +335,9 @@ export default function AnalyticsPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-green-700 dark:text-green-400">
-                ${analytics.promedioIngresosDiarios.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                {formatTotal(analytics.promedioIngresosDiarios, { whole: true })}
               </div>
+              <p className="text-xs text-green-600 dark:text-green-400">{analytics.diasOperacion} días de operación</p>
             </CardContent>
           </Card>
 
@@ -295,8 +349,9 @@ export default function AnalyticsPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-red-700 dark:text-red-400">
-                ${analytics.promedioGastosDiarios.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                {formatTotal(analytics.promedioGastosDiarios, { whole: true })}
               </div>
+              <p className="text-xs text-red-600 dark:text-red-400">{analytics.diasOperacion} días de operación</p>
             </CardContent>
           </Card>
 
@@ -434,6 +489,7 @@ export default function AnalyticsPage() {
                       keys={["roi"]}
                       colors={["#8b5cf6"]}
                       indexBy="name"
+                      unit="percent"
                     />
                   </div>
                 </CardContent>
@@ -469,38 +525,25 @@ export default function AnalyticsPage() {
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="space-y-3">
-                    <div className="flex justify-between items-center p-3 bg-green-50 dark:bg-green-900/20 rounded-lg">
-                      <span className="font-medium text-green-800 dark:text-green-300">💰 Total Ingresos</span>
-                      <span className="font-bold text-green-700 dark:text-green-400">
-                        ${analytics.ingresos.toLocaleString()}
-                      </span>
-                    </div>
-                    <div className="flex justify-between items-center p-3 bg-red-50 dark:bg-red-900/20 rounded-lg">
-                      <span className="font-medium text-red-800 dark:text-red-300">💸 Total Gastos</span>
-                      <span className="font-bold text-red-700 dark:text-red-400">
-                        ${analytics.gastos.toLocaleString()}
-                      </span>
-                    </div>
-                    <div className="flex justify-between items-center p-3 bg-purple-50 dark:bg-purple-900/20 rounded-lg">
-                      <span className="font-medium text-purple-800 dark:text-purple-300">📈 Total Inversiones</span>
-                      <span className="font-bold text-purple-700 dark:text-purple-400">
-                        ${analytics.inversiones.toLocaleString()}
-                      </span>
-                    </div>
-                    <div
-                      className={`flex justify-between items-center p-3 rounded-lg ${analytics.balance >= 0 ? "bg-blue-50 dark:bg-blue-900/20" : "bg-orange-50 dark:bg-orange-900/20"}`}
-                    >
-                      <span
-                        className={`font-medium ${analytics.balance >= 0 ? "text-blue-800 dark:text-blue-300" : "text-orange-800 dark:text-orange-300"}`}
-                      >
-                        💎 Balance Neto
-                      </span>
-                      <span
-                        className={`font-bold ${analytics.balance >= 0 ? "text-blue-700 dark:text-blue-400" : "text-orange-700 dark:text-orange-400"}`}
-                      >
-                        ${analytics.balance.toLocaleString()}
-                      </span>
-                    </div>
+                    {FINANCE_METRICS.map((metric) => {
+                      const value = analytics.metrics[metric]
+                      return (
+                        <div
+                          key={metric}
+                          className={`flex justify-between items-center p-3 rounded-lg ${METRIC_STYLES[metric].row(value)}`}
+                        >
+                          <span className={`font-medium ${METRIC_STYLES[metric].label(value)}`}>
+                            {METRIC_STYLES[metric].icon} {METRIC_LABELS[metric]}
+                            <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                              {METRIC_FORMULAS[metric]}
+                            </span>
+                          </span>
+                          <span className={`font-bold ${METRIC_STYLES[metric].value(value)}`}>
+                            {formatTotal(value)}
+                          </span>
+                        </div>
+                      )
+                    })}
                   </div>
                 </CardContent>
               </Card>
@@ -518,17 +561,17 @@ export default function AnalyticsPage() {
                     <div className="grid grid-cols-2 gap-2 text-sm">
                       <div className="text-center p-2 bg-green-50 dark:bg-green-900/20 rounded">
                         <div className="font-bold text-green-600 dark:text-green-400">
-                          ${week.ingresos.toLocaleString()}
+                          {formatTotal(week.ingresos)}
                         </div>
                         <div className="text-xs text-gray-500 dark:text-gray-400">💰 Ingresos</div>
                       </div>
                       <div className="text-center p-2 bg-red-50 dark:bg-red-900/20 rounded">
-                        <div className="font-bold text-red-600 dark:text-red-400">${week.gastos.toLocaleString()}</div>
+                        <div className="font-bold text-red-600 dark:text-red-400">{formatTotal(week.gastos)}</div>
                         <div className="text-xs text-gray-500 dark:text-gray-400">💸 Gastos</div>
                       </div>
                       <div className="text-center p-2 bg-purple-50 dark:bg-purple-900/20 rounded">
                         <div className="font-bold text-purple-600 dark:text-purple-400">
-                          ${week.inversiones.toLocaleString()}
+                          {formatTotal(week.inversiones)}
                         </div>
                         <div className="text-xs text-gray-500 dark:text-gray-400">📈 Inversiones</div>
                       </div>
@@ -538,7 +581,7 @@ export default function AnalyticsPage() {
                         <div
                           className={`font-bold ${week.balance >= 0 ? "text-blue-600 dark:text-blue-400" : "text-orange-600 dark:text-orange-400"}`}
                         >
-                          ${week.balance.toLocaleString()}
+                          {formatTotal(week.balance)}
                         </div>
                         <div className="text-xs text-gray-500 dark:text-gray-400">💎 Balance</div>
                       </div>
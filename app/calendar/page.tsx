@@ -5,89 +5,85 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { ChevronLeft, ChevronRight, ArrowLeft, CalendarIcon, BarChart3 } from "lucide-react"
-import {
-  format,
-  eachDayOfInterval,
-  startOfMonth,
-  endOfMonth,
-  startOfWeek,
-  endOfWeek,
-  addMonths,
-  subMonths,
-  isSameMonth,
-  isSameDay,
-} from "date-fns"
+import { format, eachDayOfInterval, startOfMonth, endOfMonth, addMonths, subMonths, isSameMonth, isSameDay } from "date-fns"
 import { es } from "date-fns/locale"
 import Link from "next/link"
 import { useEntries } from "@/hooks/use-entries"
 import { ConnectionStatus } from "@/components/connection-status"
-import { createLocalDate, formatDateForStorage } from "@/lib/date-utils"
+import { formatDateForStorage } from "@/lib/date-utils"
 import { ThemeToggle } from "@/components/theme-toggle"
+import { UserMenu } from "@/components/user-menu"
+import { WorkspaceSwitcher } from "@/components/workspace-switcher"
 import { FinanceChart } from "@/components/finance-chart"
+import { useCurrency } from "@/components/currency-provider"
+import { EntryAmount } from "@/components/entry-amount"
+import { BusinessCalendarDialog } from "@/components/business-calendar-dialog"
+import { useBusinessCalendar } from "@/hooks/use-business-calendar"
+import { useAggregation } from "@/hooks/use-aggregation"
+import { useCategories } from "@/hooks/use-categories"
+import { useBalanceMetric } from "@/hooks/use-balance-metric"
+import { bucketOf, emptyBucket, monthKey } from "@/lib/aggregation"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useAccounts } from "@/hooks/use-accounts"
+import { useCashCloses } from "@/hooks/use-cash-closes"
+import { CashCloseDialog } from "@/components/cash-close-dialog"
+import { CashCloseHistory } from "@/components/cash-close-history"
+import {
+  WEEKDAY_SHORT_LABELS,
+  closedDateOf,
+  isOperatingDay,
+  monthGridRange,
+  orderedWeekdays,
+} from "@/lib/business-calendar"
 
 export default function CalendarPage() {
-  const { entries, loading } = useEntries()
   const [currentDate, setCurrentDate] = useState(new Date())
   const [selectedDay, setSelectedDay] = useState<Date | null>(null)
-
-  const dailyTotals = useMemo(() => {
-    const totalsByDate: { [date: string]: { ingresos: number; gastos: number; inversiones: number; entries: any[] } } =
-      {}
-
-    entries.forEach((entry) => {
-      const dateStr = formatDateForStorage(entry.date)
-      if (!totalsByDate[dateStr]) {
-        totalsByDate[dateStr] = { ingresos: 0, gastos: 0, inversiones: 0, entries: [] }
-      }
-      totalsByDate[dateStr].entries.push(entry)
-      if (entry.type === "ingreso") {
-        totalsByDate[dateStr].ingresos += entry.amount
-      } else if (entry.type === "gasto") {
-        totalsByDate[dateStr].gastos += entry.amount
-      } else if (entry.type === "inversion") {
-        totalsByDate[dateStr].inversiones += entry.amount
-      }
-    })
-
-    return totalsByDate
-  }, [entries])
-
-  const calendarDays = useMemo(() => {
-    const monthStart = startOfMonth(currentDate)
-    const monthEnd = endOfMonth(currentDate)
-    // CAMBIADO: Ahora las semanas empiezan en jueves (4)
-    const calendarStart = startOfWeek(monthStart, { weekStartsOn: 4 })
-    const calendarEnd = endOfWeek(monthEnd, { weekStartsOn: 4 })
-
-    return eachDayOfInterval({ start: calendarStart, end: calendarEnd })
-  }, [currentDate])
-
-  const selectedDayEntries = useMemo(() => {
-    if (!selectedDay) return []
-    const dateStr = formatDateForStorage(selectedDay)
-    return dailyTotals[dateStr]?.entries || []
-  }, [selectedDay, dailyTotals])
+  const calendar = useBusinessCalendar()
+
+  // Pedir al backend solo los días que muestra la cuadrícula del mes
+  const entriesQuery = useMemo(() => {
+    const grid = monthGridRange(currentDate, calendar)
+    return { from: formatDateForStorage(grid.start), to: formatDateForStorage(grid.end) }
+  }, [currentDate, calendar])
+
+  const { entries, loading, addEntry, deleteEntry } = useEntries({ query: entriesQuery })
+  const { baseCurrency, formatTotal } = useCurrency()
+  const permissions = usePermissions()
+  // Arqueos de caja; el ajuste de cada uno queda como entrada en la caja que se contó
+  const accounts = useAccounts({ refreshKey: entries })
+  const cashCloses = useCashCloses({ addEntry, deleteEntry, currency: baseCurrency })
+
+  // Totales del día en centavos, por fecha YYYY-MM-DD
+  const { isCashMovement } = useCategories()
+  const aggregation = useAggregation(entries, isCashMovement)
+  const dailyTotals = aggregation.byDay
+  const { balanceOf } = useBalanceMetric()
+
+  // Semanas completas del mes, empezando el día que empieza la semana del negocio
+  const calendarDays = useMemo(() => eachDayOfInterval(monthGridRange(currentDate, calendar)), [currentDate, calendar])
+
+  const selectedDayTotals = useMemo(
+    () => (selectedDay ? bucketOf(dailyTotals, formatDateForStorage(selectedDay)) : emptyBucket()),
+    [selectedDay, dailyTotals],
+  )
+  const selectedDayEntries = selectedDayTotals.entries
+  const selectedDayCloses = useMemo(
+    () => (selectedDay ? cashCloses.closesByDate.get(formatDateForStorage(selectedDay)) || [] : []),
+    [selectedDay, cashCloses.closesByDate],
+  )
+  // Cajas activas que aún no se cuentan ese día
+  const openCashAccounts = accounts
+    .activeAccounts()
+    .filter(
+      (account) =>
+        account.kind === "cash" && !selectedDayCloses.some((close) => close.account_id === account.id),
+    )
 
   const monthlyTotals = useMemo(() => {
-    const monthStart = startOfMonth(currentDate)
-    const monthEnd = endOfMonth(currentDate)
-
-    let ingresos = 0
-    let gastos = 0
-    let inversiones = 0
-
-    Object.entries(dailyTotals).forEach(([dateStr, totals]) => {
-      const date = createLocalDate(dateStr)
-      if (date >= monthStart && date <= monthEnd) {
-        ingresos += totals.ingresos
-        gastos += totals.gastos
-        inversiones += totals.inversiones
-      }
-    })
-
-    // El balance ahora es ingresos menos inversiones
-    return { ingresos, gastos, inversiones, balance: ingresos - inversiones }
-  }, [currentDate, dailyTotals])
+    const month = bucketOf(aggregation.byMonth, monthKey(currentDate))
+    return { ingresos: month.ingresos, gastos: month.gastos, inversiones: month.inversiones, balance: balanceOf(month) }
+  }, [currentDate, aggregation, balanceOf])
 
   // Datos para gráficos mensuales
   const chartData = useMemo(() => {
@@ -100,21 +96,21 @@ export default function CalendarPage() {
     // Crear datos para el gráfico diario
     const dailyData = daysInMonth.map((day) => {
       const dateStr = formatDateForStorage(day)
-      const dayData = dailyTotals[dateStr] || { ingresos: 0, gastos: 0, inversiones: 0 }
+      const dayData = bucketOf(dailyTotals, dateStr)
 
       return {
         name: format(day, "dd"),
         ingresos: dayData.ingresos,
         gastos: dayData.gastos,
         inversiones: dayData.inversiones,
-        balance: dayData.ingresos - dayData.inversiones,
+        balance: balanceOf(dayData),
       }
     })
 
     return {
       dailyData,
     }
-  }, [currentDate, dailyTotals])
+  }, [currentDate, dailyTotals, balanceOf])
 
   const navigateMonth = (direction: "prev" | "next") => {
     setCurrentDate((prev) => (direction === "prev" ? subMonths(prev, 1) : addMonths(prev, 1)))
@@ -123,13 +119,12 @@ export default function CalendarPage() {
 
   const getDayColor = (day: Date) => {
     const dateStr = formatDateForStorage(day)
-    const dayData = dailyTotals[dateStr]
+    const dayData = dailyTotals.get(dateStr)
 
-    if (!dayData) return "bg-white dark:bg-gray-800"
+    // Días en que no abre: gris, a menos que tengan movimientos
+    if (!dayData) return isOperatingDay(day, calendar) ? "bg-white dark:bg-gray-800" : "bg-gray-100 dark:bg-gray-900"
 
-    // El balance es ingresos menos inversiones
-    const balance = dayData.ingresos - dayData.inversiones
-    if (balance > 0) return "bg-green-50 border-green-200 dark:bg-green-900/20 dark:border-green-800"
+    if (balanceOf(dayData) > 0) return "bg-green-50 border-green-200 dark:bg-green-900/20 dark:border-green-800"
     if (dayData.inversiones > 0) return "bg-purple-50 border-purple-200 dark:bg-purple-900/20 dark:border-purple-800"
     if (dayData.gastos > 0) return "bg-red-50 border-red-200 dark:bg-red-900/20 dark:border-red-800"
     return "bg-yellow-50 border-yellow-200 dark:bg-yellow-900/20 dark:border-yellow-800"
@@ -166,7 +161,12 @@ export default function CalendarPage() {
             <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">📅 Calendario Financiero</h1>
             <ConnectionStatus />
           </div>
-          <ThemeToggle />
+          <div className="flex items-center gap-2">
+            <BusinessCalendarDialog />
+            <WorkspaceSwitcher />
+            <ThemeToggle />
+            <UserMenu />
+          </div>
         </div>
 
         {/* Monthly Summary */}
@@ -193,7 +193,7 @@ export default function CalendarPage() {
             </CardHeader>
             <CardContent>
               <div className="text-lg font-bold text-green-700 dark:text-green-400">
-                ${monthlyTotals.ingresos.toLocaleString()}
+                {formatTotal(monthlyTotals.ingresos)}
               </div>
             </CardContent>
           </Card>
@@ -204,7 +204,7 @@ export default function CalendarPage() {
             </CardHeader>
             <CardContent>
               <div className="text-lg font-bold text-red-700 dark:text-red-400">
-                ${monthlyTotals.gastos.toLocaleString()}
+                {formatTotal(monthlyTotals.gastos)}
               </div>
             </CardContent>
           </Card>
@@ -215,7 +215,7 @@ export default function CalendarPage() {
             </CardHeader>
             <CardContent>
               <div className="text-lg font-bold text-purple-700 dark:text-purple-400">
-                ${monthlyTotals.inversiones.toLocaleString()}
+                {formatTotal(monthlyTotals.inversiones)}
               </div>
             </CardContent>
           </Card>
@@ -272,10 +272,9 @@ export default function CalendarPage() {
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-7 gap-1 mb-4">
-                  {/* CAMBIADO: Ahora los días de la semana empiezan en jueves */}
-                  {["Jue", "Vie", "Sáb", "Dom", "Lun", "Mar", "Mié"].map((day) => (
-                    <div key={day} className="p-2 text-center text-sm font-medium text-gray-500 dark:text-gray-400">
-                      {day}
+                  {orderedWeekdays(calendar).map((weekday) => (
+                    <div key={weekday} className="p-2 text-center text-sm font-medium text-gray-500 dark:text-gray-400">
+                      {WEEKDAY_SHORT_LABELS[weekday]}
                     </div>
                   ))}
                 </div>
@@ -283,9 +282,11 @@ export default function CalendarPage() {
                 <div className="grid grid-cols-7 gap-1">
                   {calendarDays.map((day) => {
                     const dateStr = formatDateForStorage(day)
-                    const dayData = dailyTotals[dateStr]
+                    const dayData = dailyTotals.get(dateStr)
                     const isCurrentMonth = isSameMonth(day, currentDate)
                     const isSelected = selectedDay && isSameDay(day, selectedDay)
+                    const closed = closedDateOf(day, calendar)
+                    const dayCloses = cashCloses.closesByDate.get(dateStr)
 
                     return (
                       <button
@@ -300,22 +301,39 @@ export default function CalendarPage() {
                       >
                         <div className="text-sm font-medium mb-1 text-gray-800 dark:text-gray-100">
                           {format(day, "d")}
+                          {closed && (
+                            <span className="ml-1" title={closed.reason || "Cerrado"}>
+                              🚫
+                            </span>
+                          )}
+                          {dayCloses && (
+                            <span
+                              className="ml-1"
+                              title={
+                                dayCloses.some((close) => close.difference !== 0)
+                                  ? "Caja cerrada con diferencia"
+                                  : "Caja cerrada, cuadró"
+                              }
+                            >
+                              {dayCloses.some((close) => close.difference !== 0) ? "🔐" : "🔒"}
+                            </span>
+                          )}
                         </div>
                         {dayData && (
                           <div className="space-y-1">
                             {dayData.ingresos > 0 && (
                               <div className="text-xs text-green-600 dark:text-green-400 font-medium">
-                                💰 +${dayData.ingresos.toLocaleString()}
+                                💰 +{formatTotal(dayData.ingresos)}
                               </div>
                             )}
                             {dayData.gastos > 0 && (
                               <div className="text-xs text-red-600 dark:text-red-400 font-medium">
-                                💸 -${dayData.gastos.toLocaleString()}
+                                💸 -{formatTotal(dayData.gastos)}
                               </div>
                             )}
                             {dayData.inversiones > 0 && (
                               <div className="text-xs text-purple-600 dark:text-purple-400 font-medium">
-                                📈 -${dayData.inversiones.toLocaleString()}
+                                📈 -{formatTotal(dayData.inversiones)}
                               </div>
                             )}
                           </div>
@@ -341,6 +359,11 @@ export default function CalendarPage() {
               <CardContent>
                 {selectedDay ? (
                   <div className="space-y-4">
+                    {!isOperatingDay(selectedDay, calendar) && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        🚫 {closedDateOf(selectedDay, calendar)?.reason || "El negocio no abre este día"}
+                      </p>
+                    )}
                     {selectedDayEntries.length === 0 ? (
                       <p className="text-gray-500 dark:text-gray-400 text-center py-4">No hay movimientos este día</p>
                     ) : (
@@ -371,6 +394,11 @@ export default function CalendarPage() {
                                 <div>
                                   <p className="text-sm font-medium text-gray-800 dark:text-gray-100">
                                     {entry.category}
+                                    {isCashMovement(entry) && (
+                                      <span className="ml-1 text-xs font-normal text-teal-600 dark:text-teal-400">
+                                        🔄
+                                      </span>
+                                    )}
                                   </p>
                                   {entry.description && (
                                     <p className="text-xs text-gray-500 dark:text-gray-400">{entry.description}</p>
@@ -380,7 +408,7 @@ export default function CalendarPage() {
                               <span
                                 className={`text-sm font-bold ${entry.type === "ingreso" ? "text-green-600 dark:text-green-400" : entry.type === "gasto" ? "text-red-600 dark:text-red-400" : "text-purple-600 dark:text-purple-400"}`}
                               >
-                                ${entry.amount.toLocaleString()}
+                                <EntryAmount entry={entry} />
                               </span>
                             </div>
                           ))}
@@ -390,36 +418,64 @@ export default function CalendarPage() {
                           <div className="grid grid-cols-2 gap-2 text-sm">
                             <div className="p-2 bg-green-50 dark:bg-green-900/20 rounded">
                               <div className="font-bold text-green-600 dark:text-green-400">
-                                ${(dailyTotals[format(selectedDay, "yyyy-MM-dd")]?.ingresos || 0).toLocaleString()}
+                                {formatTotal(selectedDayTotals.ingresos)}
                               </div>
                               <div className="text-xs text-gray-500 dark:text-gray-400">💰 Ingresos</div>
                             </div>
                             <div className="p-2 bg-red-50 dark:bg-red-900/20 rounded">
                               <div className="font-bold text-red-600 dark:text-red-400">
-                                ${(dailyTotals[format(selectedDay, "yyyy-MM-dd")]?.gastos || 0).toLocaleString()}
+                                {formatTotal(selectedDayTotals.gastos)}
                               </div>
                               <div className="text-xs text-gray-500 dark:text-gray-400">💸 Gastos</div>
                             </div>
                             <div className="p-2 bg-purple-50 dark:bg-purple-900/20 rounded">
                               <div className="font-bold text-purple-600 dark:text-purple-400">
-                                ${(dailyTotals[format(selectedDay, "yyyy-MM-dd")]?.inversiones || 0).toLocaleString()}
+                                {formatTotal(selectedDayTotals.inversiones)}
                               </div>
                               <div className="text-xs text-gray-500 dark:text-gray-400">📈 Inversiones</div>
                             </div>
                             <div className="p-2 bg-blue-50 dark:bg-blue-900/20 rounded">
                               <div className="font-bold text-blue-600 dark:text-blue-400">
-                                $
-                                {(
-                                  (dailyTotals[format(selectedDay, "yyyy-MM-dd")]?.ingresos || 0) -
-                                  (dailyTotals[format(selectedDay, "yyyy-MM-dd")]?.inversiones || 0)
-                                ).toLocaleString()}
+                                {formatTotal(balanceOf(selectedDayTotals))}
                               </div>
                               <div className="text-xs text-gray-500 dark:text-gray-400">💎 Balance</div>
                             </div>
                           </div>
+                          {(selectedDayTotals.movimientosEntrada > 0 || selectedDayTotals.movimientosSalida > 0) && (
+                            <p className="mt-2 text-xs text-teal-700 dark:text-teal-400">
+                              🔄 Movimientos de caja (fuera de resultados): entraron{" "}
+                              {formatTotal(selectedDayTotals.movimientosEntrada)} · salieron{" "}
+                              {formatTotal(selectedDayTotals.movimientosSalida)}
+                            </p>
+                          )}
                         </div>
                       </>
                     )}
+
+                    <div className="border-t pt-3 space-y-2 dark:border-gray-600">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-gray-800 dark:text-gray-100">🧮 Arqueo de caja</span>
+                        {permissions.canCreate && openCashAccounts.length > 0 && (
+                          <CashCloseDialog
+                            date={formatDateForStorage(selectedDay)}
+                            entries={selectedDayEntries}
+                            cashAccounts={openCashAccounts}
+                            defaultAccountId={accounts.defaultAccountId}
+                            closes={cashCloses.closes}
+                            onClose={cashCloses.closeDay}
+                          />
+                        )}
+                      </div>
+                      {selectedDayCloses.length === 0 ? (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">Sin arqueo este día</p>
+                      ) : (
+                        <CashCloseHistory
+                          closes={selectedDayCloses}
+                          getAccount={accounts.getAccount}
+                          onReopen={permissions.canReopenCashClose ? cashCloses.reopen : undefined}
+                        />
+                      )}
+                    </div>
                   </div>
                 ) : (
                   <p className="text-gray-500 dark:text-gray-400 text-center py-8">
@@ -452,6 +508,14 @@ export default function CalendarPage() {
                     <div className="w-4 h-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded"></div>
                     <span className="text-gray-700 dark:text-gray-300">Balance negativo</span>
                   </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 bg-gray-100 dark:bg-gray-900 border rounded dark:border-gray-700"></div>
+                    <span className="text-gray-700 dark:text-gray-300">No abre (🚫 día cerrado)</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="w-4 text-center">🔒</span>
+                    <span className="text-gray-700 dark:text-gray-300">Caja cerrada (🔐 con sobrante o faltante)</span>
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -0,0 +1,354 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertCircle, ArrowDown, ArrowLeft, ArrowUp, CheckCircle2, History, Plus } from "lucide-react"
+import { ThemeToggle } from "@/components/theme-toggle"
+import { UserMenu } from "@/components/user-menu"
+import { WorkspaceSwitcher } from "@/components/workspace-switcher"
+import { CategoryMergeDialog } from "@/components/category-merge-dialog"
+import { useCategories } from "@/hooks/use-categories"
+import { format } from "date-fns"
+import { es } from "date-fns/locale"
+import { usePermissions } from "@/hooks/use-permissions"
+import {
+  CATEGORY_COLOR_CLASSES,
+  CATEGORY_COLOR_NAMES,
+  categoryColorClasses,
+  sortCategories,
+  type CategoryColor,
+  type EntryType,
+} from "@/lib/categories"
+
+const TYPE_LABELS: Record<EntryType, string> = {
+  gasto: "💸 Gastos",
+  ingreso: "💰 Ingresos",
+  inversion: "📈 Inversiones",
+}
+
+const COLORS = Object.keys(CATEGORY_COLOR_CLASSES) as CategoryColor[]
+
+function ColorSelect({ value, onChange }: { value: CategoryColor; onChange: (color: CategoryColor) => void }) {
+  return (
+    <Select value={value} onValueChange={(color: CategoryColor) => onChange(color)}>
+      <SelectTrigger className="w-[150px] dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+        {COLORS.map((color) => (
+          <SelectItem key={color} value={color}>
+            <Badge className={`${CATEGORY_COLOR_CLASSES[color]} text-xs`}>{CATEGORY_COLOR_NAMES[color]}</Badge>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+export default function CategoriesPage() {
+  const { categories, changes, loading, error, createCategory, updateCategory, moveCategory, mergeCategory } =
+    useCategories()
+  const permissions = usePermissions()
+  const [activeType, setActiveType] = useState<EntryType>("gasto")
+  const [newCategory, setNewCategory] = useState({ name: "", icon: "", color: "gray" as CategoryColor })
+  const [isSaving, setIsSaving] = useState(false)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  // Ejecutar un cambio mostrando el error de la base de datos si falla
+  const run = async (action: () => Promise<unknown>) => {
+    setActionError(null)
+    try {
+      await action()
+    } catch (err) {
+      console.error("❌ Error guardando categoría:", err)
+      setActionError(`No se pudo guardar: ${(err as { message?: string })?.message || err}`)
+    }
+  }
+
+  const handleMerge = async (type: EntryType, from: string, to: string) => {
+    setNotice(null)
+    const affected = await mergeCategory(type, from, to)
+    setNotice(`"${from}" → "${to}": ${affected} entrada${affected !== 1 ? "s" : ""} actualizada${affected !== 1 ? "s" : ""}`)
+  }
+
+  const handleCreate = async () => {
+    const name = newCategory.name.trim()
+    if (!name || isSaving) return
+    if (categories.some((category) => category.type === activeType && category.name.toLowerCase() === name.toLowerCase())) {
+      setActionError(`Ya existe la categoría "${name}"`)
+      return
+    }
+
+    setIsSaving(true)
+    await run(async () => {
+      await createCategory({ type: activeType, name, icon: newCategory.icon.trim(), color: newCategory.color })
+      setNewCategory({ name: "", icon: "", color: "gray" })
+    })
+    setIsSaving(false)
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4 flex items-center justify-center">
+        <Card className="w-full max-w-md dark:bg-gray-800/50 dark:border-gray-700">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-center space-x-2">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 dark:border-blue-400"></div>
+              <span className="text-gray-800 dark:text-gray-100">Cargando categorías...</span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="flex items-center gap-2 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Volver al Dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">🏷️ Categorías</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <WorkspaceSwitcher />
+            <ThemeToggle />
+            <UserMenu />
+          </div>
+        </div>
+
+        {(error || actionError) && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error || actionError}</AlertDescription>
+          </Alert>
+        )}
+
+        {notice && (
+          <Alert className="bg-green-50 border-green-200 dark:bg-green-900/20 dark:border-green-800">
+            <CheckCircle2 className="h-4 w-4 text-green-600" />
+            <AlertDescription className="text-green-800 dark:text-green-200">{notice}</AlertDescription>
+          </Alert>
+        )}
+
+        {!permissions.canManageCategories && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Solo el dueño o el encargado pueden modificar las categorías.</AlertDescription>
+          </Alert>
+        )}
+
+        <Tabs value={activeType} onValueChange={(value) => setActiveType(value as EntryType)} className="space-y-4">
+          <TabsList className="grid w-full grid-cols-3 dark:bg-gray-800">
+            {(Object.keys(TYPE_LABELS) as EntryType[]).map((type) => (
+              <TabsTrigger key={type} value={type} className="dark:text-gray-200 dark:data-[state=active]:bg-gray-700">
+                {TYPE_LABELS[type]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          {(Object.keys(TYPE_LABELS) as EntryType[]).map((type) => {
+            const ofType = sortCategories(categories.filter((category) => category.type === type))
+            return (
+              <TabsContent key={type} value={type} className="space-y-4">
+                {permissions.canManageCategories && (
+                  <Card className="dark:bg-gray-800/50 dark:border-gray-700">
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2 dark:text-gray-100">
+                        <Plus className="w-5 h-5" />
+                        Nueva categoría
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="flex flex-wrap items-end gap-3">
+                        <div className="space-y-2 w-20">
+                          <Label htmlFor={`icon-${type}`} className="dark:text-gray-200">
+                            Ícono
+                          </Label>
+                          <Input
+                            id={`icon-${type}`}
+                            value={newCategory.icon}
+                            onChange={(e) => setNewCategory({ ...newCategory, icon: e.target.value })}
+                            placeholder="🌮"
+                            maxLength={4}
+                            className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                          />
+                        </div>
+                        <div className="space-y-2 flex-1 min-w-[160px]">
+                          <Label htmlFor={`name-${type}`} className="dark:text-gray-200">
+                            Nombre
+                          </Label>
+                          <Input
+                            id={`name-${type}`}
+                            value={newCategory.name}
+                            onChange={(e) => setNewCategory({ ...newCategory, name: e.target.value })}
+                            onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+                            placeholder="Ej. Tortillas"
+                            className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label className="dark:text-gray-200">Color</Label>
+                          <ColorSelect
+                            value={newCategory.color}
+                            onChange={(color) => setNewCategory({ ...newCategory, color })}
+                          />
+                        </div>
+                        <Button onClick={handleCreate} disabled={isSaving || !newCategory.name.trim()}>
+                          {isSaving ? "Guardando..." : "➕ Agregar"}
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                <Card className="dark:bg-gray-800/50 dark:border-gray-700">
+                  <CardContent className="pt-6 space-y-2">
+                    {ofType.length === 0 ? (
+                      <p className="text-gray-500 dark:text-gray-400 text-center py-8">No hay categorías de este tipo</p>
+                    ) : (
+                      ofType.map((category, index) => (
+                        <div
+                          key={category.id}
+                          className={`flex flex-wrap items-center justify-between gap-2 p-3 rounded-lg border dark:border-gray-700 ${category.archived ? "opacity-60" : ""}`}
+                        >
+                          <div className="flex items-center gap-2">
+                            <Badge className={`${categoryColorClasses(category)} text-sm`}>
+                              {category.icon} {category.name}
+                            </Badge>
+                            {category.archived && (
+                              <span className="text-xs text-gray-500 dark:text-gray-400">Archivada</span>
+                            )}
+                            {category.cash_movement && (
+                              <span className="text-xs text-teal-600 dark:text-teal-400">🔄 Movimiento de caja</span>
+                            )}
+                          </div>
+                          {permissions.canManageCategories && (
+                            <div className="flex items-center gap-2">
+                              <Input
+                                defaultValue={category.icon}
+                                onBlur={(e) =>
+                                  e.target.value !== category.icon &&
+                                  run(() => updateCategory(category.id, { icon: e.target.value.trim() }))
+                                }
+                                maxLength={4}
+                                aria-label="Ícono"
+                                className="w-16 h-9 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                              />
+                              <ColorSelect
+                                value={category.color}
+                                onChange={(color) => run(() => updateCategory(category.id, { color }))}
+                              />
+                              <CategoryMergeDialog
+                                category={category}
+                                siblings={ofType.filter((sibling) => sibling.id !== category.id)}
+                                onMerge={handleMerge}
+                              />
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={index === 0}
+                                onClick={() => run(() => moveCategory(category.id, -1))}
+                              >
+                                <ArrowUp className="w-4 h-4" />
+                                <span className="sr-only">Subir</span>
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={index === ofType.length - 1}
+                                onClick={() => run(() => moveCategory(category.id, 1))}
+                              >
+                                <ArrowDown className="w-4 h-4" />
+                                <span className="sr-only">Bajar</span>
+                              </Button>
+                              <div
+                                className="flex items-center gap-1"
+                                title="Mueve efectivo sin ser ingreso ni gasto (p. ej. el cambio de la caja)"
+                              >
+                                <Switch
+                                  id={`cash-movement-${category.id}`}
+                                  checked={category.cash_movement}
+                                  onCheckedChange={(checked) =>
+                                    run(() => updateCategory(category.id, { cash_movement: checked }))
+                                  }
+                                />
+                                <Label htmlFor={`cash-movement-${category.id}`} className="text-xs dark:text-gray-300">
+                                  Movimiento de caja
+                                </Label>
+                              </div>
+                              <div className="flex items-center gap-1">
+                                <Switch
+                                  id={`archived-${category.id}`}
+                                  checked={!category.archived}
+                                  onCheckedChange={(active) =>
+                                    run(() => updateCategory(category.id, { archived: !active }))
+                                  }
+                                />
+                                <Label htmlFor={`archived-${category.id}`} className="text-xs dark:text-gray-300">
+                                  Activa
+                                </Label>
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      ))
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            )
+          })}
+        </Tabs>
+
+        {/* Historial de renombrados y fusiones */}
+        <Card className="dark:bg-gray-800/50 dark:border-gray-700">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 dark:text-gray-100">
+              <History className="w-5 h-5" />
+              Historial de cambios
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {changes.length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400 text-center py-4">Aún no se ha renombrado ninguna categoría</p>
+            ) : (
+              changes.map((change) => (
+                <div
+                  key={change.id}
+                  className="flex flex-wrap items-center justify-between gap-2 text-sm p-2 rounded border dark:border-gray-700"
+                >
+                  <span className="dark:text-gray-200">
+                    {change.kind === "merge" ? "🔀 Fusión" : "✏️ Renombrado"} · {TYPE_LABELS[change.type]}: "
+                    {change.from_name}" → "{change.to_name}"
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {change.entries_affected} entrada{change.entries_affected !== 1 ? "s" : ""} ·{" "}
+                    {format(new Date(change.created_at), "d MMM yyyy HH:mm", { locale: es })}
+                  </span>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,263 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertCircle, ArrowLeft, Plus, Trash2 } from "lucide-react"
+import { ThemeToggle } from "@/components/theme-toggle"
+import { UserMenu } from "@/components/user-menu"
+import { WorkspaceSwitcher } from "@/components/workspace-switcher"
+import { useWorkspace } from "@/components/workspace-provider"
+import { useCurrency } from "@/components/currency-provider"
+import { usePermissions } from "@/hooks/use-permissions"
+import { COMMON_CURRENCIES, CURRENCY_NAMES, isValidCurrencyCode } from "@/lib/exchange-rates"
+import { formatDateForDisplay, getCurrentDateString } from "@/lib/date-utils"
+
+// Acepta coma decimal ("17,25"); el tipo de cambio no es un monto, admite más de dos decimales
+function parseRate(input: string): number | null {
+  const value = Number(input.trim().replace(",", "."))
+  return Number.isFinite(value) && value > 0 ? value : null
+}
+
+export default function CurrenciesPage() {
+  const { setBaseCurrency } = useWorkspace()
+  const { baseCurrency, rates, saveRate, removeRate } = useCurrency()
+  const permissions = usePermissions()
+  const [newRate, setNewRate] = useState({ currency: "USD", date: getCurrentDateString(), rate: "" })
+  const [isSaving, setIsSaving] = useState(false)
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  // Agrupados por moneda, del más reciente al más antiguo
+  const ratesByCurrency = useMemo(() => {
+    const groups: { [currency: string]: typeof rates } = {}
+    rates.forEach((rate) => {
+      if (!groups[rate.currency]) groups[rate.currency] = []
+      groups[rate.currency].push(rate)
+    })
+    Object.values(groups).forEach((group) => group.sort((a, b) => b.date.localeCompare(a.date)))
+    return groups
+  }, [rates])
+
+  const run = async (action: () => Promise<unknown>) => {
+    setActionError(null)
+    try {
+      await action()
+    } catch (err) {
+      console.error("❌ Error guardando moneda:", err)
+      setActionError(`No se pudo guardar: ${(err as { message?: string })?.message || err}`)
+    }
+  }
+
+  const handleSaveRate = async () => {
+    const currency = newRate.currency.trim().toUpperCase()
+    const rate = parseRate(newRate.rate)
+    if (isSaving) return
+    if (!isValidCurrencyCode(currency)) {
+      setActionError("La moneda debe ser un código de tres letras (p. ej. USD)")
+      return
+    }
+    if (currency === baseCurrency) {
+      setActionError(`${currency} ya es la moneda base`)
+      return
+    }
+    if (rate === null || !newRate.date) {
+      setActionError("Indica una fecha y un tipo de cambio mayor que cero")
+      return
+    }
+
+    setIsSaving(true)
+    await run(async () => {
+      await saveRate({ currency, date: newRate.date, rate })
+      setNewRate({ ...newRate, rate: "" })
+    })
+    setIsSaving(false)
+  }
+
+  const baseOptions = Array.from(new Set([baseCurrency, ...COMMON_CURRENCIES]))
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="flex items-center gap-2 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Volver al Dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">💱 Monedas</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <WorkspaceSwitcher />
+            <ThemeToggle />
+            <UserMenu />
+          </div>
+        </div>
+
+        {actionError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{actionError}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Moneda base */}
+        <Card className="dark:bg-gray-800/50 dark:border-gray-700">
+          <CardHeader>
+            <CardTitle className="dark:text-gray-100">Moneda base</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Todos los totales se muestran en esta moneda. Las entradas en otra moneda se convierten con el tipo de
+              cambio de su fecha.
+            </p>
+            <Select
+              value={baseCurrency}
+              onValueChange={(currency) => run(() => setBaseCurrency(currency))}
+              disabled={!permissions.canManageWorkspace}
+            >
+              <SelectTrigger className="w-[260px] dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                {baseOptions.map((currency) => (
+                  <SelectItem key={currency} value={currency}>
+                    {currency} {CURRENCY_NAMES[currency] ? `· ${CURRENCY_NAMES[currency]}` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!permissions.canManageWorkspace && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">Solo el dueño puede cambiar la moneda base.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Captura de tipos de cambio */}
+        {permissions.canManageExchangeRates && (
+          <Card className="dark:bg-gray-800/50 dark:border-gray-700">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 dark:text-gray-100">
+                <Plus className="w-5 h-5" />
+                Tipo de cambio
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="rate-currency" className="dark:text-gray-200">
+                    Moneda
+                  </Label>
+                  <Input
+                    id="rate-currency"
+                    list="rate-currency-options"
+                    value={newRate.currency}
+                    maxLength={3}
+                    onChange={(e) => setNewRate({ ...newRate, currency: e.target.value.toUpperCase() })}
+                    className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                  />
+                  <datalist id="rate-currency-options">
+                    {COMMON_CURRENCIES.filter((currency) => currency !== baseCurrency).map((currency) => (
+                      <option key={currency} value={currency} />
+                    ))}
+                  </datalist>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rate-date" className="dark:text-gray-200">
+                    Fecha
+                  </Label>
+                  <Input
+                    id="rate-date"
+                    type="date"
+                    value={newRate.date}
+                    onChange={(e) => setNewRate({ ...newRate, date: e.target.value })}
+                    className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rate-value" className="dark:text-gray-200">
+                    {baseCurrency} por 1 {newRate.currency || "…"}
+                  </Label>
+                  <Input
+                    id="rate-value"
+                    type="text"
+                    inputMode="decimal"
+                    placeholder="17.25"
+                    value={newRate.rate}
+                    onChange={(e) => setNewRate({ ...newRate, rate: e.target.value })}
+                    className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                  />
+                </div>
+                <Button onClick={handleSaveRate} disabled={isSaving}>
+                  {isSaving ? "Guardando..." : "💾 Guardar"}
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Cada entrada usa el último tipo de cambio capturado hasta su fecha. Si guardas otro para la misma moneda
+                y fecha, se reemplaza.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Historial por moneda */}
+        <Card className="dark:bg-gray-800/50 dark:border-gray-700">
+          <CardHeader>
+            <CardTitle className="dark:text-gray-100">Tipos de cambio capturados</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {Object.keys(ratesByCurrency).length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400 text-center py-4">
+                Aún no hay tipos de cambio. Las entradas en otra moneda se cuentan 1 a 1.
+              </p>
+            ) : (
+              Object.entries(ratesByCurrency).map(([currency, list]) => (
+                <div key={currency} className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="dark:border-gray-600 dark:text-gray-200">
+                      {currency}
+                    </Badge>
+                    <span className="text-sm text-gray-600 dark:text-gray-400">{CURRENCY_NAMES[currency]}</span>
+                  </div>
+                  {list.map((rate) => (
+                    <div
+                      key={rate.id}
+                      className="flex items-center justify-between text-sm p-2 rounded border dark:border-gray-700"
+                    >
+                      <span className="dark:text-gray-200">{formatDateForDisplay(rate.date)}</span>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium dark:text-gray-100">
+                          1 {currency} = {rate.rate} {baseCurrency}
+                        </span>
+                        {permissions.canManageExchangeRates && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => run(() => removeRate(rate.id))}
+                            title="Eliminar"
+                            className="text-red-600 hover:text-red-800 dark:text-red-400"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -45,6 +45,7 @@ export default function DiagnosticPage() {
   amount DECIMAL(12,2) NOT NULL,
   date DATE NOT NULL,
   description TEXT,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -52,9 +53,7 @@ export default function DiagnosticPage() {
 -- Habilitar Row Level Security (RLS)
 ALTER TABLE entries ENABLE ROW LEVEL SECURITY;
 
--- Crear política para permitir todas las operaciones
-CREATE POLICY "Allow all operations on entries" ON entries
-  FOR ALL USING (true) WITH CHECK (true);`}
+-- Las políticas por usuario están en scripts/create-tables.sql`}
             </pre>
           </div>
 
@@ -64,11 +63,15 @@ CREATE POLICY "Allow all operations on entries" ON entries
             <ol className="list-decimal pl-5 space-y-1">
               <li>Ve a Authentication &gt; Policies en Supabase</li>
               <li>Selecciona la tabla "entries"</li>
-              <li>Asegúrate de que exista una política que permita operaciones sin autenticación</li>
               <li>
-                Si no existe, crea una nueva política con "For all operations" y "Using expression" y "With check
-                expression" ambos configurados como "true"
+                Deben existir políticas para el rol "authenticated" con la expresión{" "}
+                <code className="bg-gray-100 px-1 py-0.5 rounded">owner_id = auth.uid()</code>
               </li>
+              <li>
+                Si la tabla tenía la política abierta "Allow all operations on entries", ejecuta{" "}
+                <code className="bg-gray-100 px-1 py-0.5 rounded">scripts/enable-auth.sql</code> para quitarla
+              </li>
+              <li>Sin sesión iniciada las consultas no devuelven filas: entra primero desde el dashboard</li>
             </ol>
           </div>
         </div>
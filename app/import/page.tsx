@@ -0,0 +1,96 @@
+"use client"
+
+import Link from "next/link"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { AlertCircle, ArrowLeft, FileUp, History, Landmark, Receipt } from "lucide-react"
+import { ThemeToggle } from "@/components/theme-toggle"
+import { UserMenu } from "@/components/user-menu"
+import { WorkspaceSwitcher } from "@/components/workspace-switcher"
+import { CsvImport } from "@/components/csv-import"
+import { StatementImport } from "@/components/statement-import"
+import { InvoiceImport } from "@/components/invoice-import"
+import { BackupRestore } from "@/components/backup-restore"
+import { usePermissions } from "@/hooks/use-permissions"
+
+export default function ImportPage() {
+  const permissions = usePermissions()
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="flex items-center gap-2 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Volver al Dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">📥 Importar</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <WorkspaceSwitcher />
+            <ThemeToggle />
+            <UserMenu />
+          </div>
+        </div>
+
+        {!permissions.canImport ? (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Solo el dueño o el encargado pueden importar entradas.</AlertDescription>
+          </Alert>
+        ) : (
+          <Tabs defaultValue="csv" className="space-y-6">
+            <TabsList className="grid w-full h-auto grid-cols-2 md:grid-cols-4 dark:bg-gray-800">
+              <TabsTrigger
+                value="csv"
+                className="flex items-center gap-2 dark:text-gray-200 dark:data-[state=active]:bg-gray-700"
+              >
+                <FileUp className="w-4 h-4" />
+                CSV
+              </TabsTrigger>
+              <TabsTrigger
+                value="bank"
+                className="flex items-center gap-2 dark:text-gray-200 dark:data-[state=active]:bg-gray-700"
+              >
+                <Landmark className="w-4 h-4" />
+                Estado de cuenta
+              </TabsTrigger>
+              <TabsTrigger
+                value="cfdi"
+                className="flex items-center gap-2 dark:text-gray-200 dark:data-[state=active]:bg-gray-700"
+              >
+                <Receipt className="w-4 h-4" />
+                Facturas CFDI
+              </TabsTrigger>
+              <TabsTrigger
+                value="backup"
+                className="flex items-center gap-2 dark:text-gray-200 dark:data-[state=active]:bg-gray-700"
+              >
+                <History className="w-4 h-4" />
+                Restaurar respaldo
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="csv">
+              <CsvImport />
+            </TabsContent>
+            <TabsContent value="bank">
+              <StatementImport />
+            </TabsContent>
+            <TabsContent value="cfdi">
+              <InvoiceImport />
+            </TabsContent>
+            <TabsContent value="backup">
+              <BackupRestore />
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+    </div>
+  )
+}
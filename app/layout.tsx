@@ -2,6 +2,9 @@ import type React from "react"
 import type { Metadata } from "next"
 import "./globals.css"
 import { ThemeProvider } from "@/components/theme-provider"
+import { AuthProvider, AuthGate } from "@/components/auth-provider"
+import { WorkspaceProvider } from "@/components/workspace-provider"
+import { CurrencyProvider } from "@/components/currency-provider"
 
 export const metadata: Metadata = {
   title: "v0 App",
@@ -18,7 +21,13 @@ export default function RootLayout({
     <html lang="es" suppressHydrationWarning>
       <body>
         <ThemeProvider attribute="class" defaultTheme="light" enableSystem disableTransitionOnChange>
-          {children}
+          <AuthProvider>
+            <AuthGate>
+              <WorkspaceProvider>
+                <CurrencyProvider>{children}</CurrencyProvider>
+              </WorkspaceProvider>
+            </AuthGate>
+          </AuthProvider>
         </ThemeProvider>
       </body>
     </html>
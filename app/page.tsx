@@ -23,63 +23,142 @@ import {
   PieChart,
   Target,
   LineChart,
+  Tags,
+  Coins,
+  Repeat,
+  FileUp,
 } from "lucide-react"
-import {
-  format,
-  isWithinInterval,
-  startOfWeek,
-  endOfWeek,
-  eachWeekOfInterval,
-  eachMonthOfInterval,
-  startOfYear,
-  endOfYear,
-  startOfMonth,
-  endOfMonth,
-} from "date-fns"
+import { format, eachMonthOfInterval, subWeeks } from "date-fns"
 import { es } from "date-fns/locale"
 import Link from "next/link"
 import { useEntries } from "@/hooks/use-entries"
+import { useEntrySummary } from "@/hooks/use-entry-summary"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useCategories } from "@/hooks/use-categories"
+import { useRecurring } from "@/hooks/use-recurring"
+import { useBudgets } from "@/hooks/use-budgets"
 import { ConnectionStatus } from "@/components/connection-status"
 import { RealtimeStatus } from "@/components/realtime-status"
-import type { Entry } from "@/lib/supabase"
+import { currenciesWithoutRate, entriesService, summarizeEntries, type Entry } from "@/lib/storage"
+import { loadEntries } from "@/lib/import/preview"
 import { EditEntryDialog } from "@/components/edit-entry-dialog"
+import { AttachmentThumbnails } from "@/components/entry-attachments"
+import { embedAttachments } from "@/lib/attachments"
 import { DateDisplay } from "@/components/date-display"
 import { ThemeToggle } from "@/components/theme-toggle"
-import { formatDateForStorage, getCurrentDateString, createLocalDate } from "@/lib/date-utils"
+import { UserMenu } from "@/components/user-menu"
+import { WorkspaceSwitcher } from "@/components/workspace-switcher"
+import { formatDateForStorage, formatDateForDisplay, getCurrentDateString, createLocalDate } from "@/lib/date-utils"
+import { fromCents, parseMoney, percentOf, type Cents } from "@/lib/money"
+import { useCurrency } from "@/components/currency-provider"
+import { CurrencySelect } from "@/components/currency-select"
+import { EntryAmount } from "@/components/entry-amount"
 import { FinanceChart } from "@/components/finance-chart"
-
+import { SyncStatusBadge } from "@/components/sync-status-badge"
+import { ExportMenu } from "@/components/export-menu"
+import { BUDGET_PERIOD_LABELS, budgetProgress } from "@/lib/budgets"
+import {
+  describeOperatingDays,
+  fiscalYearRange,
+  operatingSpan,
+  workWeekRange,
+} from "@/lib/business-calendar"
+import { useBusinessCalendar } from "@/hooks/use-business-calendar"
+import { useAggregation } from "@/hooks/use-aggregation"
+import { useBalanceMetric } from "@/hooks/use-balance-metric"
+import { BalanceMetricDialog } from "@/components/balance-metric-dialog"
+import { useAccounts } from "@/hooks/use-accounts"
+import { AccountsOverview } from "@/components/accounts-overview"
+import { isTransfer } from "@/lib/accounts"
+import { aggregateSummaryRows, bucketOf, monthKey, weekKey } from "@/lib/aggregation"
+
+// Totales en centavos por nombre de categoría
 interface CategoryTotals {
-  [key: string]: number
+  [key: string]: Cents
 }
 
-const CATEGORIES = {
-  gasto: ["Carne", "Agua", "Gas", "Salarios", "Insumos", "Transporte", "Servicios", "Refresco", "Otros", "Cambio"],
-  ingreso: ["Efectivo", "Transferencia", "Ventas", "Servicios", "Otros", "Cambio"],
-  inversion: ["Acciones", "Bonos", "Criptomonedas", "Bienes Raíces", "Negocio", "Otros"],
-}
+// Semanas que se agregan a la lista cada vez que se piden semanas anteriores
+const WEEKS_PER_PAGE = 8
 
 export default function ExpenseIncomeManager() {
-  const { entries, loading, error, addEntry, deleteEntry, updateEntry, refetch } = useEntries()
+  const [weeksToShow, setWeeksToShow] = useState(WEEKS_PER_PAGE)
+  const calendar = useBusinessCalendar()
+
+  // Ventana cargada: lo que pide la lista de semanas o, como mínimo, el año fiscal en curso (tendencias anuales)
+  const entriesQuery = useMemo(() => {
+    const now = new Date()
+    const weeksStart = workWeekRange(subWeeks(now, weeksToShow - 1), calendar).start
+    const yearStart = fiscalYearRange(now, calendar).start
+    return { from: formatDateForStorage(weeksStart < yearStart ? weeksStart : yearStart) }
+  }, [weeksToShow, calendar])
+
+  const {
+    entries,
+    loading,
+    fetching,
+    error,
+    addEntry,
+    deleteEntry,
+    updateEntry,
+    refetch,
+    getSyncState,
+    pendingCount,
+    failedCount,
+    retryFailed,
+    discardFailed,
+  } = useEntries({ query: entriesQuery })
+  const permissions = usePermissions()
+  const { namesFor, getCategory, isCashMovement } = useCategories()
+  // Entradas recurrentes: las automáticas se generan solas, el resto espera confirmación
+  const recurring = useRecurring({ addEntry, autoGenerate: permissions.canManageRecurring })
+  // Totales históricos calculados en el backend (la lista solo tiene la ventana cargada)
+  const { baseCurrency, conversion, toBaseCents, formatTotal } = useCurrency()
+  const summary = useEntrySummary({ conversion, refreshKey: entries })
+  // Si el backend no puede resumir (p. ej. falta la función SQL), usar lo cargado
+  const summaryRows = useMemo(
+    () => (summary.error ? summarizeEntries(entries, {}, conversion) : summary.rows),
+    [summary.error, summary.rows, entries, conversion],
+  )
+  // Categorías que ya pasaron su presupuesto en la semana de trabajo o el mes en curso
+  const { budgets } = useBudgets()
+  const overBudget = useMemo(
+    () => [
+      ...budgetProgress(budgets, entries, "work_week", toBaseCents, calendar, isCashMovement),
+      ...budgetProgress(budgets, entries, "month", toBaseCents, calendar, isCashMovement),
+    ].filter((progress) => progress.over),
+    [budgets, entries, toBaseCents, calendar, isCashMovement],
+  )
+  // Monedas capturadas sin tipo de cambio: sus montos se cuentan 1 a 1
+  const missingRates = useMemo(() => currenciesWithoutRate(entries, conversion), [entries, conversion])
+  // Saldos de Caja, Banco, Tarjeta...; se recalculan cuando cambian las entradas
+  const accounts = useAccounts({ refreshKey: entries })
   const [newEntry, setNewEntry] = useState({
     type: "gasto" as "gasto" | "ingreso" | "inversion",
     category: "",
     amount: "",
+    currency: baseCurrency,
     date: getCurrentDateString(),
     description: "",
+    // Vacía = la cuenta predeterminada (la caja)
+    account_id: "",
   })
   const [isSubmitting, setIsSubmitting] = useState(false)
 
   const handleAddEntry = async () => {
-    if (!newEntry.category || !newEntry.amount || isSubmitting) return
+    const cents = parseMoney(newEntry.amount)
+    if (!newEntry.category || cents === null || cents <= 0 || isSubmitting) return
 
     setIsSubmitting(true)
     try {
+      const accountId = newEntry.account_id || accounts.defaultAccountId
       const entryData: Omit<Entry, "id" | "created_at" | "updated_at"> = {
         type: newEntry.type,
         category: newEntry.category,
-        amount: Number.parseFloat(newEntry.amount),
+        amount: fromCents(cents),
+        currency: newEntry.currency,
         date: formatDateForStorage(newEntry.date),
         description: newEntry.description || undefined,
+        ...(accountId ? { account_id: accountId } : {}),
       }
 
       const result = await addEntry(entryData)
@@ -88,8 +167,10 @@ export default function ExpenseIncomeManager() {
           type: "gasto",
           category: "",
           amount: "",
+          currency: newEntry.currency,
           date: getCurrentDateString(),
           description: "",
+          account_id: newEntry.account_id,
         })
       }
     } finally {
@@ -97,121 +178,110 @@ export default function ExpenseIncomeManager() {
     }
   }
 
+  // Los comprobantes se borran cuando el backend confirma el borrado (ver useEntries)
   const handleDeleteEntry = async (id: string) => {
     if (!id) return
     await deleteEntry(id)
   }
 
-  const exportData = () => {
-    const dataStr = JSON.stringify(entries, null, 2)
-    const dataBlob = new Blob([dataStr], { type: "application/json" })
-    const url = URL.createObjectURL(dataBlob)
-    const link = document.createElement("a")
-    link.href = url
-    link.download = `gastos-ingresos-${format(new Date(), "yyyy-MM-dd")}.json`
-    link.click()
-    URL.revokeObjectURL(url)
+  // Respaldo completo del negocio (no solo la ventana cargada); se restaura en 📥 Importar
+  const [isExporting, setIsExporting] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+  const exportData = async () => {
+    if (isExporting) return
+    setIsExporting(true)
+    setExportError(null)
+    try {
+      // Los comprobantes viajan dentro del respaldo para poder restaurarlos en otro equipo
+      const allEntries = await embedAttachments(await loadEntries(entriesService))
+      const dataStr = JSON.stringify(allEntries, null, 2)
+      const dataBlob = new Blob([dataStr], { type: "application/json" })
+      const url = URL.createObjectURL(dataBlob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `gastos-ingresos-${format(new Date(), "yyyy-MM-dd")}.json`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error("❌ Error exportando datos:", err)
+      setExportError("No se pudo exportar: verifica la conexión")
+    } finally {
+      setIsExporting(false)
+    }
   }
 
+  // Totales históricos por tipo y categoría, del resumen del backend
+  const summaryAggregation = useMemo(
+    () => aggregateSummaryRows(summaryRows, isCashMovement),
+    [summaryRows, isCashMovement],
+  )
+  // Entradas cargadas agrupadas por día, semana de trabajo y mes en una sola pasada
+  const aggregation = useAggregation(entries, isCashMovement)
+  // Todos los balances usan la métrica que eligió el negocio
+  const balanceMetric = useBalanceMetric()
+  const { balanceOf } = balanceMetric
+
   // Calculate totals
   const totals = useMemo(() => {
-    const gastos = entries.filter((e) => e.type === "gasto").reduce((sum, e) => sum + e.amount, 0)
-    const ingresos = entries.filter((e) => e.type === "ingreso").reduce((sum, e) => sum + e.amount, 0)
-    const inversiones = entries.filter((e) => e.type === "inversion").reduce((sum, e) => sum + e.amount, 0)
-    // El balance ahora es ingresos menos inversiones
-    const balance = ingresos - inversiones
-    return { gastos, ingresos, inversiones, balance }
-  }, [entries])
+    const { ingresos, gastos, inversiones, count } = summaryAggregation.totals
+    return { gastos, ingresos, inversiones, balance: balanceOf(summaryAggregation.totals), count }
+  }, [summaryAggregation, balanceOf])
 
   // Calculate current week totals
   const currentWeekTotals = useMemo(() => {
-    const now = new Date()
-    // La semana comienza el jueves (4) y termina el domingo
-    const weekStart = startOfWeek(now, { weekStartsOn: 4 })
-    const weekEnd = new Date(weekStart)
-    weekEnd.setDate(weekStart.getDate() + 3) // 4 días: jueves, viernes, sábado, domingo
-
-    const currentWeekEntries = entries.filter((entry) => {
-      const entryDate = createLocalDate(entry.date)
-      return isWithinInterval(entryDate, { start: weekStart, end: weekEnd })
-    })
-
-    const gastos = currentWeekEntries.filter((e) => e.type === "gasto").reduce((sum, e) => sum + e.amount, 0)
-    const ingresos = currentWeekEntries.filter((e) => e.type === "ingreso").reduce((sum, e) => sum + e.amount, 0)
-    const inversiones = currentWeekEntries.filter((e) => e.type === "inversion").reduce((sum, e) => sum + e.amount, 0)
-    const balance = ingresos - inversiones
+    const week = workWeekRange(new Date(), calendar)
+    // Se cuentan los siete días; el título muestra los días de operación
+    const span = operatingSpan(week.start, calendar)
+    const weekTotals = bucketOf(aggregation.byWeek, weekKey(week.start, calendar))
 
     return {
-      gastos,
-      ingresos,
-      inversiones,
-      balance,
-      period: `${format(weekStart, "d MMM", { locale: es })} - ${format(weekEnd, "d MMM", { locale: es })}`,
+      gastos: weekTotals.gastos,
+      ingresos: weekTotals.ingresos,
+      inversiones: weekTotals.inversiones,
+      balance: balanceOf(weekTotals),
+      movimientosEntrada: weekTotals.movimientosEntrada,
+      movimientosSalida: weekTotals.movimientosSalida,
+      period: `${format(span.start, "d MMM", { locale: es })} - ${format(span.end, "d MMM", { locale: es })}`,
     }
-  }, [entries])
+  }, [aggregation, calendar, balanceOf])
 
   // Calculate category totals
   const categoryTotals = useMemo(() => {
-    const gastoTotals: CategoryTotals = {}
-    const ingresoTotals: CategoryTotals = {}
-    const inversionTotals: CategoryTotals = {}
-
-    entries.forEach((entry) => {
-      if (entry.type === "gasto") {
-        gastoTotals[entry.category] = (gastoTotals[entry.category] || 0) + entry.amount
-      } else if (entry.type === "ingreso") {
-        ingresoTotals[entry.category] = (ingresoTotals[entry.category] || 0) + entry.amount
-      } else if (entry.type === "inversion") {
-        inversionTotals[entry.category] = (inversionTotals[entry.category] || 0) + entry.amount
-      }
-    })
-
-    return { gastos: gastoTotals, ingresos: ingresoTotals, inversiones: inversionTotals }
-  }, [entries])
-
-  // Group entries by week - Semanas de trabajo (jueves a domingo)
-  const entriesByWeek = useMemo(() => {
-    if (entries.length === 0) return []
-
-    // Get the date range of all entries
-    const dates = entries.map((entry) => createLocalDate(entry.date))
-    const minDate = new Date(Math.min(...dates.map((d) => d.getTime())))
-    const maxDate = new Date(Math.max(...dates.map((d) => d.getTime())))
-
-    // Get all weeks in the range - Semanas empiezan en jueves (4)
-    const weeks = eachWeekOfInterval(
-      { start: startOfWeek(minDate, { weekStartsOn: 4 }), end: endOfWeek(maxDate, { weekStartsOn: 4 }) },
-      { weekStartsOn: 4 },
-    )
-
-    return weeks
-      .map((weekStart) => {
-        // La semana de trabajo es de jueves a domingo (4 días)
-        const weekEnd = new Date(weekStart)
-        weekEnd.setDate(weekStart.getDate() + 3)
-
-        const weekEntries = entries.filter((entry) => {
-          const entryDate = createLocalDate(entry.date)
-          return isWithinInterval(entryDate, { start: weekStart, end: weekEnd })
-        })
-
-        const weekIngresos = weekEntries.filter((e) => e.type === "ingreso").reduce((sum, e) => sum + e.amount, 0)
-        const weekGastos = weekEntries.filter((e) => e.type === "gasto").reduce((sum, e) => sum + e.amount, 0)
-        const weekInversiones = weekEntries.filter((e) => e.type === "inversion").reduce((sum, e) => sum + e.amount, 0)
-
+    const totalsOf = (type: Entry["type"]): CategoryTotals =>
+      Object.fromEntries(summaryAggregation.categories[type].map((category) => [category.category, category.total]))
+    return { gastos: totalsOf("gasto"), ingresos: totalsOf("ingreso"), inversiones: totalsOf("inversion") }
+  }, [summaryAggregation])
+
+  // Agrupar por semana de trabajo del calendario del negocio
+  const entriesByWeek = useMemo(
+    () =>
+      Array.from(aggregation.byWeek, ([key, week]) => {
+        const { start: weekStart, end: weekEnd } = workWeekRange(createLocalDate(key), calendar)
         return {
           weekStart,
           weekEnd,
-          entries: weekEntries.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
-          ingresos: weekIngresos,
-          gastos: weekGastos,
-          inversiones: weekInversiones,
-          balance: weekIngresos - weekInversiones,
+          // Días de operación de la semana, para el título
+          span: operatingSpan(weekStart, calendar),
+          entries: [...week.entries].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+          ingresos: week.ingresos,
+          gastos: week.gastos,
+          inversiones: week.inversiones,
+          balance: balanceOf(week),
         }
-      })
-      .filter((week) => week.entries.length > 0)
-      .sort((a, b) => b.weekStart.getTime() - a.weekStart.getTime())
-  }, [entries])
+      }).sort((a, b) => b.weekStart.getTime() - a.weekStart.getTime()),
+    [aggregation, calendar, balanceOf],
+  )
+
+  // Exportar lo que muestra la lista de semanas, con su primer y último día en el nombre del archivo
+  const weeksExport = useMemo(() => {
+    if (entriesByWeek.length === 0) return { entries: [], fileName: "entradas" }
+    const first = entriesByWeek[entriesByWeek.length - 1].weekStart
+    const last = entriesByWeek[0].weekEnd
+    return {
+      entries: entriesByWeek.flatMap((week) => week.entries),
+      fileName: `entradas-${formatDateForStorage(first)}-a-${formatDateForStorage(last)}`,
+    }
+  }, [entriesByWeek])
 
   // Datos para gráficos de pie
   const chartData = useMemo(() => {
@@ -254,29 +324,11 @@ export default function ExpenseIncomeManager() {
 
   // Datos para gráficos de línea por mes
   const monthlyChartData = useMemo(() => {
-    const now = new Date()
-    const yearStart = startOfYear(now)
-    const yearEnd = endOfYear(now)
-
-    // Obtener todos los meses del año
-    const months = eachMonthOfInterval({ start: yearStart, end: yearEnd })
+    // Los meses del año fiscal en curso
+    const months = eachMonthOfInterval(fiscalYearRange(new Date(), calendar))
 
-    // Inicializar datos mensuales
     const monthlyData = months.map((month) => {
-      const monthStart = startOfMonth(month)
-      const monthEnd = endOfMonth(month)
-
-      // Filtrar entradas del mes
-      const monthEntries = entries.filter((entry) => {
-        const entryDate = createLocalDate(entry.date)
-        return isWithinInterval(entryDate, { start: monthStart, end: monthEnd })
-      })
-
-      // Calcular totales por tipo
-      const ingresos = monthEntries.filter((e) => e.type === "ingreso").reduce((sum, e) => sum + e.amount, 0)
-      const gastos = monthEntries.filter((e) => e.type === "gasto").reduce((sum, e) => sum + e.amount, 0)
-      const inversiones = monthEntries.filter((e) => e.type === "inversion").reduce((sum, e) => sum + e.amount, 0)
-
+      const { ingresos, gastos, inversiones } = bucketOf(aggregation.byMonth, monthKey(month))
       return {
         month: format(month, "MMM", { locale: es }),
         ingresos,
@@ -306,7 +358,7 @@ export default function ExpenseIncomeManager() {
       gastosData,
       inversionesData,
     }
-  }, [entries])
+  }, [aggregation, calendar])
 
   if (loading) {
     return (
@@ -334,16 +386,72 @@ export default function ExpenseIncomeManager() {
               <ConnectionStatus />
               <RealtimeStatus />
             </div>
+            <WorkspaceSwitcher />
             <ThemeToggle />
+            <UserMenu />
           </div>
           <p className="text-gray-600 dark:text-gray-300">
             Controla tus finanzas e inversiones de manera eficiente - Sincronizado en tiempo real
           </p>
 
-          {error && (
+          {(error || exportError) && (
             <Alert variant="destructive" className="max-w-md mx-auto">
               <AlertCircle className="h-4 w-4" />
-              <AlertDescription>{error}</AlertDescription>
+              <AlertDescription>{error || exportError}</AlertDescription>
+            </Alert>
+          )}
+
+          {(pendingCount > 0 || failedCount > 0) && (
+            <Alert className="max-w-md mx-auto bg-yellow-50 border-yellow-200 dark:bg-yellow-900/20 dark:border-yellow-800">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription className="flex items-center justify-between gap-2">
+                <span>
+                  {pendingCount > 0 && `${pendingCount} cambio(s) pendiente(s) de sincronizar. `}
+                  {failedCount > 0 && `${failedCount} con error.`}
+                </span>
+                {failedCount > 0 && (
+                  <Button variant="outline" size="sm" onClick={() => retryFailed()}>
+                    Reintentar
+                  </Button>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {recurring.autoGenerated > 0 && (
+            <Alert className="max-w-md mx-auto bg-green-50 border-green-200 dark:bg-green-900/20 dark:border-green-800">
+              <Repeat className="h-4 w-4" />
+              <AlertDescription>
+                Se registraron {recurring.autoGenerated} entrada(s) recurrente(s) automáticamente.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {overBudget.length > 0 && (
+            <Alert variant="destructive" className="max-w-md mx-auto">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                <span className="font-medium">Presupuesto excedido: </span>
+                {overBudget
+                  .map(
+                    ({ budget, spent, limit }) =>
+                      `${budget.category} (${BUDGET_PERIOD_LABELS[budget.period].toLowerCase()}: ${formatTotal(spent)} de ${formatTotal(limit)})`,
+                  )
+                  .join(", ")}
+                .{" "}
+                <Link href="/reports/" className="underline">
+                  Ver presupuestos
+                </Link>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {missingRates.length > 0 && (
+            <Alert className="max-w-md mx-auto bg-yellow-50 border-yellow-200 dark:bg-yellow-900/20 dark:border-yellow-800">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Sin tipo de cambio para {missingRates.join(", ")}: esos montos se cuentan como {baseCurrency}.
+              </AlertDescription>
             </Alert>
           )}
 
@@ -366,14 +474,52 @@ export default function ExpenseIncomeManager() {
             >
               <Target className="w-4 h-4" />🎯 Análisis Avanzado
             </Link>
-            <Button
-              onClick={exportData}
-              variant="outline"
-              size="sm"
-              className="flex items-center gap-2 dark:border-gray-600 dark:text-gray-200"
-            >
-              <Download className="w-4 h-4" />💾 Exportar Datos
-            </Button>
+            {permissions.canManageCategories && (
+              <Link
+                href="/categories/"
+                className="text-orange-600 hover:text-orange-800 dark:text-orange-400 dark:hover:text-orange-300 font-medium flex items-center gap-2"
+              >
+                <Tags className="w-4 h-4" />🏷️ Categorías
+              </Link>
+            )}
+            {permissions.canManageExchangeRates && (
+              <Link
+                href="/currencies/"
+                className="text-teal-600 hover:text-teal-800 dark:text-teal-400 dark:hover:text-teal-300 font-medium flex items-center gap-2"
+              >
+                <Coins className="w-4 h-4" />💱 Monedas
+              </Link>
+            )}
+            {permissions.canManageRecurring && (
+              <Link
+                href="/recurring/"
+                className="text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300 font-medium flex items-center gap-2"
+              >
+                <Repeat className="w-4 h-4" />🔁 Recurrentes
+              </Link>
+            )}
+            {permissions.canImport && (
+              <Link
+                href="/import/"
+                className="text-cyan-600 hover:text-cyan-800 dark:text-cyan-400 dark:hover:text-cyan-300 font-medium flex items-center gap-2"
+              >
+                <FileUp className="w-4 h-4" />📥 Importar
+              </Link>
+            )}
+            {permissions.canExport && (
+              <ExportMenu entries={weeksExport.entries} fileName={weeksExport.fileName} />
+            )}
+            {permissions.canExport && (
+              <Button
+                onClick={exportData}
+                disabled={isExporting}
+                variant="outline"
+                size="sm"
+                className="flex items-center gap-2 dark:border-gray-600 dark:text-gray-200"
+              >
+                <Download className="w-4 h-4" />💾 Exportar Datos
+              </Button>
+            )}
           </div>
         </div>
 
@@ -388,7 +534,7 @@ export default function ExpenseIncomeManager() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-green-700 dark:text-green-400">
-                ${totals.ingresos.toLocaleString()}
+                {formatTotal(totals.ingresos)}
               </div>
             </CardContent>
           </Card>
@@ -399,7 +545,7 @@ export default function ExpenseIncomeManager() {
               <TrendingDown className="h-4 w-4 text-red-600 dark:text-red-400" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-red-700 dark:text-red-400">${totals.gastos.toLocaleString()}</div>
+              <div className="text-2xl font-bold text-red-700 dark:text-red-400">{formatTotal(totals.gastos)}</div>
             </CardContent>
           </Card>
 
@@ -410,7 +556,7 @@ export default function ExpenseIncomeManager() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-purple-700 dark:text-purple-400">
-                ${totals.inversiones.toLocaleString()}
+                {formatTotal(totals.inversiones)}
               </div>
             </CardContent>
           </Card>
@@ -422,27 +568,42 @@ export default function ExpenseIncomeManager() {
               <CardTitle
                 className={`text-sm font-medium ${totals.balance >= 0 ? "text-blue-800 dark:text-blue-300" : "text-orange-800 dark:text-orange-300"}`}
               >
-                💎 Balance Neto
+                💎 Balance
               </CardTitle>
-              <DollarSign
-                className={`h-4 w-4 ${totals.balance >= 0 ? "text-blue-600 dark:text-blue-400" : "text-orange-600 dark:text-orange-400"}`}
-              />
+              <div className="flex items-center gap-1">
+                <BalanceMetricDialog
+                  className={totals.balance >= 0 ? "text-blue-600 dark:text-blue-400" : "text-orange-600 dark:text-orange-400"}
+                />
+                <DollarSign
+                  className={`h-4 w-4 ${totals.balance >= 0 ? "text-blue-600 dark:text-blue-400" : "text-orange-600 dark:text-orange-400"}`}
+                />
+              </div>
             </CardHeader>
             <CardContent>
               <div
                 className={`text-2xl font-bold ${totals.balance >= 0 ? "text-blue-700 dark:text-blue-400" : "text-orange-700 dark:text-orange-400"}`}
               >
-                ${totals.balance.toLocaleString()}
+                {formatTotal(totals.balance)}
               </div>
+              <p className="text-xs text-gray-600 dark:text-gray-400">
+                {balanceMetric.label}: {balanceMetric.formula}
+              </p>
             </CardContent>
           </Card>
         </div>
 
+        <AccountsOverview
+          balances={accounts.balances}
+          onTransfer={permissions.canCreate ? addEntry : undefined}
+          onCreate={permissions.canManageAccounts ? accounts.createAccount : undefined}
+          onUpdate={permissions.canManageAccounts ? accounts.updateAccount : undefined}
+        />
+
         {/* Current Week Summary */}
         <Card className="bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 dark:border-blue-800">
           <CardHeader>
             <CardTitle className="text-gray-800 dark:text-gray-100">
-              📅 Semana Actual: {currentWeekTotals.period} (Jue-Dom)
+              📅 Semana Actual: {currentWeekTotals.period} ({describeOperatingDays(calendar)})
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -450,21 +611,21 @@ export default function ExpenseIncomeManager() {
               <div className="bg-green-50 dark:bg-green-900/20 p-4 rounded-lg border border-green-200 dark:border-green-800">
                 <div className="text-sm text-green-800 dark:text-green-300 mb-1">💰 Ingresos</div>
                 <div className="text-xl font-bold text-green-700 dark:text-green-400">
-                  ${currentWeekTotals.ingresos.toLocaleString()}
+                  {formatTotal(currentWeekTotals.ingresos)}
                 </div>
               </div>
 
               <div className="bg-red-50 dark:bg-red-900/20 p-4 rounded-lg border border-red-200 dark:border-red-800">
                 <div className="text-sm text-red-800 dark:text-red-300 mb-1">💸 Gastos</div>
                 <div className="text-xl font-bold text-red-700 dark:text-red-400">
-                  ${currentWeekTotals.gastos.toLocaleString()}
+                  {formatTotal(currentWeekTotals.gastos)}
                 </div>
               </div>
 
               <div className="bg-purple-50 dark:bg-purple-900/20 p-4 rounded-lg border border-purple-200 dark:border-purple-800">
                 <div className="text-sm text-purple-800 dark:text-purple-300 mb-1">📈 Inversiones</div>
                 <div className="text-xl font-bold text-purple-700 dark:text-purple-400">
-                  ${currentWeekTotals.inversiones.toLocaleString()}
+                  {formatTotal(currentWeekTotals.inversiones)}
                 </div>
               </div>
 
@@ -491,115 +652,206 @@ export default function ExpenseIncomeManager() {
                       : "text-orange-700 dark:text-orange-400"
                   }`}
                 >
-                  ${currentWeekTotals.balance.toLocaleString()}
+                  {formatTotal(currentWeekTotals.balance)}
                 </div>
               </div>
             </div>
+            {(currentWeekTotals.movimientosEntrada > 0 || currentWeekTotals.movimientosSalida > 0) && (
+              <p className="mt-3 text-sm text-teal-700 dark:text-teal-400">
+                🔄 Movimientos de caja (fuera de resultados): entraron {formatTotal(currentWeekTotals.movimientosEntrada)}{" "}
+                · salieron {formatTotal(currentWeekTotals.movimientosSalida)}
+              </p>
+            )}
           </CardContent>
         </Card>
 
-        {/* Add New Entry Form */}
-        <Card className="dark:bg-gray-800/50 dark:border-gray-700">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2 dark:text-gray-100">
-              <Plus className="w-5 h-5" />➕ Agregar Nueva Entrada
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="type" className="dark:text-gray-200">
-                  Tipo
-                </Label>
-                <Select
-                  value={newEntry.type}
-                  onValueChange={(value: "gasto" | "ingreso" | "inversion") =>
-                    setNewEntry({ ...newEntry, type: value, category: "" })
-                  }
-                  disabled={isSubmitting}
+        {/* Recurrentes pendientes de confirmar */}
+        {permissions.canManageRecurring && recurring.pending.length > 0 && (
+          <Card className="border-indigo-200 dark:bg-gray-800/50 dark:border-indigo-800">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="flex items-center gap-2 dark:text-gray-100">
+                <Repeat className="w-5 h-5" />🔁 Recurrentes pendientes
+              </CardTitle>
+              <Button size="sm" onClick={() => recurring.generate(recurring.pending)}>
+                Generar todas
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {recurring.pending.map((occurrence) => (
+                <div
+                  key={`${occurrence.rule.id}-${occurrence.date}`}
+                  className="flex items-center justify-between gap-2 p-2 rounded border dark:border-gray-700"
                 >
-                  <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
-                    <SelectItem value="gasto">💸 Gasto</SelectItem>
-                    <SelectItem value="ingreso">💰 Ingreso</SelectItem>
-                    <SelectItem value="inversion">📈 Inversión</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-gray-600 dark:text-gray-400">{formatDateForDisplay(occurrence.date)}</span>
+                    <span className="font-medium dark:text-gray-100">{occurrence.rule.category}</span>
+                    <EntryAmount entry={{ ...occurrence.rule, date: occurrence.date }} />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        // Las anteriores de la misma regla van primero, para no saltarlas
+                        recurring.generate(
+                          recurring.pending.filter(
+                            (other) => other.rule.id === occurrence.rule.id && other.date <= occurrence.date,
+                          ),
+                        )
+                      }
+                      className="dark:border-gray-600 dark:text-gray-200"
+                    >
+                      Generar
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => recurring.skip(occurrence.rule)}
+                      title="Omitir las pendientes de esta regla"
+                    >
+                      Omitir
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
 
-              <div className="space-y-2">
-                <Label htmlFor="category" className="dark:text-gray-200">
-                  Categoría
-                </Label>
-                <Select
-                  value={newEntry.category}
-                  onValueChange={(value) => setNewEntry({ ...newEntry, category: value })}
-                  disabled={isSubmitting}
-                >
-                  <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
-                    <SelectValue placeholder="Seleccionar categoría" />
-                  </SelectTrigger>
-                  <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
-                    {CATEGORIES[newEntry.type].map((category) => (
-                      <SelectItem key={category} value={category}>
-                        {category}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+        {/* Add New Entry Form */}
+        {permissions.canCreate && (
+          <Card className="dark:bg-gray-800/50 dark:border-gray-700">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 dark:text-gray-100">
+                <Plus className="w-5 h-5" />➕ Agregar Nueva Entrada
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="type" className="dark:text-gray-200">
+                    Tipo
+                  </Label>
+                  <Select
+                    value={newEntry.type}
+                    onValueChange={(value: "gasto" | "ingreso" | "inversion") =>
+                      setNewEntry({ ...newEntry, type: value, category: "" })
+                    }
+                    disabled={isSubmitting}
+                  >
+                    <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                      <SelectItem value="gasto">💸 Gasto</SelectItem>
+                      <SelectItem value="ingreso">💰 Ingreso</SelectItem>
+                      <SelectItem value="inversion">📈 Inversión</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="amount" className="dark:text-gray-200">
-                  Monto
-                </Label>
-                <Input
-                  id="amount"
-                  type="number"
-                  placeholder="0.00"
-                  value={newEntry.amount}
-                  onChange={(e) => setNewEntry({ ...newEntry, amount: e.target.value })}
-                  disabled={isSubmitting}
-                  className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
-                />
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="category" className="dark:text-gray-200">
+                    Categoría
+                  </Label>
+                  <Select
+                    value={newEntry.category}
+                    onValueChange={(value) => setNewEntry({ ...newEntry, category: value })}
+                    disabled={isSubmitting}
+                  >
+                    <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                      <SelectValue placeholder="Seleccionar categoría" />
+                    </SelectTrigger>
+                    <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                      {namesFor(newEntry.type).map((category) => (
+                        <SelectItem key={category} value={category}>
+                          {getCategory(newEntry.type, category)?.icon} {category}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="date" className="dark:text-gray-200">
-                  Fecha
-                </Label>
-                <Input
-                  id="date"
-                  type="date"
-                  value={newEntry.date}
-                  onChange={(e) => setNewEntry({ ...newEntry, date: e.target.value })}
-                  disabled={isSubmitting}
-                  className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
-                />
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="account" className="dark:text-gray-200">
+                    Cuenta
+                  </Label>
+                  <Select
+                    value={newEntry.account_id || accounts.defaultAccountId || ""}
+                    onValueChange={(value) => setNewEntry({ ...newEntry, account_id: value })}
+                    disabled={isSubmitting}
+                  >
+                    <SelectTrigger id="account" className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                      <SelectValue placeholder="Seleccionar cuenta" />
+                    </SelectTrigger>
+                    <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                      {accounts.activeAccounts().map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.icon} {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="description" className="dark:text-gray-200">
-                  Descripción
-                </Label>
-                <Input
-                  id="description"
-                  placeholder="Opcional"
-                  value={newEntry.description}
-                  onChange={(e) => setNewEntry({ ...newEntry, description: e.target.value })}
-                  disabled={isSubmitting}
-                  className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
-                />
+                <div className="space-y-2">
+                  <Label htmlFor="amount" className="dark:text-gray-200">
+                    Monto
+                  </Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="amount"
+                      type="text"
+                      inputMode="decimal"
+                      placeholder="0.00"
+                      value={newEntry.amount}
+                      onChange={(e) => setNewEntry({ ...newEntry, amount: e.target.value })}
+                      disabled={isSubmitting}
+                      className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                    />
+                    <CurrencySelect
+                      value={newEntry.currency}
+                      onChange={(currency) => setNewEntry({ ...newEntry, currency })}
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="date" className="dark:text-gray-200">
+                    Fecha
+                  </Label>
+                  <Input
+                    id="date"
+                    type="date"
+                    value={newEntry.date}
+                    onChange={(e) => setNewEntry({ ...newEntry, date: e.target.value })}
+                    disabled={isSubmitting}
+                    className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="description" className="dark:text-gray-200">
+                    Descripción
+                  </Label>
+                  <Input
+                    id="description"
+                    placeholder="Opcional"
+                    value={newEntry.description}
+                    onChange={(e) => setNewEntry({ ...newEntry, description: e.target.value })}
+                    disabled={isSubmitting}
+                    className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                  />
+                </div>
               </div>
-            </div>
 
-            <Button onClick={handleAddEntry} className="w-full md:w-auto" disabled={isSubmitting}>
-              {isSubmitting ? "Agregando..." : "➕ Agregar Entrada"}
-            </Button>
-          </CardContent>
-        </Card>
+              <Button onClick={handleAddEntry} className="w-full md:w-auto" disabled={isSubmitting}>
+                {isSubmitting ? "Agregando..." : "➕ Agregar Entrada"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
 
         {/* Tabs for different views */}
         <Tabs defaultValue="entries" className="space-y-4">
@@ -622,7 +874,9 @@ export default function ExpenseIncomeManager() {
             <Card className="dark:bg-gray-800/50 dark:border-gray-700">
               <CardHeader>
                 <div className="flex items-center justify-between">
-                  <CardTitle className="dark:text-gray-100">📋 Entradas por Semana ({entries.length} total)</CardTitle>
+                  <CardTitle className="dark:text-gray-100">
+                    📋 Entradas por Semana ({entries.length} de {Math.max(totals.count, entries.length)})
+                  </CardTitle>
                   <Button
                     onClick={() => refetch()}
                     variant="outline"
@@ -645,8 +899,8 @@ export default function ExpenseIncomeManager() {
                         <div className="flex flex-col md:flex-row md:items-center justify-between p-4 bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-900/20 dark:to-purple-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
                           <div>
                             <h3 className="font-semibold text-gray-800 dark:text-gray-100">
-                              📅 {format(week.weekStart, "d MMM", { locale: es })} -{" "}
-                              {format(week.weekEnd, "d MMM yyyy", { locale: es })} (Jue-Dom)
+                              📅 {format(week.span.start, "d MMM", { locale: es })} -{" "}
+                              {format(week.span.end, "d MMM yyyy", { locale: es })} ({describeOperatingDays(calendar)})
                             </h3>
                             <p className="text-sm text-gray-600 dark:text-gray-300">
                               {week.entries.length} movimiento{week.entries.length !== 1 ? "s" : ""}
@@ -655,19 +909,19 @@ export default function ExpenseIncomeManager() {
                           <div className="flex flex-wrap gap-4 text-sm mt-2 md:mt-0">
                             <div className="text-center">
                               <div className="text-green-600 dark:text-green-400 font-bold">
-                                💰 +${week.ingresos.toLocaleString()}
+                                💰 +{formatTotal(week.ingresos)}
                               </div>
                               <div className="text-xs text-gray-500 dark:text-gray-400">Ingresos</div>
                             </div>
                             <div className="text-center">
                               <div className="text-red-600 dark:text-red-400 font-bold">
-                                💸 -${week.gastos.toLocaleString()}
+                                💸 -{formatTotal(week.gastos)}
                               </div>
                               <div className="text-xs text-gray-500 dark:text-gray-400">Gastos</div>
                             </div>
                             <div className="text-center">
                               <div className="text-purple-600 dark:text-purple-400 font-bold">
-                                📈 -${week.inversiones.toLocaleString()}
+                                📈 -{formatTotal(week.inversiones)}
                               </div>
                               <div className="text-xs text-gray-500 dark:text-gray-400">Inversiones</div>
                             </div>
@@ -675,7 +929,7 @@ export default function ExpenseIncomeManager() {
                               <div
                                 className={`font-bold ${week.balance >= 0 ? "text-blue-600 dark:text-blue-400" : "text-orange-600 dark:text-orange-400"}`}
                               >
-                                💎 ${week.balance.toLocaleString()}
+                                💎 {formatTotal(week.balance)}
                               </div>
                               <div className="text-xs text-gray-500 dark:text-gray-400">Balance</div>
                             </div>
@@ -713,11 +967,34 @@ export default function ExpenseIncomeManager() {
                                       : "💸 Gasto"}
                                 </Badge>
                                 <div className="flex-1">
-                                  <p className="font-medium text-gray-800 dark:text-gray-100">{entry.category}</p>
+                                  <p className="font-medium text-gray-800 dark:text-gray-100">
+                                    {entry.category}
+                                    {isTransfer(entry) ? (
+                                      <span className="ml-2 text-xs font-normal text-teal-600 dark:text-teal-400">
+                                        🔄 {accounts.getAccount(entry.account_id)?.name} →{" "}
+                                        {accounts.getAccount(entry.transfer_account_id)?.name}
+                                      </span>
+                                    ) : (
+                                      accounts.accounts.length > 0 && (
+                                        <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                                          {accounts.getAccount(entry.account_id)?.icon}{" "}
+                                          {accounts.getAccount(entry.account_id)?.name}
+                                        </span>
+                                      )
+                                    )}
+                                    {isCashMovement(entry) && !isTransfer(entry) && (
+                                      <span className="ml-2 text-xs font-normal text-teal-600 dark:text-teal-400">
+                                        🔄 Movimiento de caja
+                                      </span>
+                                    )}
+                                  </p>
                                   {entry.description && (
                                     <p className="text-sm text-gray-500 dark:text-gray-400">{entry.description}</p>
                                   )}
                                 </div>
+                                {entry.attachments && entry.attachments.length > 0 && (
+                                  <AttachmentThumbnails attachments={entry.attachments} />
+                                )}
                               </div>
 
                               <div className="flex items-center justify-between md:justify-end w-full md:w-auto gap-2 mt-2 md:mt-0">
@@ -730,18 +1007,33 @@ export default function ExpenseIncomeManager() {
                                         : "text-red-600 dark:text-red-400"
                                   }`}
                                 >
-                                  ${entry.amount.toLocaleString()}
+                                  <EntryAmount entry={entry} />
                                 </span>
-                                <div className="flex gap-1">
-                                  <EditEntryDialog entry={entry} onUpdate={updateEntry} />
-                                  <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    onClick={() => entry.id && handleDeleteEntry(entry.id)}
-                                    className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
-                                  >
-                                    <Trash2 className="w-4 h-4" />
-                                  </Button>
+                                <div className="flex items-center gap-1">
+                                  <SyncStatusBadge
+                                    state={getSyncState(entry.id)}
+                                    onRetry={() => retryFailed()}
+                                    onDiscard={() => entry.id && discardFailed(entry.id)}
+                                  />
+                                  {permissions.canModify(entry) && (
+                                    <>
+                                      <EditEntryDialog
+                                        entry={entry}
+                                        onUpdate={updateEntry}
+                                        categoryNames={namesFor}
+                                        minDate={permissions.minEditDate}
+                                        accounts={accounts.accounts}
+                                      />
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => entry.id && handleDeleteEntry(entry.id)}
+                                        className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                                      >
+                                        <Trash2 className="w-4 h-4" />
+                                      </Button>
+                                    </>
+                                  )}
                                 </div>
                               </div>
                             </div>
@@ -750,6 +1042,19 @@ export default function ExpenseIncomeManager() {
                       </div>
                     ))
                   )}
+                  {(summary.error || totals.count > entries.length) && (
+                    <div className="flex justify-center">
+                      <Button
+                        onClick={() => setWeeksToShow((weeks) => weeks + WEEKS_PER_PAGE)}
+                        variant="outline"
+                        size="sm"
+                        disabled={fetching}
+                        className="dark:border-gray-600 dark:text-gray-200"
+                      >
+                        {fetching ? "Cargando..." : "⏬ Cargar semanas anteriores"}
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -772,10 +1077,10 @@ export default function ExpenseIncomeManager() {
                         <div className="flex justify-between">
                           <span className="text-sm font-medium dark:text-gray-200">{category}</span>
                           <span className="text-sm font-bold text-red-600 dark:text-red-400">
-                            ${amount.toLocaleString()}
+                            {formatTotal(amount)}
                           </span>
                         </div>
-                        <Progress value={totals.gastos > 0 ? (amount / totals.gastos) * 100 : 0} className="h-2" />
+                        <Progress value={percentOf(amount, totals.gastos)} className="h-2" />
                       </div>
                     ))
                   )}
@@ -797,10 +1102,10 @@ export default function ExpenseIncomeManager() {
                         <div className="flex justify-between">
                           <span className="text-sm font-medium dark:text-gray-200">{category}</span>
                           <span className="text-sm font-bold text-green-600 dark:text-green-400">
-                            ${amount.toLocaleString()}
+                            {formatTotal(amount)}
                           </span>
                         </div>
-                        <Progress value={totals.ingresos > 0 ? (amount / totals.ingresos) * 100 : 0} className="h-2" />
+                        <Progress value={percentOf(amount, totals.ingresos)} className="h-2" />
                       </div>
                     ))
                   )}
@@ -822,11 +1127,11 @@ export default function ExpenseIncomeManager() {
                         <div className="flex justify-between">
                           <span className="text-sm font-medium dark:text-gray-200">{category}</span>
                           <span className="text-sm font-bold text-purple-600 dark:text-purple-400">
-                            ${amount.toLocaleString()}
+                            {formatTotal(amount)}
                           </span>
                         </div>
                         <Progress
-                          value={totals.inversiones > 0 ? (amount / totals.inversiones) * 100 : 0}
+                          value={percentOf(amount, totals.inversiones)}
                           className="h-2"
                         />
                       </div>
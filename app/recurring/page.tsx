@@ -0,0 +1,178 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, ArrowLeft, Edit, Plus, Trash2 } from "lucide-react"
+import { ThemeToggle } from "@/components/theme-toggle"
+import { UserMenu } from "@/components/user-menu"
+import { WorkspaceSwitcher } from "@/components/workspace-switcher"
+import { RecurringRuleDialog } from "@/components/recurring-rule-dialog"
+import { EntryAmount } from "@/components/entry-amount"
+import { useRecurring } from "@/hooks/use-recurring"
+import { useCategories } from "@/hooks/use-categories"
+import { usePermissions } from "@/hooks/use-permissions"
+import { describeSchedule, type RecurringRule } from "@/lib/recurring"
+import { formatDateForDisplay, getCurrentDateString } from "@/lib/date-utils"
+
+const TYPE_LABELS: Record<RecurringRule["type"], string> = {
+  gasto: "💸 Gasto",
+  ingreso: "💰 Ingreso",
+  inversion: "📈 Inversión",
+}
+
+export default function RecurringPage() {
+  const { rules, loading, error, createRule, updateRule, removeRule } = useRecurring()
+  const { namesFor } = useCategories()
+  const permissions = usePermissions()
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  const run = async (action: () => Promise<unknown>) => {
+    setActionError(null)
+    try {
+      await action()
+    } catch (err) {
+      console.error("❌ Error guardando entrada recurrente:", err)
+      setActionError(`No se pudo guardar: ${(err as { message?: string })?.message || err}`)
+    }
+  }
+
+  const handleRemove = (rule: RecurringRule) => {
+    if (!confirm(`¿Eliminar la entrada recurrente "${rule.category}"? Las entradas ya generadas se conservan.`)) return
+    run(() => removeRule(rule.id))
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="flex items-center gap-2 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Volver al Dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">🔁 Recurrentes</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <WorkspaceSwitcher />
+            <ThemeToggle />
+            <UserMenu />
+          </div>
+        </div>
+
+        {(actionError || error) && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{actionError || error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="dark:bg-gray-800/50 dark:border-gray-700">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="dark:text-gray-100">Entradas recurrentes</CardTitle>
+            {permissions.canManageRecurring && (
+              <RecurringRuleDialog
+                categoryNames={namesFor}
+                onSave={(input) => createRule(input)}
+                trigger={
+                  <Button size="sm" className="flex items-center gap-2">
+                    <Plus className="w-4 h-4" />
+                    Nueva
+                  </Button>
+                }
+              />
+            )}
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Salarios, agua, gas y otros montos que se repiten. Las automáticas se registran solas al abrir la app; las
+              demás aparecen en el dashboard para confirmarlas.
+            </p>
+            {loading ? (
+              <p className="text-gray-500 dark:text-gray-400 text-center py-4">Cargando...</p>
+            ) : rules.length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400 text-center py-4">Aún no hay entradas recurrentes.</p>
+            ) : (
+              rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className={`flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 rounded-lg border dark:border-gray-700 ${
+                    rule.paused ? "opacity-60" : ""
+                  }`}
+                >
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium dark:text-gray-100">{rule.category}</span>
+                      <Badge variant="outline" className="dark:border-gray-600 dark:text-gray-200">
+                        {TYPE_LABELS[rule.type]}
+                      </Badge>
+                      {rule.auto_generate && <Badge variant="secondary">Automática</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {describeSchedule(rule)} · desde {formatDateForDisplay(rule.start_date)}
+                      {rule.end_date && ` hasta ${formatDateForDisplay(rule.end_date)}`}
+                    </p>
+                    {rule.description && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">{rule.description}</p>
+                    )}
+                    {rule.last_generated && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Última generada: {formatDateForDisplay(rule.last_generated)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="font-semibold dark:text-gray-100">
+                      <EntryAmount entry={{ ...rule, date: getCurrentDateString() }} />
+                    </span>
+                    {permissions.canManageRecurring && (
+                      <>
+                        <div className="flex items-center gap-2">
+                          <Switch
+                            id={`active-${rule.id}`}
+                            checked={!rule.paused}
+                            onCheckedChange={(checked) => run(() => updateRule(rule.id, { paused: !checked }))}
+                          />
+                          <label htmlFor={`active-${rule.id}`} className="text-sm dark:text-gray-300">
+                            Activa
+                          </label>
+                        </div>
+                        <RecurringRuleDialog
+                          rule={rule}
+                          categoryNames={namesFor}
+                          onSave={(input) => updateRule(rule.id, input)}
+                          trigger={
+                            <Button variant="ghost" size="sm" title="Editar">
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                          }
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemove(rule)}
+                          title="Eliminar"
+                          className="text-red-600 hover:text-red-800 dark:text-red-400"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useMemo } from "react"
+import { useState, useMemo, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -19,231 +19,198 @@ import {
   AlertTriangle,
   DollarSign,
 } from "lucide-react"
-import {
-  format,
-  startOfWeek,
-  endOfWeek,
-  eachWeekOfInterval,
-  startOfMonth,
-  endOfMonth,
-  addMonths,
-  subMonths,
-  isWithinInterval,
-  startOfYear,
-  endOfYear,
-} from "date-fns"
+import { format, startOfMonth, endOfMonth, addMonths, subMonths, isWithinInterval } from "date-fns"
 import { es } from "date-fns/locale"
 import Link from "next/link"
 import { useEntries } from "@/hooks/use-entries"
+import { useCategories } from "@/hooks/use-categories"
 import { ConnectionStatus } from "@/components/connection-status"
-import { createLocalDate } from "@/lib/date-utils"
+import { createLocalDate, formatDateForStorage } from "@/lib/date-utils"
 import { ThemeToggle } from "@/components/theme-toggle"
+import { UserMenu } from "@/components/user-menu"
+import { WorkspaceSwitcher } from "@/components/workspace-switcher"
 import { FinanceChart } from "@/components/finance-chart"
+import { percentOf, type Cents } from "@/lib/money"
+import { useCurrency } from "@/components/currency-provider"
+import { EntryAmount } from "@/components/entry-amount"
+import { categoryColorClasses } from "@/lib/categories"
+import { BudgetOverview } from "@/components/budget-overview"
+import { ExportMenu } from "@/components/export-menu"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useWorkspace } from "@/components/workspace-provider"
+import { useBusinessCalendar } from "@/hooks/use-business-calendar"
+import {
+  describeFiscalYear,
+  describeWorkWeek,
+  fiscalYearRange,
+  monthGridRange,
+  workWeekRange,
+  workWeekStarts,
+} from "@/lib/business-calendar"
+import { useAggregation } from "@/hooks/use-aggregation"
+import { useBalanceMetric } from "@/hooks/use-balance-metric"
+import { computeMetrics } from "@/lib/metrics"
+import { TOTAL_KEY, bucketOf, weekKey } from "@/lib/aggregation"
+import type { Entry } from "@/lib/storage"
 
 interface WeeklyData {
   week: string
   weekStart: Date
   weekEnd: Date
-  ingresos: number
-  gastos: number
-  inversiones: number
-  balance: number
+  // Totales en centavos
+  ingresos: Cents
+  gastos: Cents
+  inversiones: Cents
+  balance: Cents
   entries: any[]
 }
 
 interface CategoryData {
   category: string
-  amount: number
+  amount: Cents
   percentage: number
   entries: any[]
   trend: "up" | "down" | "stable"
 }
 
-const CATEGORY_COLORS = {
-  // Gastos
-  Carne: "bg-red-100 text-red-800 border-red-200 dark:bg-red-900/20 dark:text-red-300 dark:border-red-800",
-  Agua: "bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/20 dark:text-blue-300 dark:border-blue-800",
-  Gas: "bg-orange-100 text-orange-800 border-orange-200 dark:bg-orange-900/20 dark:text-orange-300 dark:border-orange-800",
-  Salarios:
-    "bg-purple-100 text-purple-800 border-purple-200 dark:bg-purple-900/20 dark:text-purple-300 dark:border-purple-800",
-  Insumos:
-    "bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-900/20 dark:text-yellow-300 dark:border-yellow-800",
-  Transporte:
-    "bg-green-100 text-green-800 border-green-200 dark:bg-green-900/20 dark:text-green-300 dark:border-green-800",
-  Servicios:
-    "bg-indigo-100 text-indigo-800 border-indigo-200 dark:bg-indigo-900/20 dark:text-indigo-300 dark:border-indigo-800",
-  Refresco: "bg-pink-100 text-pink-800 border-pink-200 dark:bg-pink-900/20 dark:text-pink-300 dark:border-pink-800",
-  Otros: "bg-gray-100 text-gray-800 border-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:border-gray-600",
-  Cambio: "bg-teal-100 text-teal-800 border-teal-200 dark:bg-teal-900/20 dark:text-teal-300 dark:border-teal-800",
-  // Ingresos
-  Efectivo:
-    "bg-emerald-100 text-emerald-800 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-300 dark:border-emerald-800",
-  Transferencia:
-    "bg-teal-100 text-teal-800 border-teal-200 dark:bg-teal-900/20 dark:text-teal-300 dark:border-teal-800",
-  Ventas: "bg-cyan-100 text-cyan-800 border-cyan-200 dark:bg-cyan-900/20 dark:text-cyan-300 dark:border-cyan-800",
-}
-
 export default function ReportsPage() {
-  const { entries, loading } = useEntries()
   const [selectedPeriod, setSelectedPeriod] = useState("thisMonth")
   const [currentDate, setCurrentDate] = useState(new Date())
   const [activeTab, setActiveTab] = useState("categories")
+  const calendar = useBusinessCalendar()
 
-  const filteredEntries = useMemo(() => {
+  const periodRange = useMemo(() => {
     const now = new Date()
-    let startDate: Date
-    let endDate: Date
 
     switch (selectedPeriod) {
       case "thisWeek":
-        // CAMBIADO: Ahora las semanas empiezan en jueves (4)
-        startDate = startOfWeek(now, { weekStartsOn: 4 })
-        endDate = endOfWeek(now, { weekStartsOn: 4 })
-        break
+        return workWeekRange(now, calendar)
       case "thisMonth":
-        startDate = startOfMonth(currentDate)
-        endDate = endOfMonth(currentDate)
-        break
+        return { start: startOfMonth(currentDate), end: endOfMonth(currentDate) }
       case "thisYear":
-        startDate = startOfYear(now)
-        endDate = endOfYear(now)
-        break
+        return fiscalYearRange(now, calendar)
       default:
-        return entries
+        return null
     }
+  }, [selectedPeriod, currentDate, calendar])
+
+  // Pedir al backend solo el periodo visible (en "Este Mes" incluye las semanas que cruzan el mes)
+  const entriesQuery = useMemo(() => {
+    if (!periodRange) return undefined
+    const { start, end } = selectedPeriod === "thisMonth" ? monthGridRange(currentDate, calendar) : periodRange
+    return { from: formatDateForStorage(start), to: formatDateForStorage(end) }
+  }, [periodRange, selectedPeriod, currentDate, calendar])
+
+  const { entries, loading } = useEntries({ query: entriesQuery })
+  // Presupuestos: la semana y el mes del mes elegido, o los actuales en los demás periodos
+  const budgetDate = useMemo(
+    () => (selectedPeriod === "thisMonth" ? currentDate : new Date()),
+    [selectedPeriod, currentDate],
+  )
+  const { formatTotal } = useCurrency()
+  const { getCategory, isCashMovement } = useCategories()
+  const permissions = usePermissions()
+  const { activeWorkspace } = useWorkspace()
+
+  const filteredEntries = useMemo(() => {
+    if (!periodRange) return entries
 
     return entries.filter((entry) => {
       const entryDate = createLocalDate(entry.date)
-      return isWithinInterval(entryDate, { start: startDate, end: endDate })
+      return isWithinInterval(entryDate, { start: periodRange.start, end: periodRange.end })
     })
-  }, [entries, selectedPeriod, currentDate])
+  }, [entries, periodRange])
+
+  const periodLabel = useMemo(() => {
+    if (!periodRange) return "Todo"
+    switch (selectedPeriod) {
+      case "thisWeek":
+        return `Semana del ${format(periodRange.start, "d 'de' MMMM", { locale: es })} al ${format(periodRange.end, "d 'de' MMMM yyyy", { locale: es })}`
+      case "thisMonth":
+        return format(periodRange.start, "MMMM yyyy", { locale: es })
+      default:
+        return `Año fiscal ${describeFiscalYear(periodRange.start, calendar)}`
+    }
+  }, [periodRange, selectedPeriod, calendar])
+
+  const exportFileName = periodRange
+    ? `reporte-${formatDateForStorage(periodRange.start)}-a-${formatDateForStorage(periodRange.end)}`
+    : "reporte"
+
+  // PDF: se imprime la vista del reporte (el navegador ofrece "Guardar como PDF") con la pestaña de categorías
+  const [printRequested, setPrintRequested] = useState(false)
+  const handlePrint = () => {
+    setActiveTab("categories")
+    setPrintRequested(true)
+  }
+  useEffect(() => {
+    if (!printRequested) return
+    // Esperar a que la pestaña y las gráficas terminen de pintarse
+    const timer = setTimeout(() => {
+      window.print()
+      setPrintRequested(false)
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [printRequested])
+
+  // Todo lo cargado y solo lo del periodo, cada uno agregado en una pasada
+  const aggregation = useAggregation(entries, isCashMovement)
+  const periodAggregation = useAggregation(filteredEntries, isCashMovement)
+  const balanceMetric = useBalanceMetric()
+  const { balanceOf } = balanceMetric
 
   const weeklyData = useMemo(() => {
     if (selectedPeriod !== "thisMonth") return []
 
-    const monthStart = startOfMonth(currentDate)
-    const monthEnd = endOfMonth(currentDate)
-    // CAMBIADO: Ahora las semanas empiezan en jueves (4)
-    const weeks = eachWeekOfInterval({ start: monthStart, end: monthEnd }, { weekStartsOn: 4 })
+    const weeks = workWeekStarts(startOfMonth(currentDate), endOfMonth(currentDate), calendar)
 
     return weeks.map((weekStart) => {
-      // CAMBIADO: Ahora las semanas empiezan en jueves (4)
-      const weekEnd = endOfWeek(weekStart, { weekStartsOn: 4 })
-      const weekEntries = entries.filter((entry) => {
-        const entryDate = createLocalDate(entry.date)
-        return isWithinInterval(entryDate, { start: weekStart, end: weekEnd })
-      })
-
-      const ingresos = weekEntries.filter((e) => e.type === "ingreso").reduce((sum, e) => sum + e.amount, 0)
-      const gastos = weekEntries.filter((e) => e.type === "gasto").reduce((sum, e) => sum + e.amount, 0)
-      const inversiones = weekEntries.filter((e) => e.type === "inversion").reduce((sum, e) => sum + e.amount, 0)
+      const { end: weekEnd } = workWeekRange(weekStart, calendar)
+      const week = bucketOf(aggregation.byWeek, weekKey(weekStart, calendar))
 
       return {
-        week: `Semana ${format(weekStart, "d")} - ${format(weekEnd, "d MMM")}`,
+        week: `Semana ${describeWorkWeek(weekStart, calendar)}`,
         weekStart,
         weekEnd,
-        ingresos,
-        gastos,
-        inversiones,
-        balance: ingresos - inversiones,
-        entries: weekEntries,
+        ingresos: week.ingresos,
+        gastos: week.gastos,
+        inversiones: week.inversiones,
+        balance: balanceOf(week),
+        entries: week.entries,
       }
     })
-  }, [entries, currentDate, selectedPeriod])
+  }, [aggregation, currentDate, selectedPeriod, calendar, balanceOf])
 
   const categoryAnalysis = useMemo(() => {
-    const gastoCategories: { [key: string]: CategoryData } = {}
-    const ingresoCategories: { [key: string]: CategoryData } = {}
-    const inversionCategories: { [key: string]: CategoryData } = {}
-
-    const gastoEntries = filteredEntries.filter((e) => e.type === "gasto")
-    const ingresoEntries = filteredEntries.filter((e) => e.type === "ingreso")
-    const inversionEntries = filteredEntries.filter((e) => e.type === "inversion")
-
-    const totalGastos = gastoEntries.reduce((sum, e) => sum + e.amount, 0)
-    const totalIngresos = ingresoEntries.reduce((sum, e) => sum + e.amount, 0)
-    const totalInversiones = inversionEntries.reduce((sum, e) => sum + e.amount, 0)
-
-    // Analizar gastos por categoría
-    gastoEntries.forEach((entry) => {
-      if (!gastoCategories[entry.category]) {
-        gastoCategories[entry.category] = {
-          category: entry.category,
-          amount: 0,
-          percentage: 0,
-          entries: [],
-          trend: "stable",
-        }
-      }
-      gastoCategories[entry.category].amount += entry.amount
-      gastoCategories[entry.category].entries.push(entry)
-    })
-
-    // Calcular porcentajes para gastos
-    Object.values(gastoCategories).forEach((cat) => {
-      cat.percentage = totalGastos > 0 ? (cat.amount / totalGastos) * 100 : 0
-    })
-
-    // Analizar ingresos por categoría
-    ingresoEntries.forEach((entry) => {
-      if (!ingresoCategories[entry.category]) {
-        ingresoCategories[entry.category] = {
-          category: entry.category,
-          amount: 0,
-          percentage: 0,
-          entries: [],
-          trend: "stable",
-        }
-      }
-      ingresoCategories[entry.category].amount += entry.amount
-      ingresoCategories[entry.category].entries.push(entry)
-    })
-
-    // Calcular porcentajes para ingresos
-    Object.values(ingresoCategories).forEach((cat) => {
-      cat.percentage = totalIngresos > 0 ? (cat.amount / totalIngresos) * 100 : 0
-    })
-
-    // Analizar inversiones por categoría
-    inversionEntries.forEach((entry) => {
-      if (!inversionCategories[entry.category]) {
-        inversionCategories[entry.category] = {
-          category: entry.category,
-          amount: 0,
-          percentage: 0,
-          entries: [],
-          trend: "stable",
-        }
-      }
-      inversionCategories[entry.category].amount += entry.amount
-      inversionCategories[entry.category].entries.push(entry)
-    })
-
-    // Calcular porcentajes para inversiones
-    Object.values(inversionCategories).forEach((cat) => {
-      cat.percentage = totalInversiones > 0 ? (cat.amount / totalInversiones) * 100 : 0
-    })
+    // Porcentaje de cada categoría dentro del total de su tipo
+    const analysisOf = (type: Entry["type"]): CategoryData[] =>
+      periodAggregation.categories[type].map((category) => ({
+        category: category.category,
+        amount: category.total,
+        percentage: percentOf(category.total, periodAggregation.totals[TOTAL_KEY[type]]),
+        entries: category.entries,
+        trend: "stable",
+      }))
 
     return {
-      gastos: Object.values(gastoCategories).sort((a, b) => b.amount - a.amount),
-      ingresos: Object.values(ingresoCategories).sort((a, b) => b.amount - a.amount),
-      inversiones: Object.values(inversionCategories).sort((a, b) => b.amount - a.amount),
+      gastos: analysisOf("gasto"),
+      ingresos: analysisOf("ingreso"),
+      inversiones: analysisOf("inversion"),
     }
-  }, [filteredEntries])
+  }, [periodAggregation])
 
   const periodTotals = useMemo(() => {
-    const ingresos = filteredEntries.filter((e) => e.type === "ingreso").reduce((sum, e) => sum + e.amount, 0)
-    const gastos = filteredEntries.filter((e) => e.type === "gasto").reduce((sum, e) => sum + e.amount, 0)
-    const inversiones = filteredEntries.filter((e) => e.type === "inversion").reduce((sum, e) => sum + e.amount, 0)
+    const { ingresos, gastos, inversiones, count } = periodAggregation.totals
 
     return {
       ingresos,
       gastos,
       inversiones,
-      balance: ingresos - inversiones,
-      entries: filteredEntries.length,
+      balance: balanceOf(periodAggregation.totals),
+      metrics: computeMetrics(periodAggregation.totals),
+      entries: count,
     }
-  }, [filteredEntries])
+  }, [periodAggregation, balanceOf])
 
   // Datos para gráficos
   const chartData = useMemo(() => {
@@ -297,16 +264,18 @@ export default function ReportsPage() {
       }
     }
 
-    if (periodTotals.balance > 0) {
+    // Superávit y ahorro siempre sobre el flujo neto, sin importar qué muestre la tarjeta de balance
+    const { net_cash_flow, gross_income } = periodTotals.metrics
+    if (net_cash_flow > 0) {
       insights.push({
         type: "success",
         title: "¡Excelente gestión!",
-        message: `Tienes un superávit de $${periodTotals.balance.toLocaleString()}`,
+        message: `Tienes un superávit de ${formatTotal(net_cash_flow)}`,
         icon: Award,
       })
     }
 
-    const savingsRate = periodTotals.ingresos > 0 ? (periodTotals.balance / periodTotals.ingresos) * 100 : 0
+    const savingsRate = percentOf(net_cash_flow, gross_income)
     if (savingsRate > 20) {
       insights.push({
         type: "success",
@@ -317,7 +286,7 @@ export default function ReportsPage() {
     }
 
     return insights
-  }, [categoryAnalysis, periodTotals])
+  }, [categoryAnalysis, periodTotals, formatTotal])
 
   if (loading) {
     return (
@@ -342,16 +311,18 @@ export default function ReportsPage() {
           <div className="flex items-center gap-4">
             <Link
               href="/"
-              className="flex items-center gap-2 text-purple-600 hover:text-purple-800 dark:text-purple-400 dark:hover:text-purple-300"
+              className="flex items-center gap-2 text-purple-600 hover:text-purple-800 dark:text-purple-400 dark:hover:text-purple-300 print:hidden"
             >
               <ArrowLeft className="w-4 h-4" />
               Volver al Dashboard
             </Link>
             <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">📊 Reportes Detallados</h1>
-            <ConnectionStatus />
+            <div className="print:hidden">
+              <ConnectionStatus />
+            </div>
           </div>
 
-          <div className="flex gap-2 items-center">
+          <div className="flex gap-2 items-center print:hidden">
             <Select value={selectedPeriod} onValueChange={setSelectedPeriod}>
               <SelectTrigger className="w-48 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-200">
                 <SelectValue />
@@ -359,7 +330,9 @@ export default function ReportsPage() {
               <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
                 <SelectItem value="thisWeek">Esta Semana</SelectItem>
                 <SelectItem value="thisMonth">Este Mes</SelectItem>
-                <SelectItem value="thisYear">Este Año</SelectItem>
+                <SelectItem value="thisYear">
+                  {calendar.fiscal_year_start_month === 1 ? "Este Año" : "Año Fiscal"}
+                </SelectItem>
               </SelectContent>
             </Select>
 
@@ -383,12 +356,25 @@ export default function ReportsPage() {
                 </Button>
               </div>
             )}
+            {permissions.canExport && (
+              <ExportMenu entries={filteredEntries} fileName={exportFileName} onPrint={handlePrint} />
+            )}
+            <WorkspaceSwitcher />
             <ThemeToggle />
+            <UserMenu />
           </div>
         </div>
 
+        {/* Encabezado del PDF */}
+        <div className="hidden print:block text-gray-700">
+          <p className="text-lg font-semibold capitalize">{periodLabel}</p>
+          <p className="text-sm">
+            {activeWorkspace?.name} · Generado el {format(new Date(), "d 'de' MMMM yyyy, HH:mm", { locale: es })}
+          </p>
+        </div>
+
         {/* Period Summary */}
-        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 print:grid-cols-5 gap-4">
           <Card className="bg-green-50 border-green-200 dark:bg-green-900/20 dark:border-green-800">
             <CardHeader className="pb-2">
               <CardTitle className="text-sm font-medium text-green-800 dark:text-green-300 flex items-center gap-2">
@@ -398,7 +384,7 @@ export default function ReportsPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-green-700 dark:text-green-400">
-                ${periodTotals.ingresos.toLocaleString()}
+                {formatTotal(periodTotals.ingresos)}
               </div>
             </CardContent>
           </Card>
@@ -412,7 +398,7 @@ export default function ReportsPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-red-700 dark:text-red-400">
-                ${periodTotals.gastos.toLocaleString()}
+                {formatTotal(periodTotals.gastos)}
               </div>
             </CardContent>
           </Card>
@@ -426,7 +412,7 @@ export default function ReportsPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-purple-700 dark:text-purple-400">
-                ${periodTotals.inversiones.toLocaleString()}
+                {formatTotal(periodTotals.inversiones)}
               </div>
             </CardContent>
           </Card>
@@ -446,8 +432,11 @@ export default function ReportsPage() {
               <div
                 className={`text-2xl font-bold ${periodTotals.balance >= 0 ? "text-blue-700 dark:text-blue-400" : "text-orange-700 dark:text-orange-400"}`}
               >
-                ${periodTotals.balance.toLocaleString()}
+                {formatTotal(periodTotals.balance)}
               </div>
+              <p className="text-xs text-gray-600 dark:text-gray-400">
+                {balanceMetric.label}: {balanceMetric.formula}
+              </p>
             </CardContent>
           </Card>
 
@@ -501,7 +490,7 @@ export default function ReportsPage() {
         )}
 
         {/* Gráficos de distribución */}
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 lg:grid-cols-3 print:grid-cols-3 gap-6 print:break-inside-avoid">
           <Card className="dark:bg-gray-800/50 dark:border-gray-700">
             <CardHeader>
               <CardTitle className="flex items-center gap-2 dark:text-gray-100">
@@ -566,7 +555,7 @@ export default function ReportsPage() {
         </div>
 
         <Tabs defaultValue="categories" className="space-y-6" value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-2 dark:bg-gray-800">
+          <TabsList className="grid w-full grid-cols-3 dark:bg-gray-800 print:hidden">
             <TabsTrigger
               value="categories"
               className="flex items-center gap-2 dark:text-gray-200 dark:data-[state=active]:bg-gray-700"
@@ -582,10 +571,21 @@ export default function ReportsPage() {
               <Calendar className="w-4 h-4" />
               Por Semanas
             </TabsTrigger>
+            <TabsTrigger
+              value="budgets"
+              className="flex items-center gap-2 dark:text-gray-200 dark:data-[state=active]:bg-gray-700"
+            >
+              <Target className="w-4 h-4" />
+              Presupuestos
+            </TabsTrigger>
           </TabsList>
 
+          <TabsContent value="budgets" className="space-y-6">
+            <BudgetOverview date={budgetDate} />
+          </TabsContent>
+
           <TabsContent value="categories" className="space-y-6">
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="grid grid-cols-1 lg:grid-cols-2 print:grid-cols-2 gap-6">
               {/* Gastos por Categoría */}
               <Card className="bg-gradient-to-br from-red-50 to-pink-50 dark:from-red-900/10 dark:to-pink-900/10 dark:border-red-800">
                 <CardHeader>
@@ -603,7 +603,7 @@ export default function ReportsPage() {
                         <div className="flex items-center justify-between">
                           <div className="flex items-center gap-2">
                             <Badge
-                              className={`${CATEGORY_COLORS[category.category as keyof typeof CATEGORY_COLORS] || "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300"} text-xs`}
+                              className={`${categoryColorClasses(getCategory("gasto", category.category))} text-xs`}
                             >
                               #{index + 1}
                             </Badge>
@@ -611,7 +611,7 @@ export default function ReportsPage() {
                           </div>
                           <div className="text-right">
                             <div className="font-bold text-red-600 dark:text-red-400">
-                              ${category.amount.toLocaleString()}
+                              {formatTotal(category.amount)}
                             </div>
                             <div className="text-xs text-gray-500 dark:text-gray-400">
                               {category.percentage.toFixed(1)}%
@@ -647,7 +647,7 @@ export default function ReportsPage() {
                         <div className="flex items-center justify-between">
                           <div className="flex items-center gap-2">
                             <Badge
-                              className={`${CATEGORY_COLORS[category.category as keyof typeof CATEGORY_COLORS] || "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300"} text-xs`}
+                              className={`${categoryColorClasses(getCategory("ingreso", category.category))} text-xs`}
                             >
                               #{index + 1}
                             </Badge>
@@ -655,7 +655,7 @@ export default function ReportsPage() {
                           </div>
                           <div className="text-right">
                             <div className="font-bold text-green-600 dark:text-green-400">
-                              ${category.amount.toLocaleString()}
+                              {formatTotal(category.amount)}
                             </div>
                             <div className="text-xs text-gray-500 dark:text-gray-400">
                               {category.percentage.toFixed(1)}%
@@ -727,19 +727,19 @@ export default function ReportsPage() {
                         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
                           <div className="text-center">
                             <div className="text-2xl font-bold text-green-600 dark:text-green-400">
-                              ${week.ingresos.toLocaleString()}
+                              {formatTotal(week.ingresos)}
                             </div>
                             <div className="text-sm text-gray-600 dark:text-gray-400">Ingresos</div>
                           </div>
                           <div className="text-center">
                             <div className="text-2xl font-bold text-red-600 dark:text-red-400">
-                              ${week.gastos.toLocaleString()}
+                              {formatTotal(week.gastos)}
                             </div>
                             <div className="text-sm text-gray-600 dark:text-gray-400">Gastos</div>
                           </div>
                           <div className="text-center">
                             <div className="text-2xl font-bold text-purple-600 dark:text-purple-400">
-                              ${week.inversiones.toLocaleString()}
+                              {formatTotal(week.inversiones)}
                             </div>
                             <div className="text-sm text-gray-600 dark:text-gray-400">Inversiones</div>
                           </div>
@@ -747,7 +747,7 @@ export default function ReportsPage() {
                             <div
                               className={`text-2xl font-bold ${week.balance >= 0 ? "text-blue-600 dark:text-blue-400" : "text-orange-600 dark:text-orange-400"}`}
                             >
-                              ${week.balance.toLocaleString()}
+                              {formatTotal(week.balance)}
                             </div>
                             <div className="text-sm text-gray-600 dark:text-gray-400">Balance</div>
                           </div>
@@ -783,7 +783,7 @@ export default function ReportsPage() {
                                 <span
                                   className={`font-medium ${entry.type === "ingreso" ? "text-green-600 dark:text-green-400" : entry.type === "inversion" ? "text-purple-600 dark:text-purple-400" : "text-red-600 dark:text-red-400"}`}
                                 >
-                                  ${entry.amount.toLocaleString()}
+                                  <EntryAmount entry={entry} />
                                 </span>
                               </div>
                             ))}
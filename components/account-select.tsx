@@ -0,0 +1,32 @@
+"use client"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { Account } from "@/lib/accounts"
+
+interface AccountSelectProps {
+  id?: string
+  // Cuentas que se ofrecen (normalmente useAccounts().activeAccounts())
+  accounts: Account[]
+  value: string
+  onChange: (id: string) => void
+  disabled?: boolean
+  className?: string
+}
+
+// Selector de cuenta con su ícono
+export function AccountSelect({ id, accounts, value, onChange, disabled, className = "" }: AccountSelectProps) {
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger id={id} className={`dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 ${className}`}>
+        <SelectValue placeholder="Seleccionar cuenta" />
+      </SelectTrigger>
+      <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+        {accounts.map((account) => (
+          <SelectItem key={account.id} value={account.id}>
+            {account.icon} {account.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,245 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { AlertCircle, Settings2 } from "lucide-react"
+import { useCurrency } from "@/components/currency-provider"
+import {
+  ACCOUNT_KIND_LABELS,
+  type Account,
+  type AccountInput,
+  type AccountKind,
+  type AccountUpdate,
+} from "@/lib/accounts"
+import { fromCents, parseMoney } from "@/lib/money"
+
+const KINDS: AccountKind[] = ["cash", "bank", "card"]
+
+const KIND_ICONS: Record<AccountKind, string> = { cash: "💵", bank: "🏦", card: "💳" }
+
+interface AccountsDialogProps {
+  accounts: Account[]
+  onCreate: (input: AccountInput) => Promise<unknown>
+  onUpdate: (id: string, changes: AccountUpdate) => Promise<unknown>
+}
+
+interface AccountRow {
+  name: string
+  icon: string
+  opening: string
+  archived: boolean
+}
+
+const emptyNewAccount = () => ({ kind: "bank" as AccountKind, name: "", opening: "" })
+
+// Alta de cuentas, nombre, saldo inicial y archivo; las cuentas no se borran porque sus entradas las siguen usando
+export function AccountsDialog({ accounts, onCreate, onUpdate }: AccountsDialogProps) {
+  const { baseCurrency } = useCurrency()
+  const [open, setOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [rows, setRows] = useState<Record<string, AccountRow>>({})
+  const [newAccount, setNewAccount] = useState(emptyNewAccount)
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value)
+    if (value) {
+      const form: Record<string, AccountRow> = {}
+      accounts.forEach((account) => {
+        form[account.id] = {
+          name: account.name,
+          icon: account.icon,
+          opening: account.opening_balance.toString(),
+          archived: account.archived,
+        }
+      })
+      setRows(form)
+      setNewAccount(emptyNewAccount())
+      setError(null)
+    }
+  }
+
+  const handleSave = async () => {
+    const changes: (() => Promise<unknown>)[] = []
+    for (const account of accounts) {
+      const row = rows[account.id]
+      if (!row) continue
+      const name = row.name.trim()
+      const cents = parseMoney(row.opening || "0")
+      if (!name) {
+        setError("Cada cuenta necesita un nombre")
+        return
+      }
+      if (cents === null) {
+        setError(`Saldo inicial inválido para ${name}`)
+        return
+      }
+      const update: AccountUpdate = {}
+      if (name !== account.name) update.name = name
+      if (row.icon !== account.icon) update.icon = row.icon
+      if (fromCents(cents) !== account.opening_balance) update.opening_balance = fromCents(cents)
+      if (row.archived !== account.archived) update.archived = row.archived
+      if (Object.keys(update).length > 0) changes.push(() => onUpdate(account.id, update))
+    }
+
+    const newName = newAccount.name.trim()
+    if (newName) {
+      const cents = parseMoney(newAccount.opening || "0")
+      if (cents === null) {
+        setError(`Saldo inicial inválido para ${newName}`)
+        return
+      }
+      changes.push(() =>
+        onCreate({
+          name: newName,
+          kind: newAccount.kind,
+          icon: KIND_ICONS[newAccount.kind],
+          opening_balance: fromCents(cents),
+        }),
+      )
+    }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      for (const change of changes) await change()
+      setOpen(false)
+    } catch (err) {
+      console.error("❌ Error guardando cuentas:", err)
+      setError(`No se pudo guardar: ${(err as { message?: string })?.message || err}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const setRow = (id: string, changes: Partial<AccountRow>) => setRows({ ...rows, [id]: { ...rows[id], ...changes } })
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Administrar cuentas" className="h-8 w-8 p-0 dark:text-gray-200">
+          <Settings2 className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px] dark:bg-gray-800 dark:text-gray-100 dark:border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="dark:text-gray-100">🏦 Cuentas</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            Saldo inicial en {baseCurrency}. Las cuentas archivadas ya no se ofrecen al capturar.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-y-auto space-y-2 py-2">
+          <div className="grid grid-cols-[3rem_1fr_8rem_5rem] gap-2 text-xs font-medium text-gray-500 dark:text-gray-400">
+            <span>Ícono</span>
+            <span>Nombre</span>
+            <span>Saldo inicial</span>
+            <span>Archivada</span>
+          </div>
+          {accounts.map((account) => (
+            <div key={account.id} className="grid grid-cols-[3rem_1fr_8rem_5rem] gap-2 items-center">
+              <Input
+                aria-label={`Ícono de ${account.name}`}
+                value={rows[account.id]?.icon || ""}
+                onChange={(e) => setRow(account.id, { icon: e.target.value })}
+                className="px-2 text-center dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                disabled={isSaving}
+              />
+              <Input
+                aria-label={`Nombre de ${account.name}`}
+                value={rows[account.id]?.name || ""}
+                onChange={(e) => setRow(account.id, { name: e.target.value })}
+                className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                disabled={isSaving}
+              />
+              <Input
+                type="text"
+                inputMode="decimal"
+                aria-label={`Saldo inicial de ${account.name}`}
+                value={rows[account.id]?.opening || ""}
+                onChange={(e) => setRow(account.id, { opening: e.target.value })}
+                className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                disabled={isSaving}
+              />
+              <Switch
+                aria-label={`Archivar ${account.name}`}
+                checked={rows[account.id]?.archived || false}
+                onCheckedChange={(archived) => setRow(account.id, { archived })}
+                disabled={isSaving}
+              />
+            </div>
+          ))}
+          <div className="pt-3 mt-3 border-t dark:border-gray-700 space-y-2">
+            <div className="text-sm font-medium dark:text-gray-200">➕ Nueva cuenta</div>
+            <div className="grid grid-cols-[8rem_1fr_8rem] gap-2">
+              <Select
+                value={newAccount.kind}
+                onValueChange={(kind: AccountKind) => setNewAccount({ ...newAccount, kind })}
+                disabled={isSaving}
+              >
+                <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                  {KINDS.map((kind) => (
+                    <SelectItem key={kind} value={kind}>
+                      {KIND_ICONS[kind]} {ACCOUNT_KIND_LABELS[kind]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="Nombre"
+                value={newAccount.name}
+                onChange={(e) => setNewAccount({ ...newAccount, name: e.target.value })}
+                className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                disabled={isSaving}
+              />
+              <Input
+                type="text"
+                inputMode="decimal"
+                placeholder="Saldo inicial"
+                value={newAccount.opening}
+                onChange={(e) => setNewAccount({ ...newAccount, opening: e.target.value })}
+                className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+        </div>
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={isSaving}
+            className="dark:border-gray-600 dark:text-gray-200"
+          >
+            Cancelar
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Guardando..." : "💾 Guardar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,100 @@
+"use client"
+
+import { useMemo } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useCurrency } from "@/components/currency-provider"
+import { FinanceChart } from "@/components/finance-chart"
+import { AccountsDialog } from "@/components/accounts-dialog"
+import { TransferDialog } from "@/components/transfer-dialog"
+import { ACCOUNT_KIND_LABELS, type AccountBalance, type AccountInput, type AccountUpdate } from "@/lib/accounts"
+import { formatDateForDisplay } from "@/lib/date-utils"
+import { toCents } from "@/lib/money"
+import type { Entry } from "@/lib/storage"
+
+// Días con movimiento que se grafican (los más recientes)
+const HISTORY_POINTS = 30
+
+const LINE_COLORS = ["#0ea5e9", "#22c55e", "#8b5cf6", "#f97316", "#ec4899", "#64748b"]
+
+interface AccountsOverviewProps {
+  balances: AccountBalance[]
+  // Sin ellos no se muestran el traspaso ni la administración de cuentas
+  onTransfer?: (entry: Omit<Entry, "id" | "created_at" | "updated_at">) => Promise<Entry | null>
+  onCreate?: (input: AccountInput) => Promise<unknown>
+  onUpdate?: (id: string, changes: AccountUpdate) => Promise<unknown>
+}
+
+// Saldo actual de cada cuenta y su saldo corrido en los últimos días con movimiento
+export function AccountsOverview({ balances, onTransfer, onCreate, onUpdate }: AccountsOverviewProps) {
+  const { formatTotal } = useCurrency()
+  // Las archivadas solo se muestran si todavía tienen saldo
+  const visible = useMemo(
+    () => balances.filter(({ account, balance }) => !account.archived || balance !== 0),
+    [balances],
+  )
+
+  // Una fila por fecha con el saldo de cada cuenta ese día (el del último movimiento si no se movió)
+  const chartData = useMemo(() => {
+    const dates = Array.from(new Set(visible.flatMap(({ history }) => history.map((point) => point.date))))
+      .sort()
+      .slice(-HISTORY_POINTS)
+    return dates.map((date) => {
+      const row: { name: string; [key: string]: string | number } = { name: formatDateForDisplay(date) }
+      visible.forEach(({ account, history }) => {
+        const last = history.filter((point) => point.date <= date).pop()
+        row[account.name] = last ? last.balance : toCents(account.opening_balance)
+      })
+      return row
+    })
+  }, [visible])
+
+  return (
+    <Card className="dark:bg-gray-800/50 dark:border-gray-700">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="dark:text-gray-100">🏦 Cuentas</CardTitle>
+        <div className="flex items-center gap-2">
+          {onTransfer && (
+            <TransferDialog
+              accounts={balances.filter(({ account }) => !account.archived).map(({ account }) => account)}
+              onTransfer={onTransfer}
+            />
+          )}
+          {onCreate && onUpdate && (
+            <AccountsDialog accounts={balances.map(({ account }) => account)} onCreate={onCreate} onUpdate={onUpdate} />
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
+          {visible.map(({ account, balance }) => (
+            <div key={account.id} className="p-4 rounded-lg border dark:border-gray-700">
+              <div className="text-sm text-gray-600 dark:text-gray-400 mb-1">
+                {account.icon} {account.name}
+                <span className="ml-1 text-xs">
+                  ({ACCOUNT_KIND_LABELS[account.kind]}
+                  {account.archived ? ", archivada" : ""})
+                </span>
+              </div>
+              <div
+                className={`text-xl font-bold ${balance >= 0 ? "text-gray-800 dark:text-gray-100" : "text-orange-700 dark:text-orange-400"}`}
+              >
+                {formatTotal(balance)}
+              </div>
+            </div>
+          ))}
+        </div>
+        {chartData.length > 1 && (
+          <div className="h-[260px]">
+            <FinanceChart
+              type="line"
+              data={chartData}
+              colors={LINE_COLORS}
+              keys={visible.map(({ account }) => account.name)}
+              indexBy="name"
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
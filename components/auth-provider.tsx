@@ -0,0 +1,91 @@
+"use client"
+
+import type React from "react"
+import { createContext, Fragment, useContext, useEffect, useState } from "react"
+import { usePathname } from "next/navigation"
+import { RefreshCw } from "lucide-react"
+import { authService, isAuthRequired, type User } from "@/lib/auth"
+import { LoginScreen } from "@/components/login-screen"
+
+interface AuthContextValue {
+  user: User | null
+  loading: boolean
+  // false con los backends locales: no hay cuentas ni cierre de sesión
+  authRequired: boolean
+  signOut: () => Promise<void>
+}
+
+const AuthContext = createContext<AuthContextValue>({
+  user: null,
+  loading: false,
+  authRequired: false,
+  signOut: async () => {},
+})
+
+// Rutas accesibles sin sesión (el diagnóstico ayuda justamente cuando no se puede entrar)
+const PUBLIC_ROUTES = ["/diagnostico"]
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const authRequired = isAuthRequired()
+  const [user, setUser] = useState<User | null>(null)
+  const [loading, setLoading] = useState(authRequired)
+
+  useEffect(() => {
+    if (!authRequired) return
+
+    let cancelled = false
+    authService.getSession().then((session) => {
+      if (cancelled) return
+      setUser(session?.user ?? null)
+      setLoading(false)
+    })
+
+    const subscription = authService.onAuthStateChange((session) => {
+      setUser(session?.user ?? null)
+      setLoading(false)
+    })
+
+    return () => {
+      cancelled = true
+      subscription.unsubscribe()
+    }
+  }, [authRequired])
+
+  const signOut = async () => {
+    try {
+      await authService.signOut()
+    } catch (err) {
+      console.error("❌ Error cerrando sesión:", err)
+    }
+  }
+
+  return <AuthContext.Provider value={{ user, loading, authRequired, signOut }}>{children}</AuthContext.Provider>
+}
+
+export function useAuth() {
+  return useContext(AuthContext)
+}
+
+// Muestra la pantalla de acceso en lugar de la página cuando hace falta sesión
+export function AuthGate({ children }: { children: React.ReactNode }) {
+  const { user, loading, authRequired } = useAuth()
+  const pathname = usePathname()
+
+  if (!authRequired || PUBLIC_ROUTES.some((route) => pathname?.startsWith(route))) return <>{children}</>
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="w-8 h-8 animate-spin mx-auto mb-4 text-blue-600" />
+          <p className="text-gray-600 dark:text-gray-300">Verificando sesión...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!user) return <LoginScreen />
+
+  // Remontar la página al cambiar de usuario para no mezclar datos entre cuentas
+  return <Fragment key={user.id}>{children}</Fragment>
+}
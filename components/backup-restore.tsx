@@ -0,0 +1,236 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, CheckCircle2, History, RotateCcw } from "lucide-react"
+import { EntryAmount } from "@/components/entry-amount"
+import { entriesService } from "@/lib/storage"
+import { loadEntries } from "@/lib/import/preview"
+import {
+  applyBackup,
+  diffBackup,
+  parseBackup,
+  relocateBackup,
+  restoreOperationCount,
+  type BackupDiff,
+  type RestoreMode,
+  type RestoreProgress,
+} from "@/lib/import/backup"
+import { formatDateForDisplay } from "@/lib/date-utils"
+
+// Cambios que se listan en el resumen; el resto solo se cuenta
+const CHANGES_SHOWN = 20
+
+// Restaurar el respaldo JSON de "Exportar Datos", uniendo por id o reemplazando todo
+export function BackupRestore() {
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [diff, setDiff] = useState<BackupDiff | null>(null)
+  const [mode, setMode] = useState<RestoreMode>("merge")
+  const [isReading, setIsReading] = useState(false)
+  const [progress, setProgress] = useState<RestoreProgress | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+    setError(null)
+    setNotice(null)
+    setDiff(null)
+    setIsReading(true)
+    try {
+      const backup = await relocateBackup(parseBackup(await file.text()), entriesService.workspaceId)
+      const current = await loadEntries(entriesService)
+      setFileName(file.name)
+      setDiff(diffBackup(backup, current))
+    } catch (err) {
+      console.error("❌ Error leyendo respaldo:", err)
+      setError((err as { message?: string })?.message || "No se pudo leer el respaldo")
+    } finally {
+      setIsReading(false)
+    }
+  }
+
+  const handleRestore = async () => {
+    if (!diff || progress) return
+    if (
+      mode === "replace" &&
+      diff.missing.length > 0 &&
+      !confirm(`Se eliminarán ${diff.missing.length} entrada(s) que no están en el respaldo. ¿Continuar?`)
+    ) {
+      return
+    }
+
+    setError(null)
+    try {
+      await applyBackup(entriesService, diff, mode, setProgress)
+      setNotice(`Respaldo ${fileName} restaurado: ${restoreOperationCount(diff, mode)} cambio(s) aplicados`)
+      setDiff(null)
+      setFileName(null)
+    } catch (err) {
+      console.error("❌ Error restaurando respaldo:", err)
+      setError(
+        `La restauración se detuvo: ${(err as { message?: string })?.message || err}. ` +
+          "Lo ya aplicado se conserva; vuelve a cargar el archivo para completar el resto.",
+      )
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const operations = diff ? restoreOperationCount(diff, mode) : 0
+
+  return (
+    <div className="space-y-6">
+      {notice && (
+        <Alert className="bg-green-50 border-green-200 dark:bg-green-900/20 dark:border-green-800">
+          <CheckCircle2 className="h-4 w-4 text-green-600" />
+          <AlertDescription className="text-green-800 dark:text-green-200">{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="dark:bg-gray-800/50 dark:border-gray-700">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 dark:text-gray-100">
+            <History className="w-5 h-5" />
+            Respaldo JSON
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Input
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFile}
+            disabled={isReading || progress !== null}
+            className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {isReading
+              ? "Comparando con las entradas actuales..."
+              : "El archivo gastos-ingresos-AAAA-MM-DD.json que descarga 💾 Exportar Datos en el dashboard."}
+          </p>
+        </CardContent>
+      </Card>
+
+      {diff && (
+        <Card className="dark:bg-gray-800/50 dark:border-gray-700">
+          <CardHeader>
+            <CardTitle className="dark:text-gray-100">Resumen · {fileName}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20">
+                <div className="text-2xl font-bold text-green-700 dark:text-green-400">{diff.added.length}</div>
+                <div className="text-sm text-green-800 dark:text-green-300">Nuevas</div>
+              </div>
+              <div className="p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20">
+                <div className="text-2xl font-bold text-blue-700 dark:text-blue-400">{diff.changed.length}</div>
+                <div className="text-sm text-blue-800 dark:text-blue-300">Modificadas</div>
+              </div>
+              <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700/40">
+                <div className="text-2xl font-bold text-gray-700 dark:text-gray-300">{diff.unchanged}</div>
+                <div className="text-sm text-gray-700 dark:text-gray-400">Sin cambios</div>
+              </div>
+              <div className="p-3 rounded-lg bg-orange-50 dark:bg-orange-900/20">
+                <div className="text-2xl font-bold text-orange-700 dark:text-orange-400">{diff.missing.length}</div>
+                <div className="text-sm text-orange-800 dark:text-orange-300">
+                  No están en el respaldo {mode === "replace" ? "(se eliminan)" : "(se conservan)"}
+                </div>
+              </div>
+            </div>
+
+            {diff.changed.length > 0 && (
+              <div className="space-y-1">
+                <h3 className="text-sm font-medium dark:text-gray-200">Modificadas</h3>
+                {diff.changed.slice(0, CHANGES_SHOWN).map(({ before, after }) => (
+                  <div
+                    key={after.id}
+                    className="flex flex-wrap items-center gap-2 text-sm p-2 rounded border dark:border-gray-700"
+                  >
+                    <span className="text-gray-500 dark:text-gray-400 line-through">
+                      {formatDateForDisplay(before.date)} · {before.category} · <EntryAmount entry={before} />
+                    </span>
+                    <span className="dark:text-gray-400">→</span>
+                    <span className="dark:text-gray-200">
+                      {formatDateForDisplay(after.date)} · {after.category} · <EntryAmount entry={after} />
+                    </span>
+                  </div>
+                ))}
+                {diff.changed.length > CHANGES_SHOWN && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    y {diff.changed.length - CHANGES_SHOWN} más
+                  </p>
+                )}
+              </div>
+            )}
+
+            <RadioGroup
+              value={mode}
+              onValueChange={(value: RestoreMode) => setMode(value)}
+              disabled={progress !== null}
+              className="space-y-2"
+            >
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="merge" id="restore-merge" className="mt-1" />
+                <Label htmlFor="restore-merge" className="dark:text-gray-200">
+                  <span className="font-medium">Unir</span>
+                  <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                    Agrega las nuevas y actualiza las modificadas; no borra nada.
+                  </span>
+                </Label>
+              </div>
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="replace" id="restore-replace" className="mt-1" />
+                <Label htmlFor="restore-replace" className="dark:text-gray-200">
+                  <span className="font-medium">Reemplazar todo</span>
+                  <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                    Deja el negocio exactamente como en el respaldo: también elimina las que no están en él.
+                  </span>
+                </Label>
+              </div>
+            </RadioGroup>
+
+            {progress && (
+              <div className="space-y-1">
+                <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 100} className="h-2" />
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  {progress.done} de {progress.total} cambios aplicados
+                </p>
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button
+                onClick={handleRestore}
+                disabled={operations === 0 || progress !== null}
+                variant={mode === "replace" ? "destructive" : "default"}
+                className="flex items-center gap-2"
+              >
+                <RotateCcw className="w-4 h-4" />
+                {progress
+                  ? "Restaurando..."
+                  : operations === 0
+                    ? "Nada que restaurar"
+                    : `Aplicar ${operations} cambio(s)`}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { AlertCircle, Check, Settings2 } from "lucide-react"
+import { useWorkspace } from "@/components/workspace-provider"
+import { useBalanceMetric } from "@/hooks/use-balance-metric"
+import { usePermissions } from "@/hooks/use-permissions"
+import { FINANCE_METRICS, METRIC_FORMULAS, METRIC_LABELS, type FinanceMetric } from "@/lib/metrics"
+
+// Qué muestra la tarjeta "Balance"; solo el dueño lo cambia, los demás ven la fórmula
+export function BalanceMetricDialog({ className }: { className?: string }) {
+  const { metric } = useBalanceMetric()
+  const { setBalanceMetric } = useWorkspace()
+  const { canManageWorkspace } = usePermissions()
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSelect = async (value: FinanceMetric) => {
+    if (value === metric || !canManageWorkspace) return
+    setIsSaving(true)
+    setError(null)
+    try {
+      await setBalanceMetric(value)
+    } catch (err) {
+      console.error("❌ Error guardando métrica del balance:", err)
+      setError(`No se pudo guardar: ${(err as { message?: string })?.message || err}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog onOpenChange={() => setError(null)}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className={`h-6 w-6 p-0 ${className || ""}`} title="¿Qué muestra el balance?">
+          <Settings2 className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[440px] dark:bg-gray-800 dark:text-gray-100 dark:border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="dark:text-gray-100">💎 ¿Qué muestra el balance?</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            El balance del dashboard, los reportes, el análisis y el calendario se calcula con esta fórmula.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 py-2">
+          {FINANCE_METRICS.map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => handleSelect(value)}
+              disabled={isSaving || !canManageWorkspace}
+              className={`w-full flex items-center justify-between gap-2 rounded border p-3 text-left text-sm disabled:cursor-default ${
+                value === metric
+                  ? "border-blue-400 bg-blue-50 dark:border-blue-600 dark:bg-blue-900/20"
+                  : "dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700"
+              }`}
+            >
+              <span>
+                <span className="block font-medium dark:text-gray-100">{METRIC_LABELS[value]}</span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">{METRIC_FORMULAS[value]}</span>
+              </span>
+              {value === metric && <Check className="h-4 w-4 text-blue-600 dark:text-blue-400" />}
+            </button>
+          ))}
+        </div>
+        {!canManageWorkspace && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">Solo el dueño puede cambiar la métrica del balance.</p>
+        )}
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,143 @@
+"use client"
+
+import { useMemo } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle } from "lucide-react"
+import { useEntries } from "@/hooks/use-entries"
+import { useBudgets } from "@/hooks/use-budgets"
+import { useCategories } from "@/hooks/use-categories"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useBusinessCalendar } from "@/hooks/use-business-calendar"
+import { useCurrency } from "@/components/currency-provider"
+import { BudgetsDialog } from "@/components/budgets-dialog"
+import {
+  BUDGET_PERIOD_LABELS,
+  budgetPeriodRange,
+  budgetProgress,
+  describeBudgetPeriod,
+  type BudgetPeriod,
+  type BudgetProgress,
+} from "@/lib/budgets"
+
+interface BudgetOverviewProps {
+  // Día de referencia: se muestran su semana de trabajo y su mes
+  date: Date
+}
+
+function BudgetRow({ progress }: { progress: BudgetProgress }) {
+  const { formatTotal } = useCurrency()
+  const { budget, spent, limit, percentage, over } = progress
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className="font-medium dark:text-gray-200">{budget.category}</span>
+          {over && (
+            <Badge variant="destructive" className="text-xs">
+              Excedido
+            </Badge>
+          )}
+        </div>
+        <div className="text-right text-sm">
+          <span className={`font-bold ${over ? "text-red-600 dark:text-red-400" : "dark:text-gray-100"}`}>
+            {formatTotal(spent)}
+          </span>
+          <span className="text-gray-500 dark:text-gray-400"> / {formatTotal(limit)}</span>
+        </div>
+      </div>
+      <Progress
+        value={Math.min(100, percentage)}
+        className={`h-2 ${over ? "[&>div]:bg-red-500" : percentage >= 80 ? "[&>div]:bg-yellow-500" : ""}`}
+      />
+      <div className="text-xs text-gray-600 dark:text-gray-400">
+        {percentage.toFixed(0)}% usado
+        {!over && ` · quedan ${formatTotal(limit - spent)}`}
+        {over && ` · ${formatTotal(spent - limit)} de más`}
+      </div>
+    </div>
+  )
+}
+
+// Presupuesto contra gasto real por categoría, en la semana de trabajo y el mes de `date`
+export function BudgetOverview({ date }: BudgetOverviewProps) {
+  const { budgets, loading: budgetsLoading, error, saveBudget, removeBudget } = useBudgets()
+  const { namesFor, isCashMovement } = useCategories()
+  const { toBaseCents } = useCurrency()
+  const permissions = usePermissions()
+  const calendar = useBusinessCalendar()
+
+  // Ambos periodos en una sola consulta (la semana puede cruzar el mes)
+  const entriesQuery = useMemo(() => {
+    const week = budgetPeriodRange("work_week", calendar, date)
+    const month = budgetPeriodRange("month", calendar, date)
+    return {
+      from: week.from < month.from ? week.from : month.from,
+      to: week.to > month.to ? week.to : month.to,
+    }
+  }, [calendar, date])
+  const { entries, loading: entriesLoading } = useEntries({ query: entriesQuery })
+
+  const progressByPeriod = useMemo(
+    () =>
+      (["work_week", "month"] as BudgetPeriod[]).map((period) => ({
+        period,
+        rows: budgetProgress(budgets, entries, period, toBaseCents, calendar, isCashMovement, date),
+      })),
+    [budgets, entries, toBaseCents, calendar, isCashMovement, date],
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          Gasto real contra el presupuesto de cada categoría.
+        </p>
+        {permissions.canManageBudgets && (
+          <BudgetsDialog
+            budgets={budgets}
+            categories={namesFor("gasto")}
+            onSave={saveBudget}
+            onRemove={removeBudget}
+          />
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {progressByPeriod.map(({ period, rows }) => (
+          <Card key={period} className="dark:bg-gray-800/50 dark:border-gray-700">
+            <CardHeader>
+              <CardTitle className="dark:text-gray-100">
+                {BUDGET_PERIOD_LABELS[period]}
+                <span className="block text-sm font-normal text-gray-500 dark:text-gray-400">
+                  {describeBudgetPeriod(period, calendar, date)}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {budgetsLoading || entriesLoading ? (
+                <p className="text-gray-500 dark:text-gray-400 text-center py-4">Cargando...</p>
+              ) : rows.length === 0 ? (
+                <p className="text-gray-500 dark:text-gray-400 text-center py-4">
+                  Sin presupuestos para este periodo
+                </p>
+              ) : (
+                rows.map((progress) => <BudgetRow key={progress.budget.id} progress={progress} />)
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  )
+}
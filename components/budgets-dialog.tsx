@@ -0,0 +1,163 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { AlertCircle, Target } from "lucide-react"
+import { useCurrency } from "@/components/currency-provider"
+import { BUDGET_PERIOD_LABELS, type Budget, type BudgetInput, type BudgetPeriod } from "@/lib/budgets"
+import { fromCents, parseMoney } from "@/lib/money"
+
+const PERIODS: BudgetPeriod[] = ["work_week", "month"]
+
+interface BudgetsDialogProps {
+  budgets: Budget[]
+  // Categorías de gasto activas
+  categories: string[]
+  onSave: (input: BudgetInput) => Promise<unknown>
+  onRemove: (id: string) => Promise<unknown>
+}
+
+type BudgetForm = { [key: string]: string }
+
+const formKey = (category: string, period: BudgetPeriod) => `${period}|${category}`
+
+function formFromBudgets(budgets: Budget[]): BudgetForm {
+  const form: BudgetForm = {}
+  budgets.forEach((budget) => {
+    form[formKey(budget.category, budget.period)] = budget.amount.toString()
+  })
+  return form
+}
+
+// Captura de presupuestos: un monto por categoría de gasto y periodo; vacío = sin presupuesto
+export function BudgetsDialog({ budgets, categories, onSave, onRemove }: BudgetsDialogProps) {
+  const { baseCurrency } = useCurrency()
+  const [open, setOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [form, setForm] = useState<BudgetForm>({})
+
+  // Las categorías archivadas que aún tienen presupuesto también se muestran, para poder quitarlo
+  const rows = Array.from(new Set([...categories, ...budgets.map((budget) => budget.category)]))
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value)
+    if (value) {
+      setForm(formFromBudgets(budgets))
+      setError(null)
+    }
+  }
+
+  const handleSave = async () => {
+    const changes: (() => Promise<unknown>)[] = []
+    for (const category of rows) {
+      for (const period of PERIODS) {
+        const input = (form[formKey(category, period)] || "").trim()
+        const existing = budgets.find((budget) => budget.category === category && budget.period === period)
+        if (!input) {
+          if (existing) changes.push(() => onRemove(existing.id))
+          continue
+        }
+        const cents = parseMoney(input)
+        if (cents === null || cents <= 0) {
+          setError(`Monto inválido para ${category} (${BUDGET_PERIOD_LABELS[period].toLowerCase()})`)
+          return
+        }
+        const amount = fromCents(cents)
+        if (existing?.amount !== amount) changes.push(() => onSave({ category, period, amount }))
+      }
+    }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      for (const change of changes) await change()
+      setOpen(false)
+    } catch (err) {
+      console.error("❌ Error guardando presupuestos:", err)
+      setError(`No se pudo guardar: ${(err as { message?: string })?.message || err}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2 dark:border-gray-600 dark:text-gray-200">
+          <Target className="w-4 h-4" />
+          Editar presupuestos
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[520px] dark:bg-gray-800 dark:text-gray-100 dark:border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="dark:text-gray-100">🎯 Presupuestos de gasto</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            Montos en {baseCurrency}. Deja vacío el periodo que no quieras controlar.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-y-auto space-y-2 py-2">
+          <div className="grid grid-cols-3 gap-2 text-xs font-medium text-gray-500 dark:text-gray-400">
+            <span>Categoría</span>
+            {PERIODS.map((period) => (
+              <span key={period}>{BUDGET_PERIOD_LABELS[period]}</span>
+            ))}
+          </div>
+          {rows.length === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400 text-center py-4">No hay categorías de gasto.</p>
+          ) : (
+            rows.map((category) => (
+              <div key={category} className="grid grid-cols-3 gap-2 items-center">
+                <span className="text-sm dark:text-gray-200 truncate">{category}</span>
+                {PERIODS.map((period) => (
+                  <Input
+                    key={period}
+                    type="text"
+                    inputMode="decimal"
+                    placeholder="Sin presupuesto"
+                    aria-label={`${category}: ${BUDGET_PERIOD_LABELS[period]}`}
+                    value={form[formKey(category, period)] || ""}
+                    onChange={(e) => setForm({ ...form, [formKey(category, period)]: e.target.value })}
+                    className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                    disabled={isSaving}
+                  />
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={isSaving}
+            className="dark:border-gray-600 dark:text-gray-200"
+          >
+            Cancelar
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Guardando..." : "💾 Guardar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,279 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { AlertCircle, CalendarCog, X } from "lucide-react"
+import { useWorkspace } from "@/components/workspace-provider"
+import { useBusinessCalendar } from "@/hooks/use-business-calendar"
+import { usePermissions } from "@/hooks/use-permissions"
+import {
+  WEEKDAY_LABELS,
+  WEEKDAY_SHORT_LABELS,
+  closedDateLabel,
+  normalizeBusinessCalendar,
+  orderedWeekdays,
+  type BusinessCalendar,
+  type Weekday,
+} from "@/lib/business-calendar"
+
+// Para elegir el inicio de semana se listan de lunes a domingo
+const WEEKDAY_OPTIONS: Weekday[] = [1, 2, 3, 4, 5, 6, 0]
+
+const MONTH_NAMES = [
+  "Enero",
+  "Febrero",
+  "Marzo",
+  "Abril",
+  "Mayo",
+  "Junio",
+  "Julio",
+  "Agosto",
+  "Septiembre",
+  "Octubre",
+  "Noviembre",
+  "Diciembre",
+]
+
+// Ajustes del calendario del negocio; solo el dueño los cambia, los demás los ven
+export function BusinessCalendarDialog() {
+  const calendar = useBusinessCalendar()
+  const { setCalendar } = useWorkspace()
+  const { canManageWorkspace } = usePermissions()
+  const [open, setOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [form, setForm] = useState<BusinessCalendar>(calendar)
+  const [newClosed, setNewClosed] = useState({ date: "", reason: "" })
+  const disabled = isSaving || !canManageWorkspace
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value)
+    if (value) {
+      setForm(calendar)
+      setNewClosed({ date: "", reason: "" })
+      setError(null)
+    }
+  }
+
+  const toggleDay = (weekday: Weekday) => {
+    const days = form.operating_days.includes(weekday)
+      ? form.operating_days.filter((day) => day !== weekday)
+      : [...form.operating_days, weekday]
+    setForm({ ...form, operating_days: days })
+  }
+
+  const addClosedDate = () => {
+    if (!newClosed.date) return
+    if (form.closed_dates.some((closed) => closed.date === newClosed.date)) {
+      setError("Ese día ya está marcado como cerrado")
+      return
+    }
+    const reason = newClosed.reason.trim()
+    setForm({
+      ...form,
+      closed_dates: [...form.closed_dates, { date: newClosed.date, ...(reason ? { reason } : {}) }].sort((a, b) =>
+        a.date.localeCompare(b.date),
+      ),
+    })
+    setNewClosed({ date: "", reason: "" })
+    setError(null)
+  }
+
+  const handleSave = async () => {
+    if (form.operating_days.length === 0) {
+      setError("Elige al menos un día de operación")
+      return
+    }
+    setIsSaving(true)
+    setError(null)
+    try {
+      await setCalendar(normalizeBusinessCalendar(form))
+      setOpen(false)
+    } catch (err) {
+      console.error("❌ Error guardando calendario del negocio:", err)
+      setError(`No se pudo guardar: ${(err as { message?: string })?.message || err}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2 dark:border-gray-600 dark:text-gray-200">
+          <CalendarCog className="w-4 h-4" />
+          Calendario del negocio
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[520px] dark:bg-gray-800 dark:text-gray-100 dark:border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="dark:text-gray-100">📆 Calendario del negocio</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            Define cómo se agrupan las semanas y los años en el dashboard, los reportes y los presupuestos.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-y-auto space-y-4 py-2">
+          <div className="space-y-2">
+            <Label className="dark:text-gray-200">La semana de trabajo empieza el</Label>
+            <Select
+              value={String(form.week_starts_on)}
+              onValueChange={(value) => setForm({ ...form, week_starts_on: Number(value) as Weekday })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                {WEEKDAY_OPTIONS.map((weekday) => (
+                  <SelectItem key={weekday} value={String(weekday)}>
+                    {WEEKDAY_LABELS[weekday]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              El cajero solo puede corregir entradas de la semana en curso.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="dark:text-gray-200">Días que abre</Label>
+            <div className="flex flex-wrap gap-1">
+              {orderedWeekdays(form).map((weekday) => (
+                <Button
+                  key={weekday}
+                  type="button"
+                  size="sm"
+                  variant={form.operating_days.includes(weekday) ? "default" : "outline"}
+                  onClick={() => toggleDay(weekday)}
+                  disabled={disabled}
+                  className="w-12"
+                >
+                  {WEEKDAY_SHORT_LABELS[weekday]}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="dark:text-gray-200">El año fiscal empieza en</Label>
+            <Select
+              value={String(form.fiscal_year_start_month)}
+              onValueChange={(value) => setForm({ ...form, fiscal_year_start_month: Number(value) })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                {MONTH_NAMES.map((name, index) => (
+                  <SelectItem key={name} value={String(index + 1)}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="dark:text-gray-200">Días cerrados (festivos, vacaciones)</Label>
+            {form.closed_dates.length === 0 ? (
+              <p className="text-xs text-gray-500 dark:text-gray-400">Ningún día cerrado.</p>
+            ) : (
+              <div className="space-y-1">
+                {form.closed_dates.map((closed) => (
+                  <div
+                    key={closed.date}
+                    className="flex items-center justify-between gap-2 rounded border px-2 py-1 text-sm dark:border-gray-600"
+                  >
+                    <span className="capitalize dark:text-gray-200">
+                      {closedDateLabel(closed)}
+                      {closed.reason && <span className="text-gray-500 dark:text-gray-400"> · {closed.reason}</span>}
+                    </span>
+                    {canManageWorkspace && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          setForm({
+                            ...form,
+                            closed_dates: form.closed_dates.filter((current) => current.date !== closed.date),
+                          })
+                        }
+                        disabled={isSaving}
+                        className="text-red-500 hover:text-red-700 dark:text-red-400"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            {canManageWorkspace && (
+              <div className="flex gap-2">
+                <Input
+                  type="date"
+                  value={newClosed.date}
+                  onChange={(e) => setNewClosed({ ...newClosed, date: e.target.value })}
+                  className="w-[160px] dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                  disabled={isSaving}
+                />
+                <Input
+                  value={newClosed.reason}
+                  onChange={(e) => setNewClosed({ ...newClosed, reason: e.target.value })}
+                  placeholder="Motivo (opcional)"
+                  className="flex-1 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                  disabled={isSaving}
+                />
+                <Button type="button" variant="outline" onClick={addClosedDate} disabled={isSaving || !newClosed.date}>
+                  Agregar
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {!canManageWorkspace && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">Solo el dueño puede cambiar el calendario.</p>
+          )}
+        </div>
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={isSaving}
+            className="dark:border-gray-600 dark:text-gray-200"
+          >
+            {canManageWorkspace ? "Cancelar" : "Cerrar"}
+          </Button>
+          {canManageWorkspace && (
+            <Button type="button" onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Guardando..." : "💾 Guardar"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,339 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { AlertCircle, Lock } from "lucide-react"
+import { useCurrency } from "@/components/currency-provider"
+import type { Account } from "@/lib/accounts"
+import {
+  LOOSE_CASH_KEY,
+  cashDayFlow,
+  countedCents,
+  denominationKey,
+  denominationsFor,
+  previousClose,
+  type CashClose,
+  type CashCloseInput,
+} from "@/lib/cash-close"
+import { fromCents, parseMoney } from "@/lib/money"
+import { formatDateForDisplay } from "@/lib/date-utils"
+import type { Entry } from "@/lib/storage"
+
+interface CashCloseDialogProps {
+  date: string
+  // Entradas de ese día
+  entries: Entry[]
+  // Cajas que faltan por cerrar ese día
+  cashAccounts: Account[]
+  // Cuenta de las entradas sin cuenta (useAccounts().defaultAccountId)
+  defaultAccountId: string | null
+  // Arqueos anteriores, para proponer el fondo inicial
+  closes: CashClose[]
+  onClose: (input: Omit<CashCloseInput, "adjustment_entry_id">) => Promise<unknown>
+}
+
+// Piezas capturadas como texto; vacío cuenta como cero
+function parseCount(value: string | undefined): number | null {
+  if (!value?.trim()) return 0
+  const count = Number(value)
+  return Number.isInteger(count) && count >= 0 ? count : null
+}
+
+// Cierre del día: fondo inicial + entradas − salidas de efectivo contra lo contado por billetes y monedas
+export function CashCloseDialog({
+  date,
+  entries,
+  cashAccounts,
+  defaultAccountId,
+  closes,
+  onClose,
+}: CashCloseDialogProps) {
+  const { baseCurrency, toBaseCents, formatTotal } = useCurrency()
+  const [open, setOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [accountId, setAccountId] = useState("")
+  const [opening, setOpening] = useState("")
+  const [counts, setCounts] = useState<Record<string, string>>({})
+  const [loose, setLoose] = useState("")
+  const [notes, setNotes] = useState("")
+
+  const denominations = denominationsFor(baseCurrency)
+
+  const openingFor = (id: string) => {
+    const previous = previousClose(closes, id, date)
+    return previous ? previous.counted.toString() : ""
+  }
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value)
+    if (value) {
+      const id = cashAccounts[0]?.id || ""
+      setAccountId(id)
+      setOpening(openingFor(id))
+      setCounts({})
+      setLoose("")
+      setNotes("")
+      setError(null)
+    }
+  }
+
+  const flow = useMemo(
+    () => cashDayFlow(entries, accountId, defaultAccountId, toBaseCents),
+    [entries, accountId, defaultAccountId, toBaseCents],
+  )
+  const openingCents = parseMoney(opening || "0")
+  const looseCents = parseMoney(loose || "0")
+  const parsedCounts = useMemo(() => {
+    const parsed: Record<string, number> = {}
+    for (const denomination of denominations) {
+      const count = parseCount(counts[denominationKey(denomination)])
+      if (count === null) return null
+      if (count > 0) parsed[denominationKey(denomination)] = count
+    }
+    return parsed
+  }, [counts, denominations])
+
+  const expected = (openingCents ?? 0) + flow.cashIn - flow.cashOut
+  const counted =
+    parsedCounts && looseCents !== null
+      ? countedCents(baseCurrency, { ...parsedCounts, ...(looseCents ? { [LOOSE_CASH_KEY]: looseCents } : {}) })
+      : 0
+  const difference = counted - expected
+
+  const handleSave = async () => {
+    if (!accountId) {
+      setError("Elige la caja que se contó")
+      return
+    }
+    if (openingCents === null || openingCents < 0) {
+      setError("Fondo inicial inválido")
+      return
+    }
+    if (!parsedCounts || looseCents === null || looseCents < 0) {
+      setError("Revisa las piezas contadas: deben ser números enteros")
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onClose({
+        account_id: accountId,
+        date,
+        opening_float: fromCents(openingCents),
+        cash_in: fromCents(flow.cashIn),
+        cash_out: fromCents(flow.cashOut),
+        expected: fromCents(expected),
+        counted: fromCents(counted),
+        difference: fromCents(difference),
+        denominations: { ...parsedCounts, ...(looseCents ? { [LOOSE_CASH_KEY]: looseCents } : {}) },
+        notes: notes.trim() || undefined,
+      })
+      setOpen(false)
+    } catch (err) {
+      console.error("❌ Error cerrando caja:", err)
+      setError(`No se pudo cerrar la caja: ${(err as { message?: string })?.message || err}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const denominationRows = (kind: "bill" | "coin") =>
+    denominations
+      .filter((denomination) => denomination.kind === kind)
+      .map((denomination) => {
+        const key = denominationKey(denomination)
+        const count = parseCount(counts[key]) || 0
+        return (
+          <div key={key} className="grid grid-cols-[5rem_1fr_6rem] gap-2 items-center">
+            <span className="text-sm dark:text-gray-200">{formatTotal(denomination.value)}</span>
+            <Input
+              type="text"
+              inputMode="numeric"
+              placeholder="0"
+              aria-label={`Piezas de ${formatTotal(denomination.value)}`}
+              value={counts[key] || ""}
+              onChange={(e) => setCounts({ ...counts, [key]: e.target.value })}
+              className="h-8 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+              disabled={isSaving}
+            />
+            <span className="text-sm text-right text-gray-600 dark:text-gray-400">
+              {formatTotal(count * denomination.value)}
+            </span>
+          </div>
+        )
+      })
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" disabled={cashAccounts.length === 0} className="flex items-center gap-2">
+          <Lock className="w-4 h-4" />
+          Cerrar caja
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px] dark:bg-gray-800 dark:text-gray-100 dark:border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="dark:text-gray-100">🧮 Arqueo del {formatDateForDisplay(date)}</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            Cuenta el efectivo por billetes y monedas ({baseCurrency}). La diferencia se registra como sobrante o
+            faltante de caja.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-y-auto space-y-4 py-2">
+          {cashAccounts.length > 1 && (
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="close-account" className="text-right dark:text-gray-200">
+                Caja
+              </Label>
+              <Select
+                value={accountId}
+                onValueChange={(id) => {
+                  setAccountId(id)
+                  setOpening(openingFor(id))
+                }}
+                disabled={isSaving}
+              >
+                <SelectTrigger
+                  id="close-account"
+                  className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                  {cashAccounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.icon} {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="close-opening" className="text-right dark:text-gray-200">
+              Fondo inicial
+            </Label>
+            <Input
+              id="close-opening"
+              type="text"
+              inputMode="decimal"
+              placeholder="0.00"
+              value={opening}
+              onChange={(e) => setOpening(e.target.value)}
+              className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="rounded-md border p-3 text-sm space-y-1 dark:border-gray-600">
+            <div className="flex justify-between">
+              <span>💰 Entradas de efectivo</span>
+              <span className="text-green-600 dark:text-green-400">+{formatTotal(flow.cashIn)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>💸 Salidas de efectivo</span>
+              <span className="text-red-600 dark:text-red-400">−{formatTotal(flow.cashOut)}</span>
+            </div>
+            <div className="flex justify-between font-medium border-t pt-1 dark:border-gray-600">
+              <span>Esperado en caja</span>
+              <span>{formatTotal(expected)}</span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <div className="text-sm font-medium dark:text-gray-200">💵 Billetes</div>
+              {denominationRows("bill")}
+            </div>
+            <div className="space-y-2">
+              <div className="text-sm font-medium dark:text-gray-200">🪙 Monedas</div>
+              {denominationRows("coin")}
+              <div className="grid grid-cols-[5rem_1fr_6rem] gap-2 items-center">
+                <span className="text-sm dark:text-gray-200">Suelto</span>
+                <Input
+                  type="text"
+                  inputMode="decimal"
+                  placeholder="0.00"
+                  aria-label="Monto suelto"
+                  value={loose}
+                  onChange={(e) => setLoose(e.target.value)}
+                  className="h-8 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                  disabled={isSaving}
+                />
+                <span />
+              </div>
+            </div>
+          </div>
+
+          <div className="rounded-md border p-3 text-sm space-y-1 dark:border-gray-600">
+            <div className="flex justify-between font-medium">
+              <span>Contado</span>
+              <span>{formatTotal(counted)}</span>
+            </div>
+            <div
+              className={`flex justify-between font-bold ${
+                difference === 0
+                  ? "text-gray-700 dark:text-gray-200"
+                  : difference > 0
+                    ? "text-green-600 dark:text-green-400"
+                    : "text-red-600 dark:text-red-400"
+              }`}
+            >
+              <span>{difference === 0 ? "✅ Cuadra" : difference > 0 ? "⬆️ Sobrante" : "⬇️ Faltante"}</span>
+              <span>{formatTotal(Math.abs(difference))}</span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="close-notes" className="text-right dark:text-gray-200">
+              Notas
+            </Label>
+            <Input
+              id="close-notes"
+              placeholder="Opcional"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+              disabled={isSaving}
+            />
+          </div>
+        </div>
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={isSaving}
+            className="dark:border-gray-600 dark:text-gray-200"
+          >
+            Cancelar
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Guardando..." : "🔒 Cerrar caja"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,94 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { useCurrency } from "@/components/currency-provider"
+import { LOOSE_CASH_KEY, denominationKey, denominationsFor, type CashClose } from "@/lib/cash-close"
+import { toCents } from "@/lib/money"
+import type { Account } from "@/lib/accounts"
+
+interface CashCloseHistoryProps {
+  closes: CashClose[]
+  getAccount: (id?: string | null) => Account | null
+  // Sin él no se ofrece reabrir
+  onReopen?: (close: CashClose) => Promise<unknown>
+}
+
+// Arqueos de un día: cuentas, diferencia y las piezas contadas
+export function CashCloseHistory({ closes, getAccount, onReopen }: CashCloseHistoryProps) {
+  const { baseCurrency, formatTotal } = useCurrency()
+  const [reopening, setReopening] = useState<string | null>(null)
+
+  const handleReopen = async (close: CashClose) => {
+    if (!onReopen || !confirm("¿Reabrir la caja? Se borra el arqueo y su ajuste para contar de nuevo.")) return
+    setReopening(close.id)
+    try {
+      await onReopen(close)
+    } catch (err) {
+      console.error("❌ Error reabriendo caja:", err)
+    } finally {
+      setReopening(null)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {closes.map((close) => {
+        const account = getAccount(close.account_id)
+        const difference = toCents(close.difference)
+        const pieces = denominationsFor(baseCurrency)
+          .filter((denomination) => close.denominations[denominationKey(denomination)])
+          .map(
+            (denomination) =>
+              `${close.denominations[denominationKey(denomination)]} × ${formatTotal(denomination.value)}`,
+          )
+        if (close.denominations[LOOSE_CASH_KEY]) {
+          pieces.push(`suelto ${formatTotal(close.denominations[LOOSE_CASH_KEY])}`)
+        }
+
+        return (
+          <div key={close.id} className="p-2 rounded border text-xs space-y-1 dark:border-gray-600">
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-sm text-gray-800 dark:text-gray-100">
+                🔒 {account ? `${account.icon} ${account.name}` : "Caja"}
+              </span>
+              <span
+                className={`font-bold ${
+                  difference === 0
+                    ? "text-gray-700 dark:text-gray-200"
+                    : difference > 0
+                      ? "text-green-600 dark:text-green-400"
+                      : "text-red-600 dark:text-red-400"
+                }`}
+              >
+                {difference === 0
+                  ? "✅ Cuadra"
+                  : `${difference > 0 ? "⬆️ Sobrante" : "⬇️ Faltante"} ${formatTotal(Math.abs(difference))}`}
+              </span>
+            </div>
+            <div className="text-gray-600 dark:text-gray-400">
+              Fondo {formatTotal(toCents(close.opening_float))} + {formatTotal(toCents(close.cash_in))} −{" "}
+              {formatTotal(toCents(close.cash_out))} = esperado {formatTotal(toCents(close.expected))} · contado{" "}
+              {formatTotal(toCents(close.counted))}
+            </div>
+            {pieces.length > 0 && <div className="text-gray-500 dark:text-gray-400">{pieces.join(" · ")}</div>}
+            {close.notes && <div className="text-gray-500 dark:text-gray-400">📝 {close.notes}</div>}
+            {onReopen && (
+              <div className="flex justify-end">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleReopen(close)}
+                  disabled={reopening === close.id}
+                  className="h-7 text-xs"
+                >
+                  {reopening === close.id ? "Reabriendo..." : "🔓 Reabrir"}
+                </Button>
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,204 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { AlertCircle, GitMerge } from "lucide-react"
+import { entriesService, type Entry } from "@/lib/storage"
+import type { Category } from "@/lib/categories"
+import { formatDateForDisplay } from "@/lib/date-utils"
+import { sumAmounts, type Cents } from "@/lib/money"
+import { useCurrency } from "@/components/currency-provider"
+import { EntryAmount } from "@/components/entry-amount"
+
+// Entradas que se muestran como muestra en la vista previa
+const PREVIEW_LIMIT = 10
+
+interface CategoryMergeDialogProps {
+  category: Category
+  // Las demás categorías del mismo tipo (posibles destinos de una fusión)
+  siblings: Category[]
+  onMerge: (type: Entry["type"], from: string, to: string) => Promise<unknown>
+}
+
+interface MergePreview {
+  count: number
+  total: Cents
+  sample: Entry[]
+}
+
+export function CategoryMergeDialog({ category, siblings, onMerge }: CategoryMergeDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [target, setTarget] = useState("")
+  const [preview, setPreview] = useState<MergePreview | null>(null)
+  const [loadingPreview, setLoadingPreview] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { conversion, formatTotal } = useCurrency()
+
+  const targetName = target.trim()
+  const existing = siblings.find((sibling) => sibling.name.toLowerCase() === targetName.toLowerCase())
+  const isMerge = !!existing
+  // Si el destino ya existe se usa su nombre exacto
+  const finalName = existing?.name || targetName
+  const isValid = !!finalName && finalName !== category.name
+
+  // Vista previa: cuántas entradas se reescriben y algunas de ellas
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    const filter = { types: [category.type], categories: [category.name] }
+    setLoadingPreview(true)
+    Promise.all([entriesService.summarize(filter, conversion), entriesService.query({ ...filter, limit: PREVIEW_LIMIT })])
+      .then(([rows, page]) => {
+        if (cancelled) return
+        setPreview({
+          count: rows.reduce((sum, row) => sum + row.count, 0),
+          total: sumAmounts(rows, (row) => row.total),
+          sample: page.entries,
+        })
+      })
+      .catch((err) => {
+        console.error("❌ Error en la vista previa:", err)
+        if (!cancelled) setError("No se pudo calcular la vista previa")
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingPreview(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [open, category.type, category.name, conversion])
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value)
+    if (value) {
+      setTarget("")
+      setError(null)
+      setPreview(null)
+    }
+  }
+
+  const handleApply = async () => {
+    if (!isValid || isApplying) return
+    setIsApplying(true)
+    setError(null)
+    try {
+      await onMerge(category.type, category.name, finalName)
+      setOpen(false)
+    } catch (err) {
+      console.error("❌ Error renombrando categoría:", err)
+      setError(`No se pudo aplicar: ${(err as { message?: string })?.message || err}`)
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Renombrar o fusionar">
+          <GitMerge className="w-4 h-4" />
+          <span className="sr-only">Renombrar o fusionar</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px] dark:bg-gray-800 dark:text-gray-100 dark:border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="dark:text-gray-100">🔀 Renombrar o fusionar "{category.name}"</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            Todas las entradas de esta categoría pasan al nombre nuevo. Si el nombre ya existe, las dos categorías se
+            fusionan.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`merge-target-${category.id}`}>Nuevo nombre o categoría destino</Label>
+            <Input
+              id={`merge-target-${category.id}`}
+              list={`merge-options-${category.id}`}
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              placeholder="Ej. Bebidas"
+              className="dark:bg-gray-700 dark:border-gray-600"
+            />
+            <datalist id={`merge-options-${category.id}`}>
+              {siblings.map((sibling) => (
+                <option key={sibling.id} value={sibling.name} />
+              ))}
+            </datalist>
+            {isValid && (
+              <p className="text-xs text-gray-600 dark:text-gray-400">
+                {isMerge
+                  ? `Fusión: "${category.name}" desaparece y sus entradas pasan a "${finalName}".`
+                  : `Renombrado: "${category.name}" pasa a llamarse "${finalName}".`}
+              </p>
+            )}
+          </div>
+
+          <div className="rounded-lg border p-3 space-y-2 dark:border-gray-700">
+            {!preview ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {loadingPreview ? "Calculando entradas afectadas..." : "Sin vista previa"}
+              </p>
+            ) : (
+              <>
+                <p className="text-sm font-medium">
+                  {preview.count} entrada{preview.count !== 1 ? "s" : ""} afectada{preview.count !== 1 ? "s" : ""} ·{" "}
+                  {formatTotal(preview.total)}
+                </p>
+                {preview.sample.map((entry) => (
+                  <div key={entry.id} className="flex justify-between text-xs text-gray-600 dark:text-gray-400">
+                    <span>
+                      {formatDateForDisplay(entry.date)}
+                      {entry.description ? ` · ${entry.description}` : ""}
+                    </span>
+                    <EntryAmount entry={entry} />
+                  </div>
+                ))}
+                {preview.count > preview.sample.length && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    y {preview.count - preview.sample.length} más
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={isApplying}
+            className="dark:border-gray-600 dark:text-gray-200"
+          >
+            Cancelar
+          </Button>
+          <Button type="button" onClick={handleApply} disabled={!isValid || isApplying || loadingPreview}>
+            {isApplying ? "Aplicando..." : isMerge ? "🔀 Fusionar" : "✏️ Renombrar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -3,7 +3,7 @@
 import { useState, useEffect } from "react"
 import { Badge } from "@/components/ui/badge"
 import { Wifi, WifiOff, RefreshCw, AlertCircle } from "lucide-react"
-import { supabase } from "@/lib/supabase"
+import { entriesService, requestQueueReplay } from "@/lib/storage"
 import Link from "next/link"
 
 export function ConnectionStatus() {
@@ -14,37 +14,38 @@ export function ConnectionStatus() {
 
   useEffect(() => {
     // Verificar conexión a internet
-    const handleOnline = () => setIsOnline(true)
+    const handleOnline = () => {
+      setIsOnline(true)
+      // Al volver la red, reenviar las escrituras que quedaron en cola
+      requestQueueReplay()
+    }
     const handleOffline = () => setIsOnline(false)
 
     window.addEventListener("online", handleOnline)
     window.addEventListener("offline", handleOffline)
 
-    // Verificar conexión a Supabase
-    const checkSupabaseConnection = async () => {
+    // Verificar conexión con el backend de almacenamiento
+    let wasConnected = true
+    const checkStorageConnection = async () => {
       setIsChecking(true)
       try {
-        const { data, error } = await supabase.from("entries").select("count").limit(1)
-
-        if (error) {
-          console.error("Error connecting to Supabase:", error)
-          setError(error.message)
-          setIsConnected(false)
-        } else {
-          setError(null)
-          setIsConnected(true)
-        }
+        await entriesService.checkConnection()
+        setError(null)
+        setIsConnected(true)
+        if (!wasConnected) requestQueueReplay()
+        wasConnected = true
       } catch (err) {
-        console.error("Exception checking Supabase connection:", err)
+        console.error("Error connecting to storage backend:", err)
         setIsConnected(false)
-        setError(err instanceof Error ? err.message : "Error desconocido")
+        wasConnected = false
+        setError(err instanceof Error ? err.message : (err as { message?: string })?.message || "Error desconocido")
       } finally {
         setIsChecking(false)
       }
     }
 
-    checkSupabaseConnection()
-    const interval = setInterval(checkSupabaseConnection, 30000) // Verificar cada 30 segundos
+    checkStorageConnection()
+    const interval = setInterval(checkStorageConnection, 30000) // Verificar cada 30 segundos
 
     return () => {
       window.removeEventListener("online", handleOnline)
@@ -78,7 +79,7 @@ export function ConnectionStatus() {
         text: error ? "Error" : "Reconectando...",
         variant: "destructive" as const,
         className: "bg-red-100 text-red-800 border-red-200",
-        tooltip: error,
+        tooltip: error ?? undefined,
       }
     }
 
@@ -87,6 +88,7 @@ export function ConnectionStatus() {
       text: "Conectado",
       variant: "default" as const,
       className: "bg-green-100 text-green-800 border-green-200",
+      tooltip: entriesService.name,
     }
   }
 
@@ -0,0 +1,383 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useMemo, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle, CheckCircle2, FileUp, Upload } from "lucide-react"
+import { EntryAmount } from "@/components/entry-amount"
+import { useCategories } from "@/hooks/use-categories"
+import { entriesService, type Entry } from "@/lib/storage"
+import {
+  IMPORT_FIELD_LABELS,
+  guessMapping,
+  parseCsv,
+  type ColumnMapping,
+  type CsvTable,
+  type ImportField,
+} from "@/lib/import/csv"
+import {
+  candidateRange,
+  csvRowsToCandidates,
+  loadEntries,
+  markDuplicates,
+  type ImportCandidate,
+} from "@/lib/import/preview"
+import type { DecimalSeparator } from "@/lib/import/parse"
+import { formatDateForDisplay } from "@/lib/date-utils"
+
+const REQUIRED_FIELDS: ImportField[] = ["category", "amount", "date"]
+// Filas que se dibujan en la vista previa; el resto se importa igual
+const PREVIEW_LIMIT = 300
+const NO_COLUMN = "none"
+
+const TYPE_LABELS: Record<Entry["type"], string> = {
+  gasto: "💸 Gasto",
+  ingreso: "💰 Ingreso",
+  inversion: "📈 Inversión",
+}
+
+// Importar entradas desde un CSV: mapeo de columnas, vista previa y un solo guardado para todo el lote
+export function CsvImport() {
+  const { namesFor } = useCategories()
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [table, setTable] = useState<CsvTable | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [decimal, setDecimal] = useState<DecimalSeparator>("auto")
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([])
+  const [checkingDuplicates, setCheckingDuplicates] = useState(false)
+  const [includeDuplicates, setIncludeDuplicates] = useState(false)
+  const [onlyProblems, setOnlyProblems] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+    setError(null)
+    setNotice(null)
+    try {
+      const parsed = parseCsv(await file.text())
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        setError("El archivo no tiene filas para importar")
+        return
+      }
+      setFileName(file.name)
+      setTable(parsed)
+      setMapping(guessMapping(parsed.headers))
+    } catch (err) {
+      console.error("❌ Error leyendo CSV:", err)
+      setError("No se pudo leer el archivo")
+    }
+  }
+
+  const missingFields = mapping ? REQUIRED_FIELDS.filter((field) => mapping[field] === null) : REQUIRED_FIELDS
+
+  // Interpretar las filas y buscar duplicadas contra las entradas del mismo rango de fechas
+  useEffect(() => {
+    if (!table || !mapping || REQUIRED_FIELDS.some((field) => mapping[field] === null)) {
+      setCandidates([])
+      return
+    }
+    const parsed = csvRowsToCandidates(table, { mapping, decimal, categoryNames: namesFor })
+    setCandidates(parsed)
+    const range = candidateRange(parsed)
+    if (!range) return
+
+    let cancelled = false
+    setCheckingDuplicates(true)
+    loadEntries(entriesService, range)
+      .then((existing) => {
+        if (!cancelled) setCandidates(markDuplicates(parsed, existing))
+      })
+      .catch((err) => {
+        console.error("❌ Error buscando duplicadas:", err)
+        if (!cancelled) setError("No se pudieron revisar las duplicadas; verifica la conexión")
+      })
+      .finally(() => {
+        if (!cancelled) setCheckingDuplicates(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [table, mapping, decimal, namesFor])
+
+  const counts = useMemo(
+    () => ({
+      valid: candidates.filter((candidate) => candidate.entry && !candidate.duplicate).length,
+      invalid: candidates.filter((candidate) => !candidate.entry).length,
+      duplicates: candidates.filter((candidate) => candidate.duplicate).length,
+    }),
+    [candidates],
+  )
+
+  const toImport = useMemo(
+    () =>
+      candidates.flatMap((candidate) =>
+        candidate.entry && (includeDuplicates || !candidate.duplicate) ? [candidate.entry] : [],
+      ),
+    [candidates, includeDuplicates],
+  )
+
+  const visible = useMemo(
+    () =>
+      (onlyProblems
+        ? candidates.filter((candidate) => !candidate.entry || candidate.duplicate || candidate.warnings.length > 0)
+        : candidates
+      ).slice(0, PREVIEW_LIMIT),
+    [candidates, onlyProblems],
+  )
+
+  const handleImport = async () => {
+    if (toImport.length === 0 || isImporting || checkingDuplicates) return
+    setIsImporting(true)
+    setError(null)
+    try {
+      // Todo el lote o nada: si falla una fila no queda una importación a medias
+      const created = await entriesService.createMany(toImport)
+      console.log("📥 Importación CSV completada:", created.length)
+      setNotice(`${created.length} entrada(s) importada(s) desde ${fileName}`)
+      setTable(null)
+      setMapping(null)
+      setFileName(null)
+      setCandidates([])
+    } catch (err) {
+      console.error("❌ Error importando CSV:", err)
+      setError(`No se importó ninguna entrada: ${(err as { message?: string })?.message || err}`)
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const setColumn = (field: ImportField, value: string) => {
+    if (!mapping) return
+    setMapping({ ...mapping, [field]: value === NO_COLUMN ? null : Number(value) })
+  }
+
+  return (
+    <div className="space-y-6">
+      {notice && (
+        <Alert className="bg-green-50 border-green-200 dark:bg-green-900/20 dark:border-green-800">
+          <CheckCircle2 className="h-4 w-4 text-green-600" />
+          <AlertDescription className="text-green-800 dark:text-green-200">{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Archivo */}
+      <Card className="dark:bg-gray-800/50 dark:border-gray-700">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 dark:text-gray-100">
+            <FileUp className="w-5 h-5" />
+            Archivo CSV
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFile}
+            className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            La primera fila deben ser los encabezados. Se aceptan fechas como 05/03/2024 o 5 de marzo de 2024 y
+            montos con coma decimal (1.250,50). Sin columna de tipo, los montos negativos se importan como gastos
+            y los positivos como ingresos.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Columnas */}
+      {table && mapping && (
+        <Card className="dark:bg-gray-800/50 dark:border-gray-700">
+          <CardHeader>
+            <CardTitle className="dark:text-gray-100">Columnas</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+              {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map((field) => (
+                <div key={field} className="space-y-2">
+                  <Label className="dark:text-gray-200">
+                    {IMPORT_FIELD_LABELS[field]}
+                    {REQUIRED_FIELDS.includes(field) && " *"}
+                  </Label>
+                  <Select
+                    value={mapping[field] === null ? NO_COLUMN : String(mapping[field])}
+                    onValueChange={(value) => setColumn(field, value)}
+                  >
+                    <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                      <SelectItem value={NO_COLUMN}>— Ninguna —</SelectItem>
+                      {table.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Columna ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <div className="space-y-2">
+                <Label className="dark:text-gray-200">Decimales</Label>
+                <Select value={decimal} onValueChange={(value: DecimalSeparator) => setDecimal(value)}>
+                  <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                    <SelectItem value="auto">Automático</SelectItem>
+                    <SelectItem value=",">Coma (1.250,50)</SelectItem>
+                    <SelectItem value=".">Punto (1,250.50)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {missingFields.length > 0 && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                Elige la columna de: {missingFields.map((field) => IMPORT_FIELD_LABELS[field]).join(", ")}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Vista previa */}
+      {candidates.length > 0 && (
+        <Card className="dark:bg-gray-800/50 dark:border-gray-700">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4">
+            <CardTitle className="dark:text-gray-100">Vista previa · {fileName}</CardTitle>
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                {counts.valid} válidas
+              </Badge>
+              <Badge variant="destructive">{counts.invalid} con errores</Badge>
+              <Badge className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300">
+                {checkingDuplicates ? "Buscando duplicadas..." : `${counts.duplicates} posibles duplicadas`}
+              </Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center gap-6">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="only-problems"
+                  checked={onlyProblems}
+                  onCheckedChange={(checked) => setOnlyProblems(checked === true)}
+                />
+                <Label htmlFor="only-problems" className="dark:text-gray-200">
+                  Solo filas con errores o avisos
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="include-duplicates"
+                  checked={includeDuplicates}
+                  onCheckedChange={(checked) => setIncludeDuplicates(checked === true)}
+                />
+                <Label htmlFor="include-duplicates" className="dark:text-gray-200">
+                  Importar también las posibles duplicadas
+                </Label>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Línea</TableHead>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Categoría</TableHead>
+                    <TableHead className="text-right">Monto</TableHead>
+                    <TableHead>Descripción</TableHead>
+                    <TableHead>Estado</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visible.map((candidate) => (
+                    <TableRow
+                      key={candidate.line}
+                      className={
+                        !candidate.entry
+                          ? "bg-red-50 dark:bg-red-900/10"
+                          : candidate.duplicate
+                            ? "bg-yellow-50 dark:bg-yellow-900/10"
+                            : ""
+                      }
+                    >
+                      <TableCell className="text-gray-500 dark:text-gray-400">{candidate.line}</TableCell>
+                      {candidate.entry ? (
+                        <>
+                          <TableCell className="dark:text-gray-200">
+                            {formatDateForDisplay(candidate.entry.date)}
+                          </TableCell>
+                          <TableCell className="dark:text-gray-200">{TYPE_LABELS[candidate.entry.type]}</TableCell>
+                          <TableCell className="dark:text-gray-200">{candidate.entry.category}</TableCell>
+                          <TableCell className="text-right font-medium dark:text-gray-100">
+                            <EntryAmount entry={candidate.entry} />
+                          </TableCell>
+                          <TableCell className="text-gray-600 dark:text-gray-400">
+                            {candidate.entry.description}
+                          </TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={5} className="text-red-700 dark:text-red-400">
+                          {candidate.errors.join(" · ")}
+                        </TableCell>
+                      )}
+                      <TableCell className="text-xs">
+                        {!candidate.entry ? (
+                          <span className="text-red-700 dark:text-red-400">Error</span>
+                        ) : candidate.duplicate ? (
+                          <span className="text-yellow-700 dark:text-yellow-400">Posible duplicada</span>
+                        ) : candidate.warnings.length > 0 ? (
+                          <span className="text-blue-700 dark:text-blue-400">{candidate.warnings.join(" · ")}</span>
+                        ) : (
+                          <span className="text-green-700 dark:text-green-400">OK</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {candidates.length > PREVIEW_LIMIT && !onlyProblems && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Se muestran las primeras {PREVIEW_LIMIT} de {candidates.length} filas.
+              </p>
+            )}
+
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Las filas con errores no se importan. Si algo falla al guardar, no se importa ninguna.
+              </p>
+              <Button
+                onClick={handleImport}
+                disabled={toImport.length === 0 || isImporting || checkingDuplicates}
+                className="flex items-center gap-2"
+              >
+                <Upload className="w-4 h-4" />
+                {isImporting ? "Importando..." : `Importar ${toImport.length} entrada(s)`}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+"use client"
+
+import type React from "react"
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react"
+import { useWorkspace } from "@/components/workspace-provider"
+import { exchangeRatesService, type ExchangeRateInput } from "@/lib/exchange-rates"
+import { DEFAULT_CURRENCY, formatAmount, formatMoney, sumEntries, type Cents } from "@/lib/money"
+import {
+  entryBaseCents,
+  entryCurrency,
+  findExchangeRate,
+  type CurrencyConversion,
+  type Entry,
+  type ExchangeRate,
+} from "@/lib/storage"
+
+type MoneyEntry = Pick<Entry, "type" | "amount" | "currency" | "date">
+
+interface CurrencyContextValue {
+  baseCurrency: string
+  rates: ExchangeRate[]
+  conversion: CurrencyConversion
+  // Monto de una entrada en centavos de la moneda base
+  toBaseCents: (entry: Pick<Entry, "amount" | "currency" | "date">) => Cents
+  // Total en centavos de la moneda base, opcionalmente de un solo tipo
+  totalOf: (entries: MoneyEntry[], type?: Entry["type"]) => Cents
+  // Centavos de la moneda base con su símbolo
+  formatTotal: (cents: Cents, options?: { whole?: boolean }) => string
+  // Monto original de la entrada en su moneda; null si ya está en la moneda base
+  originalAmount: (entry: Pick<Entry, "amount" | "currency" | "date">) => string | null
+  saveRate: (input: ExchangeRateInput) => Promise<ExchangeRate | null>
+  removeRate: (id: string) => Promise<void>
+  refetch: () => Promise<void>
+}
+
+const CurrencyContext = createContext<CurrencyContextValue | null>(null)
+
+// Moneda base y tipos de cambio del negocio activo; todos los totales se convierten con ellos
+export function CurrencyProvider({ children }: { children: React.ReactNode }) {
+  const { activeWorkspace } = useWorkspace()
+  const workspaceId = activeWorkspace?.id
+  const baseCurrency = activeWorkspace?.base_currency || DEFAULT_CURRENCY
+  const [rates, setRates] = useState<ExchangeRate[]>([])
+
+  const loadRates = useCallback(async () => {
+    if (!workspaceId) return
+    try {
+      setRates(await exchangeRatesService.list(workspaceId))
+    } catch (err) {
+      // Sin tipos de cambio los montos en otra moneda se cuentan 1 a 1
+      console.error("❌ Error loading exchange rates:", err)
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    loadRates()
+  }, [loadRates])
+
+  const value = useMemo<CurrencyContextValue>(() => {
+    const conversion: CurrencyConversion = { baseCurrency, rates }
+    const toBaseCents = (entry: Pick<Entry, "amount" | "currency" | "date">) => entryBaseCents(entry, conversion)
+
+    return {
+      baseCurrency,
+      rates,
+      conversion,
+      toBaseCents,
+      totalOf: (entries, type) => sumEntries(entries, type, toBaseCents),
+      formatTotal: (cents, options) => formatMoney(cents, { ...options, currency: baseCurrency }),
+      originalAmount: (entry) => {
+        const currency = entryCurrency(entry, baseCurrency)
+        if (currency === baseCurrency) return null
+        const rate = findExchangeRate(rates, currency, entry.date)
+        const original = `${formatAmount(entry.amount, { currency })} ${currency}`
+        return rate === null ? `${original} (sin tipo de cambio, se cuenta 1 a 1)` : `${original} × ${rate}`
+      },
+      saveRate: async (input) => {
+        if (!workspaceId) return null
+        const saved = await exchangeRatesService.save(workspaceId, input)
+        // Reemplaza el de la misma moneda y fecha, si había
+        setRates((prev) => [
+          ...prev.filter((rate) => rate.id !== saved.id && !(rate.currency === saved.currency && rate.date === saved.date)),
+          saved,
+        ])
+        return saved
+      },
+      removeRate: async (id) => {
+        if (!workspaceId) return
+        await exchangeRatesService.remove(workspaceId, id)
+        setRates((prev) => prev.filter((rate) => rate.id !== id))
+      },
+      refetch: loadRates,
+    }
+  }, [baseCurrency, rates, workspaceId, loadRates])
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext)
+  if (!context) throw new Error("CurrencyProvider no está montado")
+  return context
+}
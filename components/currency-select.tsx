@@ -0,0 +1,38 @@
+"use client"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useCurrency } from "@/components/currency-provider"
+import { COMMON_CURRENCIES, CURRENCY_NAMES } from "@/lib/exchange-rates"
+
+interface CurrencySelectProps {
+  value: string
+  onChange: (currency: string) => void
+  disabled?: boolean
+  className?: string
+}
+
+// Moneda de una entrada: las comunes, la base y cualquiera que ya tenga tipo de cambio
+export function CurrencySelect({ value, onChange, disabled, className }: CurrencySelectProps) {
+  const { baseCurrency, rates } = useCurrency()
+  const options = Array.from(
+    new Set([baseCurrency, ...COMMON_CURRENCIES, ...rates.map((rate) => rate.currency), value]),
+  ).filter(Boolean)
+
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger
+        className={`w-[96px] dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200 ${className || ""}`}
+        aria-label="Moneda"
+      >
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+        {options.map((currency) => (
+          <SelectItem key={currency} value={currency} title={CURRENCY_NAMES[currency]}>
+            {currency}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -15,42 +15,62 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog"
 import { Edit } from "lucide-react"
-import type { Entry } from "@/lib/supabase"
+import { entryCurrency, type Entry } from "@/lib/storage"
+import { formatAmount, fromCents, parseMoney } from "@/lib/money"
+import { useCurrency } from "@/components/currency-provider"
+import { CurrencySelect } from "@/components/currency-select"
 import { formatDateForStorage } from "@/lib/date-utils"
-
-const CATEGORIES = {
-  gasto: ["Carne", "Agua", "Gas", "Salarios", "Insumos", "Transporte", "Servicios", "Refresco", "Otros", "Cambio"],
-  ingreso: ["Efectivo", "Transferencia", "Ventas", "Servicios", "Otros", "Cambio"],
-  inversion: ["Acciones", "Bonos", "Criptomonedas", "Bienes Raíces", "Negocio", "Otros"],
-}
+import { EntryAttachmentsEditor } from "@/components/entry-attachments"
+import { defaultAccountId, isTransfer, type Account } from "@/lib/accounts"
 
 interface EditEntryDialogProps {
   entry: Entry
   onUpdate: (id: string, data: Partial<Omit<Entry, "id" | "created_at" | "updated_at">>) => Promise<Entry | null>
+  // Categorías que se ofrecen por tipo (useCategories().namesFor); `keep` conserva la actual si está archivada
+  categoryNames: (type: Entry["type"], keep?: string) => string[]
+  // Fecha mínima permitida (p. ej. el cajero no puede mover una entrada a una semana cerrada)
+  minDate?: string
+  // Cuentas del negocio (useAccounts().accounts); sin ellas no se muestra la cuenta
+  accounts?: Account[]
 }
 
-export function EditEntryDialog({ entry, onUpdate }: EditEntryDialogProps) {
+export function EditEntryDialog({ entry, onUpdate, categoryNames, minDate, accounts }: EditEntryDialogProps) {
   const [open, setOpen] = useState(false)
   const [isUpdating, setIsUpdating] = useState(false)
+  const { baseCurrency } = useCurrency()
   const [formData, setFormData] = useState({
     type: entry.type,
     category: entry.category,
     amount: entry.amount.toString(),
+    currency: entryCurrency(entry, baseCurrency),
     date: entry.date,
     description: entry.description || "",
+    account_id: entry.account_id || (accounts && defaultAccountId(accounts)) || "",
+    transfer_account_id: entry.transfer_account_id || "",
   })
+  const transfer = isTransfer(entry)
+  // Activas, más las archivadas que ya usa la entrada
+  const offeredAccounts = (accounts || []).filter(
+    (account) => !account.archived || account.id === entry.account_id || account.id === entry.transfer_account_id,
+  )
 
   const handleUpdate = async () => {
-    if (!formData.category || !formData.amount || isUpdating) return
+    const cents = parseMoney(formData.amount)
+    if (!formData.category || cents === null || cents <= 0 || isUpdating) return
+    if (minDate && formatDateForStorage(formData.date) < minDate) return
+    if (transfer && (!formData.transfer_account_id || formData.transfer_account_id === formData.account_id)) return
 
     setIsUpdating(true)
     try {
       const updateData = {
         type: formData.type,
         category: formData.category,
-        amount: Number.parseFloat(formData.amount),
+        amount: fromCents(cents),
+        currency: formData.currency,
         date: formatDateForStorage(formData.date),
         description: formData.description || undefined,
+        ...(formData.account_id ? { account_id: formData.account_id } : {}),
+        ...(transfer ? { transfer_account_id: formData.transfer_account_id } : {}),
       }
 
       const result = await onUpdate(entry.id!, updateData)
@@ -62,6 +82,21 @@ export function EditEntryDialog({ entry, onUpdate }: EditEntryDialogProps) {
     }
   }
 
+  const accountSelect = (id: string, value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange} disabled={isUpdating}>
+      <SelectTrigger id={id} className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+        <SelectValue placeholder="Seleccionar cuenta" />
+      </SelectTrigger>
+      <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+        {offeredAccounts.map((account) => (
+          <SelectItem key={account.id} value={account.id}>
+            {account.icon} {account.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
@@ -81,60 +116,101 @@ export function EditEntryDialog({ entry, onUpdate }: EditEntryDialogProps) {
           </DialogDescription>
         </DialogHeader>
         <div className="grid gap-4 py-4">
-          <div className="grid grid-cols-4 items-center gap-4">
-            <Label htmlFor="edit-type" className="text-right dark:text-gray-200">
-              Tipo
-            </Label>
-            <Select
-              value={formData.type}
-              onValueChange={(value: "gasto" | "ingreso" | "inversion") =>
-                setFormData({ ...formData, type: value, category: "" })
-              }
-              disabled={isUpdating}
-            >
-              <SelectTrigger className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
-                <SelectItem value="gasto">💸 Gasto</SelectItem>
-                <SelectItem value="ingreso">💰 Ingreso</SelectItem>
-                <SelectItem value="inversion">📈 Inversión</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-          <div className="grid grid-cols-4 items-center gap-4">
-            <Label htmlFor="edit-category" className="text-right dark:text-gray-200">
-              Categoría
-            </Label>
-            <Select
-              value={formData.category}
-              onValueChange={(value) => setFormData({ ...formData, category: value })}
-              disabled={isUpdating}
-            >
-              <SelectTrigger className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
-                {CATEGORIES[formData.type].map((category) => (
-                  <SelectItem key={category} value={category}>
-                    {category}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+          {transfer ? (
+            <>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="edit-account" className="text-right dark:text-gray-200">
+                  Desde
+                </Label>
+                {accountSelect("edit-account", formData.account_id, (account_id) =>
+                  setFormData({ ...formData, account_id }),
+                )}
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="edit-transfer-account" className="text-right dark:text-gray-200">
+                  Hacia
+                </Label>
+                {accountSelect("edit-transfer-account", formData.transfer_account_id, (transfer_account_id) =>
+                  setFormData({ ...formData, transfer_account_id }),
+                )}
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="edit-type" className="text-right dark:text-gray-200">
+                  Tipo
+                </Label>
+                <Select
+                  value={formData.type}
+                  onValueChange={(value: "gasto" | "ingreso" | "inversion") =>
+                    setFormData({ ...formData, type: value, category: "" })
+                  }
+                  disabled={isUpdating}
+                >
+                  <SelectTrigger className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                    <SelectItem value="gasto">💸 Gasto</SelectItem>
+                    <SelectItem value="ingreso">💰 Ingreso</SelectItem>
+                    <SelectItem value="inversion">📈 Inversión</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="edit-category" className="text-right dark:text-gray-200">
+                  Categoría
+                </Label>
+                <Select
+                  value={formData.category}
+                  onValueChange={(value) => setFormData({ ...formData, category: value })}
+                  disabled={isUpdating}
+                >
+                  <SelectTrigger className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                    {categoryNames(formData.type, entry.category).map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {category}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {offeredAccounts.length > 0 && (
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="edit-account" className="text-right dark:text-gray-200">
+                    Cuenta
+                  </Label>
+                  {accountSelect("edit-account", formData.account_id, (account_id) =>
+                    setFormData({ ...formData, account_id }),
+                  )}
+                </div>
+              )}
+            </>
+          )}
           <div className="grid grid-cols-4 items-center gap-4">
             <Label htmlFor="edit-amount" className="text-right dark:text-gray-200">
               Monto
             </Label>
-            <Input
-              id="edit-amount"
-              type="number"
-              value={formData.amount}
-              onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-              className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
-              disabled={isUpdating}
-            />
+            <div className="col-span-3 flex gap-2">
+              <Input
+                id="edit-amount"
+                type="text"
+                inputMode="decimal"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                disabled={isUpdating}
+              />
+              <CurrencySelect
+                value={formData.currency}
+                onChange={(currency) => setFormData({ ...formData, currency })}
+                disabled={isUpdating}
+              />
+            </div>
           </div>
           <div className="grid grid-cols-4 items-center gap-4">
             <Label htmlFor="edit-date" className="text-right dark:text-gray-200">
@@ -144,6 +220,7 @@ export function EditEntryDialog({ entry, onUpdate }: EditEntryDialogProps) {
               id="edit-date"
               type="date"
               value={formData.date}
+              min={minDate}
               onChange={(e) => setFormData({ ...formData, date: e.target.value })}
               className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
               disabled={isUpdating}
@@ -162,6 +239,24 @@ export function EditEntryDialog({ entry, onUpdate }: EditEntryDialogProps) {
               disabled={isUpdating}
             />
           </div>
+          {entry.invoice && (
+            <div className="rounded-md border p-3 text-xs space-y-1 dark:border-gray-600 dark:text-gray-300">
+              <div className="font-medium">
+                🧾 Factura {entry.invoice.issuer_name || entry.invoice.issuer_rfc} ({entry.invoice.issuer_rfc})
+              </div>
+              <div className="text-gray-500 dark:text-gray-400 break-all">UUID {entry.invoice.uuid}</div>
+              <div>
+                Subtotal {formatAmount(entry.invoice.subtotal, { currency: formData.currency })} · IVA{" "}
+                {formatAmount(entry.invoice.iva, { currency: formData.currency })}
+                {entry.invoice.ieps ? ` · IEPS ${formatAmount(entry.invoice.ieps, { currency: formData.currency })}` : ""}
+                {entry.invoice.withheld
+                  ? ` · Retenido ${formatAmount(entry.invoice.withheld, { currency: formData.currency })}`
+                  : ""}{" "}
+                · Total {formatAmount(entry.invoice.total, { currency: formData.currency })}
+              </div>
+            </div>
+          )}
+          <EntryAttachmentsEditor entry={entry} onUpdate={onUpdate} />
         </div>
         <DialogFooter>
           <Button
@@ -0,0 +1,24 @@
+"use client"
+
+import { useCurrency } from "@/components/currency-provider"
+import type { Entry } from "@/lib/storage"
+
+interface EntryAmountProps {
+  entry: Pick<Entry, "amount" | "currency" | "date">
+  className?: string
+}
+
+// Monto en la moneda base; si la entrada se capturó en otra moneda, el original aparece al pasar el cursor
+export function EntryAmount({ entry, className }: EntryAmountProps) {
+  const { toBaseCents, formatTotal, originalAmount } = useCurrency()
+  const original = originalAmount(entry)
+
+  return (
+    <span
+      className={`${original ? "underline decoration-dotted underline-offset-2 cursor-help" : ""} ${className || ""}`}
+      title={original || undefined}
+    >
+      {formatTotal(toBaseCents(entry))}
+    </span>
+  )
+}
@@ -0,0 +1,166 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Camera, FileText, Loader2, Paperclip, X } from "lucide-react"
+import { entriesService, type Entry, type EntryAttachment } from "@/lib/storage"
+import { ATTACHMENT_ACCEPT, attachmentUrl, removeAttachments, uploadAttachment } from "@/lib/attachments"
+
+// Abre el archivo en otra pestaña; las URLs locales se liberan después de un rato
+async function openAttachment(attachment: EntryAttachment) {
+  // La pestaña se abre antes del await para que el navegador no la bloquee
+  const tab = window.open("", "_blank")
+  const url = await attachmentUrl(attachment)
+  if (!url) {
+    tab?.close()
+    return
+  }
+  if (tab) tab.location.href = url
+  else window.open(url, "_blank")
+  if (url.startsWith("blob:")) setTimeout(() => URL.revokeObjectURL(url), 60_000)
+}
+
+interface AttachmentThumbnailsProps {
+  attachments: EntryAttachment[]
+  // Lado de cada miniatura en px
+  size?: number
+  // Si se pasa, cada miniatura lleva un botón para quitarla
+  onRemove?: (attachment: EntryAttachment) => void
+  disabled?: boolean
+}
+
+export function AttachmentThumbnails({ attachments, size = 32, onRemove, disabled }: AttachmentThumbnailsProps) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {attachments.map((attachment) => (
+        <div key={attachment.id} className="relative" style={{ width: size, height: size }}>
+          <button
+            type="button"
+            title={attachment.name}
+            onClick={() => openAttachment(attachment)}
+            className="w-full h-full rounded border overflow-hidden flex items-center justify-center bg-gray-50 dark:bg-gray-700 dark:border-gray-600"
+          >
+            {attachment.thumbnail ? (
+              <img src={attachment.thumbnail} alt={attachment.name} className="w-full h-full object-cover" />
+            ) : (
+              <FileText className="w-1/2 h-1/2 text-gray-500 dark:text-gray-400" />
+            )}
+          </button>
+          {onRemove && (
+            <button
+              type="button"
+              title="Quitar comprobante"
+              onClick={() => onRemove(attachment)}
+              disabled={disabled}
+              className="absolute -top-1.5 -right-1.5 rounded-full bg-red-500 text-white p-0.5 disabled:opacity-50"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface EntryAttachmentsEditorProps {
+  entry: Entry
+  onUpdate: (id: string, data: Partial<Omit<Entry, "id" | "created_at" | "updated_at">>) => Promise<Entry | null>
+}
+
+/**
+ * Comprobantes de una entrada: tomar foto, adjuntar archivo y quitar.
+ * Cada cambio se guarda en la entrada de inmediato, sin esperar a "Guardar cambios".
+ */
+export function EntryAttachmentsEditor({ entry, onUpdate }: EntryAttachmentsEditorProps) {
+  const [attachments, setAttachments] = useState<EntryAttachment[]>(entry.attachments || [])
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const cameraInput = useRef<HTMLInputElement>(null)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const save = async (next: EntryAttachment[]) => {
+    const result = await onUpdate(entry.id!, { attachments: next })
+    if (!result) throw new Error("No se pudo guardar la entrada")
+    setAttachments(next)
+  }
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length || busy) return
+    setBusy(true)
+    setError(null)
+    const uploaded: EntryAttachment[] = []
+    try {
+      const workspaceId = entry.workspace_id || entriesService.workspaceId
+      for (const file of Array.from(files)) {
+        uploaded.push(await uploadAttachment(workspaceId, entry.id!, file))
+      }
+      await save([...attachments, ...uploaded])
+    } catch (err) {
+      console.error("❌ Error adjuntando comprobante:", err)
+      setError(err instanceof Error ? err.message : "No se pudo adjuntar el comprobante")
+      // Sin entrada que los apunte, los archivos subidos sobran
+      await removeAttachments(uploaded).catch(() => undefined)
+    } finally {
+      setBusy(false)
+      if (cameraInput.current) cameraInput.current.value = ""
+      if (fileInput.current) fileInput.current.value = ""
+    }
+  }
+
+  const handleRemove = async (attachment: EntryAttachment) => {
+    if (busy) return
+    setBusy(true)
+    setError(null)
+    try {
+      await save(attachments.filter((current) => current.id !== attachment.id))
+      // Si el archivo no se puede borrar (p. ej. sin permiso) la entrada ya no lo muestra
+      await removeAttachments([attachment]).catch((err) => console.warn("⚠️ Adjunto no borrado:", err))
+    } catch (err) {
+      console.error("❌ Error quitando comprobante:", err)
+      setError("No se pudo quitar el comprobante")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="rounded-md border p-3 space-y-2 dark:border-gray-600">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium dark:text-gray-200">📎 Comprobantes</span>
+        <div className="flex gap-1">
+          <Button type="button" variant="outline" size="sm" disabled={busy} onClick={() => cameraInput.current?.click()}>
+            <Camera className="w-4 h-4 mr-1" />
+            Foto
+          </Button>
+          <Button type="button" variant="outline" size="sm" disabled={busy} onClick={() => fileInput.current?.click()}>
+            {busy ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Paperclip className="w-4 h-4 mr-1" />}
+            Archivo
+          </Button>
+        </div>
+        <input
+          ref={cameraInput}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+        <input
+          ref={fileInput}
+          type="file"
+          accept={ATTACHMENT_ACCEPT}
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+      </div>
+      {attachments.length > 0 ? (
+        <AttachmentThumbnails attachments={attachments} size={56} onRemove={handleRemove} disabled={busy} />
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400">Sin comprobantes. Toma una foto del ticket o adjunta un PDF.</p>
+      )}
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import { FileSpreadsheet, FileText, Printer, Share } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useCurrency } from "@/components/currency-provider"
+import { exportEntries } from "@/lib/export/entries"
+import type { Entry } from "@/lib/storage"
+
+interface ExportMenuProps {
+  // Entradas ya filtradas por el periodo que se está viendo
+  entries: Entry[]
+  // Nombre del archivo sin extensión
+  fileName: string
+  // Si se pasa, agrega la opción de imprimir / guardar como PDF
+  onPrint?: () => void
+}
+
+export function ExportMenu({ entries, fileName, onPrint }: ExportMenuProps) {
+  const { conversion } = useCurrency()
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+        >
+          <Share className="w-4 h-4" />📤 Exportar
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="font-normal text-sm text-gray-600 dark:text-gray-300">
+          {entries.length} entrada(s) del periodo
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => exportEntries("csv", entries, conversion, fileName)}>
+          <FileText className="w-4 h-4 mr-2" />
+          CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportEntries("xlsx", entries, conversion, fileName)}>
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          Excel (XLSX)
+        </DropdownMenuItem>
+        {onPrint && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={onPrint}>
+              <Printer className="w-4 h-4 mr-2" />
+              PDF (imprimir reporte)
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -5,7 +5,10 @@ import { ResponsivePie } from "@nivo/pie"
 import { ResponsiveBar } from "@nivo/bar"
 import { ResponsiveLine } from "@nivo/line"
 import { useTheme } from "next-themes"
+import { fromCents, toCents } from "@/lib/money"
+import { useCurrency } from "@/components/currency-provider"
 
+// Los valores llegan en centavos (ver lib/money.ts) y se grafican en pesos
 interface ChartData {
   name: string
   value: number
@@ -31,11 +34,15 @@ interface FinanceChartProps {
   colors?: string[]
   keys?: string[]
   indexBy?: string
+  // "money": valores en centavos; "percent": porcentajes tal cual (ROI, tasas)
+  unit?: "money" | "percent"
 }
 
-export function FinanceChart({ type, data, colors, keys, indexBy = "name" }: FinanceChartProps) {
+export function FinanceChart({ type, data, colors, keys, indexBy = "name", unit = "money" }: FinanceChartProps) {
   const { theme } = useTheme()
   const isDark = theme === "dark"
+  const { formatTotal } = useCurrency()
+  const toPlot = (value: number) => (unit === "money" ? fromCents(value) : value)
 
   // Transformar datos para gráfico de pie
   const pieData = useMemo(() => {
@@ -43,9 +50,26 @@ export function FinanceChart({ type, data, colors, keys, indexBy = "name" }: Fin
     return (data as ChartData[]).map((item) => ({
       id: item.name,
       label: item.name,
-      value: item.value,
+      value: toPlot(item.value),
     }))
-  }, [data, type])
+  }, [data, type, unit])
+
+  // Barras: convertir a pesos solo las series graficadas
+  const barData = useMemo(() => {
+    if (type !== "bar") return []
+    return (data as BarData[]).map((row) => {
+      const converted: BarData = { ...row }
+      ;(keys || []).forEach((key) => {
+        if (typeof row[key] === "number") converted[key] = toPlot(row[key] as number)
+      })
+      return converted
+    })
+  }, [data, type, keys, unit])
+
+  const formatValue = (value: number | string | null) =>
+    unit === "money" ? formatTotal(toCents(Number(value) || 0)) : `${(Number(value) || 0).toFixed(1)}%`
+  const formatAxis = (value: number | string) =>
+    unit === "money" ? formatTotal(toCents(Number(value) || 0), { whole: true }) : `${value}%`
 
   // Transformar datos para gráfico de línea
   const lineData = useMemo(() => {
@@ -56,10 +80,10 @@ export function FinanceChart({ type, data, colors, keys, indexBy = "name" }: Fin
       color: colors ? colors[index % colors.length] : "#000",
       data: (data as BarData[]).map((d) => ({
         x: d[indexBy] as string,
-        y: d[key] as number,
+        y: toPlot(d[key] as number),
       })),
     }))
-  }, [data, type, keys, colors, indexBy])
+  }, [data, type, keys, colors, indexBy, unit])
 
   // Configuración común para los gráficos
   const textColor = isDark ? "#e5e7eb" : "#1f2937"
@@ -70,6 +94,7 @@ export function FinanceChart({ type, data, colors, keys, indexBy = "name" }: Fin
     return (
       <ResponsivePie
         data={pieData}
+        valueFormat={formatValue}
         margin={{ top: 40, right: 80, bottom: 80, left: 80 }}
         innerRadius={0.5}
         padAngle={0.7}
@@ -120,8 +145,9 @@ export function FinanceChart({ type, data, colors, keys, indexBy = "name" }: Fin
   if (type === "bar") {
     return (
       <ResponsiveBar
-        data={data as BarData[]}
+        data={barData}
         keys={keys || []}
+        valueFormat={formatValue}
         indexBy={indexBy}
         margin={{ top: 50, right: 130, bottom: 50, left: 60 }}
         padding={0.3}
@@ -144,9 +170,10 @@ export function FinanceChart({ type, data, colors, keys, indexBy = "name" }: Fin
           tickSize: 5,
           tickPadding: 5,
           tickRotation: 0,
-          legend: "Monto ($)",
+          legend: "Monto",
           legendPosition: "middle",
           legendOffset: -40,
+          format: formatAxis,
           truncateTickAt: 0,
         }}
         labelSkipWidth={12}
@@ -234,7 +261,7 @@ export function FinanceChart({ type, data, colors, keys, indexBy = "name" }: Fin
             color: colors ? colors[0] : "#000",
             data: (data as ChartData[]).map((d) => ({
               x: d.name,
-              y: d.value,
+              y: toPlot(d.value),
             })),
           },
         ]}
@@ -247,7 +274,7 @@ export function FinanceChart({ type, data, colors, keys, indexBy = "name" }: Fin
           stacked: false,
           reverse: false,
         }}
-        yFormat=" >-.2f"
+        yFormat={formatValue}
         curve="cardinal"
         axisTop={null}
         axisRight={null}
@@ -263,8 +290,9 @@ export function FinanceChart({ type, data, colors, keys, indexBy = "name" }: Fin
           tickSize: 5,
           tickPadding: 5,
           tickRotation: 0,
-          legend: "Monto ($)",
+          legend: "Monto",
           legendOffset: -40,
+          format: formatAxis,
           legendPosition: "middle",
         }}
         colors={colors}
@@ -0,0 +1,345 @@
+"use client"
+
+import type React from "react"
+import { useMemo, useState } from "react"
+import { subYears } from "date-fns"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle, CheckCircle2, Receipt, Upload } from "lucide-react"
+import { useCategories } from "@/hooks/use-categories"
+import { useAccounts } from "@/hooks/use-accounts"
+import { AccountSelect } from "@/components/account-select"
+import { defaultBankAccountId } from "@/lib/accounts"
+import { entriesService } from "@/lib/storage"
+import { formatAmount } from "@/lib/money"
+import { loadEntries } from "@/lib/import/preview"
+import {
+  categoriesByIssuer,
+  invoiceToEntry,
+  parseCfdi,
+  suggestInvoiceCategory,
+  type ParsedCfdi,
+} from "@/lib/import/cfdi"
+import { createLocalDate, formatDateForDisplay, formatDateForStorage } from "@/lib/date-utils"
+
+// Un archivo XML con su factura leída (o el error) y el gasto propuesto
+interface InvoiceCandidate {
+  fileName: string
+  parsed: ParsedCfdi | null
+  error: string | null
+  category: string
+  // La factura ya tiene entrada, o viene repetida en los archivos elegidos
+  duplicate: "existing" | "repeated" | null
+  selected: boolean
+}
+
+// Importar facturas CFDI de proveedores como gastos, con su UUID y desglose de impuestos
+export function InvoiceImport() {
+  const { namesFor } = useCategories()
+  // Cuenta con la que se pagaron; sin elegir, la primera de banco
+  const accounts = useAccounts({ balances: false })
+  const [accountId, setAccountId] = useState("")
+  const targetAccountId = accountId || defaultBankAccountId(accounts.accounts)
+  const [candidates, setCandidates] = useState<InvoiceCandidate[]>([])
+  const [isReading, setIsReading] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || [])
+    if (files.length === 0) return
+    setError(null)
+    setNotice(null)
+    setIsReading(true)
+    try {
+      const read = await Promise.all(
+        files.map(async (file) => {
+          try {
+            return { fileName: file.name, parsed: parseCfdi(await file.text()), error: null }
+          } catch (err) {
+            return { fileName: file.name, parsed: null, error: (err as { message?: string })?.message || "No se pudo leer" }
+          }
+        }),
+      )
+
+      // Gastos del último año antes de la factura más antigua: UUIDs ya importados y categoría por proveedor
+      const dates = read.flatMap((item) => (item.parsed ? [item.parsed.date] : [])).sort()
+      const existing =
+        dates.length > 0
+          ? await loadEntries(entriesService, {
+              types: ["gasto"],
+              from: formatDateForStorage(subYears(createLocalDate(dates[0]), 1)),
+            })
+          : []
+      const importedUuids = new Set(existing.flatMap((entry) => (entry.invoice ? [entry.invoice.uuid] : [])))
+      const byIssuer = categoriesByIssuer(existing)
+      const expenseCategories = namesFor("gasto")
+      const seen = new Set<string>()
+
+      setCandidates(
+        read.map((item) => {
+          const uuid = item.parsed?.invoice.uuid
+          const duplicate = !uuid ? null : importedUuids.has(uuid) ? "existing" : seen.has(uuid) ? "repeated" : null
+          if (uuid) seen.add(uuid)
+          return {
+            ...item,
+            category: item.parsed ? suggestInvoiceCategory(item.parsed, expenseCategories, byIssuer) : "",
+            duplicate,
+            selected: !!item.parsed && !duplicate,
+          }
+        }),
+      )
+    } catch (err) {
+      console.error("❌ Error leyendo facturas:", err)
+      setError("No se pudieron revisar las facturas ya importadas; verifica la conexión")
+    } finally {
+      setIsReading(false)
+    }
+  }
+
+  const toImport = useMemo(
+    () => candidates.filter((candidate) => candidate.parsed && candidate.selected && !candidate.duplicate && candidate.category),
+    [candidates],
+  )
+
+  const counts = useMemo(
+    () => ({
+      invalid: candidates.filter((candidate) => !candidate.parsed).length,
+      duplicates: candidates.filter((candidate) => candidate.duplicate).length,
+      missingCategory: candidates.filter(
+        (candidate) => candidate.parsed && candidate.selected && !candidate.duplicate && !candidate.category,
+      ).length,
+    }),
+    [candidates],
+  )
+
+  const updateCandidate = (index: number, change: Partial<InvoiceCandidate>) =>
+    setCandidates((prev) => prev.map((candidate, i) => (i === index ? { ...candidate, ...change } : candidate)))
+
+  const handleImport = async () => {
+    if (toImport.length === 0 || isImporting) return
+    setIsImporting(true)
+    setError(null)
+    try {
+      const created = await entriesService.createMany(
+        toImport.map((candidate) => ({
+          ...invoiceToEntry(candidate.parsed!, candidate.category),
+          ...(targetAccountId ? { account_id: targetAccountId } : {}),
+        })),
+      )
+      console.log("🧾 Importación de facturas completada:", created.length)
+      setNotice(`${created.length} factura(s) importada(s) como gasto`)
+      setCandidates([])
+    } catch (err) {
+      console.error("❌ Error importando facturas:", err)
+      const message =
+        (err as { code?: string })?.code === "23505"
+          ? "alguna factura ya estaba importada; vuelve a elegir los archivos"
+          : (err as { message?: string })?.message || err
+      setError(`No se importó ninguna factura: ${message}`)
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {notice && (
+        <Alert className="bg-green-50 border-green-200 dark:bg-green-900/20 dark:border-green-800">
+          <CheckCircle2 className="h-4 w-4 text-green-600" />
+          <AlertDescription className="text-green-800 dark:text-green-200">{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Archivos */}
+      <Card className="dark:bg-gray-800/50 dark:border-gray-700">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 dark:text-gray-100">
+            <Receipt className="w-5 h-5" />
+            Facturas CFDI (XML)
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {accounts.accounts.length > 0 && (
+            <div className="space-y-2 max-w-xs">
+              <Label htmlFor="invoice-account" className="dark:text-gray-200">
+                Pagadas desde
+              </Label>
+              <AccountSelect
+                id="invoice-account"
+                accounts={accounts.activeAccounts()}
+                value={targetAccountId || ""}
+                onChange={setAccountId}
+                disabled={isImporting}
+              />
+            </div>
+          )}
+          <Input
+            type="file"
+            accept=".xml,text/xml,application/xml"
+            multiple
+            onChange={handleFiles}
+            disabled={isReading || isImporting}
+            className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {isReading
+              ? "Leyendo facturas..."
+              : "Elige uno o varios XML de proveedores (CFDI 4.0). Cada factura se propone como gasto por su total, con la categoría de la última factura del mismo RFC."}
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Vista previa */}
+      {candidates.length > 0 && (
+        <Card className="dark:bg-gray-800/50 dark:border-gray-700">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4">
+            <CardTitle className="dark:text-gray-100">Vista previa</CardTitle>
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                {toImport.length} por importar
+              </Badge>
+              {counts.invalid > 0 && <Badge variant="destructive">{counts.invalid} con errores</Badge>}
+              <Badge className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300">
+                {counts.duplicates} ya importadas
+              </Badge>
+              {counts.missingCategory > 0 && <Badge variant="destructive">{counts.missingCategory} sin categoría</Badge>}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Emisor</TableHead>
+                    <TableHead className="text-right">Subtotal</TableHead>
+                    <TableHead className="text-right">IVA</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead>Categoría</TableHead>
+                    <TableHead>Estado</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {candidates.map((candidate, index) => {
+                    const { parsed } = candidate
+                    if (!parsed) {
+                      return (
+                        <TableRow key={`${candidate.fileName}-${index}`} className="bg-red-50 dark:bg-red-900/10">
+                          <TableCell />
+                          <TableCell colSpan={6} className="text-red-700 dark:text-red-400">
+                            {candidate.fileName}: {candidate.error}
+                          </TableCell>
+                          <TableCell className="text-xs text-red-700 dark:text-red-400">Error</TableCell>
+                        </TableRow>
+                      )
+                    }
+                    const { invoice, currency } = parsed
+                    const money = (amount: number) => formatAmount(amount, { currency })
+                    const names = namesFor("gasto")
+                    return (
+                      <TableRow
+                        key={invoice.uuid + index}
+                        className={candidate.duplicate ? "bg-yellow-50 dark:bg-yellow-900/10 opacity-70" : ""}
+                      >
+                        <TableCell>
+                          <Checkbox
+                            checked={candidate.selected}
+                            disabled={!!candidate.duplicate}
+                            onCheckedChange={(checked) => updateCandidate(index, { selected: checked === true })}
+                          />
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap dark:text-gray-200">
+                          {formatDateForDisplay(parsed.date)}
+                        </TableCell>
+                        <TableCell className="dark:text-gray-200">
+                          <div className="font-medium">{invoice.issuer_name || invoice.issuer_rfc}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {invoice.issuer_rfc} · {invoice.uuid}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap dark:text-gray-200">
+                          {money(invoice.subtotal)}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap dark:text-gray-200">
+                          {money(invoice.iva)}
+                          {invoice.ieps ? (
+                            <div className="text-xs text-gray-500 dark:text-gray-400">IEPS {money(invoice.ieps)}</div>
+                          ) : null}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap font-medium text-red-600 dark:text-red-400">
+                          {money(invoice.total)}
+                          {currency !== "MXN" && <span className="ml-1 text-xs">{currency}</span>}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={candidate.category}
+                            disabled={!!candidate.duplicate}
+                            onValueChange={(value) => updateCandidate(index, { category: value })}
+                          >
+                            <SelectTrigger className="w-40 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                              <SelectValue placeholder="Elegir..." />
+                            </SelectTrigger>
+                            <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                              {names.map((name) => (
+                                <SelectItem key={name} value={name}>
+                                  {name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {candidate.duplicate === "existing" ? (
+                            <span className="text-yellow-700 dark:text-yellow-400">Ya importada</span>
+                          ) : candidate.duplicate === "repeated" ? (
+                            <span className="text-yellow-700 dark:text-yellow-400">Archivo repetido</span>
+                          ) : !candidate.category ? (
+                            <span className="text-red-700 dark:text-red-400">Sin categoría</span>
+                          ) : (
+                            <span className="text-green-700 dark:text-green-400">OK</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Cada gasto guarda el UUID, el RFC y el desglose de impuestos de su factura. Si algo falla al guardar,
+                no se importa ninguna.
+              </p>
+              <Button
+                onClick={handleImport}
+                disabled={toImport.length === 0 || isImporting}
+                className="flex items-center gap-2"
+              >
+                <Upload className="w-4 h-4" />
+                {isImporting ? "Importando..." : `Importar ${toImport.length} factura(s)`}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
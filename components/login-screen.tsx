@@ -0,0 +1,146 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, CheckCircle2, LogIn, RefreshCw, UserPlus } from "lucide-react"
+import { authService } from "@/lib/auth"
+import { isSupabaseConfigured } from "@/lib/supabase"
+
+type Mode = "signIn" | "signUp"
+
+export function LoginScreen() {
+  const [mode, setMode] = useState<Mode>("signIn")
+  const [email, setEmail] = useState("")
+  const [password, setPassword] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email || !password) return
+
+    setSubmitting(true)
+    setError(null)
+    setNotice(null)
+    try {
+      if (mode === "signIn") {
+        await authService.signIn(email, password)
+      } else {
+        const session = await authService.signUp(email, password)
+        // Sin sesión: el proyecto pide confirmar el correo primero
+        if (!session) {
+          setNotice("Te enviamos un correo para confirmar la cuenta. Después podrás iniciar sesión.")
+          setMode("signIn")
+        }
+      }
+    } catch (err) {
+      console.error("❌ Error de autenticación:", err)
+      setError(err instanceof Error ? err.message : "No se pudo iniciar sesión")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4 flex items-center justify-center">
+      <Card className="w-full max-w-md dark:bg-gray-800 dark:border-gray-700">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl dark:text-gray-100">💰 Gestión Financiera</CardTitle>
+          <CardDescription className="dark:text-gray-400">
+            {mode === "signIn" ? "Inicia sesión para ver tus finanzas" : "Crea una cuenta nueva"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {!isSupabaseConfigured && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Supabase no está configurado. Revisa las variables de entorno en el{" "}
+                  <Link href="/diagnostico" className="underline">
+                    diagnóstico
+                  </Link>
+                  .
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {notice && (
+              <Alert className="bg-green-50 border-green-200 dark:bg-green-900/20 dark:border-green-800">
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+                <AlertDescription className="text-green-800 dark:text-green-200">{notice}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="email" className="dark:text-gray-200">
+                Correo electrónico
+              </Label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-100"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="password" className="dark:text-gray-200">
+                Contraseña
+              </Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete={mode === "signIn" ? "current-password" : "new-password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-100"
+                required
+              />
+            </div>
+
+            <Button type="submit" className="w-full" disabled={submitting}>
+              {submitting ? (
+                <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+              ) : mode === "signIn" ? (
+                <LogIn className="w-4 h-4 mr-2" />
+              ) : (
+                <UserPlus className="w-4 h-4 mr-2" />
+              )}
+              {mode === "signIn" ? "Iniciar sesión" : "Crear cuenta"}
+            </Button>
+
+            <Button
+              type="button"
+              variant="link"
+              className="w-full"
+              onClick={() => {
+                setMode(mode === "signIn" ? "signUp" : "signIn")
+                setError(null)
+              }}
+            >
+              {mode === "signIn" ? "¿No tienes cuenta? Regístrate" : "¿Ya tienes cuenta? Inicia sesión"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from "react"
 import { Badge } from "@/components/ui/badge"
-import { supabase } from "@/lib/supabase"
+import { entriesService } from "@/lib/storage"
 import { Zap, ZapOff } from "lucide-react"
 
 export function RealtimeStatus() {
@@ -12,27 +12,19 @@ export function RealtimeStatus() {
   useEffect(() => {
     console.log("🔔 Configurando monitor de realtime...")
 
-    const subscription = supabase
-      .channel("realtime_monitor")
-      .on(
-        "postgres_changes",
-        {
-          event: "*",
-          schema: "public",
-          table: "entries",
-        },
-        (payload) => {
-          console.log("⚡ Evento realtime recibido:", payload)
-          setLastUpdate(new Date())
-        },
-      )
-      .subscribe((status) => {
+    const subscription = entriesService.subscribeToChanges(
+      () => {
+        console.log("⚡ Evento realtime recibido")
+        setLastUpdate(new Date())
+      },
+      (status) => {
         console.log("📡 Estado del monitor realtime:", status)
         setIsRealtimeConnected(status === "SUBSCRIBED")
-      })
+      },
+    )
 
     return () => {
-      subscription.unsubscribe()
+      subscription?.unsubscribe()
     }
   }, [])
 
@@ -0,0 +1,361 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { AlertCircle } from "lucide-react"
+import { useCurrency } from "@/components/currency-provider"
+import { CurrencySelect } from "@/components/currency-select"
+import {
+  FREQUENCY_LABELS,
+  type RecurrenceFrequency,
+  type RecurringRule,
+  type RecurringRuleInput,
+} from "@/lib/recurring"
+import { entryCurrency, type Entry } from "@/lib/storage"
+import { fromCents, parseMoney } from "@/lib/money"
+import { getCurrentDateString } from "@/lib/date-utils"
+import { describeOperatingDays, operatingWeekdays, type BusinessCalendar } from "@/lib/business-calendar"
+import { useBusinessCalendar } from "@/hooks/use-business-calendar"
+
+const WEEKDAY_NAMES = ["Domingo", "Lunes", "Martes", "Miércoles", "Jueves", "Viernes", "Sábado"]
+const ALL_WEEKDAYS = [1, 2, 3, 4, 5, 6, 0]
+
+interface RecurringRuleDialogProps {
+  // Sin regla se crea una nueva
+  rule?: RecurringRule
+  categoryNames: (type: Entry["type"], keep?: string) => string[]
+  onSave: (input: RecurringRuleInput) => Promise<unknown>
+  trigger: React.ReactNode
+}
+
+function formFromRule(rule: RecurringRule | undefined, baseCurrency: string, calendar: BusinessCalendar) {
+  return {
+    type: rule?.type || ("gasto" as Entry["type"]),
+    category: rule?.category || "",
+    amount: rule ? rule.amount.toString() : "",
+    currency: rule ? entryCurrency(rule, baseCurrency) : baseCurrency,
+    description: rule?.description || "",
+    frequency: rule?.frequency || ("work_weeks" as RecurrenceFrequency),
+    weekday: rule?.weekday ?? operatingWeekdays(calendar)[0] ?? calendar.week_starts_on,
+    day_of_month: rule?.day_of_month ?? 1,
+    interval_weeks: rule?.interval_weeks ?? 1,
+    start_date: rule?.start_date || getCurrentDateString(),
+    end_date: rule?.end_date || "",
+    auto_generate: rule?.auto_generate ?? false,
+  }
+}
+
+export function RecurringRuleDialog({ rule, categoryNames, onSave, trigger }: RecurringRuleDialogProps) {
+  const { baseCurrency } = useCurrency()
+  const calendar = useBusinessCalendar()
+  const [open, setOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [form, setForm] = useState(() => formFromRule(rule, baseCurrency, calendar))
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value)
+    if (value) {
+      setForm(formFromRule(rule, baseCurrency, calendar))
+      setError(null)
+    }
+  }
+
+  // En semanas de trabajo solo se ofrecen los días que abre el negocio
+  const workWeekDays: number[] = operatingWeekdays(calendar)
+  const weekdayOptions = form.frequency === "work_weeks" ? workWeekDays : ALL_WEEKDAYS
+
+  const handleSave = async () => {
+    const cents = parseMoney(form.amount)
+    if (!form.category || cents === null || cents <= 0) {
+      setError("Indica la categoría y un monto mayor que cero")
+      return
+    }
+    if (form.end_date && form.end_date < form.start_date) {
+      setError("La fecha de fin no puede ser anterior al inicio")
+      return
+    }
+    if (form.frequency === "work_weeks" && !workWeekDays.includes(form.weekday)) {
+      setError(`Elige un día de la semana de trabajo (${describeOperatingDays(calendar)})`)
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onSave({
+        type: form.type,
+        category: form.category,
+        amount: fromCents(cents),
+        currency: form.currency,
+        description: form.description.trim() || undefined,
+        frequency: form.frequency,
+        weekday: form.frequency === "monthly" ? null : form.weekday,
+        day_of_month: form.frequency === "monthly" ? form.day_of_month : null,
+        interval_weeks: form.frequency === "work_weeks" ? Math.max(1, form.interval_weeks) : null,
+        start_date: form.start_date,
+        end_date: form.end_date || null,
+        paused: rule?.paused ?? false,
+        auto_generate: form.auto_generate,
+      })
+      setOpen(false)
+    } catch (err) {
+      console.error("❌ Error guardando entrada recurrente:", err)
+      setError(`No se pudo guardar: ${(err as { message?: string })?.message || err}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-[480px] dark:bg-gray-800 dark:text-gray-100 dark:border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="dark:text-gray-100">
+            {rule ? "✏️ Editar entrada recurrente" : "🔁 Nueva entrada recurrente"}
+          </DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            Los cambios aplican a las próximas ocurrencias; las entradas ya generadas no se tocan.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label className="text-right dark:text-gray-200">Tipo</Label>
+            <Select
+              value={form.type}
+              onValueChange={(value: Entry["type"]) => setForm({ ...form, type: value, category: "" })}
+              disabled={isSaving}
+            >
+              <SelectTrigger className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                <SelectItem value="gasto">💸 Gasto</SelectItem>
+                <SelectItem value="ingreso">💰 Ingreso</SelectItem>
+                <SelectItem value="inversion">📈 Inversión</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label className="text-right dark:text-gray-200">Categoría</Label>
+            <Select
+              value={form.category}
+              onValueChange={(value) => setForm({ ...form, category: value })}
+              disabled={isSaving}
+            >
+              <SelectTrigger className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                <SelectValue placeholder="Seleccionar categoría" />
+              </SelectTrigger>
+              <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                {categoryNames(form.type, rule?.category).map((category) => (
+                  <SelectItem key={category} value={category}>
+                    {category}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="recurring-amount" className="text-right dark:text-gray-200">
+              Monto
+            </Label>
+            <div className="col-span-3 flex gap-2">
+              <Input
+                id="recurring-amount"
+                type="text"
+                inputMode="decimal"
+                placeholder="0.00"
+                value={form.amount}
+                onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                disabled={isSaving}
+              />
+              <CurrencySelect
+                value={form.currency}
+                onChange={(currency) => setForm({ ...form, currency })}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="recurring-description" className="text-right dark:text-gray-200">
+              Descripción
+            </Label>
+            <Input
+              id="recurring-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+              placeholder="Opcional"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label className="text-right dark:text-gray-200">Repetir</Label>
+            <Select
+              value={form.frequency}
+              onValueChange={(value: RecurrenceFrequency) =>
+                setForm({
+                  ...form,
+                  frequency: value,
+                  weekday: value === "work_weeks" && !workWeekDays.includes(form.weekday)
+                      ? (workWeekDays[0] ?? calendar.week_starts_on)
+                      : form.weekday,
+                })
+              }
+              disabled={isSaving}
+            >
+              <SelectTrigger className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map((frequency) => (
+                  <SelectItem key={frequency} value={frequency}>
+                    {FREQUENCY_LABELS[frequency]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {form.frequency === "work_weeks" && (
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="recurring-interval" className="text-right dark:text-gray-200">
+                Cada
+              </Label>
+              <div className="col-span-3 flex items-center gap-2">
+                <Input
+                  id="recurring-interval"
+                  type="number"
+                  min={1}
+                  value={form.interval_weeks}
+                  onChange={(e) => setForm({ ...form, interval_weeks: Number(e.target.value) || 1 })}
+                  className="w-20 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                  disabled={isSaving}
+                />
+                <span className="text-sm text-gray-600 dark:text-gray-400">semana(s) de trabajo</span>
+              </div>
+            </div>
+          )}
+          {form.frequency === "monthly" ? (
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="recurring-day" className="text-right dark:text-gray-200">
+                Día del mes
+              </Label>
+              <Input
+                id="recurring-day"
+                type="number"
+                min={1}
+                max={31}
+                value={form.day_of_month}
+                onChange={(e) =>
+                  setForm({ ...form, day_of_month: Math.min(31, Math.max(1, Number(e.target.value) || 1)) })
+                }
+                className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+                disabled={isSaving}
+              />
+            </div>
+          ) : (
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label className="text-right dark:text-gray-200">Día</Label>
+              <Select
+                value={String(form.weekday)}
+                onValueChange={(value) => setForm({ ...form, weekday: Number(value) })}
+                disabled={isSaving}
+              >
+                <SelectTrigger className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                  {weekdayOptions.map((weekday) => (
+                    <SelectItem key={weekday} value={String(weekday)}>
+                      {WEEKDAY_NAMES[weekday]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="recurring-start" className="text-right dark:text-gray-200">
+              Desde
+            </Label>
+            <Input
+              id="recurring-start"
+              type="date"
+              value={form.start_date}
+              onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+              className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="recurring-end" className="text-right dark:text-gray-200">
+              Hasta
+            </Label>
+            <Input
+              id="recurring-end"
+              type="date"
+              value={form.end_date}
+              min={form.start_date}
+              onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+              className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4 rounded-lg border p-3 dark:border-gray-700">
+            <div>
+              <Label htmlFor="recurring-auto" className="dark:text-gray-200">
+                Generar automáticamente
+              </Label>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Si está apagado, las ocurrencias esperan tu confirmación en el dashboard.
+              </p>
+            </div>
+            <Switch
+              id="recurring-auto"
+              checked={form.auto_generate}
+              onCheckedChange={(checked) => setForm({ ...form, auto_generate: checked })}
+              disabled={isSaving}
+            />
+          </div>
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={isSaving}
+            className="dark:border-gray-600 dark:text-gray-200"
+          >
+            Cancelar
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Guardando..." : "💾 Guardar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,479 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useMemo, useState } from "react"
+import { addDays, subDays } from "date-fns"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle, CheckCircle2, Landmark, Plus, Trash2, Upload, Wand2 } from "lucide-react"
+import { useCategories } from "@/hooks/use-categories"
+import { useImportRules } from "@/hooks/use-import-rules"
+import { useAccounts } from "@/hooks/use-accounts"
+import { AccountSelect } from "@/components/account-select"
+import { defaultBankAccountId } from "@/lib/accounts"
+import { useCurrency } from "@/components/currency-provider"
+import { entriesService, type Entry } from "@/lib/storage"
+import { formatMoney } from "@/lib/money"
+import { loadEntries } from "@/lib/import/preview"
+import { STATEMENT_FORMAT_LABELS, parseStatement, type BankStatement } from "@/lib/import/statement"
+import {
+  candidateToEntry,
+  markImported,
+  suggestEntries,
+  type ImportRuleInput,
+  type StatementCandidate,
+} from "@/lib/import/rules"
+import { createLocalDate, formatDateForDisplay, formatDateForStorage } from "@/lib/date-utils"
+
+// Movimientos que se dibujan en la vista previa; el resto se importa igual
+const PREVIEW_LIMIT = 300
+// Margen de días al buscar movimientos ya importados, por si se les cambió la fecha después
+const IMPORTED_LOOKUP_DAYS = 31
+
+const TYPE_LABELS: Record<Entry["type"], string> = {
+  gasto: "💸 Gasto",
+  ingreso: "💰 Ingreso",
+  inversion: "📈 Inversión",
+}
+
+// Cambios hechos a mano en la vista previa, por id de movimiento; sobreviven a nuevas reglas
+type CandidateOverride = Partial<Pick<StatementCandidate, "type" | "category" | "selected">>
+
+const EMPTY_RULE: ImportRuleInput = { pattern: "", type: "gasto", category: "" }
+
+// Importar movimientos de un estado de cuenta (OFX, QIF o CAMT.053) con sugerencias por reglas
+export function StatementImport() {
+  const { namesFor } = useCategories()
+  const { baseCurrency } = useCurrency()
+  const { rules, createRule, removeRule } = useImportRules()
+  // Cuenta del banco a la que pertenece el estado de cuenta; sin elegir, la primera de banco
+  const accounts = useAccounts({ balances: false })
+  const [accountId, setAccountId] = useState("")
+  const targetAccountId = accountId || defaultBankAccountId(accounts.accounts)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [statement, setStatement] = useState<BankStatement | null>(null)
+  const [importedIds, setImportedIds] = useState<Set<string> | null>(null)
+  const [overrides, setOverrides] = useState<Record<string, CandidateOverride>>({})
+  const [newRule, setNewRule] = useState<ImportRuleInput>(EMPTY_RULE)
+  const [isImporting, setIsImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+    setError(null)
+    setNotice(null)
+    try {
+      const parsed = parseStatement(await file.text(), file.name)
+      setFileName(file.name)
+      setStatement(parsed)
+      setImportedIds(null)
+      setOverrides({})
+    } catch (err) {
+      console.error("❌ Error leyendo estado de cuenta:", err)
+      setError((err as { message?: string })?.message || "No se pudo leer el archivo")
+    }
+  }
+
+  // Ids de movimientos que ya tienen entrada en las fechas del estado de cuenta
+  useEffect(() => {
+    if (!statement) return
+    const dates = statement.transactions.map((transaction) => transaction.date).sort()
+    const range = {
+      from: formatDateForStorage(subDays(createLocalDate(dates[0]), IMPORTED_LOOKUP_DAYS)),
+      to: formatDateForStorage(addDays(createLocalDate(dates[dates.length - 1]), IMPORTED_LOOKUP_DAYS)),
+    }
+
+    let cancelled = false
+    loadEntries(entriesService, range)
+      .then((existing) => {
+        if (cancelled) return
+        setImportedIds(new Set(existing.flatMap((entry) => (entry.bank_transaction_id ? [entry.bank_transaction_id] : []))))
+      })
+      .catch((err) => {
+        console.error("❌ Error buscando movimientos importados:", err)
+        if (!cancelled) setError("No se pudo revisar qué movimientos ya se importaron; verifica la conexión")
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [statement])
+
+  const candidates = useMemo(() => {
+    if (!statement) return []
+    const suggested = suggestEntries(statement.transactions, rules, namesFor)
+    return markImported(suggested, importedIds || new Set()).map((candidate) => {
+      const override = overrides[candidate.transaction.id]
+      if (!override || candidate.alreadyImported) return candidate
+      // Al cambiar el tipo a mano, la categoría sugerida deja de aplicar
+      const typeChanged = override.type !== undefined && override.type !== candidate.type
+      return {
+        ...candidate,
+        ...override,
+        category: override.category ?? (typeChanged ? "" : candidate.category),
+      }
+    })
+  }, [statement, rules, namesFor, importedIds, overrides])
+
+  const toImport = useMemo(
+    () => candidates.filter((candidate) => candidate.selected && !candidate.alreadyImported && candidate.category),
+    [candidates],
+  )
+
+  const counts = useMemo(
+    () => ({
+      imported: candidates.filter((candidate) => candidate.alreadyImported).length,
+      withRule: candidates.filter((candidate) => candidate.rule && !candidate.alreadyImported).length,
+      missingCategory: candidates.filter(
+        (candidate) => candidate.selected && !candidate.alreadyImported && !candidate.category,
+      ).length,
+    }),
+    [candidates],
+  )
+
+  const override = (id: string, change: CandidateOverride) =>
+    setOverrides((prev) => ({ ...prev, [id]: { ...prev[id], ...change } }))
+
+  const handleAddRule = async () => {
+    const pattern = newRule.pattern.trim()
+    if (!pattern || !newRule.category) return
+    try {
+      await createRule({ ...newRule, pattern })
+      setNewRule({ ...EMPTY_RULE, type: newRule.type })
+    } catch (err) {
+      console.error("❌ Error creando regla:", err)
+      setError("No se pudo guardar la regla")
+    }
+  }
+
+  const handleImport = async () => {
+    if (toImport.length === 0 || isImporting || !importedIds) return
+    setIsImporting(true)
+    setError(null)
+    try {
+      const created = await entriesService.createMany(
+        toImport.map((candidate) => ({
+          ...candidateToEntry(candidate),
+          ...(targetAccountId ? { account_id: targetAccountId } : {}),
+        })),
+      )
+      console.log("🏦 Importación de estado de cuenta completada:", created.length)
+      setNotice(`${created.length} movimiento(s) importado(s) desde ${fileName}`)
+      setStatement(null)
+      setFileName(null)
+      setOverrides({})
+    } catch (err) {
+      console.error("❌ Error importando estado de cuenta:", err)
+      const message = (err as { message?: string; code?: string })?.code === "23505"
+        ? "algún movimiento ya estaba importado; vuelve a cargar el archivo"
+        : (err as { message?: string })?.message || err
+      setError(`No se importó ningún movimiento: ${message}`)
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const categoryOptions = (type: Entry["type"], current: string) => {
+    const names = namesFor(type)
+    return current && !names.includes(current) ? [...names, current] : names
+  }
+
+  return (
+    <div className="space-y-6">
+      {notice && (
+        <Alert className="bg-green-50 border-green-200 dark:bg-green-900/20 dark:border-green-800">
+          <CheckCircle2 className="h-4 w-4 text-green-600" />
+          <AlertDescription className="text-green-800 dark:text-green-200">{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Archivo */}
+      <Card className="dark:bg-gray-800/50 dark:border-gray-700">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 dark:text-gray-100">
+            <Landmark className="w-5 h-5" />
+            Estado de cuenta
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {accounts.accounts.length > 0 && (
+            <div className="space-y-2 max-w-xs">
+              <Label htmlFor="statement-account" className="dark:text-gray-200">
+                Cuenta
+              </Label>
+              <AccountSelect
+                id="statement-account"
+                accounts={accounts.activeAccounts()}
+                value={targetAccountId || ""}
+                onChange={setAccountId}
+                disabled={isImporting}
+              />
+            </div>
+          )}
+          <Input
+            type="file"
+            accept=".ofx,.qfx,.qif,.xml"
+            onChange={handleFile}
+            className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            OFX/QFX, QIF o CAMT.053 (XML) tal como lo descarga la banca en línea. Los abonos se proponen como
+            ingresos y los cargos como gastos; los movimientos que ya se importaron antes se omiten.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Reglas */}
+      <Card className="dark:bg-gray-800/50 dark:border-gray-700">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 dark:text-gray-100">
+            <Wand2 className="w-5 h-5" />
+            Reglas de sugerencia
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {rules.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Sin reglas: los abonos van a {TYPE_LABELS.ingreso} · Transferencia y los cargos esperan categoría.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className="flex items-center justify-between gap-2 text-sm p-2 rounded border dark:border-gray-700"
+                >
+                  <span className="dark:text-gray-200">
+                    Si contiene <span className="font-mono font-medium">“{rule.pattern}”</span> →{" "}
+                    {TYPE_LABELS[rule.type]} · {rule.category}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeRule(rule.id)}
+                    className="text-red-600 hover:text-red-800 dark:text-red-400"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+            <div className="space-y-2">
+              <Label className="dark:text-gray-200">La descripción contiene</Label>
+              <Input
+                value={newRule.pattern}
+                onChange={(e) => setNewRule({ ...newRule, pattern: e.target.value })}
+                placeholder="p. ej. SPEI, CFE, OXXO"
+                className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="dark:text-gray-200">Tipo</Label>
+              <Select
+                value={newRule.type}
+                onValueChange={(value: Entry["type"]) => setNewRule({ ...newRule, type: value, category: "" })}
+              >
+                <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                  {(Object.keys(TYPE_LABELS) as Entry["type"][]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="dark:text-gray-200">Categoría</Label>
+              <Select value={newRule.category} onValueChange={(value) => setNewRule({ ...newRule, category: value })}>
+                <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                  <SelectValue placeholder="Elegir..." />
+                </SelectTrigger>
+                <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                  {namesFor(newRule.type).map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={handleAddRule}
+              disabled={!newRule.pattern.trim() || !newRule.category}
+              variant="outline"
+              className="flex items-center gap-2 dark:border-gray-600 dark:text-gray-200"
+            >
+              <Plus className="w-4 h-4" />
+              Agregar regla
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Vista previa */}
+      {statement && (
+        <Card className="dark:bg-gray-800/50 dark:border-gray-700">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4">
+            <CardTitle className="dark:text-gray-100">
+              {STATEMENT_FORMAT_LABELS[statement.format]} · {fileName}
+              {statement.account && (
+                <span className="block text-sm font-normal text-gray-500 dark:text-gray-400">
+                  Cuenta {statement.account}
+                </span>
+              )}
+            </CardTitle>
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                {toImport.length} por importar
+              </Badge>
+              <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
+                {counts.withRule} con regla
+              </Badge>
+              <Badge className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300">
+                {importedIds ? `${counts.imported} ya importados` : "Buscando importados..."}
+              </Badge>
+              {counts.missingCategory > 0 && <Badge variant="destructive">{counts.missingCategory} sin categoría</Badge>}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Descripción</TableHead>
+                    <TableHead className="text-right">Monto</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Categoría</TableHead>
+                    <TableHead>Estado</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {candidates.slice(0, PREVIEW_LIMIT).map((candidate) => {
+                    const { transaction } = candidate
+                    const credit = transaction.amount > 0
+                    return (
+                      <TableRow
+                        key={transaction.id}
+                        className={candidate.alreadyImported ? "bg-yellow-50 dark:bg-yellow-900/10 opacity-70" : ""}
+                      >
+                        <TableCell>
+                          <Checkbox
+                            checked={candidate.selected}
+                            disabled={candidate.alreadyImported}
+                            onCheckedChange={(checked) => override(transaction.id, { selected: checked === true })}
+                          />
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap dark:text-gray-200">
+                          {formatDateForDisplay(transaction.date)}
+                        </TableCell>
+                        <TableCell className="text-gray-600 dark:text-gray-400 max-w-xs truncate" title={transaction.description}>
+                          {transaction.description}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right font-medium whitespace-nowrap ${credit ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}
+                        >
+                          {credit ? "+" : "−"}
+                          {formatMoney(Math.abs(transaction.amount), { currency: transaction.currency || baseCurrency })}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={candidate.type}
+                            disabled={candidate.alreadyImported}
+                            onValueChange={(value: Entry["type"]) => override(transaction.id, { type: value, category: undefined })}
+                          >
+                            <SelectTrigger className="w-36 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                              {(credit ? ["ingreso"] : ["gasto", "inversion"]).map((type) => (
+                                <SelectItem key={type} value={type}>
+                                  {TYPE_LABELS[type as Entry["type"]]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={candidate.category}
+                            disabled={candidate.alreadyImported}
+                            onValueChange={(value) => override(transaction.id, { category: value })}
+                          >
+                            <SelectTrigger className="w-40 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+                              <SelectValue placeholder="Elegir..." />
+                            </SelectTrigger>
+                            <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+                              {categoryOptions(candidate.type, candidate.category).map((name) => (
+                                <SelectItem key={name} value={name}>
+                                  {name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {candidate.alreadyImported ? (
+                            <span className="text-yellow-700 dark:text-yellow-400">Ya importado</span>
+                          ) : !candidate.category ? (
+                            <span className="text-red-700 dark:text-red-400">Sin categoría</span>
+                          ) : candidate.rule ? (
+                            <span className="text-blue-700 dark:text-blue-400">Regla “{candidate.rule.pattern}”</span>
+                          ) : (
+                            <span className="text-green-700 dark:text-green-400">OK</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            {candidates.length > PREVIEW_LIMIT && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Se muestran los primeros {PREVIEW_LIMIT} de {candidates.length} movimientos.
+              </p>
+            )}
+
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Los movimientos sin categoría o sin marcar no se importan. Si algo falla al guardar, no se importa
+                ninguno.
+              </p>
+              <Button
+                onClick={handleImport}
+                disabled={toImport.length === 0 || isImporting || !importedIds}
+                className="flex items-center gap-2"
+              >
+                <Upload className="w-4 h-4" />
+                {isImporting ? "Importando..." : `Importar ${toImport.length} movimiento(s)`}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
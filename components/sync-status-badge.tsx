@@ -0,0 +1,53 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { CheckCircle2, CloudOff, AlertTriangle } from "lucide-react"
+import type { SyncState } from "@/lib/storage"
+
+interface SyncStatusBadgeProps {
+  state: SyncState
+  onRetry?: () => void
+  onDiscard?: () => void
+}
+
+export function SyncStatusBadge({ state, onRetry, onDiscard }: SyncStatusBadgeProps) {
+  if (state === "synced") {
+    return (
+      <span title="Sincronizado" className="text-green-500 dark:text-green-400">
+        <CheckCircle2 className="w-4 h-4" />
+      </span>
+    )
+  }
+
+  if (state === "pending") {
+    return (
+      <Badge
+        variant="secondary"
+        className="flex items-center gap-1 bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300"
+        title="Guardado en este dispositivo, se enviará al recuperar la conexión"
+      >
+        <CloudOff className="w-3 h-3" />
+        Pendiente
+      </Badge>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <Badge variant="destructive" className="flex items-center gap-1" title="No se pudo sincronizar">
+        <AlertTriangle className="w-3 h-3" />
+        Error
+      </Badge>
+      {onRetry && (
+        <button onClick={onRetry} className="text-xs text-blue-600 hover:underline dark:text-blue-400">
+          Reintentar
+        </button>
+      )}
+      {onDiscard && (
+        <button onClick={onDiscard} className="text-xs text-gray-500 hover:underline dark:text-gray-400">
+          Descartar
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,192 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { AlertCircle, ArrowLeftRight } from "lucide-react"
+import { useCurrency } from "@/components/currency-provider"
+import { TRANSFER_CATEGORY, type Account } from "@/lib/accounts"
+import { fromCents, parseMoney } from "@/lib/money"
+import { formatDateForStorage, getCurrentDateString } from "@/lib/date-utils"
+import type { Entry } from "@/lib/storage"
+
+interface TransferDialogProps {
+  // Cuentas activas
+  accounts: Account[]
+  onTransfer: (entry: Omit<Entry, "id" | "created_at" | "updated_at">) => Promise<Entry | null>
+}
+
+const emptyForm = () => ({ from: "", to: "", amount: "", date: getCurrentDateString(), description: "" })
+
+// Traspaso entre cuentas (p. ej. depositar la caja al banco): un gasto "Traspaso" que sale de una y entra a otra
+export function TransferDialog({ accounts, onTransfer }: TransferDialogProps) {
+  const { baseCurrency } = useCurrency()
+  const [open, setOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [form, setForm] = useState(emptyForm)
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value)
+    if (value) {
+      setForm({ ...emptyForm(), from: accounts[0]?.id || "", to: accounts[1]?.id || "" })
+      setError(null)
+    }
+  }
+
+  const handleSave = async () => {
+    const cents = parseMoney(form.amount)
+    if (!form.from || !form.to || form.from === form.to) {
+      setError("Elige dos cuentas distintas")
+      return
+    }
+    if (cents === null || cents <= 0) {
+      setError("Monto inválido")
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      const result = await onTransfer({
+        type: "gasto",
+        category: TRANSFER_CATEGORY,
+        amount: fromCents(cents),
+        currency: baseCurrency,
+        date: formatDateForStorage(form.date),
+        description: form.description || undefined,
+        account_id: form.from,
+        transfer_account_id: form.to,
+      })
+      if (result) setOpen(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const accountSelect = (id: string, value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange} disabled={isSaving}>
+      <SelectTrigger id={id} className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
+        <SelectValue placeholder="Seleccionar cuenta" />
+      </SelectTrigger>
+      <SelectContent className="dark:bg-gray-800 dark:border-gray-600">
+        {accounts.map((account) => (
+          <SelectItem key={account.id} value={account.id}>
+            {account.icon} {account.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={accounts.length < 2}
+          className="flex items-center gap-2 dark:border-gray-600 dark:text-gray-200"
+        >
+          <ArrowLeftRight className="w-4 h-4" />
+          Traspaso
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px] dark:bg-gray-800 dark:text-gray-100 dark:border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="dark:text-gray-100">🔄 Traspaso entre cuentas</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            Mueve dinero de una cuenta a otra. No cuenta como ingreso ni gasto.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="transfer-from" className="text-right dark:text-gray-200">
+              Desde
+            </Label>
+            {accountSelect("transfer-from", form.from, (from) => setForm({ ...form, from }))}
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="transfer-to" className="text-right dark:text-gray-200">
+              Hacia
+            </Label>
+            {accountSelect("transfer-to", form.to, (to) => setForm({ ...form, to }))}
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="transfer-amount" className="text-right dark:text-gray-200">
+              Monto
+            </Label>
+            <Input
+              id="transfer-amount"
+              type="text"
+              inputMode="decimal"
+              placeholder={`0.00 ${baseCurrency}`}
+              value={form.amount}
+              onChange={(e) => setForm({ ...form, amount: e.target.value })}
+              className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="transfer-date" className="text-right dark:text-gray-200">
+              Fecha
+            </Label>
+            <Input
+              id="transfer-date"
+              type="date"
+              value={form.date}
+              onChange={(e) => setForm({ ...form, date: e.target.value })}
+              className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="transfer-description" className="text-right dark:text-gray-200">
+              Descripción
+            </Label>
+            <Input
+              id="transfer-description"
+              placeholder="Opcional"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className="col-span-3 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200"
+              disabled={isSaving}
+            />
+          </div>
+        </div>
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={isSaving}
+            className="dark:border-gray-600 dark:text-gray-200"
+          >
+            Cancelar
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Guardando..." : "🔄 Traspasar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
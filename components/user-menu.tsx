@@ -0,0 +1,39 @@
+"use client"
+
+import { LogOut, User as UserIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useAuth } from "@/components/auth-provider"
+
+export function UserMenu() {
+  const { user, authRequired, signOut } = useAuth()
+
+  // Con los backends locales no hay cuenta que mostrar
+  if (!authRequired || !user) return null
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="w-9 h-9 p-0">
+          <UserIcon className="h-4 w-4" />
+          <span className="sr-only">Cuenta</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="font-normal text-sm text-gray-600 dark:text-gray-300">{user.email}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={signOut}>
+          <LogOut className="w-4 h-4 mr-2" />
+          Cerrar sesión
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
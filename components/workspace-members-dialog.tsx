@@ -0,0 +1,193 @@
+"use client"
+
+import type React from "react"
+import { useCallback, useEffect, useState } from "react"
+import { RefreshCw, Trash2, UserPlus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { useAuth } from "@/components/auth-provider"
+import { useWorkspace } from "@/components/workspace-provider"
+import { ROLE_DESCRIPTIONS, ROLE_LABELS, type WorkspaceRole } from "@/lib/permissions"
+import { workspacesService, type WorkspaceMember } from "@/lib/workspaces"
+
+const ROLES: WorkspaceRole[] = ["owner", "manager", "cashier", "viewer"]
+
+interface WorkspaceMembersDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Miembros del negocio activo y sus roles; solo para el dueño
+export function WorkspaceMembersDialog({ open, onOpenChange }: WorkspaceMembersDialogProps) {
+  const { user } = useAuth()
+  const { activeWorkspace, setViewerExport } = useWorkspace()
+  const [members, setMembers] = useState<WorkspaceMember[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [email, setEmail] = useState("")
+  const [role, setRole] = useState<WorkspaceRole>("cashier")
+  const [isAdding, setIsAdding] = useState(false)
+
+  const workspaceId = activeWorkspace?.id
+
+  const loadMembers = useCallback(async () => {
+    if (!workspaceId) return
+    setLoading(true)
+    setError(null)
+    try {
+      setMembers(await workspacesService.listMembers(workspaceId))
+    } catch (err) {
+      console.error("❌ Error cargando miembros:", err)
+      setError("Error al cargar los miembros")
+    } finally {
+      setLoading(false)
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    if (open) loadMembers()
+  }, [open, loadMembers])
+
+  // Ejecutar un cambio y recargar la lista; los errores de la base de datos se muestran tal cual
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setError(null)
+    try {
+      await action()
+      await loadMembers()
+    } catch (err) {
+      setError(`${failure}: ${(err as { message?: string })?.message || err}`)
+    }
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!workspaceId || !email.trim()) return
+    setIsAdding(true)
+    await run(async () => {
+      await workspacesService.addMember(workspaceId, email.trim(), role)
+      setEmail("")
+    }, "No se pudo agregar")
+    setIsAdding(false)
+  }
+
+  if (!activeWorkspace || !workspaceId) return null
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] dark:bg-gray-800 dark:text-gray-100 dark:border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="dark:text-gray-100">👥 Miembros de {activeWorkspace.name}</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            Cada rol limita lo que la persona puede ver y cambiar en este negocio.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <RefreshCw className="w-5 h-5 animate-spin text-blue-600" />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {members.map((member) => {
+                const isSelf = member.user_id === user?.id
+                return (
+                  <div
+                    key={member.user_id}
+                    className="flex items-center justify-between gap-2 p-2 rounded border dark:border-gray-700"
+                  >
+                    <span className="text-sm truncate">
+                      {member.email}
+                      {isSelf && <span className="text-gray-500 dark:text-gray-400"> (tú)</span>}
+                    </span>
+                    <div className="flex items-center gap-1">
+                      <Select
+                        value={member.role}
+                        onValueChange={(value: WorkspaceRole) =>
+                          run(() => workspacesService.setMemberRole(workspaceId, member.user_id, value), "No se pudo cambiar el rol")
+                        }
+                        disabled={isSelf}
+                      >
+                        <SelectTrigger className="w-[140px] h-8 dark:bg-gray-700 dark:border-gray-600">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {ROLE_LABELS[option]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {!isSelf && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            run(() => workspacesService.removeMember(workspaceId, member.user_id), "No se pudo quitar")
+                          }
+                          className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+
+          <form onSubmit={handleAdd} className="space-y-2">
+            <Label htmlFor="member-email">Agregar miembro</Label>
+            <div className="flex gap-2">
+              <Input
+                id="member-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="correo@ejemplo.com"
+                className="dark:bg-gray-700 dark:border-gray-600"
+              />
+              <Select value={role} onValueChange={(value: WorkspaceRole) => setRole(value)}>
+                <SelectTrigger className="w-[140px] dark:bg-gray-700 dark:border-gray-600">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {ROLE_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="submit" disabled={isAdding || !email.trim()}>
+                <UserPlus className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {ROLE_LABELS[role]}: {ROLE_DESCRIPTIONS[role]}. La persona debe haber creado su cuenta.
+            </p>
+          </form>
+
+          <div className="flex items-center justify-between gap-4 pt-2 border-t dark:border-gray-700">
+            <Label htmlFor="viewer-export" className="text-sm">
+              Permitir que los miembros de solo lectura exporten los datos
+            </Label>
+            <Switch
+              id="viewer-export"
+              checked={activeWorkspace.allow_viewer_export}
+              onCheckedChange={(checked) => run(() => setViewerExport(checked), "No se pudo guardar")}
+            />
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
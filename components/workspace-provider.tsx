@@ -0,0 +1,182 @@
+"use client"
+
+import type React from "react"
+import { createContext, Fragment, useCallback, useContext, useEffect, useState } from "react"
+import { AlertCircle, RefreshCw } from "lucide-react"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { useAuth } from "@/components/auth-provider"
+import { getRememberedWorkspaceId, setActiveWorkspaceId } from "@/lib/storage"
+import { DEFAULT_WORKSPACE_NAME, workspacesService, type Workspace } from "@/lib/workspaces"
+import type { BusinessCalendar } from "@/lib/business-calendar"
+import type { FinanceMetric } from "@/lib/metrics"
+
+interface WorkspaceContextValue {
+  workspaces: Workspace[]
+  activeWorkspace: Workspace | null
+  selectWorkspace: (id: string) => void
+  createWorkspace: (name: string) => Promise<Workspace>
+  setViewerExport: (allowed: boolean) => Promise<void>
+  setBaseCurrency: (currency: string) => Promise<void>
+  setCalendar: (calendar: BusinessCalendar) => Promise<void>
+  setBalanceMetric: (metric: FinanceMetric) => Promise<void>
+}
+
+const WorkspaceContext = createContext<WorkspaceContextValue>({
+  workspaces: [],
+  activeWorkspace: null,
+  selectWorkspace: () => {},
+  createWorkspace: async () => {
+    throw new Error("WorkspaceProvider no está montado")
+  },
+  setViewerExport: async () => {},
+  setBaseCurrency: async () => {},
+  setCalendar: async () => {},
+  setBalanceMetric: async () => {},
+})
+
+// Carga los espacios de trabajo del usuario y no muestra la página hasta tener uno activo
+export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
+  const { user, authRequired } = useAuth()
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([])
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // Rutas públicas sin sesión (diagnóstico): no hay espacios que cargar
+  const enabled = !authRequired || !!user
+
+  const loadWorkspaces = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      let list = await workspacesService.list()
+      // Cuenta nueva: crear su primer negocio
+      if (list.length === 0) list = [await workspacesService.create(DEFAULT_WORKSPACE_NAME)]
+      const remembered = getRememberedWorkspaceId()
+      const active = list.find((workspace) => workspace.id === remembered) || list[0]
+      setActiveWorkspaceId(active.id)
+      setWorkspaces(list)
+      setActiveId(active.id)
+    } catch (err) {
+      console.error("❌ Error cargando espacios de trabajo:", err)
+      setError("Error al cargar los espacios de trabajo")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (enabled) loadWorkspaces()
+  }, [enabled, loadWorkspaces])
+
+  const selectWorkspace = useCallback((id: string) => {
+    setActiveWorkspaceId(id)
+    setActiveId(id)
+  }, [])
+
+  const createWorkspace = useCallback(
+    async (name: string) => {
+      const workspace = await workspacesService.create(name)
+      setWorkspaces((prev) => [...prev, workspace])
+      selectWorkspace(workspace.id)
+      return workspace
+    },
+    [selectWorkspace],
+  )
+
+  const setViewerExport = useCallback(
+    async (allowed: boolean) => {
+      if (!activeId) return
+      await workspacesService.setViewerExport(activeId, allowed)
+      setWorkspaces((prev) =>
+        prev.map((workspace) => (workspace.id === activeId ? { ...workspace, allow_viewer_export: allowed } : workspace)),
+      )
+    },
+    [activeId],
+  )
+
+  const setBaseCurrency = useCallback(
+    async (currency: string) => {
+      if (!activeId) return
+      await workspacesService.setBaseCurrency(activeId, currency)
+      setWorkspaces((prev) =>
+        prev.map((workspace) => (workspace.id === activeId ? { ...workspace, base_currency: currency } : workspace)),
+      )
+    },
+    [activeId],
+  )
+
+  const setCalendar = useCallback(
+    async (calendar: BusinessCalendar) => {
+      if (!activeId) return
+      await workspacesService.setCalendar(activeId, calendar)
+      setWorkspaces((prev) => prev.map((workspace) => (workspace.id === activeId ? { ...workspace, calendar } : workspace)))
+    },
+    [activeId],
+  )
+
+  const setBalanceMetric = useCallback(
+    async (metric: FinanceMetric) => {
+      if (!activeId) return
+      await workspacesService.setBalanceMetric(activeId, metric)
+      setWorkspaces((prev) =>
+        prev.map((workspace) => (workspace.id === activeId ? { ...workspace, balance_metric: metric } : workspace)),
+      )
+    },
+    [activeId],
+  )
+
+  if (!enabled) return <>{children}</>
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4 flex items-center justify-center">
+        <div className="w-full max-w-md space-y-4">
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+          <Button onClick={loadWorkspaces} className="w-full">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Reintentar
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  if (loading || !activeId) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="w-8 h-8 animate-spin mx-auto mb-4 text-blue-600" />
+          <p className="text-gray-600 dark:text-gray-300">Cargando espacios de trabajo...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const activeWorkspace = workspaces.find((workspace) => workspace.id === activeId) || null
+
+  return (
+    <WorkspaceContext.Provider
+      value={{
+        workspaces,
+        activeWorkspace,
+        selectWorkspace,
+        createWorkspace,
+        setViewerExport,
+        setBaseCurrency,
+        setCalendar,
+        setBalanceMetric,
+      }}
+    >
+      {/* Remontar la página al cambiar de espacio: cargas, totales y suscripciones empiezan de cero */}
+      <Fragment key={activeId}>{children}</Fragment>
+    </WorkspaceContext.Provider>
+  )
+}
+
+export function useWorkspace() {
+  return useContext(WorkspaceContext)
+}
@@ -0,0 +1,129 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Store, Plus, Users } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { useAuth } from "@/components/auth-provider"
+import { useWorkspace } from "@/components/workspace-provider"
+import { WorkspaceMembersDialog } from "@/components/workspace-members-dialog"
+import { canManageMembers, ROLE_LABELS } from "@/lib/permissions"
+
+// Valores especiales del selector que abren los diálogos de nuevo negocio y de miembros
+const NEW_WORKSPACE_VALUE = "__new__"
+const MEMBERS_VALUE = "__members__"
+
+export function WorkspaceSwitcher() {
+  const { authRequired } = useAuth()
+  const { workspaces, activeWorkspace, selectWorkspace, createWorkspace } = useWorkspace()
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [membersOpen, setMembersOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [isCreating, setIsCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (!activeWorkspace) return null
+
+  // Los backends locales tienen un solo usuario: no hay miembros que administrar
+  const showMembers = authRequired && canManageMembers(activeWorkspace.role)
+
+  const handleChange = (value: string) => {
+    if (value === NEW_WORKSPACE_VALUE) {
+      setName("")
+      setError(null)
+      setDialogOpen(true)
+    } else if (value === MEMBERS_VALUE) {
+      setMembersOpen(true)
+    } else {
+      selectWorkspace(value)
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    setIsCreating(true)
+    setError(null)
+    try {
+      await createWorkspace(name.trim())
+      setDialogOpen(false)
+    } catch (err) {
+      console.error("❌ Error creando negocio:", err)
+      setError("No se pudo crear el negocio")
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <>
+      <Select value={activeWorkspace.id} onValueChange={handleChange}>
+        <SelectTrigger className="w-auto min-w-[160px] h-9 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-100">
+          <Store className="w-4 h-4 mr-2 shrink-0" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {workspaces.map((workspace) => (
+            <SelectItem key={workspace.id} value={workspace.id}>
+              {workspace.name}
+              {authRequired && (
+                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{ROLE_LABELS[workspace.role]}</span>
+              )}
+            </SelectItem>
+          ))}
+          {showMembers && (
+            <SelectItem value={MEMBERS_VALUE}>
+              <span className="flex items-center gap-2">
+                <Users className="w-4 h-4" />
+                Miembros y permisos
+              </span>
+            </SelectItem>
+          )}
+          <SelectItem value={NEW_WORKSPACE_VALUE}>
+            <span className="flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              Nuevo negocio
+            </span>
+          </SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[400px]">
+          <form onSubmit={handleCreate}>
+            <DialogHeader>
+              <DialogTitle>Nuevo negocio</DialogTitle>
+              <DialogDescription>Cada negocio lleva sus propios libros: entradas, totales y reportes.</DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-2 py-4">
+              <Label htmlFor="workspace-name">Nombre</Label>
+              <Input
+                id="workspace-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Ej. Puesto de comida"
+                autoFocus
+              />
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isCreating || !name.trim()}>
+                {isCreating ? "Creando..." : "Crear"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {showMembers && <WorkspaceMembersDialog open={membersOpen} onOpenChange={setMembersOpen} />}
+    </>
+  )
+}
@@ -0,0 +1,125 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
+import { useWorkspace } from "@/components/workspace-provider"
+import { useCurrency } from "@/components/currency-provider"
+import {
+  accountBalances,
+  accountsService,
+  defaultAccountId,
+  sortAccounts,
+  type Account,
+  type AccountInput,
+  type AccountUpdate,
+} from "@/lib/accounts"
+import { entriesService, type AccountFlowRow } from "@/lib/storage"
+
+// Espera antes de volver a pedir los saldos tras un cambio en las entradas
+const FLOWS_DEBOUNCE_MS = 800
+
+interface UseAccountsOptions {
+  // Cualquier valor que cambie cuando cambian las entradas (p. ej. la lista), para recalcular los saldos
+  refreshKey?: unknown
+  // Sin saldos no se piden los movimientos (p. ej. solo para elegir la cuenta al importar)
+  balances?: boolean
+}
+
+// Cuentas del negocio activo con su saldo
+export function useAccounts({ refreshKey, balances: withBalances = true }: UseAccountsOptions = {}) {
+  const { activeWorkspace } = useWorkspace()
+  const { conversion } = useCurrency()
+  const workspaceId = activeWorkspace?.id
+  const [accounts, setAccounts] = useState<Account[]>([])
+  const [flows, setFlows] = useState<AccountFlowRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const hasLoadedFlowsRef = useRef(false)
+
+  const loadAccounts = useCallback(async () => {
+    if (!workspaceId) return
+    try {
+      setError(null)
+      setAccounts(await accountsService.list(workspaceId))
+    } catch (err) {
+      console.error("❌ Error loading accounts:", err)
+      setError("Error al cargar las cuentas")
+    } finally {
+      setLoading(false)
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    loadAccounts()
+  }, [loadAccounts])
+
+  // Los saldos salen del historial completo, agrupado por cuenta y día en el backend
+  useEffect(() => {
+    if (!withBalances) return
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const data = await entriesService.accountFlows(conversion)
+        if (!cancelled) {
+          setFlows(data)
+          hasLoadedFlowsRef.current = true
+        }
+      } catch (err) {
+        console.error("❌ Error loading account flows:", err)
+        if (!cancelled) setError("Error al cargar los saldos de las cuentas")
+      }
+    }, hasLoadedFlowsRef.current ? FLOWS_DEBOUNCE_MS : 0)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [workspaceId, conversion, refreshKey, withBalances])
+
+  const balances = useMemo(() => accountBalances(accounts, flows), [accounts, flows])
+  const defaultAccount = useMemo(() => defaultAccountId(accounts), [accounts])
+
+  const getAccount = useCallback(
+    (id?: string | null) => accounts.find((account) => account.id === (id || defaultAccount)) || null,
+    [accounts, defaultAccount],
+  )
+
+  // Cuentas que se ofrecen al capturar; `keep` conserva una archivada que ya usa la entrada
+  const activeAccounts = useCallback(
+    (keep?: string | null) => accounts.filter((account) => !account.archived || account.id === keep),
+    [accounts],
+  )
+
+  const createAccount = useCallback(
+    async (input: AccountInput) => {
+      if (!workspaceId) return null
+      const nextOrder = accounts.reduce((max, account) => Math.max(max, account.sort_order + 1), 0)
+      const created = await accountsService.create(workspaceId, input, nextOrder)
+      setAccounts((prev) => sortAccounts([...prev, created]))
+      return created
+    },
+    [workspaceId, accounts],
+  )
+
+  const updateAccount = useCallback(
+    async (id: string, changes: AccountUpdate) => {
+      if (!workspaceId) return null
+      const updated = await accountsService.update(workspaceId, id, changes)
+      setAccounts((prev) => sortAccounts(prev.map((account) => (account.id === id ? updated : account))))
+      return updated
+    },
+    [workspaceId],
+  )
+
+  return {
+    accounts,
+    balances,
+    defaultAccountId: defaultAccount,
+    loading,
+    error,
+    getAccount,
+    activeAccounts,
+    createAccount,
+    updateAccount,
+    refetch: loadAccounts,
+  }
+}
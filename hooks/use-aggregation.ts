@@ -0,0 +1,18 @@
+"use client"
+
+import { useMemo } from "react"
+import { useCurrency } from "@/components/currency-provider"
+import { useBusinessCalendar } from "@/hooks/use-business-calendar"
+import { aggregateEntries, type CashMovementFilter, type EntryAggregation } from "@/lib/aggregation"
+import type { Entry } from "@/lib/storage"
+
+// Agregados de las entradas en la moneda base y con las semanas del calendario del negocio;
+// `isCashMovement` viene de useCategories() y saca los movimientos de caja de ingresos y gastos
+export function useAggregation<T extends Entry>(entries: T[], isCashMovement: CashMovementFilter): EntryAggregation<T> {
+  const { toBaseCents } = useCurrency()
+  const calendar = useBusinessCalendar()
+  return useMemo(
+    () => aggregateEntries(entries, { centsOf: toBaseCents, calendar, isCashMovement }),
+    [entries, toBaseCents, calendar, isCashMovement],
+  )
+}
@@ -0,0 +1,23 @@
+"use client"
+
+import { useCallback, useMemo } from "react"
+import { useWorkspace } from "@/components/workspace-provider"
+import type { TypeTotals } from "@/lib/aggregation"
+import {
+  DEFAULT_BALANCE_METRIC,
+  METRIC_FORMULAS,
+  METRIC_LABELS,
+  computeMetrics,
+  type FinanceMetric,
+} from "@/lib/metrics"
+
+// Métrica que el negocio eligió mostrar como "Balance"; todas las páginas calculan su balance con ella
+export function useBalanceMetric() {
+  const { activeWorkspace } = useWorkspace()
+  const metric: FinanceMetric = activeWorkspace?.balance_metric || DEFAULT_BALANCE_METRIC
+  const balanceOf = useCallback((totals: TypeTotals) => computeMetrics(totals)[metric], [metric])
+  return useMemo(
+    () => ({ metric, label: METRIC_LABELS[metric], formula: METRIC_FORMULAS[metric], balanceOf }),
+    [metric, balanceOf],
+  )
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useWorkspace } from "@/components/workspace-provider"
+import { budgetsService, type Budget, type BudgetInput } from "@/lib/budgets"
+
+// Presupuestos por categoría del negocio activo
+export function useBudgets() {
+  const { activeWorkspace } = useWorkspace()
+  const workspaceId = activeWorkspace?.id
+  const [budgets, setBudgets] = useState<Budget[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadBudgets = useCallback(async () => {
+    if (!workspaceId) return
+    try {
+      setError(null)
+      setBudgets(await budgetsService.list(workspaceId))
+    } catch (err) {
+      console.error("❌ Error loading budgets:", err)
+      setError("Error al cargar los presupuestos")
+    } finally {
+      setLoading(false)
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    loadBudgets()
+  }, [loadBudgets])
+
+  const saveBudget = useCallback(
+    async (input: BudgetInput) => {
+      if (!workspaceId) return null
+      const saved = await budgetsService.save(workspaceId, input)
+      setBudgets((prev) => [...prev.filter((budget) => budget.id !== saved.id), saved])
+      return saved
+    },
+    [workspaceId],
+  )
+
+  const removeBudget = useCallback(
+    async (id: string) => {
+      if (!workspaceId) return
+      await budgetsService.remove(workspaceId, id)
+      setBudgets((prev) => prev.filter((budget) => budget.id !== id))
+    },
+    [workspaceId],
+  )
+
+  return {
+    budgets,
+    loading,
+    error,
+    saveBudget,
+    removeBudget,
+    refetch: loadBudgets,
+  }
+}
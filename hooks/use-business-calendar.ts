@@ -0,0 +1,12 @@
+"use client"
+
+import { useMemo } from "react"
+import { useWorkspace } from "@/components/workspace-provider"
+import { DEFAULT_BUSINESS_CALENDAR, type BusinessCalendar } from "@/lib/business-calendar"
+
+// Calendario del negocio activo; todas las semanas, "esta semana" y años fiscales se calculan con él
+export function useBusinessCalendar(): BusinessCalendar {
+  const { activeWorkspace } = useWorkspace()
+  const calendar = activeWorkspace?.calendar
+  return useMemo(() => calendar || DEFAULT_BUSINESS_CALENDAR, [calendar])
+}
@@ -0,0 +1,107 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { useWorkspace } from "@/components/workspace-provider"
+import {
+  CASH_OVER_CATEGORY,
+  CASH_SHORT_CATEGORY,
+  cashClosesService,
+  type CashClose,
+  type CashCloseInput,
+} from "@/lib/cash-close"
+import type { Entry, EntryInput } from "@/lib/storage"
+
+interface UseCashClosesOptions {
+  // Cómo se registran y se quitan los ajustes (normalmente los de useEntries, que pasan por la cola offline)
+  addEntry: (entry: EntryInput) => Promise<Entry | null>
+  deleteEntry: (id: string) => Promise<boolean>
+  // Moneda en que se registra el ajuste (la base del negocio)
+  currency: string
+}
+
+// Arqueos de caja del negocio activo
+export function useCashCloses({ addEntry, deleteEntry, currency }: UseCashClosesOptions) {
+  const { activeWorkspace } = useWorkspace()
+  const workspaceId = activeWorkspace?.id
+  const [closes, setCloses] = useState<CashClose[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadCloses = useCallback(async () => {
+    if (!workspaceId) return
+    try {
+      setError(null)
+      setCloses(await cashClosesService.list(workspaceId))
+    } catch (err) {
+      console.error("❌ Error loading cash closes:", err)
+      setError("Error al cargar los arqueos")
+    } finally {
+      setLoading(false)
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    loadCloses()
+  }, [loadCloses])
+
+  // Arqueos de cada día, llave YYYY-MM-DD
+  const closesByDate = useMemo(() => {
+    const map = new Map<string, CashClose[]>()
+    closes.forEach((close) => map.set(close.date, [...(map.get(close.date) || []), close]))
+    return map
+  }, [closes])
+
+  // Cierra el día: si no cuadró, primero registra el sobrante o faltante en la misma caja
+  const closeDay = useCallback(
+    async (input: Omit<CashCloseInput, "adjustment_entry_id">) => {
+      if (!workspaceId) return null
+      let adjustment: Entry | null = null
+      if (input.difference !== 0) {
+        adjustment = await addEntry({
+          type: input.difference > 0 ? "ingreso" : "gasto",
+          category: input.difference > 0 ? CASH_OVER_CATEGORY : CASH_SHORT_CATEGORY,
+          amount: Math.abs(input.difference),
+          currency,
+          date: input.date,
+          description: "Ajuste de arqueo",
+          account_id: input.account_id,
+        })
+        if (!adjustment) throw new Error("No se pudo registrar el ajuste del arqueo")
+      }
+      try {
+        const created = await cashClosesService.create(workspaceId, {
+          ...input,
+          adjustment_entry_id: adjustment?.id || null,
+        })
+        setCloses((prev) => [created, ...prev])
+        return created
+      } catch (err) {
+        // Sin arqueo guardado el ajuste no debe quedar suelto
+        if (adjustment?.id) await deleteEntry(adjustment.id)
+        throw err
+      }
+    },
+    [workspaceId, addEntry, deleteEntry, currency],
+  )
+
+  // Reabrir: quita el arqueo y su ajuste para poder contar de nuevo
+  const reopen = useCallback(
+    async (close: CashClose) => {
+      if (!workspaceId) return
+      await cashClosesService.remove(workspaceId, close.id)
+      if (close.adjustment_entry_id) await deleteEntry(close.adjustment_entry_id)
+      setCloses((prev) => prev.filter((other) => other.id !== close.id))
+    },
+    [workspaceId, deleteEntry],
+  )
+
+  return {
+    closes,
+    closesByDate,
+    loading,
+    error,
+    closeDay,
+    reopen,
+    refetch: loadCloses,
+  }
+}
@@ -0,0 +1,143 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { useWorkspace } from "@/components/workspace-provider"
+import {
+  categoriesService,
+  sortCategories,
+  type Category,
+  type CategoryChange,
+  type CategoryInput,
+  type CategoryUpdate,
+  type EntryType,
+} from "@/lib/categories"
+import { isTransfer } from "@/lib/accounts"
+import type { Entry } from "@/lib/storage"
+
+// Categorías del negocio activo
+export function useCategories() {
+  const { activeWorkspace } = useWorkspace()
+  const workspaceId = activeWorkspace?.id
+  const [categories, setCategories] = useState<Category[]>([])
+  const [changes, setChanges] = useState<CategoryChange[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadCategories = useCallback(async () => {
+    if (!workspaceId) return
+    try {
+      setError(null)
+      const [list, history] = await Promise.all([
+        categoriesService.list(workspaceId),
+        categoriesService.listChanges(workspaceId),
+      ])
+      setCategories(list)
+      setChanges(history)
+    } catch (err) {
+      console.error("❌ Error loading categories:", err)
+      setError("Error al cargar las categorías")
+    } finally {
+      setLoading(false)
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    loadCategories()
+  }, [loadCategories])
+
+  // Búsqueda por tipo y nombre, que es lo que guardan las entradas
+  const lookup = useMemo(() => {
+    const map = new Map<string, Category>()
+    categories.forEach((category) => map.set(`${category.type}|${category.name}`, category))
+    return map
+  }, [categories])
+
+  const getCategory = useCallback(
+    (type: EntryType, name: string) => lookup.get(`${type}|${name}`) || null,
+    [lookup],
+  )
+
+  // Entradas que mueven efectivo sin ser ingreso ni gasto (ver Category.cash_movement); los traspasos entre cuentas también
+  const isCashMovement = useCallback(
+    (entry: Pick<Entry, "type" | "category">) =>
+      isTransfer(entry) || !!lookup.get(`${entry.type}|${entry.category}`)?.cash_movement,
+    [lookup],
+  )
+
+  // Nombres que se ofrecen al capturar; `keep` conserva una categoría archivada que ya usa la entrada
+  const namesFor = useCallback(
+    (type: EntryType, keep?: string) =>
+      sortCategories(categories.filter((category) => category.type === type))
+        .filter((category) => !category.archived || category.name === keep)
+        .map((category) => category.name),
+    [categories],
+  )
+
+  const createCategory = useCallback(
+    async (input: CategoryInput) => {
+      if (!workspaceId) return null
+      const sameType = categories.filter((category) => category.type === input.type)
+      const nextOrder = sameType.reduce((max, category) => Math.max(max, category.sort_order + 1), 0)
+      const created = await categoriesService.create(workspaceId, input, nextOrder)
+      setCategories((prev) => sortCategories([...prev, created]))
+      return created
+    },
+    [workspaceId, categories],
+  )
+
+  const updateCategory = useCallback(
+    async (id: string, changes: CategoryUpdate) => {
+      if (!workspaceId) return null
+      const updated = await categoriesService.update(workspaceId, id, changes)
+      setCategories((prev) => sortCategories(prev.map((category) => (category.id === id ? updated : category))))
+      return updated
+    },
+    [workspaceId],
+  )
+
+  // Intercambiar el orden con la categoría vecina del mismo tipo
+  const moveCategory = useCallback(
+    async (id: string, direction: -1 | 1) => {
+      const current = categories.find((category) => category.id === id)
+      if (!current) return
+      const sameType = sortCategories(categories.filter((category) => category.type === current.type))
+      const index = sameType.findIndex((category) => category.id === id)
+      const neighbor = sameType[index + direction]
+      if (!neighbor) return
+      // Si empatan, desempatar en la dirección pedida
+      const neighborOrder =
+        neighbor.sort_order === current.sort_order ? current.sort_order + direction : neighbor.sort_order
+      await Promise.all([
+        updateCategory(current.id, { sort_order: neighborOrder }),
+        updateCategory(neighbor.id, { sort_order: current.sort_order }),
+      ])
+    },
+    [categories, updateCategory],
+  )
+
+  // Renombrar o fusionar; recargar porque la categoría de origen cambia de nombre o desaparece
+  const mergeCategory = useCallback(
+    async (type: EntryType, from: string, to: string) => {
+      if (!workspaceId) return 0
+      const affected = await categoriesService.merge(workspaceId, type, from, to)
+      await loadCategories()
+      return affected
+    },
+    [workspaceId, loadCategories],
+  )
+
+  return {
+    categories,
+    changes,
+    loading,
+    error,
+    getCategory,
+    isCashMovement,
+    namesFor,
+    createCategory,
+    updateCategory,
+    moveCategory,
+    mergeCategory,
+    refetch: loadCategories,
+  }
+}
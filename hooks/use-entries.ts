@@ -1,76 +1,248 @@
 "use client"
 
-import { useState, useEffect, useCallback } from "react"
-import { entriesService, type Entry } from "@/lib/supabase"
-import type { RealtimeChannel } from "@supabase/supabase-js"
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
+import {
+  entriesService,
+  offlineQueue,
+  onQueueReplayRequested,
+  isNetworkError,
+  isDuplicateKeyError,
+  applyMutations,
+  getSyncStates,
+  generateEntryId,
+  mergeEntryChange,
+  writeFingerprint,
+  entryWorkspaceId,
+  matchesQuery,
+  queryKey,
+  DEFAULT_PAGE_SIZE,
+  type EntriesStorage,
+  type EntriesSubscription,
+  type Entry,
+  type EntryChange,
+  type EntryQuery,
+  type MutationRequest,
+  type NewEntry,
+  type QueuedMutation,
+  type SyncState,
+} from "@/lib/storage"
+import { removeAttachments } from "@/lib/attachments"
 
-export function useEntries() {
-  const [entries, setEntries] = useState<Entry[]>([])
+// Espera antes de la resincronización completa tras reconectar el canal
+const RESYNC_DEBOUNCE_MS = 1500
+const MAX_TRACKED_WRITES = 200
+
+interface UseEntriesOptions {
+  // Backend a usar en lugar del configurado (por ejemplo, un fake en pruebas)
+  storage?: EntriesStorage
+  // Ventana de datos que necesita la página; sin ella se carga todo el historial
+  query?: EntryQuery
+}
+
+export function useEntries({ storage = entriesService, query }: UseEntriesOptions = {}) {
+  // Entradas confirmadas por el backend
+  const [serverEntries, setServerEntries] = useState<Entry[]>([])
+  // Escrituras pendientes o fallidas, en el orden en que se hicieron
+  const [queue, setQueue] = useState<QueuedMutation[]>([])
   const [loading, setLoading] = useState(true)
+  // Recargas posteriores (p. ej. al ampliar la ventana) no bloquean la pantalla
+  const [fetching, setFetching] = useState(false)
+  const hasLoadedRef = useRef(false)
   const [error, setError] = useState<string | null>(null)
+  const flushingRef = useRef(false)
+  // Escrituras propias cuyo eco todavía no llega por el canal de tiempo real
+  const ownWritesRef = useRef(new Set<string>())
+
+  // La consulta llega como objeto nuevo en cada render; trabajar con su clave estable
+  const currentQueryKey = queryKey(query)
+  const queryRef = useRef(query)
+  queryRef.current = query
+
+  // Vista optimista: lo confirmado más lo que aún está en la cola, limitado al espacio de trabajo y a la ventana pedida
+  // (la cola es compartida: puede traer altas pendientes de otro espacio)
+  const workspaceId = storage.workspaceId
+  const entries = useMemo(
+    () =>
+      applyMutations(serverEntries, queue).filter(
+        (entry) => entryWorkspaceId(entry) === workspaceId && matchesQuery(entry, queryRef.current),
+      ),
+    [serverEntries, queue, currentQueryKey, workspaceId],
+  )
+  const syncStates = useMemo(() => getSyncStates(queue), [queue])
+  const entriesRef = useRef(entries)
+  entriesRef.current = entries
+
+  const refreshQueue = useCallback(async () => {
+    try {
+      setQueue(await offlineQueue.list())
+    } catch (err) {
+      console.error("❌ Error leyendo la cola offline:", err)
+    }
+  }, [])
+
+  // Aplicar una escritura confirmada y recordar su huella para ignorar el eco
+  const applyOwnWrite = useCallback((change: EntryChange) => {
+    const ownWrites = ownWritesRef.current
+    ownWrites.add(writeFingerprint(change))
+    // Si un eco nunca llega (p. ej. canal caído), no acumular huellas indefinidamente
+    if (ownWrites.size > MAX_TRACKED_WRITES) ownWrites.delete(ownWrites.values().next().value!)
+    setServerEntries((prev) => mergeEntryChange(prev, change))
+  }, [])
+
+  // Alta con el id del cliente; si ya existe es que llegó antes y solo se perdió la respuesta
+  const createOnce = useCallback(
+    async (id: string, data: NewEntry) => {
+      try {
+        return await storage.create({ ...data, id })
+      } catch (err) {
+        if (!isDuplicateKeyError(err)) throw err
+        const existing = await storage.get(id)
+        if (!existing) throw err
+        console.log("♻️ El alta ya estaba guardada:", id)
+        return existing
+      }
+    },
+    [storage],
+  )
+
+  // Enviar al backend las mutaciones pendientes, en orden
+  const flushQueue = useCallback(async () => {
+    if (flushingRef.current) return
+    flushingRef.current = true
+    try {
+      const queued = await offlineQueue.list()
+      const pending = queued.filter((mutation) => mutation.status === "pending")
+      if (pending.length > 0) console.log("📤 Sincronizando cola offline:", pending.length)
+      // Entradas cuya alta falló: sus cambios posteriores fallarían igual, esperan a que se resuelva el alta
+      const blocked = new Set(
+        queued
+          .filter((mutation) => mutation.kind === "create" && mutation.status === "failed")
+          .map((mutation) => mutation.entryId),
+      )
+
+      for (const mutation of pending) {
+        if (blocked.has(mutation.entryId)) continue
+        try {
+          if (mutation.kind === "create") {
+            const created = await createOnce(mutation.entryId, mutation.data)
+            if (created) applyOwnWrite({ eventType: "INSERT", id: created.id!, entry: created })
+          } else if (mutation.kind === "update") {
+            const updated = await storage.update(mutation.entryId, mutation.data)
+            if (updated) applyOwnWrite({ eventType: "UPDATE", id: updated.id!, entry: updated })
+          } else {
+            await storage.delete(mutation.entryId)
+            applyOwnWrite({ eventType: "DELETE", id: mutation.entryId })
+            // Hasta aquí el borrado es definitivo; si no se pueden borrar (el cajero no puede) quedan huérfanos
+            removeAttachments(mutation.attachments).catch((err) => console.warn("⚠️ Adjuntos no borrados:", err))
+          }
+          await offlineQueue.remove(mutation.seq!)
+        } catch (err) {
+          if (isNetworkError(err)) {
+            // Sin red: dejar el resto en la cola hasta que vuelva la conexión
+            console.log("📴 Sin conexión, la cola se reintentará más tarde")
+            break
+          }
+          console.error("❌ Error sincronizando mutación:", mutation.kind, err)
+          if (mutation.kind === "create") blocked.add(mutation.entryId)
+          await offlineQueue.save({
+            ...mutation,
+            status: "failed",
+            error: err instanceof Error ? err.message : (err as { message?: string })?.message || String(err),
+          })
+          setError("Algunas entradas no se pudieron sincronizar")
+        }
+      }
+    } catch (err) {
+      console.error("❌ Error procesando la cola offline:", err)
+    } finally {
+      flushingRef.current = false
+      await refreshQueue()
+    }
+  }, [createOnce, refreshQueue, applyOwnWrite, storage])
+
+  const enqueue = useCallback(
+    async (request: MutationRequest) => {
+      const mutation = await offlineQueue.enqueue(request)
+      setQueue((prev) => [...prev, mutation])
+      // No esperar: la entrada ya se muestra de forma optimista
+      void flushQueue()
+    },
+    [flushQueue],
+  )
+
+  // Traer del backend solo la ventana pedida, recorriendo las páginas del cursor
+  const fetchWindow = useCallback(async () => {
+    const windowQuery = queryRef.current
+    if (!windowQuery) return storage.getAll()
+
+    const rows: Entry[] = []
+    let cursor: string | null = null
+    do {
+      const page = await storage.query({ ...windowQuery, cursor, limit: DEFAULT_PAGE_SIZE })
+      rows.push(...page.entries)
+      cursor = page.nextCursor
+    } while (cursor)
+    return rows
+  }, [storage, currentQueryKey])
 
   // Cargar entradas iniciales
   const loadEntries = useCallback(async () => {
     try {
       console.log("🔄 Cargando entradas...")
-      setLoading(true)
+      if (hasLoadedRef.current) setFetching(true)
+      else setLoading(true)
       setError(null)
-      const data = await entriesService.getAll()
+      const data = await fetchWindow()
       console.log("✅ Entradas cargadas:", data.length, data)
-      setEntries(data)
+      setServerEntries(data)
+      hasLoadedRef.current = true
     } catch (err) {
       console.error("❌ Error loading entries:", err)
       setError("Error al cargar las entradas")
     } finally {
+      await refreshQueue()
       setLoading(false)
+      setFetching(false)
     }
-  }, [])
+  }, [fetchWindow, refreshQueue])
 
   // Agregar nueva entrada
-  const addEntry = useCallback(async (entryData: Omit<Entry, "id" | "created_at" | "updated_at">) => {
-    try {
-      console.log("➕ Agregando entrada:", entryData)
-      setError(null)
-      const newEntry = await entriesService.create(entryData)
-      if (newEntry) {
-        console.log("✅ Entrada creada:", newEntry)
-        // Actualizar inmediatamente el estado local
-        setEntries((prev) => [newEntry, ...prev])
-        return newEntry
-      } else {
-        console.error("❌ Error: No se pudo crear la entrada")
-        setError("Error al crear la entrada")
+  const addEntry = useCallback(
+    async (entryData: Omit<Entry, "id" | "created_at" | "updated_at">) => {
+      try {
+        console.log("➕ Agregando entrada:", entryData)
+        setError(null)
+        const id = generateEntryId()
+        // Fijar el espacio al encolar: si se sincroniza más tarde, no debe caer en el que esté activo entonces
+        const data = { ...entryData, workspace_id: storage.workspaceId }
+        await enqueue({ kind: "create", entryId: id, data })
+        return { ...data, id } as Entry
+      } catch (err) {
+        console.error("❌ Error adding entry:", err)
+        setError("Error al agregar la entrada")
         return null
       }
-    } catch (err) {
-      console.error("❌ Error adding entry:", err)
-      setError("Error al agregar la entrada")
-      return null
-    }
-  }, [])
+    },
+    [enqueue, storage],
+  )
 
   // Eliminar entrada
-  const deleteEntry = useCallback(async (id: string) => {
-    try {
-      console.log("🗑️ Eliminando entrada:", id)
-      setError(null)
-      const success = await entriesService.delete(id)
-      if (success) {
-        console.log("✅ Entrada eliminada")
-        // Actualizar inmediatamente el estado local
-        setEntries((prev) => prev.filter((entry) => entry.id !== id))
+  const deleteEntry = useCallback(
+    async (id: string) => {
+      try {
+        console.log("🗑️ Eliminando entrada:", id)
+        setError(null)
+        const attachments = entriesRef.current.find((entry) => entry.id === id)?.attachments
+        await enqueue({ kind: "delete", entryId: id, ...(attachments?.length ? { attachments } : {}) })
         return true
-      } else {
-        console.error("❌ Error: No se pudo eliminar la entrada")
+      } catch (err) {
+        console.error("❌ Error deleting entry:", err)
         setError("Error al eliminar la entrada")
         return false
       }
-    } catch (err) {
-      console.error("❌ Error deleting entry:", err)
-      setError("Error al eliminar la entrada")
-      return false
-    }
-  }, [])
+    },
+    [enqueue],
+  )
 
   // Actualizar entrada
   const updateEntry = useCallback(
@@ -78,63 +250,124 @@ export function useEntries() {
       try {
         console.log("✏️ Actualizando entrada:", id, entryData)
         setError(null)
-        const updatedEntry = await entriesService.update(id, entryData)
-        if (updatedEntry) {
-          console.log("✅ Entrada actualizada:", updatedEntry)
-          // Actualizar inmediatamente el estado local
-          setEntries((prev) => prev.map((entry) => (entry.id === id ? updatedEntry : entry)))
-          return updatedEntry
-        } else {
-          console.error("❌ Error: No se pudo actualizar la entrada")
+        const existing = entriesRef.current.find((entry) => entry.id === id)
+        if (!existing) {
+          console.error("❌ Error: No se encontró la entrada a actualizar")
           setError("Error al actualizar la entrada")
           return null
         }
+        await enqueue({ kind: "update", entryId: id, data: entryData })
+        return { ...existing, ...entryData }
       } catch (err) {
         console.error("❌ Error updating entry:", err)
         setError("Error al actualizar la entrada")
         return null
       }
     },
-    [],
+    [enqueue],
   )
 
+  // Volver a intentar las mutaciones que fallaron
+  const retryFailed = useCallback(async () => {
+    const failed = (await offlineQueue.list()).filter((mutation) => mutation.status === "failed")
+    await Promise.all(failed.map((mutation) => offlineQueue.save({ ...mutation, status: "pending", error: undefined })))
+    setError(null)
+    await flushQueue()
+  }, [flushQueue])
+
+  // Descartar los cambios fallidos de una entrada (vuelve a lo que tiene el backend)
+  const discardFailed = useCallback(
+    async (id: string) => {
+      const failed = (await offlineQueue.list()).filter(
+        (mutation) => mutation.entryId === id && mutation.status === "failed",
+      )
+      await Promise.all(failed.map((mutation) => offlineQueue.remove(mutation.seq!)))
+      await refreshQueue()
+    },
+    [refreshQueue],
+  )
+
+  const getSyncState = useCallback((id?: string): SyncState => (id && syncStates[id]) || "synced", [syncStates])
+
   // Configurar suscripción en tiempo real
   useEffect(() => {
-    let subscription: RealtimeChannel | null = null
+    let subscription: EntriesSubscription | null = null
+    let resyncTimer: ReturnType<typeof setTimeout> | null = null
+    let wasDisconnected = false
+
+    // Resincronización completa, solo tras una reconexión del canal (pudimos perder eventos)
+    const scheduleResync = () => {
+      if (resyncTimer) clearTimeout(resyncTimer)
+      resyncTimer = setTimeout(async () => {
+        try {
+          console.log("🔄 Canal reconectado, resincronizando datos...")
+          const updatedEntries = await fetchWindow()
+          console.log("📊 Datos actualizados:", updatedEntries.length)
+          setServerEntries(updatedEntries)
+        } catch (err) {
+          console.error("❌ Error resincronizando:", err)
+        }
+      }, RESYNC_DEBOUNCE_MS)
+    }
 
     const setupRealtimeSubscription = () => {
       console.log("🔔 Configurando suscripción en tiempo real...")
-      subscription = entriesService.subscribeToChanges(async () => {
-        console.log("🔄 Cambio detectado, recargando datos...")
-        // Recargar datos cuando hay cambios de otros dispositivos
-        const updatedEntries = await entriesService.getAll()
-        console.log("📊 Datos actualizados:", updatedEntries.length)
-        setEntries(updatedEntries)
-      })
+      subscription = storage.subscribeToChanges(
+        (change) => {
+          // Eco de una escritura propia: ya está aplicada
+          const fingerprint = writeFingerprint(change)
+          if (ownWritesRef.current.delete(fingerprint)) return
+          console.log("🔄 Cambio detectado, fusionando:", change.eventType, change.id)
+          setServerEntries((prev) => mergeEntryChange(prev, change))
+        },
+        (status) => {
+          if (status === "SUBSCRIBED") {
+            if (wasDisconnected) scheduleResync()
+            wasDisconnected = false
+          } else {
+            wasDisconnected = true
+          }
+        },
+      )
     }
 
     // Cargar datos iniciales
     loadEntries().then(() => {
       // Configurar suscripción después de cargar datos iniciales
       setupRealtimeSubscription()
+      // Enviar lo que haya quedado pendiente de una sesión anterior
+      flushQueue()
+    })
+
+    // Reintentar la cola cuando ConnectionStatus detecta que volvió la red
+    const stopListening = onQueueReplayRequested(() => {
+      flushQueue()
     })
 
     // Cleanup
     return () => {
+      stopListening()
+      if (resyncTimer) clearTimeout(resyncTimer)
       if (subscription) {
         console.log("🔌 Desconectando suscripción...")
         subscription.unsubscribe()
       }
     }
-  }, [loadEntries])
+  }, [loadEntries, fetchWindow, flushQueue, storage])
 
   return {
     entries,
     loading,
+    fetching,
     error,
     addEntry,
     deleteEntry,
     updateEntry,
+    getSyncState,
+    pendingCount: queue.filter((mutation) => mutation.status === "pending").length,
+    failedCount: queue.filter((mutation) => mutation.status === "failed").length,
+    retryFailed,
+    discardFailed,
     refetch: loadEntries,
   }
 }
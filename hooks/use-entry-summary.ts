@@ -0,0 +1,65 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import {
+  entriesService,
+  queryKey,
+  type CurrencyConversion,
+  type EntriesStorage,
+  type EntryQuery,
+  type EntrySummaryRow,
+} from "@/lib/storage"
+
+// Espera antes de volver a pedir el resumen tras un cambio en las entradas
+const SUMMARY_DEBOUNCE_MS = 800
+
+interface UseEntrySummaryOptions {
+  storage?: EntriesStorage
+  query?: EntryQuery
+  // Moneda base y tipos de cambio para los backends que resumen en el navegador
+  conversion?: CurrencyConversion
+  // Cualquier valor que cambie cuando hay que recalcular (p. ej. la lista de entradas)
+  refreshKey?: unknown
+}
+
+// Totales por tipo y categoría calculados por el backend, sin descargar todo el historial
+export function useEntrySummary({
+  storage = entriesService,
+  query,
+  conversion,
+  refreshKey,
+}: UseEntrySummaryOptions = {}) {
+  const [rows, setRows] = useState<EntrySummaryRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const currentQueryKey = queryKey(query)
+  const queryRef = useRef(query)
+  queryRef.current = query
+  const hasLoadedRef = useRef(false)
+
+  useEffect(() => {
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const data = await storage.summarize(queryRef.current || {}, conversion)
+        if (!cancelled) {
+          setRows(data)
+          setError(null)
+          hasLoadedRef.current = true
+        }
+      } catch (err) {
+        console.error("❌ Error loading summary:", err)
+        if (!cancelled) setError("Error al cargar los totales")
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }, hasLoadedRef.current ? SUMMARY_DEBOUNCE_MS : 0)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [storage, currentQueryKey, conversion, refreshKey])
+
+  return { rows, loading, error }
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useWorkspace } from "@/components/workspace-provider"
+import { importRulesService, type ImportRule, type ImportRuleInput } from "@/lib/import/rules"
+
+// Reglas que sugieren tipo y categoría al importar estados de cuenta
+export function useImportRules() {
+  const { activeWorkspace } = useWorkspace()
+  const workspaceId = activeWorkspace?.id
+  const [rules, setRules] = useState<ImportRule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadRules = useCallback(async () => {
+    if (!workspaceId) return
+    try {
+      setError(null)
+      setRules(await importRulesService.list(workspaceId))
+    } catch (err) {
+      console.error("❌ Error loading import rules:", err)
+      setError("Error al cargar las reglas de importación")
+    } finally {
+      setLoading(false)
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    loadRules()
+  }, [loadRules])
+
+  const createRule = useCallback(
+    async (input: ImportRuleInput) => {
+      if (!workspaceId) return null
+      const created = await importRulesService.create(workspaceId, input)
+      setRules((prev) => [...prev, created])
+      return created
+    },
+    [workspaceId],
+  )
+
+  const removeRule = useCallback(
+    async (id: string) => {
+      if (!workspaceId) return
+      await importRulesService.remove(workspaceId, id)
+      setRules((prev) => prev.filter((rule) => rule.id !== id))
+    },
+    [workspaceId],
+  )
+
+  return {
+    rules,
+    loading,
+    error,
+    createRule,
+    removeRule,
+    refetch: loadRules,
+  }
+}
@@ -0,0 +1,53 @@
+"use client"
+
+import { useCallback } from "react"
+import { useWorkspace } from "@/components/workspace-provider"
+import {
+  canCreateEntries,
+  canExport,
+  canImport,
+  canManageAccounts,
+  canManageBudgets,
+  canManageCategories,
+  canManageExchangeRates,
+  canManageMembers,
+  canManageRecurring,
+  canManageWorkspace,
+  canModifyEntry,
+  canReopenCashClose,
+  type WorkspaceRole,
+} from "@/lib/permissions"
+import { currentWorkWeekStart } from "@/lib/business-calendar"
+import type { Entry } from "@/lib/storage"
+import { useBusinessCalendar } from "@/hooks/use-business-calendar"
+
+// Lo que el usuario puede hacer en el espacio de trabajo activo (la base de datos aplica las mismas reglas)
+export function usePermissions() {
+  const { activeWorkspace } = useWorkspace()
+  // Sin espacio (rutas públicas) no se permite escribir
+  const role: WorkspaceRole = activeWorkspace?.role ?? "viewer"
+  const calendar = useBusinessCalendar()
+
+  const canModify = useCallback(
+    (entry: Pick<Entry, "date">) => canModifyEntry(role, entry, calendar),
+    [role, calendar],
+  )
+
+  return {
+    role,
+    canCreate: canCreateEntries(role),
+    canModify,
+    // Fecha más antigua a la que puede llevar una entrada al editarla
+    minEditDate: role === "cashier" ? currentWorkWeekStart(calendar) : undefined,
+    canExport: canExport(role, activeWorkspace?.allow_viewer_export ?? false),
+    canManageCategories: canManageCategories(role),
+    canManageMembers: canManageMembers(role),
+    canManageExchangeRates: canManageExchangeRates(role),
+    canManageWorkspace: canManageWorkspace(role),
+    canManageRecurring: canManageRecurring(role),
+    canManageBudgets: canManageBudgets(role),
+    canManageAccounts: canManageAccounts(role),
+    canReopenCashClose: canReopenCashClose(role),
+    canImport: canImport(role),
+  }
+}
@@ -0,0 +1,173 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
+import { useWorkspace } from "@/components/workspace-provider"
+import {
+  dueOccurrences,
+  occurrenceEntry,
+  recurringService,
+  type RecurringOccurrence,
+  type RecurringRule,
+  type RecurringRuleInput,
+  type RecurringRuleUpdate,
+} from "@/lib/recurring"
+import type { Entry, EntryInput } from "@/lib/storage"
+import { getCurrentDateString } from "@/lib/date-utils"
+import { useBusinessCalendar } from "@/hooks/use-business-calendar"
+
+interface UseRecurringOptions {
+  // Cómo se crean las entradas generadas (normalmente addEntry de useEntries, que pasa por la cola offline)
+  addEntry?: (entry: EntryInput) => Promise<Entry | null>
+  // Generar solas las reglas automáticas al montar
+  autoGenerate?: boolean
+}
+
+// Reglas de entradas recurrentes del negocio activo y sus ocurrencias vencidas
+export function useRecurring({ addEntry, autoGenerate = false }: UseRecurringOptions = {}) {
+  const { activeWorkspace } = useWorkspace()
+  const workspaceId = activeWorkspace?.id
+  const calendar = useBusinessCalendar()
+  const [rules, setRules] = useState<RecurringRule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // Cuántas entradas se generaron solas en esta visita
+  const [autoGenerated, setAutoGenerated] = useState(0)
+  const autoRanRef = useRef(false)
+
+  const loadRules = useCallback(async () => {
+    if (!workspaceId) return
+    try {
+      setError(null)
+      setRules(await recurringService.list(workspaceId))
+    } catch (err) {
+      console.error("❌ Error loading recurring rules:", err)
+      setError("Error al cargar las entradas recurrentes")
+    } finally {
+      setLoading(false)
+    }
+  }, [workspaceId])
+
+  useEffect(() => {
+    loadRules()
+  }, [loadRules])
+
+  const replaceRule = (updated: RecurringRule) =>
+    setRules((prev) => prev.map((rule) => (rule.id === updated.id ? updated : rule)))
+
+  // Ocurrencias vencidas de las reglas que esperan confirmación
+  const pending = useMemo(() => {
+    const today = getCurrentDateString()
+    return rules.filter((rule) => !rule.auto_generate).flatMap((rule) => dueOccurrences(rule, today, calendar))
+  }, [rules, calendar])
+
+  /**
+   * Pasa a las entradas las ocurrencias de una regla. Primero la marca como generada hasta la última fecha,
+   * para que otro dispositivo que abra la app al mismo tiempo no las duplique.
+   */
+  const generateForRule = useCallback(
+    async (rule: RecurringRule, occurrences: RecurringOccurrence[], create = true) => {
+      if (!workspaceId || occurrences.length === 0) return 0
+      const through = occurrences[occurrences.length - 1].date
+      const claimed = await recurringService.claim(workspaceId, rule, through)
+      if (!claimed) {
+        // Otro dispositivo se adelantó: recargar para ver su avance
+        await loadRules()
+        return 0
+      }
+      replaceRule({ ...rule, last_generated: through })
+      if (!create || !addEntry) return 0
+      let created = 0
+      for (const occurrence of occurrences) {
+        if (await addEntry(occurrenceEntry(occurrence))) created++
+      }
+      return created
+    },
+    [workspaceId, addEntry, loadRules],
+  )
+
+  const groupByRule = (occurrences: RecurringOccurrence[]) => {
+    const groups = new Map<string, RecurringOccurrence[]>()
+    occurrences.forEach((occurrence) => {
+      groups.set(occurrence.rule.id, [...(groups.get(occurrence.rule.id) || []), occurrence])
+    })
+    return [...groups.values()]
+  }
+
+  // Confirmar ocurrencias de la lista de pendientes
+  const generate = useCallback(
+    async (occurrences: RecurringOccurrence[]) => {
+      let created = 0
+      for (const group of groupByRule(occurrences)) created += await generateForRule(group[0].rule, group)
+      return created
+    },
+    [generateForRule],
+  )
+
+  // Omitir las pendientes de una regla sin crear entradas (p. ej. una semana que no se abrió)
+  const skip = useCallback(
+    async (rule: RecurringRule) => {
+      await generateForRule(rule, dueOccurrences(rule, getCurrentDateString(), calendar), false)
+    },
+    [generateForRule, calendar],
+  )
+
+  // Reglas automáticas: se generan una vez al cargar
+  useEffect(() => {
+    if (!autoGenerate || loading || autoRanRef.current || !addEntry) return
+    autoRanRef.current = true
+    const today = getCurrentDateString()
+    const due = rules.filter((rule) => rule.auto_generate).flatMap((rule) => dueOccurrences(rule, today, calendar))
+    if (due.length === 0) return
+    console.log("🔁 Generando entradas recurrentes:", due.length)
+    generate(due)
+      .then(setAutoGenerated)
+      .catch((err) => {
+        console.error("❌ Error generando entradas recurrentes:", err)
+        setError("No se pudieron generar las entradas recurrentes")
+      })
+  }, [autoGenerate, loading, rules, addEntry, generate, calendar])
+
+  const createRule = useCallback(
+    async (input: RecurringRuleInput) => {
+      if (!workspaceId) return null
+      const created = await recurringService.create(workspaceId, input)
+      setRules((prev) => [...prev, created])
+      return created
+    },
+    [workspaceId],
+  )
+
+  const updateRule = useCallback(
+    async (id: string, changes: RecurringRuleUpdate) => {
+      if (!workspaceId) return null
+      const updated = await recurringService.update(workspaceId, id, changes)
+      replaceRule(updated)
+      return updated
+    },
+    [workspaceId],
+  )
+
+  // Las entradas ya generadas se conservan
+  const removeRule = useCallback(
+    async (id: string) => {
+      if (!workspaceId) return
+      await recurringService.remove(workspaceId, id)
+      setRules((prev) => prev.filter((rule) => rule.id !== id))
+    },
+    [workspaceId],
+  )
+
+  return {
+    rules,
+    pending,
+    loading,
+    error,
+    autoGenerated,
+    generate,
+    skip,
+    createRule,
+    updateRule,
+    removeRule,
+    refetch: loadRules,
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest"
+import { accountBalances, defaultAccountId, defaultBankAccountId, type Account } from "@/lib/accounts"
+import type { AccountFlowRow } from "@/lib/storage/types"
+
+const account = (id: string, kind: Account["kind"], sort_order: number, overrides: Partial<Account> = {}): Account => ({
+  id,
+  name: id,
+  kind,
+  icon: "",
+  opening_balance: 0,
+  sort_order,
+  archived: false,
+  ...overrides,
+})
+
+const accounts = [
+  account("banco", "bank", 1),
+  account("caja", "cash", 0, { opening_balance: 500 }),
+  account("tarjeta", "card", 2),
+]
+
+const flow = (overrides: Partial<AccountFlowRow>): AccountFlowRow => ({
+  account_id: null,
+  transfer_account_id: null,
+  type: "gasto",
+  date: "2024-05-02",
+  total: 0,
+  count: 1,
+  ...overrides,
+})
+
+describe("defaultAccountId", () => {
+  it("la primera caja activa recibe las entradas sin cuenta; lo del banco va al banco", () => {
+    expect(defaultAccountId(accounts)).toBe("caja")
+    expect(defaultAccountId([account("caja", "cash", 0, { archived: true }), account("otra", "cash", 1)])).toBe("otra")
+    expect(defaultBankAccountId(accounts)).toBe("banco")
+    expect(defaultBankAccountId([account("caja", "cash", 0)])).toBe("caja")
+  })
+})
+
+describe("accountBalances", () => {
+  const balances = accountBalances(accounts, [
+    flow({ type: "ingreso", date: "2024-05-03", total: 1200.1 }),
+    flow({ type: "ingreso", date: "2024-05-02", total: 300 }),
+    flow({ account_id: "caja", transfer_account_id: "banco", date: "2024-05-03", total: 1000 }),
+    flow({ account_id: "tarjeta", type: "inversion", date: "2024-05-04", total: 250.5 }),
+  ])
+  const byId = new Map(balances.map((balance) => [balance.account.id, balance]))
+
+  it("ordena las cuentas y parte del saldo inicial", () => {
+    expect(balances.map((balance) => balance.account.id)).toEqual(["caja", "banco", "tarjeta"])
+    expect(byId.get("caja")!.balance).toBe(50000 + 30000 + 120010 - 100000)
+  })
+
+  it("un traspaso sale de una cuenta y entra a la otra sin cambiar el total", () => {
+    expect(byId.get("banco")!.balance).toBe(100000)
+    expect(byId.get("tarjeta")!.balance).toBe(-25050)
+    const total = balances.reduce((sum, balance) => sum + balance.balance, 0)
+    expect(total).toBe(50000 + 30000 + 120010 - 25050)
+  })
+
+  it("el historial es el saldo al cierre de cada día, en orden", () => {
+    expect(byId.get("caja")!.history).toEqual([
+      { date: "2024-05-02", balance: 80000 },
+      { date: "2024-05-03", balance: 100010 },
+    ])
+  })
+})
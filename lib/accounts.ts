@@ -0,0 +1,212 @@
+import { supabase } from "@/lib/supabase"
+import { generateEntryId, getConfiguredBackend, type AccountFlowRow, type Entry } from "@/lib/storage"
+import { toCents, type Cents } from "@/lib/money"
+
+// Dónde está el dinero: la caja del negocio, una cuenta de banco o una tarjeta
+export type AccountKind = "cash" | "bank" | "card"
+
+export interface Account {
+  id: string
+  workspace_id?: string
+  name: string
+  kind: AccountKind
+  // Emoji que acompaña al nombre
+  icon: string
+  // Saldo con el que empezó a llevarse la cuenta, en la moneda base
+  opening_balance: number
+  sort_order: number
+  // Las archivadas no se ofrecen al capturar, pero sus entradas siguen contando en su saldo
+  archived: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+export type AccountInput = Pick<Account, "name" | "kind" | "icon" | "opening_balance">
+
+export type AccountUpdate = Partial<Pick<Account, "name" | "icon" | "opening_balance" | "sort_order" | "archived">>
+
+export const ACCOUNT_KIND_LABELS: Record<AccountKind, string> = {
+  cash: "Efectivo",
+  bank: "Banco",
+  card: "Tarjeta",
+}
+
+// Cuentas iniciales de cada negocio (las mismas que seed_default_accounts en scripts/create-accounts.sql)
+export const DEFAULT_ACCOUNTS: AccountInput[] = [
+  { name: "Caja", kind: "cash", icon: "💵", opening_balance: 0 },
+  { name: "Banco", kind: "bank", icon: "🏦", opening_balance: 0 },
+  { name: "Tarjeta", kind: "card", icon: "💳", opening_balance: 0 },
+]
+
+// Los traspasos se guardan como un gasto de esta categoría en la cuenta de origen; no cuentan en resultados
+export const TRANSFER_CATEGORY = "Traspaso"
+
+export function isTransfer(entry: Pick<Entry, "type" | "category">): boolean {
+  return entry.type === "gasto" && entry.category === TRANSFER_CATEGORY
+}
+
+export function sortAccounts(accounts: Account[]): Account[] {
+  return [...accounts].sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name))
+}
+
+// Cuenta de las entradas sin cuenta (todas las capturadas antes de que existieran): la primera caja
+export function defaultAccountId(accounts: Account[]): string | null {
+  const sorted = sortAccounts(accounts)
+  return (sorted.find((account) => account.kind === "cash" && !account.archived) || sorted[0])?.id || null
+}
+
+// Cuenta propuesta para lo que viene del banco (estados de cuenta, facturas): la primera de banco activa
+export function defaultBankAccountId(accounts: Account[]): string | null {
+  const bank = sortAccounts(accounts).find((account) => account.kind === "bank" && !account.archived)
+  return bank?.id || defaultAccountId(accounts)
+}
+
+export interface AccountBalancePoint {
+  date: string
+  balance: Cents
+}
+
+export interface AccountBalance {
+  account: Account
+  // Saldo al día de hoy (todas las entradas, incluidas las de fechas futuras)
+  balance: Cents
+  // Saldo al cierre de cada día con movimientos, del más antiguo al más reciente
+  history: AccountBalancePoint[]
+}
+
+/**
+ * Saldo corrido de cada cuenta: saldo inicial más ingresos, menos gastos e inversiones.
+ * Un traspaso sale de su cuenta y entra a la cuenta destino, así que no cambia el total del negocio.
+ */
+export function accountBalances(accounts: Account[], flows: AccountFlowRow[]): AccountBalance[] {
+  const fallback = defaultAccountId(accounts)
+  const changes = new Map<string, Map<string, Cents>>()
+  const addChange = (accountId: string | null, date: string, cents: Cents) => {
+    const id = accountId || fallback
+    if (!id) return
+    let byDate = changes.get(id)
+    if (!byDate) {
+      byDate = new Map()
+      changes.set(id, byDate)
+    }
+    byDate.set(date, (byDate.get(date) || 0) + cents)
+  }
+
+  flows.forEach((row) => {
+    const cents = toCents(row.total)
+    if (row.transfer_account_id) {
+      addChange(row.account_id, row.date, -cents)
+      addChange(row.transfer_account_id, row.date, cents)
+    } else {
+      addChange(row.account_id, row.date, row.type === "ingreso" ? cents : -cents)
+    }
+  })
+
+  return sortAccounts(accounts).map((account) => {
+    let balance = toCents(account.opening_balance)
+    const history = Array.from(changes.get(account.id) || [])
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, change]) => {
+        balance += change
+        return { date, balance }
+      })
+    return { account, balance, history }
+  })
+}
+
+const LOCAL_ACCOUNTS_KEY = "gestion-financiera-accounts"
+
+function localKey(workspaceId: string) {
+  return `${LOCAL_ACCOUNTS_KEY}:${workspaceId}`
+}
+
+// Los backends locales guardan las cuentas en el navegador; la primera vez se siembran las iniciales
+function loadLocalAccounts(workspaceId: string): Account[] {
+  const stored = typeof window !== "undefined" ? window.localStorage.getItem(localKey(workspaceId)) : null
+  if (stored) return JSON.parse(stored)
+  const now = new Date().toISOString()
+  const seeded = DEFAULT_ACCOUNTS.map((account, index) => ({
+    ...account,
+    id: generateEntryId(),
+    workspace_id: workspaceId,
+    sort_order: index,
+    archived: false,
+    created_at: now,
+    updated_at: now,
+  }))
+  saveLocalAccounts(workspaceId, seeded)
+  return seeded
+}
+
+function saveLocalAccounts(workspaceId: string, accounts: Account[]) {
+  if (typeof window !== "undefined") window.localStorage.setItem(localKey(workspaceId), JSON.stringify(accounts))
+}
+
+function isLocalBackend() {
+  return getConfiguredBackend() !== "supabase"
+}
+
+// Cuentas por negocio (ver scripts/create-accounts.sql)
+export const accountsService = {
+  async list(workspaceId: string): Promise<Account[]> {
+    if (isLocalBackend()) return sortAccounts(loadLocalAccounts(workspaceId))
+
+    const { data, error } = await supabase
+      .from("accounts")
+      .select("*")
+      .eq("workspace_id", workspaceId)
+      .order("sort_order")
+      .order("name")
+    if (error) {
+      console.error("❌ Error cargando cuentas:", error)
+      throw error
+    }
+    return (data || []).map((account: Account) => ({ ...account, opening_balance: Number(account.opening_balance) }))
+  },
+
+  async create(workspaceId: string, account: AccountInput, sortOrder: number): Promise<Account> {
+    console.log("🏦 Creando cuenta:", account.kind, account.name)
+    if (isLocalBackend()) {
+      const now = new Date().toISOString()
+      const created: Account = {
+        ...account,
+        id: generateEntryId(),
+        workspace_id: workspaceId,
+        sort_order: sortOrder,
+        archived: false,
+        created_at: now,
+        updated_at: now,
+      }
+      saveLocalAccounts(workspaceId, [...loadLocalAccounts(workspaceId), created])
+      return created
+    }
+
+    const { data, error } = await supabase
+      .from("accounts")
+      .insert([{ ...account, workspace_id: workspaceId, sort_order: sortOrder }])
+      .select()
+      .single()
+    if (error) {
+      console.error("❌ Error creando cuenta:", error)
+      throw error
+    }
+    return { ...data, opening_balance: Number(data.opening_balance) }
+  },
+
+  async update(workspaceId: string, id: string, changes: AccountUpdate): Promise<Account> {
+    if (isLocalBackend()) {
+      const accounts = loadLocalAccounts(workspaceId).map((account) =>
+        account.id === id ? { ...account, ...changes, updated_at: new Date().toISOString() } : account,
+      )
+      saveLocalAccounts(workspaceId, accounts)
+      return accounts.find((account) => account.id === id)!
+    }
+
+    const { data, error } = await supabase.from("accounts").update(changes).eq("id", id).select().single()
+    if (error) {
+      console.error("❌ Error actualizando cuenta:", error)
+      throw error
+    }
+    return { ...data, opening_balance: Number(data.opening_balance) }
+  },
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest"
+import { aggregateEntries, aggregateSummaryRows, type CashMovementFilter } from "@/lib/aggregation"
+import { DEFAULT_BUSINESS_CALENDAR, normalizeBusinessCalendar } from "@/lib/business-calendar"
+import { toCents } from "@/lib/money"
+import { summarizeEntries } from "@/lib/storage/query"
+import type { Entry } from "@/lib/storage/types"
+
+const centsOf = (entry: Entry) => toCents(entry.amount)
+
+// Como useCategories().isCashMovement con una categoría marcada como movimiento de caja
+const isCashMovement: CashMovementFilter = (entry) => entry.category === "Retiro"
+
+// 2024-05-02 es jueves: con el calendario por defecto abre una semana de trabajo
+const entries: Entry[] = [
+  { type: "ingreso", category: "Ventas", amount: 100.1, date: "2024-05-01" },
+  { type: "ingreso", category: "Ventas", amount: 250.25, date: "2024-05-02" },
+  { type: "gasto", category: "Insumos", amount: 40.05, date: "2024-05-02" },
+  { type: "inversion", category: "Equipo", amount: 500, date: "2024-05-05" },
+  { type: "gasto", category: "Retiro", amount: 80, date: "2024-05-06" },
+  { type: "ingreso", category: "Retiro", amount: 30, date: "2024-05-06" },
+  { type: "gasto", category: "Insumos", amount: 10.1, date: "2024-06-01" },
+]
+
+describe("aggregateEntries", () => {
+  const aggregation = aggregateEntries(entries, { centsOf, calendar: DEFAULT_BUSINESS_CALENDAR, isCashMovement })
+
+  it("suma los totales en centavos sin errores de redondeo", () => {
+    expect(aggregation.totals.ingresos).toBe(35035)
+    expect(aggregation.totals.gastos).toBe(5015)
+    expect(aggregation.totals.inversiones).toBe(50000)
+    expect(aggregation.totals.count).toBe(entries.length)
+  })
+
+  it("agrupa por día", () => {
+    expect([...aggregation.byDay.keys()].sort()).toEqual([
+      "2024-05-01",
+      "2024-05-02",
+      "2024-05-05",
+      "2024-05-06",
+      "2024-06-01",
+    ])
+    const day = aggregation.byDay.get("2024-05-02")!
+    expect(day.ingresos).toBe(25025)
+    expect(day.gastos).toBe(4005)
+    expect(day.count).toBe(2)
+  })
+
+  it("agrupa por semana de trabajo, con la llave en el día en que empieza", () => {
+    expect([...aggregation.byWeek.keys()].sort()).toEqual(["2024-04-25", "2024-05-02", "2024-05-30"])
+    expect(aggregation.byWeek.get("2024-04-25")!.ingresos).toBe(10010)
+    const week = aggregation.byWeek.get("2024-05-02")!
+    expect(week.ingresos).toBe(25025)
+    expect(week.inversiones).toBe(50000)
+    expect(week.count).toBe(5)
+  })
+
+  it("respeta el día en que empieza la semana del calendario", () => {
+    const calendar = normalizeBusinessCalendar({ week_starts_on: 1 })
+    const byMonday = aggregateEntries(entries, { centsOf, calendar, isCashMovement })
+    expect([...byMonday.byWeek.keys()].sort()).toEqual(["2024-04-29", "2024-05-06", "2024-05-27"])
+    expect(byMonday.byWeek.get("2024-04-29")!.ingresos).toBe(35035)
+  })
+
+  it("agrupa por mes", () => {
+    expect([...aggregation.byMonth.keys()].sort()).toEqual(["2024-05", "2024-06"])
+    expect(aggregation.byMonth.get("2024-05")!.gastos).toBe(4005)
+    expect(aggregation.byMonth.get("2024-06")!.gastos).toBe(1010)
+  })
+
+  it("deja los movimientos de caja fuera de resultados", () => {
+    expect(aggregation.totals.movimientosEntrada).toBe(3000)
+    expect(aggregation.totals.movimientosSalida).toBe(8000)
+    const day = aggregation.byDay.get("2024-05-06")!
+    expect(day.ingresos).toBe(0)
+    expect(day.gastos).toBe(0)
+    expect(day.count).toBe(2)
+    expect(aggregation.movements.map((movement) => movement.category)).toEqual(["Retiro", "Retiro"])
+    expect(aggregation.categories.gasto.map((category) => category.category)).toEqual(["Insumos"])
+  })
+
+  it("sin filtro de movimientos todo cuenta en resultados", () => {
+    const plain = aggregateEntries(entries, { centsOf, calendar: DEFAULT_BUSINESS_CALENDAR })
+    expect(plain.totals.ingresos).toBe(38035)
+    expect(plain.totals.gastos).toBe(13015)
+    expect(plain.movements).toEqual([])
+  })
+})
+
+describe("aggregateSummaryRows", () => {
+  it("da los mismos totales y categorías que agregar las entradas", () => {
+    const client = aggregateEntries(entries, { centsOf, calendar: DEFAULT_BUSINESS_CALENDAR, isCashMovement })
+    const summary = aggregateSummaryRows(summarizeEntries(entries), isCashMovement)
+    const withoutEntries = ({ entries: _entries, ...rest }: { entries: unknown }) => rest
+
+    expect(withoutEntries(summary.totals)).toEqual(withoutEntries(client.totals))
+    expect(summary.categories.ingreso.map(withoutEntries)).toEqual(client.categories.ingreso.map(withoutEntries))
+    expect(summary.categories.gasto.map(withoutEntries)).toEqual(client.categories.gasto.map(withoutEntries))
+    expect(summary.categories.inversion.map(withoutEntries)).toEqual(client.categories.inversion.map(withoutEntries))
+    expect(summary.movements.map(withoutEntries)).toEqual(client.movements.map(withoutEntries))
+  })
+})
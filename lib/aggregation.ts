@@ -0,0 +1,223 @@
+/**
+ * Agregados de entradas en una sola pasada: totales por tipo, categoría, día, semana de trabajo y mes.
+ * El dashboard, los reportes, el análisis y el calendario leen de aquí para que sus números coincidan.
+ */
+
+import { workWeekRange, type BusinessCalendar } from "@/lib/business-calendar"
+import { createLocalDate, formatDateForStorage } from "@/lib/date-utils"
+import { toCents, type Cents } from "@/lib/money"
+import type { Entry, EntrySummaryRow } from "@/lib/storage"
+
+type EntryType = Entry["type"]
+
+export const ENTRY_TYPES: EntryType[] = ["ingreso", "gasto", "inversion"]
+
+// Totales en centavos de la moneda base, con los nombres que usan las páginas
+export interface TypeTotals {
+  ingresos: Cents
+  gastos: Cents
+  inversiones: Cents
+}
+
+// Campo de TypeTotals que le toca a cada tipo de entrada
+export const TOTAL_KEY: Record<EntryType, keyof TypeTotals> = {
+  ingreso: "ingresos",
+  gasto: "gastos",
+  inversion: "inversiones",
+}
+
+// Totales de un grupo (día, semana, mes...) con sus entradas en el orden en que llegaron
+export interface AggregateBucket<T extends Entry = Entry> extends TypeTotals {
+  // Movimientos de caja (ver Category.cash_movement): el efectivo que entra y sale sin ser ingreso ni gasto
+  movimientosEntrada: Cents
+  movimientosSalida: Cents
+  count: number
+  entries: T[]
+}
+
+export interface CategoryAggregate<T extends Entry = Entry> {
+  type: EntryType
+  category: string
+  total: Cents
+  count: number
+  // Vacío cuando el agregado viene del resumen del backend
+  entries: T[]
+}
+
+export interface EntryAggregation<T extends Entry = Entry> {
+  totals: AggregateBucket<T>
+  // Por tipo, de mayor a menor total; sin los movimientos de caja
+  categories: Record<EntryType, CategoryAggregate<T>[]>
+  // Categorías de movimientos de caja, de mayor a menor total
+  movements: CategoryAggregate<T>[]
+  // Llave YYYY-MM-DD
+  byDay: Map<string, AggregateBucket<T>>
+  // Llave: inicio de la semana de trabajo, YYYY-MM-DD
+  byWeek: Map<string, AggregateBucket<T>>
+  // Llave YYYY-MM
+  byMonth: Map<string, AggregateBucket<T>>
+}
+
+export interface AggregateOptions<T extends Entry> {
+  // Centavos de la moneda base de cada entrada (ver useCurrency().toBaseCents)
+  centsOf: (entry: T) => Cents
+  calendar: BusinessCalendar
+  // Entradas que no cuentan como ingreso, gasto ni inversión (ver useCategories().isCashMovement)
+  isCashMovement?: CashMovementFilter
+}
+
+export type CashMovementFilter = (entry: Pick<Entry, "type" | "category">) => boolean
+
+export function emptyBucket<T extends Entry = Entry>(): AggregateBucket<T> {
+  return { ingresos: 0, gastos: 0, inversiones: 0, movimientosEntrada: 0, movimientosSalida: 0, count: 0, entries: [] }
+}
+
+export function dayKey(date: Date | string): string {
+  return formatDateForStorage(date)
+}
+
+export function weekKey(date: Date | string, calendar: BusinessCalendar): string {
+  const day = typeof date === "string" ? createLocalDate(dayKey(date)) : date
+  return formatDateForStorage(workWeekRange(day, calendar).start)
+}
+
+export function monthKey(date: Date | string): string {
+  return dayKey(date).slice(0, 7)
+}
+
+// El grupo de esa llave, o uno vacío si no hubo entradas
+export function bucketOf<T extends Entry>(map: Map<string, AggregateBucket<T>>, key: string): AggregateBucket<T> {
+  return map.get(key) || emptyBucket<T>()
+}
+
+// Suma de varios grupos (p. ej. los días de un rango)
+export function combineBuckets<T extends Entry>(buckets: AggregateBucket<T>[]): AggregateBucket<T> {
+  return buckets.reduce((combined, bucket) => {
+    combined.ingresos += bucket.ingresos
+    combined.gastos += bucket.gastos
+    combined.inversiones += bucket.inversiones
+    combined.movimientosEntrada += bucket.movimientosEntrada
+    combined.movimientosSalida += bucket.movimientosSalida
+    combined.count += bucket.count
+    combined.entries.push(...bucket.entries)
+    return combined
+  }, emptyBucket<T>())
+}
+
+// Efectivo neto que movió el grupo fuera de resultados: entradas menos salidas
+export function netMovements(bucket: Pick<AggregateBucket, "movimientosEntrada" | "movimientosSalida">): Cents {
+  return bucket.movimientosEntrada - bucket.movimientosSalida
+}
+
+// Suma en el total que le toca; en un movimiento de caja el ingreso entra a la caja y el gasto o la inversión sale
+function addCents(
+  bucket: Omit<AggregateBucket<Entry>, "entries">,
+  entry: Pick<Entry, "type">,
+  cents: Cents,
+  movement: boolean,
+) {
+  if (!movement) bucket[TOTAL_KEY[entry.type]] += cents
+  else if (entry.type === "ingreso") bucket.movimientosEntrada += cents
+  else bucket.movimientosSalida += cents
+}
+
+function addTo<T extends Entry>(bucket: AggregateBucket<T>, entry: T, cents: Cents, movement: boolean) {
+  addCents(bucket, entry, cents, movement)
+  bucket.count += 1
+  bucket.entries.push(entry)
+}
+
+function bucketFor<T extends Entry>(map: Map<string, AggregateBucket<T>>, key: string): AggregateBucket<T> {
+  let bucket = map.get(key)
+  if (!bucket) {
+    bucket = emptyBucket<T>()
+    map.set(key, bucket)
+  }
+  return bucket
+}
+
+function sortedCategories<T extends Entry>(
+  map: Map<string, CategoryAggregate<T>>,
+  isCashMovement: CashMovementFilter,
+): Pick<EntryAggregation<T>, "categories" | "movements"> {
+  const categories: Record<EntryType, CategoryAggregate<T>[]> = { ingreso: [], gasto: [], inversion: [] }
+  const movements: CategoryAggregate<T>[] = []
+  map.forEach((aggregate) => {
+    if (isCashMovement(aggregate)) movements.push(aggregate)
+    else categories[aggregate.type]?.push(aggregate)
+  })
+  ENTRY_TYPES.forEach((type) => categories[type].sort((a, b) => b.total - a.total))
+  movements.sort((a, b) => b.total - a.total)
+  return { categories, movements }
+}
+
+const noMovements: CashMovementFilter = () => false
+
+// Recorre las entradas una sola vez y llena todos los agregados
+export function aggregateEntries<T extends Entry>(entries: T[], options: AggregateOptions<T>): EntryAggregation<T> {
+  const totals = emptyBucket<T>()
+  const categories = new Map<string, CategoryAggregate<T>>()
+  const byDay = new Map<string, AggregateBucket<T>>()
+  const byWeek = new Map<string, AggregateBucket<T>>()
+  const byMonth = new Map<string, AggregateBucket<T>>()
+  // La semana de cada día se calcula una vez aunque el día tenga muchas entradas
+  const weekOfDay = new Map<string, string>()
+  const isCashMovement = options.isCashMovement || noMovements
+
+  entries.forEach((entry) => {
+    if (!TOTAL_KEY[entry.type]) return
+    const cents = options.centsOf(entry)
+    const movement = isCashMovement(entry)
+    const day = dayKey(entry.date)
+    let week = weekOfDay.get(day)
+    if (!week) {
+      week = weekKey(day, options.calendar)
+      weekOfDay.set(day, week)
+    }
+
+    addTo(totals, entry, cents, movement)
+    addTo(bucketFor(byDay, day), entry, cents, movement)
+    addTo(bucketFor(byWeek, week), entry, cents, movement)
+    addTo(bucketFor(byMonth, day.slice(0, 7)), entry, cents, movement)
+
+    const categoryKey = `${entry.type}|${entry.category}`
+    let category = categories.get(categoryKey)
+    if (!category) {
+      category = { type: entry.type, category: entry.category, total: 0, count: 0, entries: [] }
+      categories.set(categoryKey, category)
+    }
+    category.total += cents
+    category.count += 1
+    category.entries.push(entry)
+  })
+
+  return { totals, ...sortedCategories(categories, isCashMovement), byDay, byWeek, byMonth }
+}
+
+// Totales y categorías a partir del resumen del backend (historial completo, sin las entradas)
+export function aggregateSummaryRows(
+  rows: EntrySummaryRow[],
+  isCashMovement: CashMovementFilter = noMovements,
+): Pick<EntryAggregation, "totals" | "categories" | "movements"> {
+  const totals = emptyBucket()
+  const categories = new Map<string, CategoryAggregate>()
+
+  rows.forEach((row) => {
+    const key = TOTAL_KEY[row.type]
+    if (!key) return
+    const cents = toCents(row.total)
+    addCents(totals, row, cents, isCashMovement(row))
+    totals.count += row.count
+
+    const categoryKey = `${row.type}|${row.category}`
+    const category = categories.get(categoryKey)
+    if (category) {
+      category.total += cents
+      category.count += row.count
+    } else {
+      categories.set(categoryKey, { type: row.type, category: row.category, total: cents, count: row.count, entries: [] })
+    }
+  })
+
+  return { totals, ...sortedCategories(categories, isCashMovement) }
+}
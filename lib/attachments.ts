@@ -0,0 +1,127 @@
+import { generateEntryId, getBlobStore, type Entry, type EntryAttachment } from "@/lib/storage"
+
+// Lo que ofrece el selector de archivos: fotos de tickets y PDFs
+export const ATTACHMENT_ACCEPT = "image/*,application/pdf"
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+
+// Las fotos del celular se reducen antes de subirlas; la miniatura va dentro de la entrada
+const PHOTO_MAX_SIDE = 1600
+const PHOTO_QUALITY = 0.8
+const THUMBNAIL_SIDE = 160
+const THUMBNAIL_QUALITY = 0.7
+
+function drawScaled(image: ImageBitmap, maxSide: number): HTMLCanvasElement {
+  const scale = Math.min(1, maxSide / Math.max(image.width, image.height))
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.round(image.width * scale)
+  canvas.height = Math.round(image.height * scale)
+  canvas.getContext("2d")!.drawImage(image, 0, 0, canvas.width, canvas.height)
+  return canvas
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("No se pudo procesar la imagen"))), "image/jpeg", quality),
+  )
+}
+
+function safeName(name: string) {
+  return name.replace(/[^\w.-]+/g, "_").slice(-80) || "archivo"
+}
+
+/**
+ * Guarda un archivo como comprobante de una entrada y devuelve su descripción para `entry.attachments`.
+ * Las imágenes se reducen a JPEG y llevan miniatura; los PDFs se guardan tal cual.
+ */
+export async function uploadAttachment(workspaceId: string, entryId: string, file: File): Promise<EntryAttachment> {
+  const id = generateEntryId()
+  let blob: Blob = file
+  let name = file.name || "comprobante"
+  let thumbnail: string | undefined
+
+  if (file.type.startsWith("image/")) {
+    try {
+      const image = await createImageBitmap(file)
+      if (Math.max(image.width, image.height) > PHOTO_MAX_SIDE || file.size > MAX_ATTACHMENT_BYTES) {
+        blob = await canvasToBlob(drawScaled(image, PHOTO_MAX_SIDE), PHOTO_QUALITY)
+        name = name.replace(/\.\w+$/, "") + ".jpg"
+      }
+      thumbnail = drawScaled(image, THUMBNAIL_SIDE).toDataURL("image/jpeg", THUMBNAIL_QUALITY)
+      image.close()
+    } catch (err) {
+      // Formatos que el navegador no sabe dibujar (p. ej. HEIC) se suben sin miniatura
+      console.warn("⚠️ Imagen sin miniatura:", file.name, err)
+    }
+  }
+  if (blob.size > MAX_ATTACHMENT_BYTES) throw new Error(`${file.name} pesa más de 10 MB`)
+
+  const path = `${workspaceId}/${entryId}/${id}-${safeName(name)}`
+  await getBlobStore().put(path, blob)
+  console.log("📎 Adjunto guardado:", path)
+  return {
+    id,
+    name,
+    type: blob.type || file.type,
+    size: blob.size,
+    path,
+    ...(thumbnail ? { thumbnail } : {}),
+    created_at: new Date().toISOString(),
+  }
+}
+
+export function attachmentUrl(attachment: EntryAttachment): Promise<string | null> {
+  return getBlobStore().url(attachment.path)
+}
+
+// Borra los archivos; la entrada se actualiza aparte
+export async function removeAttachments(attachments: EntryAttachment[] | undefined): Promise<void> {
+  if (!attachments?.length) return
+  await getBlobStore().remove(attachments.map((attachment) => attachment.path))
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+// Respaldo: copia el contenido de cada adjunto dentro de la entrada; los que ya no existen se omiten
+export async function embedAttachments(entries: Entry[]): Promise<Entry[]> {
+  const store = getBlobStore()
+  return Promise.all(
+    entries.map(async (entry) => {
+      if (!entry.attachments?.length) return entry
+      const attachments = await Promise.all(
+        entry.attachments.map(async (attachment) => {
+          const blob = await store.get(attachment.path)
+          return blob ? { ...attachment, data: await blobToDataUrl(blob) } : attachment
+        }),
+      )
+      return { ...entry, attachments }
+    }),
+  )
+}
+
+// Restaurar: vuelve a guardar los archivos que trae el respaldo, en la misma ruta (solo dueño y encargado restauran)
+export async function restoreEmbeddedAttachments(entries: Entry[]): Promise<void> {
+  const store = getBlobStore()
+  for (const entry of entries) {
+    for (const attachment of entry.attachments || []) {
+      if (!attachment.data) continue
+      const blob = await (await fetch(attachment.data)).blob()
+      await store.put(attachment.path, blob, { overwrite: true })
+    }
+  }
+}
+
+// Sin el contenido embebido, que no se guarda en la entrada
+export function withoutAttachmentData(attachments: EntryAttachment[]): EntryAttachment[] {
+  return attachments.map((attachment) => {
+    const stored = { ...attachment }
+    delete stored.data
+    return stored
+  })
+}
@@ -0,0 +1,57 @@
+import type { Session, User } from "@supabase/supabase-js"
+import { supabase } from "@/lib/supabase"
+import { getConfiguredBackend } from "@/lib/storage"
+
+export type { Session, User }
+
+// Solo el backend de Supabase necesita iniciar sesión; los backends locales no salen del navegador
+export function isAuthRequired(): boolean {
+  return getConfiguredBackend() === "supabase"
+}
+
+// Traducir los mensajes de Supabase Auth más comunes
+function describeAuthError(error: { message: string }): string {
+  const message = error.message.toLowerCase()
+  if (message.includes("invalid login credentials")) return "Correo o contraseña incorrectos"
+  if (message.includes("email not confirmed")) return "Confirma tu correo antes de iniciar sesión"
+  if (message.includes("already registered")) return "Ya existe una cuenta con ese correo"
+  if (message.includes("password should be")) return "La contraseña debe tener al menos 6 caracteres"
+  return error.message
+}
+
+export const authService = {
+  async getSession(): Promise<Session | null> {
+    const { data, error } = await supabase.auth.getSession()
+    if (error) {
+      console.error("❌ Error obteniendo la sesión:", error)
+      return null
+    }
+    return data.session
+  },
+
+  async signIn(email: string, password: string): Promise<Session> {
+    console.log("🔐 Iniciando sesión:", email)
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password })
+    if (error) throw new Error(describeAuthError(error))
+    return data.session
+  },
+
+  // Devuelve null cuando el proyecto exige confirmar el correo antes de entrar
+  async signUp(email: string, password: string): Promise<Session | null> {
+    console.log("📝 Creando cuenta:", email)
+    const { data, error } = await supabase.auth.signUp({ email, password })
+    if (error) throw new Error(describeAuthError(error))
+    return data.session
+  },
+
+  async signOut(): Promise<void> {
+    console.log("👋 Cerrando sesión")
+    const { error } = await supabase.auth.signOut()
+    if (error) throw error
+  },
+
+  onAuthStateChange(callback: (session: Session | null) => void) {
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => callback(session))
+    return data.subscription
+  },
+}
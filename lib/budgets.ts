@@ -0,0 +1,156 @@
+import { endOfMonth, format, startOfMonth } from "date-fns"
+import { es } from "date-fns/locale"
+import { supabase } from "@/lib/supabase"
+import { generateEntryId, getConfiguredBackend, type Entry } from "@/lib/storage"
+import { createLocalDate, formatDateForStorage } from "@/lib/date-utils"
+import { percentOf, toCents, type Cents } from "@/lib/money"
+import { describeWorkWeek, workWeekRange, type BusinessCalendar } from "@/lib/business-calendar"
+import type { CashMovementFilter } from "@/lib/aggregation"
+
+// Semana de trabajo (según el calendario del negocio) o mes calendario
+export type BudgetPeriod = "work_week" | "month"
+
+// Tope de gasto de una categoría por periodo, en la moneda base del negocio
+export interface Budget {
+  id: string
+  workspace_id?: string
+  category: string
+  period: BudgetPeriod
+  amount: number
+  created_at?: string
+  updated_at?: string
+}
+
+export type BudgetInput = Pick<Budget, "category" | "period" | "amount">
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  work_week: "Semana de trabajo",
+  month: "Mes",
+}
+
+export interface BudgetProgress {
+  budget: Budget
+  spent: Cents
+  limit: Cents
+  // Porcentaje usado; puede pasar de 100
+  percentage: number
+  over: boolean
+}
+
+// Fechas (YYYY-MM-DD, inclusive) del periodo que contiene `date`
+export function budgetPeriodRange(period: BudgetPeriod, calendar: BusinessCalendar, date: Date = new Date()) {
+  const { start, end } =
+    period === "work_week" ? workWeekRange(date, calendar) : { start: startOfMonth(date), end: endOfMonth(date) }
+  return { from: formatDateForStorage(start), to: formatDateForStorage(end) }
+}
+
+/**
+ * Gastado contra presupuesto en el periodo que contiene `date`, de mayor a menor uso.
+ * `centsOf` convierte cada entrada a la moneda base (useCurrency().toBaseCents); los movimientos de caja y los
+ * traspasos (useCategories().isCashMovement) no son gasto, igual que en los demás totales.
+ */
+export function budgetProgress(
+  budgets: Budget[],
+  entries: Entry[],
+  period: BudgetPeriod,
+  centsOf: (entry: Entry) => Cents,
+  calendar: BusinessCalendar,
+  isCashMovement: CashMovementFilter,
+  date: Date = new Date(),
+): BudgetProgress[] {
+  const { from, to } = budgetPeriodRange(period, calendar, date)
+  const spentByCategory = new Map<string, Cents>()
+  entries.forEach((entry) => {
+    if (entry.type !== "gasto" || entry.date < from || entry.date > to || isCashMovement(entry)) return
+    spentByCategory.set(entry.category, (spentByCategory.get(entry.category) || 0) + centsOf(entry))
+  })
+
+  return budgets
+    .filter((budget) => budget.period === period)
+    .map((budget) => {
+      const spent = spentByCategory.get(budget.category) || 0
+      const limit = toCents(budget.amount)
+      return { budget, spent, limit, percentage: percentOf(spent, limit), over: spent > limit }
+    })
+    .sort((a, b) => b.percentage - a.percentage)
+}
+
+// Etiqueta del periodo que contiene `date`, p. ej. "jue 3 – dom 6 oct" o "octubre 2024"
+export function describeBudgetPeriod(period: BudgetPeriod, calendar: BusinessCalendar, date: Date = new Date()) {
+  const start = createLocalDate(budgetPeriodRange(period, calendar, date).from)
+  if (period === "month") return format(start, "MMMM yyyy", { locale: es })
+  return describeWorkWeek(start, calendar)
+}
+
+const LOCAL_BUDGETS_KEY = "gestion-financiera-budgets"
+
+function loadLocalBudgets(workspaceId: string): Budget[] {
+  const stored = typeof window !== "undefined" ? window.localStorage.getItem(`${LOCAL_BUDGETS_KEY}:${workspaceId}`) : null
+  return stored ? JSON.parse(stored) : []
+}
+
+function saveLocalBudgets(workspaceId: string, budgets: Budget[]) {
+  if (typeof window !== "undefined") {
+    window.localStorage.setItem(`${LOCAL_BUDGETS_KEY}:${workspaceId}`, JSON.stringify(budgets))
+  }
+}
+
+function isLocalBackend() {
+  return getConfiguredBackend() !== "supabase"
+}
+
+// Presupuestos por negocio (ver scripts/create-budgets.sql)
+export const budgetsService = {
+  async list(workspaceId: string): Promise<Budget[]> {
+    if (isLocalBackend()) return loadLocalBudgets(workspaceId)
+
+    const { data, error } = await supabase.from("budgets").select("*").eq("workspace_id", workspaceId).order("category")
+    if (error) {
+      console.error("❌ Error cargando presupuestos:", error)
+      throw error
+    }
+    return (data || []).map((budget) => ({ ...budget, amount: Number(budget.amount) }))
+  },
+
+  // Un solo presupuesto por categoría y periodo: si ya existe se reemplaza
+  async save(workspaceId: string, input: BudgetInput): Promise<Budget> {
+    console.log("🎯 Guardando presupuesto:", input.category, input.period, input.amount)
+    if (isLocalBackend()) {
+      const budgets = loadLocalBudgets(workspaceId)
+      const existing = budgets.find((budget) => budget.category === input.category && budget.period === input.period)
+      const now = new Date().toISOString()
+      const saved: Budget = existing
+        ? { ...existing, amount: input.amount, updated_at: now }
+        : { ...input, id: generateEntryId(), workspace_id: workspaceId, created_at: now, updated_at: now }
+      saveLocalBudgets(workspaceId, [...budgets.filter((budget) => budget.id !== saved.id), saved])
+      return saved
+    }
+
+    const { data, error } = await supabase
+      .from("budgets")
+      .upsert([{ ...input, workspace_id: workspaceId }], { onConflict: "workspace_id,category,period" })
+      .select()
+      .single()
+    if (error) {
+      console.error("❌ Error guardando presupuesto:", error)
+      throw error
+    }
+    return { ...data, amount: Number(data.amount) }
+  },
+
+  async remove(workspaceId: string, id: string): Promise<void> {
+    if (isLocalBackend()) {
+      saveLocalBudgets(
+        workspaceId,
+        loadLocalBudgets(workspaceId).filter((budget) => budget.id !== id),
+      )
+      return
+    }
+
+    const { error } = await supabase.from("budgets").delete().eq("id", id)
+    if (error) {
+      console.error("❌ Error eliminando presupuesto:", error)
+      throw error
+    }
+  },
+}
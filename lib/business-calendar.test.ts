@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_BUSINESS_CALENDAR,
+  currentWorkWeekStart,
+  describeFiscalYear,
+  describeOperatingDays,
+  fiscalYearRange,
+  isOperatingDay,
+  normalizeBusinessCalendar,
+  operatingDaysIn,
+  operatingSpan,
+  workWeekRange,
+  workWeekStarts,
+  workWeeksBetween,
+} from "@/lib/business-calendar"
+import { createLocalDate, formatDateForStorage } from "@/lib/date-utils"
+
+const day = (date: string) => createLocalDate(date)
+const keys = (dates: Date[]) => dates.map((date) => formatDateForStorage(date))
+
+describe("normalizeBusinessCalendar", () => {
+  it("sin datos usa jueves a domingo y el año calendario", () => {
+    expect(normalizeBusinessCalendar(null)).toEqual(DEFAULT_BUSINESS_CALENDAR)
+  })
+
+  it("descarta valores fuera de rango y ordena los días cerrados", () => {
+    const calendar = normalizeBusinessCalendar({
+      week_starts_on: 9 as never,
+      operating_days: [1, 1, 3, 8 as never],
+      closed_dates: [{ date: "2024-12-25" }, { date: "mal" }, { date: "2024-01-01" }],
+      fiscal_year_start_month: 13,
+    })
+    expect(calendar.week_starts_on).toBe(4)
+    expect(calendar.operating_days).toEqual([1, 3])
+    expect(calendar.closed_dates.map((closed) => closed.date)).toEqual(["2024-01-01", "2024-12-25"])
+    expect(calendar.fiscal_year_start_month).toBe(1)
+  })
+})
+
+describe("semanas de trabajo", () => {
+  it("la semana empieza el día del calendario y dura siete días", () => {
+    // 2024-05-01 es miércoles: pertenece a la semana que empezó el jueves anterior
+    const { start, end } = workWeekRange(day("2024-05-01"), DEFAULT_BUSINESS_CALENDAR)
+    expect(formatDateForStorage(start)).toBe("2024-04-25")
+    expect(formatDateForStorage(end)).toBe("2024-05-01")
+    expect(currentWorkWeekStart(DEFAULT_BUSINESS_CALENDAR, day("2024-05-02"))).toBe("2024-05-02")
+  })
+
+  it("cambia con week_starts_on", () => {
+    const calendar = normalizeBusinessCalendar({ week_starts_on: 1 })
+    expect(formatDateForStorage(workWeekRange(day("2024-05-01"), calendar).start)).toBe("2024-04-29")
+  })
+
+  it("lista y cuenta las semanas de un rango", () => {
+    const starts = workWeekStarts(day("2024-05-01"), day("2024-05-20"), DEFAULT_BUSINESS_CALENDAR)
+    expect(keys(starts)).toEqual(["2024-04-25", "2024-05-02", "2024-05-09", "2024-05-16"])
+    expect(workWeeksBetween(day("2024-05-02"), day("2024-05-20"), DEFAULT_BUSINESS_CALENDAR)).toBe(2)
+    expect(workWeekStarts(day("2024-05-20"), day("2024-05-01"), DEFAULT_BUSINESS_CALENDAR)).toEqual([])
+  })
+})
+
+describe("días de operación", () => {
+  const calendar = normalizeBusinessCalendar({ closed_dates: [{ date: "2024-05-04", reason: "Festivo" }] })
+
+  it("abre en sus días salvo los cerrados", () => {
+    expect(isOperatingDay(day("2024-05-03"), calendar)).toBe(true)
+    expect(isOperatingDay(day("2024-05-04"), calendar)).toBe(false)
+    expect(isOperatingDay(day("2024-05-06"), calendar)).toBe(false)
+    const range = workWeekRange(day("2024-05-02"), calendar)
+    expect(keys(operatingDaysIn(range, calendar))).toEqual(["2024-05-02", "2024-05-03", "2024-05-05"])
+  })
+
+  it("el tramo de la semana va del primer al último día que abre", () => {
+    const span = operatingSpan(day("2024-05-02"), calendar)
+    expect(formatDateForStorage(span.start)).toBe("2024-05-02")
+    expect(formatDateForStorage(span.end)).toBe("2024-05-05")
+    const closed = normalizeBusinessCalendar({ operating_days: [] })
+    expect(formatDateForStorage(operatingSpan(day("2024-05-02"), closed).end)).toBe("2024-05-08")
+  })
+
+  it("describe los días seguidos como rango y los sueltos como lista", () => {
+    expect(describeOperatingDays(DEFAULT_BUSINESS_CALENDAR)).toBe("Jue-Dom")
+    expect(describeOperatingDays(normalizeBusinessCalendar({ week_starts_on: 1, operating_days: [1, 3, 5] }))).toBe(
+      "Lun, Mié, Vie",
+    )
+    expect(describeOperatingDays(normalizeBusinessCalendar({ operating_days: [0, 1, 2, 3, 4, 5, 6] }))).toBe(
+      "Todos los días",
+    )
+  })
+})
+
+describe("año fiscal", () => {
+  it("coincide con el año calendario por defecto", () => {
+    const { start, end } = fiscalYearRange(day("2024-05-02"), DEFAULT_BUSINESS_CALENDAR)
+    expect([formatDateForStorage(start), formatDateForStorage(end)]).toEqual(["2024-01-01", "2024-12-31"])
+    expect(describeFiscalYear(day("2024-05-02"), DEFAULT_BUSINESS_CALENDAR)).toBe("2024")
+  })
+
+  it("cruza de año si empieza a mitad del año", () => {
+    const calendar = normalizeBusinessCalendar({ fiscal_year_start_month: 7 })
+    const { start, end } = fiscalYearRange(day("2024-05-02"), calendar)
+    expect([formatDateForStorage(start), formatDateForStorage(end)]).toEqual(["2023-07-01", "2024-06-30"])
+    expect(describeFiscalYear(day("2024-08-01"), calendar)).toBe("2024-2025")
+  })
+})
@@ -0,0 +1,195 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarWeeks,
+  eachDayOfInterval,
+  eachWeekOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+} from "date-fns"
+import { es } from "date-fns/locale"
+import { createLocalDate, formatDateForStorage } from "@/lib/date-utils"
+
+// Día de la semana como Date.getDay(): 0 = domingo ... 6 = sábado
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6
+
+// Día en que el negocio no abre aunque le toque (festivo, vacaciones)
+export interface ClosedDate {
+  // YYYY-MM-DD
+  date: string
+  reason?: string
+}
+
+// Cómo trabaja el negocio: qué días abre y cómo se cuentan sus semanas y su año (ver scripts/create-business-calendar.sql)
+export interface BusinessCalendar {
+  // Día en que empieza la semana de trabajo
+  week_starts_on: Weekday
+  // Días de la semana en que abre
+  operating_days: Weekday[]
+  closed_dates: ClosedDate[]
+  // Mes (1-12) en que empieza el año fiscal
+  fiscal_year_start_month: number
+}
+
+// Jueves a domingo, con el año fiscal igual al calendario
+export const DEFAULT_BUSINESS_CALENDAR: BusinessCalendar = {
+  week_starts_on: 4,
+  operating_days: [4, 5, 6, 0],
+  closed_dates: [],
+  fiscal_year_start_month: 1,
+}
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  0: "Domingo",
+  1: "Lunes",
+  2: "Martes",
+  3: "Miércoles",
+  4: "Jueves",
+  5: "Viernes",
+  6: "Sábado",
+}
+
+export const WEEKDAY_SHORT_LABELS: Record<Weekday, string> = {
+  0: "Dom",
+  1: "Lun",
+  2: "Mar",
+  3: "Mié",
+  4: "Jue",
+  5: "Vie",
+  6: "Sáb",
+}
+
+export interface DateRange {
+  start: Date
+  end: Date
+}
+
+function isWeekday(value: unknown): value is Weekday {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 6
+}
+
+// Completa con los valores por omisión lo que falte o venga mal (espacios creados antes del calendario)
+export function normalizeBusinessCalendar(value?: Partial<BusinessCalendar> | null): BusinessCalendar {
+  const month = Number(value?.fiscal_year_start_month)
+  const days = Array.isArray(value?.operating_days) ? value.operating_days.filter(isWeekday) : null
+  return {
+    week_starts_on: isWeekday(value?.week_starts_on) ? value.week_starts_on : DEFAULT_BUSINESS_CALENDAR.week_starts_on,
+    operating_days: days ? Array.from(new Set(days)) : DEFAULT_BUSINESS_CALENDAR.operating_days,
+    closed_dates: Array.isArray(value?.closed_dates)
+      ? value.closed_dates
+          .filter((closed) => /^\d{4}-\d{2}-\d{2}$/.test(closed?.date))
+          .sort((a, b) => a.date.localeCompare(b.date))
+      : [],
+    fiscal_year_start_month: Number.isInteger(month) && month >= 1 && month <= 12 ? month : 1,
+  }
+}
+
+// Los siete días en el orden de la semana del negocio
+export function orderedWeekdays(calendar: BusinessCalendar): Weekday[] {
+  return Array.from({ length: 7 }, (_, index) => ((calendar.week_starts_on + index) % 7) as Weekday)
+}
+
+// Días que abre, en el orden en que transcurre la semana de trabajo
+export function operatingWeekdays(calendar: BusinessCalendar): Weekday[] {
+  return orderedWeekdays(calendar).filter((weekday) => calendar.operating_days.includes(weekday))
+}
+
+// Opciones para las funciones de semana de date-fns
+export function weekOptions(calendar: BusinessCalendar) {
+  return { weekStartsOn: calendar.week_starts_on }
+}
+
+// Semana de trabajo que contiene `date`: los siete días, para que ninguna entrada se quede sin semana
+export function workWeekRange(date: Date, calendar: BusinessCalendar): DateRange {
+  return { start: startOfWeek(date, weekOptions(calendar)), end: endOfWeek(date, weekOptions(calendar)) }
+}
+
+// Inicio de cada semana de trabajo que toca [start, end]
+export function workWeekStarts(start: Date, end: Date, calendar: BusinessCalendar): Date[] {
+  if (start > end) return []
+  return eachWeekOfInterval({ start, end }, weekOptions(calendar))
+}
+
+// Semanas de trabajo completas entre dos fechas (cuenta la semana de cada una)
+export function workWeeksBetween(from: Date, to: Date, calendar: BusinessCalendar): number {
+  return differenceInCalendarWeeks(to, from, weekOptions(calendar))
+}
+
+// Cuadrícula de un mes por semanas completas (calendario y consultas de "Este mes")
+export function monthGridRange(date: Date, calendar: BusinessCalendar): DateRange {
+  return {
+    start: startOfWeek(startOfMonth(date), weekOptions(calendar)),
+    end: endOfWeek(endOfMonth(date), weekOptions(calendar)),
+  }
+}
+
+export function closedDateOf(date: Date | string, calendar: BusinessCalendar): ClosedDate | undefined {
+  const key = typeof date === "string" ? date : formatDateForStorage(date)
+  return calendar.closed_dates.find((closed) => closed.date === key)
+}
+
+// Abre ese día: le toca por día de la semana y no está marcado como cerrado
+export function isOperatingDay(date: Date, calendar: BusinessCalendar): boolean {
+  return calendar.operating_days.includes(date.getDay() as Weekday) && !closedDateOf(date, calendar)
+}
+
+export function operatingDaysIn(range: DateRange, calendar: BusinessCalendar): Date[] {
+  if (range.start > range.end) return []
+  return eachDayOfInterval(range).filter((day) => isOperatingDay(day, calendar))
+}
+
+// Del primer al último día de la semana que le toca abrir; la semana completa si no abre ninguno
+export function operatingSpan(weekStart: Date, calendar: BusinessCalendar): DateRange {
+  const offsets = orderedWeekdays(calendar)
+    .map((weekday, offset) => (calendar.operating_days.includes(weekday) ? offset : -1))
+    .filter((offset) => offset >= 0)
+  if (offsets.length === 0) return { start: weekStart, end: addDays(weekStart, 6) }
+  return { start: addDays(weekStart, offsets[0]), end: addDays(weekStart, offsets[offsets.length - 1]) }
+}
+
+// Días que abre, p. ej. "Jue-Dom" o "Lun, Mié, Vie"
+export function describeOperatingDays(calendar: BusinessCalendar): string {
+  const open = operatingWeekdays(calendar)
+  if (open.length === 0) return "Sin días de operación"
+  if (open.length === 7) return "Todos los días"
+  const order = orderedWeekdays(calendar)
+  const contiguous = open.every((weekday, index) => index === 0 || order.indexOf(weekday) === order.indexOf(open[index - 1]) + 1)
+  if (contiguous && open.length > 2) {
+    return `${WEEKDAY_SHORT_LABELS[open[0]]}-${WEEKDAY_SHORT_LABELS[open[open.length - 1]]}`
+  }
+  return open.map((weekday) => WEEKDAY_SHORT_LABELS[weekday]).join(", ")
+}
+
+// Semana de trabajo por sus días de operación, p. ej. "jue 3 – dom 6 oct"
+export function describeWorkWeek(weekStart: Date, calendar: BusinessCalendar, options: { year?: boolean } = {}): string {
+  const { start, end } = operatingSpan(weekStart, calendar)
+  return `${format(start, "EEE d", { locale: es })} – ${format(end, options.year ? "EEE d MMM yyyy" : "EEE d MMM", { locale: es })}`
+}
+
+// Inicio de la semana de trabajo en curso, en formato YYYY-MM-DD
+export function currentWorkWeekStart(calendar: BusinessCalendar, now: Date = new Date()): string {
+  return formatDateForStorage(workWeekRange(now, calendar).start)
+}
+
+// Año fiscal que contiene `date`
+export function fiscalYearRange(date: Date, calendar: BusinessCalendar): DateRange {
+  const startMonth = calendar.fiscal_year_start_month - 1
+  const year = date.getMonth() >= startMonth ? date.getFullYear() : date.getFullYear() - 1
+  const start = new Date(year, startMonth, 1)
+  return { start, end: subDays(addMonths(start, 12), 1) }
+}
+
+// "2024" si coincide con el año calendario; "2024-2025" si cruza de año
+export function describeFiscalYear(date: Date, calendar: BusinessCalendar): string {
+  const { start, end } = fiscalYearRange(date, calendar)
+  return start.getFullYear() === end.getFullYear() ? `${start.getFullYear()}` : `${start.getFullYear()}-${end.getFullYear()}`
+}
+
+// Fecha cerrada para mostrarla, p. ej. "vie 25 de diciembre 2026"
+export function closedDateLabel(closed: ClosedDate): string {
+  return format(createLocalDate(closed.date), "EEE d 'de' MMMM yyyy", { locale: es })
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest"
+import {
+  CASH_OVER_CATEGORY,
+  CASH_SHORT_CATEGORY,
+  LOOSE_CASH_KEY,
+  cashDayFlow,
+  countedCents,
+  denominationKey,
+  denominationsFor,
+  isCashCloseAdjustment,
+  previousClose,
+  type CashClose,
+} from "@/lib/cash-close"
+import { TRANSFER_CATEGORY } from "@/lib/accounts"
+import { toCents } from "@/lib/money"
+import type { Entry } from "@/lib/storage/types"
+
+const centsOf = (entry: Entry) => toCents(entry.amount)
+
+describe("countedCents", () => {
+  it("suma piezas por denominación más el monto suelto", () => {
+    const [thousand] = denominationsFor("MXN")
+    const fiftyCents = denominationsFor("MXN").find((denomination) => denomination.value === 50)!
+    const counts = { [denominationKey(thousand)]: 2, [denominationKey(fiftyCents)]: 3, [LOOSE_CASH_KEY]: 1025 }
+    expect(countedCents("MXN", counts)).toBe(200000 + 150 + 1025)
+  })
+
+  it("una moneda sin lista propia usa la genérica", () => {
+    expect(denominationsFor("XYZ")[0]).toEqual({ kind: "bill", value: 10000 })
+  })
+})
+
+describe("cashDayFlow", () => {
+  const entries: Entry[] = [
+    { type: "ingreso", category: "Ventas", amount: 1500, date: "2024-05-02" },
+    { type: "gasto", category: "Insumos", amount: 200.5, date: "2024-05-02", account_id: "caja" },
+    { type: "gasto", category: "Renta", amount: 900, date: "2024-05-02", account_id: "banco" },
+    {
+      type: "gasto",
+      category: TRANSFER_CATEGORY,
+      amount: 1000,
+      date: "2024-05-02",
+      account_id: "caja",
+      transfer_account_id: "banco",
+    },
+    {
+      type: "gasto",
+      category: TRANSFER_CATEGORY,
+      amount: 300,
+      date: "2024-05-02",
+      account_id: "banco",
+      transfer_account_id: "caja",
+    },
+    { type: "gasto", category: CASH_SHORT_CATEGORY, amount: 20, date: "2024-05-02", account_id: "caja" },
+  ]
+
+  it("cuenta en la caja las entradas sin cuenta y los traspasos de ida y vuelta", () => {
+    expect(cashDayFlow(entries, "caja", "caja", centsOf)).toEqual({ cashIn: 180000, cashOut: 120050 })
+  })
+
+  it("deja fuera los ajustes de arqueos anteriores", () => {
+    expect(isCashCloseAdjustment({ type: "gasto", category: CASH_SHORT_CATEGORY })).toBe(true)
+    expect(isCashCloseAdjustment({ type: "ingreso", category: CASH_OVER_CATEGORY })).toBe(true)
+    expect(isCashCloseAdjustment({ type: "gasto", category: CASH_OVER_CATEGORY })).toBe(false)
+  })
+})
+
+describe("previousClose", () => {
+  const close = (id: string, account_id: string, date: string, created_at: string) =>
+    ({ id, account_id, date, created_at }) as CashClose
+
+  it("toma el último arqueo de esa caja antes del día", () => {
+    const closes = [
+      close("a", "caja", "2024-05-01", "2024-05-01T22:00:00Z"),
+      close("b", "caja", "2024-05-01", "2024-05-01T23:00:00Z"),
+      close("c", "caja", "2024-05-02", "2024-05-02T22:00:00Z"),
+      close("d", "otra", "2024-05-01", "2024-05-01T23:30:00Z"),
+    ]
+    expect(previousClose(closes, "caja", "2024-05-02")?.id).toBe("b")
+    expect(previousClose(closes, "caja", "2024-05-01")).toBeNull()
+  })
+})
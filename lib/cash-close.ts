@@ -0,0 +1,216 @@
+import { supabase } from "@/lib/supabase"
+import { generateEntryId, getConfiguredBackend, type Entry } from "@/lib/storage"
+import { toCents, type Cents } from "@/lib/money"
+import { isTransfer } from "@/lib/accounts"
+
+// Arqueo de una caja al cierre de un día: lo que debía haber contra lo que se contó
+export interface CashClose {
+  id: string
+  workspace_id?: string
+  // Cuenta de efectivo que se contó
+  account_id: string
+  date: string
+  // Montos en la moneda base del negocio
+  opening_float: number
+  // Efectivo que entró y salió de la caja ese día (ingresos, gastos, cambio y traspasos)
+  cash_in: number
+  cash_out: number
+  expected: number
+  counted: number
+  // Contado − esperado: positivo es sobrante, negativo faltante
+  difference: number
+  // Piezas contadas por denominación (ver denominationKey)
+  denominations: Record<string, number>
+  // Entrada de ajuste que registró la diferencia; no hay cuando cuadró
+  adjustment_entry_id?: string | null
+  notes?: string
+  created_by?: string
+  created_at?: string
+}
+
+export type CashCloseInput = Omit<CashClose, "id" | "workspace_id" | "created_by" | "created_at">
+
+// La diferencia del arqueo se registra como ingreso o gasto de estas categorías en la misma caja
+export const CASH_OVER_CATEGORY = "Sobrante de caja"
+export const CASH_SHORT_CATEGORY = "Faltante de caja"
+
+export function isCashCloseAdjustment(entry: Pick<Entry, "type" | "category">): boolean {
+  return (
+    (entry.type === "ingreso" && entry.category === CASH_OVER_CATEGORY) ||
+    (entry.type === "gasto" && entry.category === CASH_SHORT_CATEGORY)
+  )
+}
+
+export interface CashDenomination {
+  kind: "bill" | "coin"
+  value: Cents
+}
+
+const bills = (...values: number[]) => values.map((value): CashDenomination => ({ kind: "bill", value: toCents(value) }))
+const coins = (...values: number[]) => values.map((value): CashDenomination => ({ kind: "coin", value: toCents(value) }))
+
+// Billetes y monedas en circulación, de mayor a menor
+const DENOMINATIONS: Record<string, CashDenomination[]> = {
+  MXN: [...bills(1000, 500, 200, 100, 50, 20), ...coins(20, 10, 5, 2, 1, 0.5)],
+  USD: [...bills(100, 50, 20, 10, 5, 2, 1), ...coins(1, 0.25, 0.1, 0.05, 0.01)],
+  EUR: [...bills(500, 200, 100, 50, 20, 10, 5), ...coins(2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01)],
+  CAD: [...bills(100, 50, 20, 10, 5), ...coins(2, 1, 0.25, 0.1, 0.05)],
+  GTQ: [...bills(200, 100, 50, 20, 10, 5, 1), ...coins(1, 0.5, 0.25, 0.1, 0.05, 0.01)],
+}
+
+// Monedas sin lista propia: una genérica; lo que no encaje se captura como monto suelto
+const GENERIC_DENOMINATIONS: CashDenomination[] = [...bills(100, 50, 20, 10, 5), ...coins(1, 0.5, 0.1)]
+
+export function denominationsFor(currency: string): CashDenomination[] {
+  return DENOMINATIONS[currency] || GENERIC_DENOMINATIONS
+}
+
+export function denominationKey(denomination: CashDenomination): string {
+  return `${denomination.kind}-${denomination.value}`
+}
+
+// Llave de lo que se cuenta sin desglose (vales, morralla), guardado en centavos
+export const LOOSE_CASH_KEY = "loose"
+
+// Total contado: piezas × valor de cada denominación, más el monto suelto
+export function countedCents(currency: string, counts: Record<string, number>): Cents {
+  const pieces = denominationsFor(currency).reduce(
+    (total, denomination) => total + (counts[denominationKey(denomination)] || 0) * denomination.value,
+    0,
+  )
+  return pieces + (counts[LOOSE_CASH_KEY] || 0)
+}
+
+export interface CashDayFlow {
+  cashIn: Cents
+  cashOut: Cents
+}
+
+/**
+ * Efectivo que entró y salió de la caja en las entradas de un día.
+ * Las entradas sin cuenta cuentan en la caja predeterminada; los ajustes de un arqueo anterior no cuentan.
+ */
+export function cashDayFlow(
+  entries: Entry[],
+  accountId: string,
+  defaultAccountId: string | null,
+  centsOf: (entry: Entry) => Cents,
+): CashDayFlow {
+  const flow: CashDayFlow = { cashIn: 0, cashOut: 0 }
+  entries.forEach((entry) => {
+    if (isCashCloseAdjustment(entry)) return
+    const from = entry.account_id || defaultAccountId
+    const cents = centsOf(entry)
+    if (isTransfer(entry) && entry.transfer_account_id) {
+      if (from === accountId) flow.cashOut += cents
+      if (entry.transfer_account_id === accountId) flow.cashIn += cents
+      return
+    }
+    if (from !== accountId) return
+    if (entry.type === "ingreso") flow.cashIn += cents
+    else flow.cashOut += cents
+  })
+  return flow
+}
+
+// Cierres del más reciente al más antiguo
+function sortCloses(closes: CashClose[]): CashClose[] {
+  return [...closes].sort((a, b) => b.date.localeCompare(a.date) || (b.created_at || "").localeCompare(a.created_at || ""))
+}
+
+// Fondo con el que abre la caja: lo contado en su último arqueo antes de `date`
+export function previousClose(closes: CashClose[], accountId: string, date: string): CashClose | null {
+  return sortCloses(closes).find((close) => close.account_id === accountId && close.date < date) || null
+}
+
+const LOCAL_CLOSES_KEY = "gestion-financiera-cash-closes"
+
+function loadLocalCloses(workspaceId: string): CashClose[] {
+  const stored = typeof window !== "undefined" ? window.localStorage.getItem(`${LOCAL_CLOSES_KEY}:${workspaceId}`) : null
+  return stored ? JSON.parse(stored) : []
+}
+
+function saveLocalCloses(workspaceId: string, closes: CashClose[]) {
+  if (typeof window !== "undefined") {
+    window.localStorage.setItem(`${LOCAL_CLOSES_KEY}:${workspaceId}`, JSON.stringify(closes))
+  }
+}
+
+function isLocalBackend() {
+  return getConfiguredBackend() !== "supabase"
+}
+
+const AMOUNT_FIELDS = ["opening_float", "cash_in", "cash_out", "expected", "counted", "difference"] as const
+
+function fromRow(row: CashClose): CashClose {
+  const close = { ...row }
+  AMOUNT_FIELDS.forEach((field) => {
+    close[field] = Number(row[field])
+  })
+  return close
+}
+
+// Arqueos por negocio (ver scripts/create-cash-closes.sql)
+export const cashClosesService = {
+  async list(workspaceId: string): Promise<CashClose[]> {
+    if (isLocalBackend()) return sortCloses(loadLocalCloses(workspaceId))
+
+    const { data, error } = await supabase
+      .from("cash_closes")
+      .select("*")
+      .eq("workspace_id", workspaceId)
+      .order("date", { ascending: false })
+    if (error) {
+      console.error("❌ Error cargando arqueos:", error)
+      throw error
+    }
+    return (data || []).map(fromRow)
+  },
+
+  // Un solo arqueo por caja y día; para repetirlo hay que reabrir el anterior
+  async create(workspaceId: string, input: CashCloseInput): Promise<CashClose> {
+    console.log("🧮 Guardando arqueo:", input.date, input.counted, "diferencia", input.difference)
+    if (isLocalBackend()) {
+      const closes = loadLocalCloses(workspaceId)
+      if (closes.some((close) => close.account_id === input.account_id && close.date === input.date)) {
+        throw new Error("Ya hay un arqueo de esta caja para ese día")
+      }
+      const created: CashClose = {
+        ...input,
+        id: generateEntryId(),
+        workspace_id: workspaceId,
+        created_at: new Date().toISOString(),
+      }
+      saveLocalCloses(workspaceId, [created, ...closes])
+      return created
+    }
+
+    const { data, error } = await supabase
+      .from("cash_closes")
+      .insert([{ ...input, workspace_id: workspaceId }])
+      .select()
+      .single()
+    if (error) {
+      console.error("❌ Error guardando arqueo:", error)
+      if (error.code === "23505") throw new Error("Ya hay un arqueo de esta caja para ese día")
+      throw error
+    }
+    return fromRow(data)
+  },
+
+  async remove(workspaceId: string, id: string): Promise<void> {
+    if (isLocalBackend()) {
+      saveLocalCloses(
+        workspaceId,
+        loadLocalCloses(workspaceId).filter((close) => close.id !== id),
+      )
+      return
+    }
+
+    const { error } = await supabase.from("cash_closes").delete().eq("id", id)
+    if (error) {
+      console.error("❌ Error eliminando arqueo:", error)
+      throw error
+    }
+  },
+}
@@ -0,0 +1,335 @@
+import { supabase } from "@/lib/supabase"
+import { entriesService, generateEntryId, getConfiguredBackend, type Entry } from "@/lib/storage"
+import { recurringService } from "@/lib/recurring"
+import { budgetsService } from "@/lib/budgets"
+
+export type EntryType = Entry["type"]
+
+// Colores disponibles; se guardan por nombre y se traducen a clases de Tailwind aquí
+export type CategoryColor =
+  | "red"
+  | "orange"
+  | "yellow"
+  | "green"
+  | "emerald"
+  | "teal"
+  | "cyan"
+  | "blue"
+  | "indigo"
+  | "purple"
+  | "pink"
+  | "gray"
+
+export interface Category {
+  id: string
+  workspace_id?: string
+  type: EntryType
+  name: string
+  color: CategoryColor
+  // Emoji que acompaña al nombre
+  icon: string
+  sort_order: number
+  // Las archivadas no se ofrecen al capturar, pero las entradas existentes las conservan
+  archived: boolean
+  // Movimiento de caja (p. ej. el cambio que entra y sale): cuenta en el efectivo pero no en ingresos ni gastos
+  cash_movement: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+export type CategoryInput = Pick<Category, "type" | "name" | "color" | "icon"> & { cash_movement?: boolean }
+
+// Renombrado (el destino no existía) o fusión (el destino ya existía)
+export interface CategoryChange {
+  id: string
+  type: EntryType
+  kind: "rename" | "merge"
+  from_name: string
+  to_name: string
+  entries_affected: number
+  created_at: string
+}
+
+export type CategoryUpdate = Partial<Pick<Category, "color" | "icon" | "sort_order" | "archived" | "cash_movement">>
+
+// Clases literales para que Tailwind las incluya en el build
+export const CATEGORY_COLOR_CLASSES: Record<CategoryColor, string> = {
+  red: "bg-red-100 text-red-800 border-red-200 dark:bg-red-900/20 dark:text-red-300 dark:border-red-800",
+  orange: "bg-orange-100 text-orange-800 border-orange-200 dark:bg-orange-900/20 dark:text-orange-300 dark:border-orange-800",
+  yellow: "bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-900/20 dark:text-yellow-300 dark:border-yellow-800",
+  green: "bg-green-100 text-green-800 border-green-200 dark:bg-green-900/20 dark:text-green-300 dark:border-green-800",
+  emerald:
+    "bg-emerald-100 text-emerald-800 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-300 dark:border-emerald-800",
+  teal: "bg-teal-100 text-teal-800 border-teal-200 dark:bg-teal-900/20 dark:text-teal-300 dark:border-teal-800",
+  cyan: "bg-cyan-100 text-cyan-800 border-cyan-200 dark:bg-cyan-900/20 dark:text-cyan-300 dark:border-cyan-800",
+  blue: "bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/20 dark:text-blue-300 dark:border-blue-800",
+  indigo: "bg-indigo-100 text-indigo-800 border-indigo-200 dark:bg-indigo-900/20 dark:text-indigo-300 dark:border-indigo-800",
+  purple: "bg-purple-100 text-purple-800 border-purple-200 dark:bg-purple-900/20 dark:text-purple-300 dark:border-purple-800",
+  pink: "bg-pink-100 text-pink-800 border-pink-200 dark:bg-pink-900/20 dark:text-pink-300 dark:border-pink-800",
+  gray: "bg-gray-100 text-gray-800 border-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:border-gray-600",
+}
+
+export const CATEGORY_COLOR_NAMES: Record<CategoryColor, string> = {
+  red: "Rojo",
+  orange: "Naranja",
+  yellow: "Amarillo",
+  green: "Verde",
+  emerald: "Esmeralda",
+  teal: "Verde azulado",
+  cyan: "Cian",
+  blue: "Azul",
+  indigo: "Índigo",
+  purple: "Morado",
+  pink: "Rosa",
+  gray: "Gris",
+}
+
+// Categorías iniciales de cada negocio (las que antes estaban fijas en el código)
+export const DEFAULT_CATEGORIES: CategoryInput[] = [
+  { type: "gasto", name: "Carne", color: "red", icon: "🥩" },
+  { type: "gasto", name: "Agua", color: "blue", icon: "💧" },
+  { type: "gasto", name: "Gas", color: "orange", icon: "🔥" },
+  { type: "gasto", name: "Salarios", color: "purple", icon: "👥" },
+  { type: "gasto", name: "Insumos", color: "yellow", icon: "📦" },
+  { type: "gasto", name: "Transporte", color: "green", icon: "🚚" },
+  { type: "gasto", name: "Servicios", color: "indigo", icon: "🔌" },
+  { type: "gasto", name: "Refresco", color: "pink", icon: "🥤" },
+  { type: "gasto", name: "Otros", color: "gray", icon: "📝" },
+  { type: "gasto", name: "Cambio", color: "teal", icon: "🪙", cash_movement: true },
+  { type: "ingreso", name: "Efectivo", color: "emerald", icon: "💵" },
+  { type: "ingreso", name: "Transferencia", color: "teal", icon: "🏦" },
+  { type: "ingreso", name: "Ventas", color: "cyan", icon: "🛒" },
+  { type: "ingreso", name: "Servicios", color: "indigo", icon: "🔌" },
+  { type: "ingreso", name: "Otros", color: "gray", icon: "📝" },
+  { type: "ingreso", name: "Cambio", color: "teal", icon: "🪙", cash_movement: true },
+  { type: "inversion", name: "Acciones", color: "blue", icon: "📈" },
+  { type: "inversion", name: "Bonos", color: "indigo", icon: "📜" },
+  { type: "inversion", name: "Criptomonedas", color: "orange", icon: "🪙" },
+  { type: "inversion", name: "Bienes Raíces", color: "green", icon: "🏠" },
+  { type: "inversion", name: "Negocio", color: "purple", icon: "🏪" },
+  { type: "inversion", name: "Otros", color: "gray", icon: "📝" },
+]
+
+function isDefaultCashMovement(category: Pick<Category, "type" | "name">): boolean {
+  return DEFAULT_CATEGORIES.some(
+    (candidate) => candidate.cash_movement && candidate.type === category.type && candidate.name === category.name,
+  )
+}
+
+// Clases del badge de una categoría; gris si no está registrada
+export function categoryColorClasses(category?: Pick<Category, "color"> | null): string {
+  return CATEGORY_COLOR_CLASSES[category?.color || "gray"] || CATEGORY_COLOR_CLASSES.gray
+}
+
+export function sortCategories(categories: Category[]): Category[] {
+  return [...categories].sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name))
+}
+
+const LOCAL_CATEGORIES_KEY = "gestion-financiera-categories"
+const LOCAL_CHANGES_KEY = "gestion-financiera-category-changes"
+
+function localKey(workspaceId: string) {
+  return `${LOCAL_CATEGORIES_KEY}:${workspaceId}`
+}
+
+function defaultsFor(workspaceId: string): Category[] {
+  const now = new Date().toISOString()
+  return DEFAULT_CATEGORIES.map((category, index) => ({
+    ...category,
+    id: generateEntryId(),
+    workspace_id: workspaceId,
+    sort_order: index,
+    archived: false,
+    cash_movement: !!category.cash_movement,
+    created_at: now,
+    updated_at: now,
+  }))
+}
+
+// Los backends locales guardan las categorías en el navegador; la primera vez se siembran las de siempre
+function loadLocalCategories(workspaceId: string): Category[] {
+  const stored = typeof window !== "undefined" ? window.localStorage.getItem(localKey(workspaceId)) : null
+  if (stored) {
+    // Categorías guardadas antes de los movimientos de caja: "Cambio" ya lo era
+    return (JSON.parse(stored) as Category[]).map((category) => ({
+      ...category,
+      cash_movement: category.cash_movement ?? isDefaultCashMovement(category),
+    }))
+  }
+  const seeded = defaultsFor(workspaceId)
+  saveLocalCategories(workspaceId, seeded)
+  return seeded
+}
+
+function saveLocalCategories(workspaceId: string, categories: Category[]) {
+  if (typeof window !== "undefined") window.localStorage.setItem(localKey(workspaceId), JSON.stringify(categories))
+}
+
+function loadLocalChanges(workspaceId: string): CategoryChange[] {
+  const stored =
+    typeof window !== "undefined" ? window.localStorage.getItem(`${LOCAL_CHANGES_KEY}:${workspaceId}`) : null
+  return stored ? JSON.parse(stored) : []
+}
+
+function saveLocalChanges(workspaceId: string, changes: CategoryChange[]) {
+  if (typeof window !== "undefined") {
+    window.localStorage.setItem(`${LOCAL_CHANGES_KEY}:${workspaceId}`, JSON.stringify(changes))
+  }
+}
+
+// Versión local de merge_category: reescribe entrada por entrada (un solo usuario, sin concurrencia)
+async function mergeLocalCategory(workspaceId: string, type: EntryType, from: string, to: string): Promise<number> {
+  const affected: Entry[] = []
+  let cursor: string | null = null
+  do {
+    const page = await entriesService.query({ types: [type], categories: [from], cursor })
+    affected.push(...page.entries)
+    cursor = page.nextCursor
+  } while (cursor)
+
+  for (const entry of affected) await entriesService.update(entry.id!, { category: to })
+
+  // Las reglas recurrentes siguen generando con el nombre nuevo
+  const rules = (await recurringService.list(workspaceId)).filter((rule) => rule.type === type && rule.category === from)
+  for (const rule of rules) {
+    await recurringService.update(workspaceId, rule.id, { category: to })
+  }
+
+  // Los presupuestos son solo de gasto; si el destino ya tiene uno en ese periodo se queda el suyo
+  if (type === "gasto") {
+    const budgets = await budgetsService.list(workspaceId)
+    for (const budget of budgets.filter((candidate) => candidate.category === from)) {
+      const targetHasBudget = budgets.some((other) => other.category === to && other.period === budget.period)
+      if (!targetHasBudget) {
+        await budgetsService.save(workspaceId, { category: to, period: budget.period, amount: budget.amount })
+      }
+      await budgetsService.remove(workspaceId, budget.id)
+    }
+  }
+
+  const categories = loadLocalCategories(workspaceId)
+  const existsTarget = categories.some((category) => category.type === type && category.name === to)
+  const kind: CategoryChange["kind"] = existsTarget ? "merge" : "rename"
+  const updated = existsTarget
+    ? categories.filter((category) => !(category.type === type && category.name === from))
+    : categories.map((category) =>
+        category.type === type && category.name === from ? { ...category, name: to } : category,
+      )
+  saveLocalCategories(workspaceId, updated)
+
+  const change: CategoryChange = {
+    id: generateEntryId(),
+    type,
+    kind,
+    from_name: from,
+    to_name: to,
+    entries_affected: affected.length,
+    created_at: new Date().toISOString(),
+  }
+  saveLocalChanges(workspaceId, [change, ...loadLocalChanges(workspaceId)])
+  return affected.length
+}
+
+function isLocalBackend() {
+  return getConfiguredBackend() !== "supabase"
+}
+
+// Categorías por negocio (ver scripts/create-categories.sql)
+export const categoriesService = {
+  async list(workspaceId: string): Promise<Category[]> {
+    if (isLocalBackend()) return sortCategories(loadLocalCategories(workspaceId))
+
+    const { data, error } = await supabase
+      .from("categories")
+      .select("*")
+      .eq("workspace_id", workspaceId)
+      .order("sort_order")
+      .order("name")
+    if (error) {
+      console.error("❌ Error cargando categorías:", error)
+      throw error
+    }
+    return data || []
+  },
+
+  async create(workspaceId: string, category: CategoryInput, sortOrder: number): Promise<Category> {
+    console.log("🏷️ Creando categoría:", category.type, category.name)
+    if (isLocalBackend()) {
+      const now = new Date().toISOString()
+      const created: Category = {
+        ...category,
+        id: generateEntryId(),
+        workspace_id: workspaceId,
+        sort_order: sortOrder,
+        archived: false,
+        cash_movement: !!category.cash_movement,
+        created_at: now,
+        updated_at: now,
+      }
+      saveLocalCategories(workspaceId, [...loadLocalCategories(workspaceId), created])
+      return created
+    }
+
+    const { data, error } = await supabase
+      .from("categories")
+      .insert([{ ...category, workspace_id: workspaceId, sort_order: sortOrder }])
+      .select()
+      .single()
+    if (error) {
+      console.error("❌ Error creando categoría:", error)
+      throw error
+    }
+    return data
+  },
+
+  async update(workspaceId: string, id: string, changes: CategoryUpdate): Promise<Category> {
+    if (isLocalBackend()) {
+      const categories = loadLocalCategories(workspaceId).map((category) =>
+        category.id === id ? { ...category, ...changes, updated_at: new Date().toISOString() } : category,
+      )
+      saveLocalCategories(workspaceId, categories)
+      return categories.find((category) => category.id === id)!
+    }
+
+    const { data, error } = await supabase.from("categories").update(changes).eq("id", id).select().single()
+    if (error) {
+      console.error("❌ Error actualizando categoría:", error)
+      throw error
+    }
+    return data
+  },
+  // Reescribe la categoría de todas las entradas y registra el cambio; devuelve cuántas se tocaron
+  async merge(workspaceId: string, type: EntryType, from: string, to: string): Promise<number> {
+    console.log("🔀 Renombrando categoría:", type, from, "→", to)
+    if (isLocalBackend()) return mergeLocalCategory(workspaceId, type, from, to)
+
+    // Una sola transacción en la base de datos (ver scripts/create-category-merge.sql)
+    const { data, error } = await supabase.rpc("merge_category", {
+      p_workspace_id: workspaceId,
+      p_type: type,
+      p_from: from,
+      p_to: to,
+    })
+    if (error) {
+      console.error("❌ Error renombrando categoría:", error)
+      throw error
+    }
+    return Number(data) || 0
+  },
+
+  async listChanges(workspaceId: string): Promise<CategoryChange[]> {
+    if (isLocalBackend()) return loadLocalChanges(workspaceId)
+
+    const { data, error } = await supabase
+      .from("category_changes")
+      .select("id, type, kind, from_name, to_name, entries_affected, created_at")
+      .eq("workspace_id", workspaceId)
+      .order("created_at", { ascending: false })
+      .limit(50)
+    if (error) {
+      console.error("❌ Error cargando historial de categorías:", error)
+      throw error
+    }
+    return data || []
+  },
+}
@@ -0,0 +1,100 @@
+import { supabase } from "@/lib/supabase"
+import { generateEntryId, getConfiguredBackend, type ExchangeRate } from "@/lib/storage"
+
+// Monedas que se ofrecen al capturar; cualquier otro código ISO de tres letras también se acepta
+export const COMMON_CURRENCIES = ["MXN", "USD", "EUR", "CAD", "GTQ"]
+
+export const CURRENCY_NAMES: Record<string, string> = {
+  MXN: "Peso mexicano",
+  USD: "Dólar estadounidense",
+  EUR: "Euro",
+  CAD: "Dólar canadiense",
+  GTQ: "Quetzal",
+}
+
+export function isValidCurrencyCode(code: string): boolean {
+  return /^[A-Z]{3}$/.test(code)
+}
+
+export type ExchangeRateInput = Pick<ExchangeRate, "currency" | "date" | "rate">
+
+const LOCAL_RATES_KEY = "gestion-financiera-exchange-rates"
+
+function loadLocalRates(workspaceId: string): ExchangeRate[] {
+  const stored = typeof window !== "undefined" ? window.localStorage.getItem(`${LOCAL_RATES_KEY}:${workspaceId}`) : null
+  return stored ? JSON.parse(stored) : []
+}
+
+function saveLocalRates(workspaceId: string, rates: ExchangeRate[]) {
+  if (typeof window !== "undefined") {
+    window.localStorage.setItem(`${LOCAL_RATES_KEY}:${workspaceId}`, JSON.stringify(rates))
+  }
+}
+
+function sortRates(rates: ExchangeRate[]): ExchangeRate[] {
+  return [...rates].sort((a, b) => a.currency.localeCompare(b.currency) || b.date.localeCompare(a.date))
+}
+
+function isLocalBackend() {
+  return getConfiguredBackend() !== "supabase"
+}
+
+// Tipos de cambio capturados por negocio (ver scripts/create-currencies.sql)
+export const exchangeRatesService = {
+  async list(workspaceId: string): Promise<ExchangeRate[]> {
+    if (isLocalBackend()) return sortRates(loadLocalRates(workspaceId))
+
+    const { data, error } = await supabase
+      .from("exchange_rates")
+      .select("*")
+      .eq("workspace_id", workspaceId)
+      .order("currency")
+      .order("date", { ascending: false })
+    if (error) {
+      console.error("❌ Error cargando tipos de cambio:", error)
+      throw error
+    }
+    return (data || []).map((rate) => ({ ...rate, rate: Number(rate.rate) }))
+  },
+
+  // Un solo tipo de cambio por moneda y fecha: si ya existe se reemplaza
+  async save(workspaceId: string, input: ExchangeRateInput): Promise<ExchangeRate> {
+    console.log("💱 Guardando tipo de cambio:", input.currency, input.date, input.rate)
+    if (isLocalBackend()) {
+      const rates = loadLocalRates(workspaceId)
+      const existing = rates.find((rate) => rate.currency === input.currency && rate.date === input.date)
+      const saved: ExchangeRate = existing
+        ? { ...existing, rate: input.rate }
+        : { ...input, id: generateEntryId(), workspace_id: workspaceId, created_at: new Date().toISOString() }
+      saveLocalRates(workspaceId, [...rates.filter((rate) => rate.id !== saved.id), saved])
+      return saved
+    }
+
+    const { data, error } = await supabase
+      .from("exchange_rates")
+      .upsert([{ ...input, workspace_id: workspaceId }], { onConflict: "workspace_id,currency,date" })
+      .select()
+      .single()
+    if (error) {
+      console.error("❌ Error guardando tipo de cambio:", error)
+      throw error
+    }
+    return { ...data, rate: Number(data.rate) }
+  },
+
+  async remove(workspaceId: string, id: string): Promise<void> {
+    if (isLocalBackend()) {
+      saveLocalRates(
+        workspaceId,
+        loadLocalRates(workspaceId).filter((rate) => rate.id !== id),
+      )
+      return
+    }
+
+    const { error } = await supabase.from("exchange_rates").delete().eq("id", id)
+    if (error) {
+      console.error("❌ Error eliminando tipo de cambio:", error)
+      throw error
+    }
+  },
+}
@@ -0,0 +1,111 @@
+import { entryBaseCents, entryCurrency, type CurrencyConversion, type Entry } from "@/lib/storage"
+import { fromCents, type Cents } from "@/lib/money"
+import { buildXlsx } from "./xlsx"
+import { downloadBlob, toCsv, type ExportTable } from "./table"
+
+export type ExportFormat = "csv" | "xlsx"
+
+const TYPE_NAMES: Record<Entry["type"], string> = {
+  ingreso: "Ingreso",
+  gasto: "Gasto",
+  inversion: "Inversión",
+}
+
+// Una fila por entrada, con el monto original y el convertido a la moneda base
+export function entriesTable(entries: Entry[], conversion: CurrencyConversion): ExportTable {
+  const { baseCurrency } = conversion
+  const sorted = [...entries].sort((a, b) => a.date.localeCompare(b.date))
+  return {
+    name: "Entradas",
+    columns: [
+      { header: "Fecha", kind: "date" },
+      { header: "Tipo" },
+      { header: "Categoría" },
+      { header: "Descripción" },
+      { header: "Monto", kind: "money" },
+      { header: "Moneda" },
+      { header: `Monto ${baseCurrency}`, kind: "money" },
+    ],
+    rows: sorted.map((entry) => [
+      entry.date,
+      TYPE_NAMES[entry.type],
+      entry.category,
+      entry.description || "",
+      entry.amount,
+      entryCurrency(entry, baseCurrency),
+      fromCents(entryBaseCents(entry, conversion)),
+    ]),
+  }
+}
+
+// Totales por tipo y por categoría en la moneda base, con su porcentaje dentro del tipo
+export function summaryTable(entries: Entry[], conversion: CurrencyConversion): ExportTable {
+  const byType = new Map<Entry["type"], Cents>()
+  const byCategory = new Map<string, { type: Entry["type"]; category: string; cents: Cents; count: number }>()
+
+  entries.forEach((entry) => {
+    const cents = entryBaseCents(entry, conversion)
+    byType.set(entry.type, (byType.get(entry.type) || 0) + cents)
+    const key = `${entry.type}|${entry.category}`
+    const current = byCategory.get(key) || { type: entry.type, category: entry.category, cents: 0, count: 0 }
+    current.cents += cents
+    current.count++
+    byCategory.set(key, current)
+  })
+
+  const types = Object.keys(TYPE_NAMES) as Entry["type"][]
+  const rows: (string | number | null)[][] = types.map((type) => [
+    TYPE_NAMES[type],
+    "Total",
+    entries.filter((entry) => entry.type === type).length,
+    fromCents(byType.get(type) || 0),
+    byType.get(type) ? 100 : null,
+  ])
+  types.forEach((type) => {
+    const typeTotal = byType.get(type) || 0
+    Array.from(byCategory.values())
+      .filter((row) => row.type === type)
+      .sort((a, b) => b.cents - a.cents)
+      .forEach((row) => {
+        rows.push([
+          TYPE_NAMES[type],
+          row.category,
+          row.count,
+          fromCents(row.cents),
+          typeTotal > 0 ? Math.round((row.cents / typeTotal) * 1000) / 10 : null,
+        ])
+      })
+  })
+
+  return {
+    name: "Resumen",
+    columns: [
+      { header: "Tipo" },
+      { header: "Categoría" },
+      { header: "Entradas", kind: "number" },
+      { header: `Total ${conversion.baseCurrency}`, kind: "money" },
+      { header: "% del tipo", kind: "number" },
+    ],
+    rows,
+  }
+}
+
+/**
+ * Descarga las entradas en CSV (solo las entradas: un CSV no tiene hojas) o en XLSX
+ * (hoja de entradas más hoja de resumen). El nombre lleva el periodo exportado.
+ */
+export function exportEntries(
+  format: ExportFormat,
+  entries: Entry[],
+  conversion: CurrencyConversion,
+  baseName: string,
+) {
+  if (format === "csv") {
+    const csv = toCsv(entriesTable(entries, conversion))
+    downloadBlob(new Blob([csv], { type: "text/csv;charset=utf-8" }), `${baseName}.csv`)
+  } else {
+    const workbook = buildXlsx([entriesTable(entries, conversion), summaryTable(entries, conversion)])
+    downloadBlob(workbook, `${baseName}.xlsx`)
+  }
+  console.log("📤 Exportado:", format, entries.length, "entradas")
+}
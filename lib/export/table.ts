@@ -0,0 +1,34 @@
+// Tabla genérica que se exporta igual a CSV y a XLSX
+export type ExportColumnKind = "text" | "number" | "money" | "date"
+
+export interface ExportColumn {
+  header: string
+  kind?: ExportColumnKind
+}
+
+export interface ExportTable {
+  // Nombre de la hoja en XLSX
+  name: string
+  columns: ExportColumn[]
+  // Montos como número en unidades (no centavos); fechas como YYYY-MM-DD
+  rows: (string | number | null)[][]
+}
+
+// CSV con coma y punto decimal, como lo abre Excel en español de México; el BOM conserva los acentos
+export function toCsv(table: ExportTable): string {
+  const escape = (value: string | number | null) => {
+    const text = value === null ? "" : String(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+  const lines = [table.columns.map((column) => escape(column.header)), ...table.rows.map((row) => row.map(escape))]
+  return "\uFEFF" + lines.map((line) => line.join(",")).join("\r\n") + "\r\n"
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
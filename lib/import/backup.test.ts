@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest"
+import { diffBackup, parseBackup, relocateBackup } from "@/lib/import/backup"
+import type { Entry } from "@/lib/storage/types"
+
+const SOURCE = "11111111-1111-4111-8111-111111111111"
+const TARGET = "22222222-2222-4222-8222-222222222222"
+
+const entry: Entry = {
+  id: "33333333-3333-4333-8333-333333333333",
+  workspace_id: SOURCE,
+  type: "gasto",
+  category: "Insumos",
+  amount: 120,
+  date: "2024-05-02",
+  account_id: "44444444-4444-4444-8444-444444444444",
+  attachments: [
+    {
+      id: "a1",
+      name: "ticket.jpg",
+      type: "image/jpeg",
+      size: 10,
+      path: `${SOURCE}/33333333-3333-4333-8333-333333333333/a1-ticket.jpg`,
+      created_at: "2024-05-02T10:00:00.000Z",
+    },
+  ],
+}
+
+describe("parseBackup", () => {
+  it("rechaza el respaldo completo con la primera fila inválida", () => {
+    expect(() => parseBackup(JSON.stringify([entry, { ...entry, id: "otro", amount: 0 }]))).toThrow(
+      "Entrada 2 del respaldo: monto inválido",
+    )
+  })
+})
+
+describe("relocateBackup", () => {
+  it("deja igual lo que ya es del negocio destino", async () => {
+    const [restored] = await relocateBackup([entry], SOURCE)
+    expect(restored).toBe(entry)
+  })
+
+  it("da id, ruta de adjuntos y negocio nuevos a lo que viene de otro negocio", async () => {
+    const [restored] = await relocateBackup([entry], TARGET)
+    expect(restored.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+    expect(restored.id).not.toBe(entry.id)
+    expect(restored.workspace_id).toBe(TARGET)
+    expect(restored.account_id).toBeNull()
+    expect(restored.attachments![0].path).toBe(`${TARGET}/${restored.id}/a1-ticket.jpg`)
+  })
+
+  it("restaurar dos veces el mismo archivo no duplica las entradas", async () => {
+    const [first] = await relocateBackup([entry], TARGET)
+    const [second] = await relocateBackup([entry], TARGET)
+    expect(second.id).toBe(first.id)
+    expect(diffBackup([second], [first])).toMatchObject({ added: [], changed: [], unchanged: 1 })
+  })
+})
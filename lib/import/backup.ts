@@ -0,0 +1,218 @@
+import type { EntriesStorage, Entry, EntryInput, NewEntry } from "@/lib/storage"
+import { toCents } from "@/lib/money"
+import { restoreEmbeddedAttachments, withoutAttachmentData } from "@/lib/attachments"
+
+// merge: agrega las nuevas y actualiza las que cambiaron; replace: además elimina las que no están en el respaldo
+export type RestoreMode = "merge" | "replace"
+
+export interface BackupChange {
+  before: Entry
+  after: Entry
+}
+
+export interface BackupDiff {
+  added: Entry[]
+  changed: BackupChange[]
+  // En el negocio pero no en el respaldo (solo se eliminan en modo replace)
+  missing: Entry[]
+  unchanged: number
+}
+
+export interface RestoreProgress {
+  done: number
+  total: number
+}
+
+// Operaciones por tanda al aplicar, para mostrar avance y no mandar miles de filas de una vez
+export const RESTORE_CHUNK_SIZE = 100
+
+const ENTRY_TYPES: Entry["type"][] = ["gasto", "ingreso", "inversion"]
+
+// Campos que se comparan y se restauran; el resto (dueño, negocio, regla recurrente, fechas de registro) no viaja
+const RESTORED_FIELDS = [
+  "type",
+  "category",
+  "amount",
+  "currency",
+  "date",
+  "description",
+  "account_id",
+  "transfer_account_id",
+] as const
+
+function restoredFields(entry: Entry): EntryInput {
+  return {
+    type: entry.type,
+    category: entry.category,
+    amount: entry.amount,
+    currency: entry.currency,
+    date: entry.date,
+    // Vacía en vez de ausente, para que una actualización también pueda borrarla
+    description: entry.description || "",
+    // Null en vez de ausente por lo mismo; sin la cuenta destino un traspaso sería un retiro de la caja
+    account_id: entry.account_id || null,
+    transfer_account_id: entry.transfer_account_id || null,
+    // Sin ellos, volver a importar el estado de cuenta o la factura duplicaría las entradas
+    ...(entry.bank_transaction_id ? { bank_transaction_id: entry.bank_transaction_id } : {}),
+    ...(entry.invoice ? { invoice: entry.invoice } : {}),
+    ...(entry.attachments?.length ? { attachments: withoutAttachmentData(entry.attachments) } : {}),
+  }
+}
+
+/**
+ * Lee el archivo que descarga "Exportar Datos" (un arreglo JSON de entradas).
+ * Lanza un error con la primera fila inválida: un respaldo se restaura completo o no se restaura.
+ */
+export function parseBackup(text: string): Entry[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error("El archivo no es un JSON válido")
+  }
+  if (!Array.isArray(data)) throw new Error("El respaldo debe ser una lista de entradas")
+
+  const seen = new Set<string>()
+  return data.map((row, index) => {
+    const entry = row as Partial<Entry>
+    const problem =
+      typeof entry?.id !== "string" || !entry.id
+        ? "falta el id"
+        : !ENTRY_TYPES.includes(entry.type as Entry["type"])
+          ? `tipo desconocido "${entry.type}"`
+          : typeof entry.category !== "string" || !entry.category
+            ? "falta la categoría"
+            : typeof entry.amount !== "number" || !Number.isFinite(entry.amount) || entry.amount <= 0
+              ? "monto inválido"
+              : typeof entry.date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(entry.date)
+                ? "fecha inválida"
+                : seen.has(entry.id)
+                  ? "id repetido"
+                  : null
+    if (problem) throw new Error(`Entrada ${index + 1} del respaldo: ${problem}`)
+    seen.add(entry.id!)
+    return entry as Entry
+  })
+}
+
+// Negocio del que salió la entrada; los respaldos sin workspace_id lo traen en la primera carpeta de sus adjuntos
+function sourceWorkspaceId(entry: Entry): string | null {
+  return entry.workspace_id || entry.attachments?.[0]?.path.split("/")[0] || null
+}
+
+// Id fijo para la copia en otro negocio (UUID v5 de negocio e id): restaurar otra vez el archivo no la duplica
+async function relocatedId(workspaceId: string, id: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(`${workspaceId}:${id}`))
+  const bytes = new Uint8Array(digest).slice(0, 16)
+  bytes[6] = (bytes[6] & 0x0f) | 0x50
+  bytes[8] = (bytes[8] & 0x3f) | 0x80
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
+/**
+ * Las entradas de un respaldo de otro negocio no pueden conservar su id (es único en toda la base) ni la ruta
+ * de sus adjuntos (la primera carpeta es el negocio y las políticas de Storage la revisan): reciben las del destino.
+ */
+export async function relocateBackup(backup: Entry[], workspaceId: string): Promise<Entry[]> {
+  return Promise.all(
+    backup.map(async (entry) => {
+      const source = sourceWorkspaceId(entry)
+      if (!source || source === workspaceId) return entry
+      const id = await relocatedId(workspaceId, entry.id!)
+      return {
+        ...entry,
+        id,
+        workspace_id: workspaceId,
+        // Las cuentas son las del otro negocio: sus entradas caen en la caja del destino
+        account_id: null,
+        transfer_account_id: null,
+        ...(entry.attachments
+          ? {
+              attachments: entry.attachments.map((attachment) => ({
+                ...attachment,
+                path: `${workspaceId}/${id}/${attachment.path.split("/").slice(2).join("/")}`,
+              })),
+            }
+          : {}),
+      }
+    }),
+  )
+}
+
+function attachmentIds(entry: Entry) {
+  return (entry.attachments || []).map((attachment) => attachment.id).join(",")
+}
+
+function sameEntry(a: Entry, b: Entry) {
+  return (
+    RESTORED_FIELDS.every((field) =>
+      field === "amount" ? toCents(a.amount) === toCents(b.amount) : (a[field] || null) === (b[field] || null),
+    ) && attachmentIds(a) === attachmentIds(b)
+  )
+}
+
+// Compara el respaldo con las entradas actuales del negocio, por id
+export function diffBackup(backup: Entry[], current: Entry[]): BackupDiff {
+  const currentById = new Map(current.map((entry) => [entry.id!, entry]))
+  const backupIds = new Set(backup.map((entry) => entry.id!))
+  const diff: BackupDiff = { added: [], changed: [], missing: [], unchanged: 0 }
+
+  backup.forEach((entry) => {
+    const existing = currentById.get(entry.id!)
+    if (!existing) diff.added.push(entry)
+    else if (sameEntry(existing, entry)) diff.unchanged++
+    else diff.changed.push({ before: existing, after: entry })
+  })
+  diff.missing = current.filter((entry) => !backupIds.has(entry.id!))
+  return diff
+}
+
+export function restoreOperationCount(diff: BackupDiff, mode: RestoreMode): number {
+  return diff.added.length + diff.changed.length + (mode === "replace" ? diff.missing.length : 0)
+}
+
+function chunk<T>(items: T[]): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += RESTORE_CHUNK_SIZE) chunks.push(items.slice(i, i + RESTORE_CHUNK_SIZE))
+  return chunks
+}
+
+/**
+ * Aplica el respaldo por tandas: primero los archivos adjuntos que trae, luego las nuevas (cada tanda en un
+ * solo guardado, conservando su id), las modificadas y, en modo replace, al final las eliminaciones. Si una
+ * tanda falla se detiene; lo ya aplicado queda guardado y volver a restaurar el mismo archivo completa el resto.
+ */
+export async function applyBackup(
+  storage: EntriesStorage,
+  diff: BackupDiff,
+  mode: RestoreMode,
+  onProgress: (progress: RestoreProgress) => void,
+): Promise<void> {
+  const total = restoreOperationCount(diff, mode)
+  let done = 0
+  const advance = (count: number) => {
+    done += count
+    onProgress({ done, total })
+  }
+  onProgress({ done, total })
+
+  // Primero los archivos adjuntos, para que ninguna entrada apunte a uno que aún no existe
+  await restoreEmbeddedAttachments([...diff.added, ...diff.changed.map(({ after }) => after)])
+
+  for (const batch of chunk(diff.added)) {
+    await storage.createMany(batch.map((entry): NewEntry => ({ ...restoredFields(entry), id: entry.id })))
+    advance(batch.length)
+  }
+  for (const batch of chunk(diff.changed)) {
+    await Promise.all(batch.map(({ after }) => storage.update(after.id!, restoredFields(after))))
+    advance(batch.length)
+  }
+  if (mode === "replace") {
+    for (const batch of chunk(diff.missing)) {
+      await Promise.all(batch.map((entry) => storage.delete(entry.id!)))
+      advance(batch.length)
+    }
+  }
+  console.log("♻️ Respaldo restaurado:", mode, done, "operaciones")
+}
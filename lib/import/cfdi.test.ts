@@ -0,0 +1,78 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest"
+import { categoriesByIssuer, invoiceToEntry, parseCfdi, suggestInvoiceCategory } from "@/lib/import/cfdi"
+import type { Entry } from "@/lib/storage/types"
+
+const STAMP = '<tfd:TimbreFiscalDigital UUID="a1b2c3d4-0000-4000-8000-000000000001"/>'
+
+function cfdi({ kind = "I", stamp = true } = {}) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<cfdi:Comprobante xmlns:cfdi="http://www.sat.gob.mx/cfd/4" xmlns:tfd="http://www.sat.gob.mx/TimbreFiscalDigital"
+  Version="4.0" Serie="A" Folio="512" Fecha="2024-05-02T10:15:00" SubTotal="1000.00" Total="1160.00"
+  Moneda="MXN" TipoDeComprobante="${kind}">
+  <cfdi:Emisor Rfc="abc010101xy1" Nombre="Carnes El Norte"/>
+  <cfdi:Conceptos><cfdi:Concepto Descripcion="Arrachera marinada" Importe="1000.00"/></cfdi:Conceptos>
+  <cfdi:Impuestos TotalImpuestosTrasladados="160.00">
+    <cfdi:Traslados><cfdi:Traslado Impuesto="002" Importe="160.00"/></cfdi:Traslados>
+  </cfdi:Impuestos>
+  <cfdi:Complemento>${stamp ? STAMP : ""}</cfdi:Complemento>
+</cfdi:Comprobante>`
+}
+
+describe("parseCfdi", () => {
+  it("lee emisor, fecha, impuestos y UUID de una factura 4.0", () => {
+    const parsed = parseCfdi(cfdi())
+    expect(parsed.date).toBe("2024-05-02")
+    expect(parsed.currency).toBe("MXN")
+    expect(parsed.concepts).toEqual(["Arrachera marinada"])
+    expect(parsed.invoice).toEqual({
+      uuid: "A1B2C3D4-0000-4000-8000-000000000001",
+      issuer_rfc: "ABC010101XY1",
+      issuer_name: "Carnes El Norte",
+      issued_at: "2024-05-02T10:15:00",
+      series: "A",
+      folio: "512",
+      subtotal: 1000,
+      iva: 160,
+      total: 1160,
+    })
+  })
+
+  it("rechaza notas de crédito y facturas sin timbrar", () => {
+    expect(() => parseCfdi(cfdi({ kind: "E" }))).toThrow("Es una nota de crédito")
+    expect(() => parseCfdi(cfdi({ stamp: false }))).toThrow("falta el UUID")
+    expect(() => parseCfdi("<otro/>")).toThrow("No es un CFDI")
+  })
+})
+
+describe("suggestInvoiceCategory", () => {
+  const parsed = parseCfdi(cfdi())
+
+  it("repite la categoría de la última factura del proveedor", () => {
+    const previous: Entry[] = [
+      { type: "gasto", category: "Insumos", amount: 1, date: "2024-04-01", invoice: { ...parsed.invoice } },
+      { type: "gasto", category: "Carne", amount: 1, date: "2024-04-20", invoice: { ...parsed.invoice } },
+    ]
+    const byIssuer = categoriesByIssuer(previous)
+    expect(byIssuer.get("ABC010101XY1")).toBe("Carne")
+    expect(suggestInvoiceCategory(parsed, ["Insumos", "Carne"], byIssuer)).toBe("Carne")
+  })
+
+  it("con un proveedor nuevo se guía por el nombre y los conceptos", () => {
+    expect(suggestInvoiceCategory(parsed, ["Refresco", "Carne"], new Map())).toBe("Carne")
+    expect(suggestInvoiceCategory(parsed, ["Renta"], new Map())).toBe("")
+  })
+})
+
+describe("invoiceToEntry", () => {
+  it("propone un gasto por el total con serie y folio en la descripción", () => {
+    expect(invoiceToEntry(parseCfdi(cfdi()), "Carne")).toMatchObject({
+      type: "gasto",
+      category: "Carne",
+      amount: 1160,
+      currency: "MXN",
+      date: "2024-05-02",
+      description: "Carnes El Norte · Factura A-512",
+    })
+  })
+})
@@ -0,0 +1,168 @@
+import type { Entry, EntryInput, EntryInvoice } from "@/lib/storage"
+import { fromCents, toCents } from "@/lib/money"
+import { normalizeText } from "./parse"
+import { child, descendants, parseXml } from "./xml"
+
+// Factura CFDI ya leída, lista para proponer su gasto
+export interface ParsedCfdi {
+  invoice: EntryInvoice
+  // Moneda de la factura (Moneda del comprobante)
+  currency: string
+  // Fecha de emisión como YYYY-MM-DD
+  date: string
+  // Descripciones de los conceptos, para sugerir la categoría
+  concepts: string[]
+}
+
+const SUPPORTED_VERSIONS = ["4.0", "3.3"]
+
+// Claves de impuesto del SAT
+const TAX_ISR = "001"
+const TAX_IVA = "002"
+const TAX_IEPS = "003"
+
+function amountAttr(element: Element | null, name: string): number | null {
+  const raw = element?.getAttribute(name)
+  if (raw === null || raw === undefined || raw.trim() === "") return null
+  const value = Number(raw)
+  return Number.isFinite(value) ? fromCents(toCents(value)) : null
+}
+
+function sumTaxes(elements: Element[], tax: string): number {
+  return fromCents(
+    elements
+      .filter((element) => element.getAttribute("Impuesto") === tax)
+      .reduce((sum, element) => sum + toCents(amountAttr(element, "Importe") || 0), 0),
+  )
+}
+
+/**
+ * Lee el XML de una factura CFDI 4.0 (o 3.3) de proveedor: emisor, fecha, subtotal, impuestos, total y UUID.
+ * Solo se aceptan comprobantes de ingreso del emisor ("I"), que para el negocio son un gasto.
+ */
+export function parseCfdi(text: string): ParsedCfdi {
+  const doc = parseXml(text, "El XML de la factura está dañado")
+  const voucher = doc.documentElement
+  if (voucher.localName !== "Comprobante") throw new Error("No es un CFDI: falta el nodo Comprobante")
+
+  const version = voucher.getAttribute("Version") || voucher.getAttribute("version") || ""
+  if (!SUPPORTED_VERSIONS.includes(version)) throw new Error(`Versión de CFDI no soportada: "${version}"`)
+  const kind = voucher.getAttribute("TipoDeComprobante")
+  if (kind !== "I") {
+    throw new Error(
+      kind === "E"
+        ? "Es una nota de crédito (egreso); solo se importan facturas de ingreso"
+        : `Tipo de comprobante "${kind}" no es una factura de compra`,
+    )
+  }
+
+  const stamp = descendants(voucher, "TimbreFiscalDigital")[0]
+  const uuid = stamp?.getAttribute("UUID")?.trim().toUpperCase()
+  if (!uuid) throw new Error("La factura no está timbrada: falta el UUID")
+
+  const issuer = child(voucher, "Emisor")
+  const issuerRfc = issuer?.getAttribute("Rfc")?.trim().toUpperCase()
+  if (!issuerRfc) throw new Error("Falta el RFC del emisor")
+
+  const issuedAt = voucher.getAttribute("Fecha") || ""
+  const date = issuedAt.match(/^\d{4}-\d{2}-\d{2}/)?.[0]
+  if (!date) throw new Error(`Fecha de emisión inválida: "${issuedAt}"`)
+
+  const subtotal = amountAttr(voucher, "SubTotal")
+  const total = amountAttr(voucher, "Total")
+  if (subtotal === null || total === null || total <= 0) throw new Error("Subtotal o total inválido")
+
+  // Impuestos del comprobante (no los de cada concepto, que ya están sumados aquí)
+  const taxes = child(voucher, "Impuestos")
+  const transferred = Array.from(child(taxes, "Traslados")?.children || [])
+  const withheldTaxes = Array.from(child(taxes, "Retenciones")?.children || [])
+  const ieps = sumTaxes(transferred, TAX_IEPS)
+  const withheld = amountAttr(taxes, "TotalImpuestosRetenidos") ?? fromCents(
+    toCents(sumTaxes(withheldTaxes, TAX_ISR)) + toCents(sumTaxes(withheldTaxes, TAX_IVA)),
+  )
+  const discount = amountAttr(voucher, "Descuento")
+
+  const invoice: EntryInvoice = {
+    uuid,
+    issuer_rfc: issuerRfc,
+    issued_at: issuedAt,
+    subtotal,
+    iva: sumTaxes(transferred, TAX_IVA),
+    total,
+  }
+  const issuerName = issuer?.getAttribute("Nombre")?.trim()
+  if (issuerName) invoice.issuer_name = issuerName
+  const series = voucher.getAttribute("Serie")?.trim()
+  if (series) invoice.series = series
+  const folio = voucher.getAttribute("Folio")?.trim()
+  if (folio) invoice.folio = folio
+  if (discount) invoice.discount = discount
+  if (ieps) invoice.ieps = ieps
+  if (withheld) invoice.withheld = withheld
+
+  return {
+    invoice,
+    currency: voucher.getAttribute("Moneda") || "MXN",
+    date,
+    concepts: descendants(voucher, "Concepto").map((concept) => concept.getAttribute("Descripcion") || ""),
+  }
+}
+
+// Palabras del emisor o de los conceptos que apuntan a cada categoría de gasto (por nombre normalizado)
+const CATEGORY_KEYWORDS: { [category: string]: string[] } = {
+  carne: ["carne", "carnes", "carniceria", "res", "cerdo", "pollo", "arrachera", "bistec", "chorizo", "suadero"],
+  refresco: ["refresco", "refrescos", "bebida", "bebidas", "embotelladora", "coca", "pepsi", "jarritos"],
+  agua: ["agua", "garrafon", "purificadora"],
+  gas: ["gas lp", "gas natural", "gaseras"],
+  transporte: ["flete", "fletes", "transporte", "paqueteria"],
+  servicios: ["cfe", "telmex", "internet", "telefonia", "energia electrica"],
+  insumos: ["abarrotes", "tortilla", "tortillas", "verdura", "verduras", "desechable", "desechables", "insumos"],
+}
+
+function containsWord(text: string, word: string) {
+  return new RegExp(`(^|[^a-z0-9])${word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}($|[^a-z0-9])`).test(text)
+}
+
+// Última categoría usada para cada RFC en las facturas ya importadas
+export function categoriesByIssuer(entries: Entry[]): Map<string, string> {
+  const byIssuer = new Map<string, string>()
+  ;[...entries]
+    .filter((entry) => entry.type === "gasto" && entry.invoice)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach((entry) => byIssuer.set(entry.invoice!.issuer_rfc, entry.category))
+  return byIssuer
+}
+
+/**
+ * Categoría sugerida: la misma que la última factura del proveedor; si es nuevo, la que indiquen su nombre
+ * o los conceptos. Cadena vacía si no hay pista (hay que elegirla).
+ */
+export function suggestInvoiceCategory(
+  parsed: ParsedCfdi,
+  expenseCategories: string[],
+  byIssuer: Map<string, string>,
+): string {
+  const previous = byIssuer.get(parsed.invoice.issuer_rfc)
+  if (previous && expenseCategories.includes(previous)) return previous
+
+  const text = normalizeText([parsed.invoice.issuer_name || "", ...parsed.concepts].join(" "))
+  const match = expenseCategories.find((name) => {
+    const key = normalizeText(name)
+    return [key, ...(CATEGORY_KEYWORDS[key] || [])].some((word) => containsWord(text, word))
+  })
+  return match || ""
+}
+
+export function invoiceToEntry(parsed: ParsedCfdi, category: string): EntryInput {
+  const { invoice } = parsed
+  const number = [invoice.series, invoice.folio].filter(Boolean).join("-")
+  return {
+    type: "gasto",
+    category,
+    amount: invoice.total,
+    currency: parsed.currency,
+    date: parsed.date,
+    description: `${invoice.issuer_name || invoice.issuer_rfc} · Factura ${number || invoice.uuid.slice(0, 8)}`,
+    invoice,
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest"
+import { guessMapping, parseCsv } from "@/lib/import/csv"
+import { parseAmount, parseSpanishDate } from "@/lib/import/parse"
+
+describe("parseCsv", () => {
+  it("detecta el punto y coma de Excel en español y quita el BOM", () => {
+    const table = parseCsv("\uFEFFFecha;Monto;Concepto\r\n02/05/2024;1.250,50;Venta\r\n\r\n03/05/2024;80;Gas\r\n")
+    expect(table.headers).toEqual(["Fecha", "Monto", "Concepto"])
+    expect(table.rows).toEqual([
+      ["02/05/2024", "1.250,50", "Venta"],
+      ["03/05/2024", "80", "Gas"],
+    ])
+  })
+
+  it("respeta comillas con separadores, saltos de línea y comillas escapadas", () => {
+    const table = parseCsv('fecha,monto,descripcion\n2024-05-02,"1,250.50","Tacos ""El Güero""\ncon salsa"')
+    expect(table.rows).toEqual([["2024-05-02", "1,250.50", 'Tacos "El Güero"\ncon salsa']])
+  })
+})
+
+describe("guessMapping", () => {
+  it("reconoce encabezados con acentos y sinónimos", () => {
+    expect(guessMapping(["Día", "Importe", "Categoría", "Concepto", "Otra"])).toEqual({
+      type: null,
+      category: 2,
+      amount: 1,
+      date: 0,
+      description: 3,
+    })
+  })
+})
+
+describe("parseAmount", () => {
+  it("usa el separador decimal elegido", () => {
+    expect(parseAmount("1.250,50", ",")).toBe(125050)
+    expect(parseAmount("1,250.50", ".")).toBe(125050)
+    expect(parseAmount("(150,00)", ",")).toBe(-15000)
+  })
+
+  it("con separador explícito no lee tres decimales como miles", () => {
+    expect(parseAmount("1,250", ",")).toBeNull()
+    expect(parseAmount("1.250", ".")).toBeNull()
+    expect(parseAmount("abc")).toBeNull()
+  })
+})
+
+describe("parseSpanishDate", () => {
+  it("lee el día antes que el mes y los meses por nombre", () => {
+    expect(parseSpanishDate("05/03/2024")).toBe("2024-03-05")
+    expect(parseSpanishDate("5 de marzo de 24")).toBe("2024-03-05")
+    expect(parseSpanishDate("05-mar-2024 10:30")).toBe("2024-03-05")
+    expect(parseSpanishDate("31/02/2024")).toBeNull()
+  })
+})
@@ -0,0 +1,102 @@
+import { normalizeText } from "./parse"
+
+// Campos de una entrada que se pueden tomar de una columna del archivo
+export type ImportField = "type" | "category" | "amount" | "date" | "description"
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  type: "Tipo",
+  category: "Categoría",
+  amount: "Monto",
+  date: "Fecha",
+  description: "Descripción",
+}
+
+// Índice de columna por campo; null = no se importa
+export type ColumnMapping = Record<ImportField, number | null>
+
+export interface CsvTable {
+  headers: string[]
+  rows: string[][]
+}
+
+// Excel en español guarda con ";" porque la coma es el separador decimal
+function detectDelimiter(firstLine: string): string {
+  const candidates = [";", ",", "\t"]
+  let best = ","
+  let bestCount = 0
+  candidates.forEach((candidate) => {
+    const count = firstLine.split(candidate).length - 1
+    if (count > bestCount) {
+      best = candidate
+      bestCount = count
+    }
+  })
+  return best
+}
+
+/**
+ * Lee un CSV con comillas dobles (campos con saltos de línea, "" como comilla escapada).
+ * La primera fila son los encabezados; se omiten las filas vacías.
+ */
+export function parseCsv(text: string): CsvTable {
+  const content = text.replace(/^\uFEFF/, "")
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] || "")
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true
+    } else if (char === delimiter) {
+      record.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  const nonEmpty = records.filter((row) => row.some((value) => value.trim() !== ""))
+  const [headers = [], ...rows] = nonEmpty
+  return { headers: headers.map((header) => header.trim()), rows }
+}
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  type: ["tipo", "type", "movimiento", "clase"],
+  category: ["categoria", "category", "rubro", "cuenta"],
+  amount: ["monto", "importe", "cantidad", "amount", "total", "valor"],
+  date: ["fecha", "date", "dia"],
+  description: ["descripcion", "description", "concepto", "detalle", "nota", "notas"],
+}
+
+// Propone qué columna va a cada campo según el nombre del encabezado
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeText)
+  const mapping = {} as ColumnMapping
+  ;(Object.keys(HEADER_ALIASES) as ImportField[]).forEach((field) => {
+    const index = normalized.findIndex((header) => HEADER_ALIASES[field].includes(header))
+    mapping[field] = index >= 0 ? index : null
+  })
+  return mapping
+}
@@ -0,0 +1,96 @@
+import type { Entry } from "@/lib/storage"
+import { parseMoney, type Cents } from "@/lib/money"
+
+// Separador decimal de los montos del archivo; "auto" deja que parseMoney lo deduzca
+export type DecimalSeparator = "auto" | "," | "."
+
+const MONTHS: { [prefix: string]: number } = {
+  ene: 1,
+  feb: 2,
+  mar: 3,
+  abr: 4,
+  may: 5,
+  jun: 6,
+  jul: 7,
+  ago: 8,
+  sep: 9,
+  set: 9,
+  oct: 10,
+  nov: 11,
+  dic: 12,
+}
+
+// Minúsculas y sin acentos, para comparar encabezados y valores escritos a mano
+export function normalizeText(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000
+  const date = new Date(year, month - 1, day)
+  // Rechaza fechas que no existen, como 31/02
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`
+}
+
+/**
+ * Fecha en formato YYYY-MM-DD a partir de cómo se escribe en español: "05/03/2024", "5-3-24", "5.3.2024",
+ * "5 de marzo de 2024", "05-mar-2024" o ya en ISO ("2024-03-05"). El día va antes que el mes; se ignora la hora.
+ */
+export function parseSpanishDate(input: string): string | null {
+  const text = normalizeText(input).replace(/[ t]\d{1,2}:\d{2}(:\d{2})?.*$/, "")
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+  if (iso) return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]))
+
+  const numeric = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/)
+  if (numeric) return toIsoDate(Number(numeric[3]), Number(numeric[2]), Number(numeric[1]))
+
+  const named = text.match(/^(\d{1,2})(?:\s+de\s+|[\s/.-]+)([a-z]+)\.?(?:\s+de\s+|[\s/.-]+)(\d{2}|\d{4})$/)
+  if (named) {
+    const month = MONTHS[named[2].slice(0, 3)]
+    return month ? toIsoDate(Number(named[3]), month, Number(named[1])) : null
+  }
+  return null
+}
+
+// Monto en centavos respetando el separador decimal elegido ("1.250,50" con coma, "1,250.50" con punto)
+export function parseAmount(input: string, decimal: DecimalSeparator = "auto"): Cents | null {
+  const text = input.trim().replace(/\s/g, "")
+  // Paréntesis contables: (150,00) es negativo
+  const parenthesized = /^\(.*\)$/.test(text)
+  const bare = parenthesized ? text.slice(1, -1) : text
+  const normalized =
+    decimal === "," ? bare.replace(/\./g, "").replace(",", ".") : decimal === "." ? bare.replace(/,/g, "") : bare
+  // Con el separador elegido "1.250" son tres decimales, no miles (parseMoney lo leería como 1250)
+  if (decimal !== "auto" && /\.\d{3}$/.test(normalized)) return null
+  const cents = parseMoney(normalized)
+  if (cents === null) return null
+  return parenthesized ? -Math.abs(cents) : cents
+}
+
+const TYPE_ALIASES: { [alias: string]: Entry["type"] } = {
+  gasto: "gasto",
+  gastos: "gasto",
+  egreso: "gasto",
+  egresos: "gasto",
+  salida: "gasto",
+  cargo: "gasto",
+  ingreso: "ingreso",
+  ingresos: "ingreso",
+  entrada: "ingreso",
+  venta: "ingreso",
+  ventas: "ingreso",
+  abono: "ingreso",
+  inversion: "inversion",
+  inversiones: "inversion",
+}
+
+// Tipo de entrada escrito de varias formas ("Egreso", "Inversión", "ventas")
+export function parseEntryType(input: string): Entry["type"] | null {
+  return TYPE_ALIASES[normalizeText(input)] || null
+}
@@ -0,0 +1,107 @@
+import type { EntriesStorage, Entry, EntryInput, EntryQuery } from "@/lib/storage"
+import { fromCents, toCents } from "@/lib/money"
+import type { ColumnMapping, CsvTable } from "./csv"
+import { normalizeText, parseAmount, parseEntryType, parseSpanishDate, type DecimalSeparator } from "./parse"
+
+// Una fila del archivo ya interpretada, lista para revisar antes de importar
+export interface ImportCandidate {
+  // Número de línea en el archivo (la 1 son los encabezados)
+  line: number
+  // null si la fila tiene errores
+  entry: EntryInput | null
+  errors: string[]
+  // Avisos que no impiden importar (p. ej. una categoría que aún no existe)
+  warnings: string[]
+  // Ya hay una entrada igual (misma fecha, tipo, categoría y monto)
+  duplicate: boolean
+}
+
+export interface CsvImportOptions {
+  mapping: ColumnMapping
+  decimal: DecimalSeparator
+  // Categorías existentes por tipo, para avisar de las nuevas
+  categoryNames?: (type: Entry["type"]) => string[]
+}
+
+/**
+ * Interpreta cada fila según el mapeo de columnas. Sin columna de tipo, los montos negativos son gastos
+ * y los positivos ingresos (como en un estado de cuenta).
+ */
+export function csvRowsToCandidates(table: CsvTable, options: CsvImportOptions): ImportCandidate[] {
+  const { mapping, decimal, categoryNames } = options
+  const cell = (row: string[], index: number | null) => (index === null ? "" : (row[index] || "").trim())
+
+  return table.rows.map((row, index) => {
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    const rawDate = cell(row, mapping.date)
+    const date = parseSpanishDate(rawDate)
+    if (!date) errors.push(rawDate ? `Fecha no reconocida: "${rawDate}"` : "Falta la fecha")
+
+    const rawAmount = cell(row, mapping.amount)
+    const cents = parseAmount(rawAmount, decimal)
+    if (cents === null || cents === 0) errors.push(rawAmount ? `Monto inválido: "${rawAmount}"` : "Falta el monto")
+
+    let type: Entry["type"] | null = null
+    if (mapping.type !== null) {
+      const rawType = cell(row, mapping.type)
+      type = parseEntryType(rawType)
+      if (!type) errors.push(rawType ? `Tipo desconocido: "${rawType}"` : "Falta el tipo")
+    } else if (cents) {
+      type = cents < 0 ? "gasto" : "ingreso"
+    }
+
+    const category = cell(row, mapping.category)
+    if (!category) errors.push("Falta la categoría")
+
+    let entry: EntryInput | null = null
+    if (errors.length === 0 && date && cents && type) {
+      // Nombre tal como está registrado si solo cambian mayúsculas o acentos
+      const known = categoryNames?.(type) || []
+      const match = known.find((name) => normalizeText(name) === normalizeText(category))
+      if (categoryNames && !match) warnings.push(`Categoría nueva: "${category}"`)
+      const description = cell(row, mapping.description)
+      entry = {
+        type,
+        category: match || category,
+        amount: fromCents(Math.abs(cents)),
+        date,
+        description: description || undefined,
+      }
+    }
+
+    return { line: index + 2, entry, errors, warnings, duplicate: false }
+  })
+}
+
+function duplicateKey(entry: Pick<Entry, "date" | "type" | "category" | "amount">) {
+  return `${entry.date}|${entry.type}|${normalizeText(entry.category)}|${toCents(entry.amount)}`
+}
+
+// Marca como posibles duplicadas las filas iguales a una entrada existente
+export function markDuplicates(candidates: ImportCandidate[], existing: Entry[]): ImportCandidate[] {
+  const keys = new Set(existing.map(duplicateKey))
+  return candidates.map((candidate) => ({
+    ...candidate,
+    duplicate: candidate.entry !== null && keys.has(duplicateKey(candidate.entry)),
+  }))
+}
+
+// Rango de fechas que cubren las filas válidas, para traer solo esas entradas al buscar duplicadas
+export function candidateRange(candidates: ImportCandidate[]): { from: string; to: string } | null {
+  const dates = candidates.flatMap((candidate) => (candidate.entry ? [candidate.entry.date] : [])).sort()
+  return dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : null
+}
+
+// Todas las entradas que cumplen la consulta, página por página (sin filtros: todo el negocio)
+export async function loadEntries(storage: EntriesStorage, query: EntryQuery = {}): Promise<Entry[]> {
+  const entries: Entry[] = []
+  let cursor: string | null = null
+  do {
+    const page = await storage.query({ ...query, cursor, limit: 500 })
+    entries.push(...page.entries)
+    cursor = page.nextCursor
+  } while (cursor)
+  return entries
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+import { candidateToEntry, markImported, suggestEntries, type ImportRule } from "@/lib/import/rules"
+import type { BankTransaction } from "@/lib/import/statement"
+import type { Entry } from "@/lib/storage/types"
+
+const rules: ImportRule[] = [
+  { id: "r1", pattern: "oxxo", type: "gasto", category: "insumos" },
+  { id: "r2", pattern: "oxxo gas", type: "gasto", category: "Gas" },
+  { id: "r3", pattern: "spei", type: "ingreso", category: "Ventas" },
+]
+
+const categoryNames = (type: Entry["type"]) => (type === "gasto" ? ["Insumos", "Gas"] : ["Ventas", "Transferencia"])
+
+const transaction = (id: string, amount: number, description: string): BankTransaction => ({
+  id,
+  date: "2024-05-02",
+  amount,
+  description,
+})
+
+describe("suggestEntries", () => {
+  it("gana la regla más específica y toma el nombre de la categoría como existe", () => {
+    const [gas, store] = suggestEntries(
+      [transaction("1", -50000, "OXXO GAS Sucursal 12"), transaction("2", -8000, "Oxxo Centro")],
+      rules,
+      categoryNames,
+    )
+    expect([gas.type, gas.category, gas.rule?.id]).toEqual(["gasto", "Gas", "r2"])
+    expect([store.category, store.rule?.id]).toEqual(["Insumos", "r1"])
+  })
+
+  it("una regla de ingreso no aplica a un cargo; sin regla los abonos van a Transferencia", () => {
+    const [debit, credit] = suggestEntries(
+      [transaction("1", -1000, "SPEI enviado"), transaction("2", 1000, "Depósito")],
+      rules,
+      categoryNames,
+    )
+    expect([debit.type, debit.category, debit.rule]).toEqual(["gasto", "", null])
+    expect([credit.type, credit.category]).toEqual(["ingreso", "Transferencia"])
+  })
+})
+
+describe("markImported", () => {
+  it("desmarca los movimientos que ya se importaron", () => {
+    const candidates = suggestEntries([transaction("1", -1000, "x"), transaction("2", -1000, "y")], [], categoryNames)
+    const marked = markImported(candidates, new Set(["2"]))
+    expect(marked.map((candidate) => [candidate.alreadyImported, candidate.selected])).toEqual([
+      [false, true],
+      [true, false],
+    ])
+  })
+})
+
+describe("candidateToEntry", () => {
+  it("guarda el monto sin signo y el id del movimiento", () => {
+    const [candidate] = suggestEntries([transaction("cta:99", -125050, "Oxxo")], rules, categoryNames)
+    expect(candidateToEntry(candidate)).toEqual({
+      type: "gasto",
+      category: "Insumos",
+      amount: 1250.5,
+      date: "2024-05-02",
+      description: "Oxxo",
+      bank_transaction_id: "cta:99",
+    })
+  })
+})
@@ -0,0 +1,159 @@
+import { supabase } from "@/lib/supabase"
+import { generateEntryId, getConfiguredBackend, type Entry, type EntryInput } from "@/lib/storage"
+import { fromCents } from "@/lib/money"
+import { normalizeText } from "./parse"
+import type { BankTransaction } from "./statement"
+
+// "Si la descripción del movimiento contiene `pattern`, es un <type> de <category>"
+export interface ImportRule {
+  id: string
+  workspace_id?: string
+  pattern: string
+  type: Entry["type"]
+  category: string
+  created_at?: string
+  updated_at?: string
+}
+
+export type ImportRuleInput = Pick<ImportRule, "pattern" | "type" | "category">
+
+// Categoría de ingreso a la que van los abonos que ninguna regla reconoce
+export const DEFAULT_CREDIT_CATEGORY = "Transferencia"
+
+// Un movimiento del banco con su entrada propuesta, lista para revisar
+export interface StatementCandidate {
+  transaction: BankTransaction
+  type: Entry["type"]
+  // Vacía si ninguna regla la sugiere: hay que elegirla antes de importar
+  category: string
+  // Regla que hizo la sugerencia
+  rule: ImportRule | null
+  // Ya existe una entrada con el mismo id de movimiento
+  alreadyImported: boolean
+  selected: boolean
+}
+
+// Los abonos solo pueden ser ingresos y los cargos, gastos o inversiones
+function matchesDirection(rule: ImportRule, transaction: BankTransaction) {
+  return transaction.amount > 0 ? rule.type === "ingreso" : rule.type !== "ingreso"
+}
+
+/**
+ * Propone tipo y categoría para cada movimiento: gana la regla de patrón más largo (la más específica).
+ * Sin regla, los abonos son ingresos de "Transferencia" y los cargos, gastos sin categoría.
+ */
+export function suggestEntries(
+  transactions: BankTransaction[],
+  rules: ImportRule[],
+  categoryNames: (type: Entry["type"]) => string[],
+): StatementCandidate[] {
+  const ordered = [...rules].sort((a, b) => b.pattern.length - a.pattern.length)
+  const knownName = (type: Entry["type"], name: string) =>
+    categoryNames(type).find((known) => normalizeText(known) === normalizeText(name)) || name
+
+  return transactions.map((transaction) => {
+    const text = normalizeText(transaction.description)
+    const rule =
+      ordered.find((candidate) => matchesDirection(candidate, transaction) && text.includes(normalizeText(candidate.pattern))) ||
+      null
+    const type: Entry["type"] = rule ? rule.type : transaction.amount > 0 ? "ingreso" : "gasto"
+    const category = rule
+      ? knownName(rule.type, rule.category)
+      : transaction.amount > 0
+        ? knownName("ingreso", DEFAULT_CREDIT_CATEGORY)
+        : ""
+    return { transaction, type, category, rule, alreadyImported: false, selected: true }
+  })
+}
+
+export function markImported(candidates: StatementCandidate[], importedIds: Set<string>): StatementCandidate[] {
+  return candidates.map((candidate) => {
+    const alreadyImported = importedIds.has(candidate.transaction.id)
+    return { ...candidate, alreadyImported, selected: candidate.selected && !alreadyImported }
+  })
+}
+
+export function candidateToEntry(candidate: StatementCandidate): EntryInput {
+  const { transaction } = candidate
+  return {
+    type: candidate.type,
+    category: candidate.category,
+    amount: fromCents(Math.abs(transaction.amount)),
+    ...(transaction.currency ? { currency: transaction.currency } : {}),
+    date: transaction.date,
+    description: transaction.description || undefined,
+    bank_transaction_id: transaction.id,
+  }
+}
+
+const LOCAL_RULES_KEY = "gestion-financiera-import-rules"
+
+function loadLocalRules(workspaceId: string): ImportRule[] {
+  const stored = typeof window !== "undefined" ? window.localStorage.getItem(`${LOCAL_RULES_KEY}:${workspaceId}`) : null
+  return stored ? JSON.parse(stored) : []
+}
+
+function saveLocalRules(workspaceId: string, rules: ImportRule[]) {
+  if (typeof window !== "undefined") {
+    window.localStorage.setItem(`${LOCAL_RULES_KEY}:${workspaceId}`, JSON.stringify(rules))
+  }
+}
+
+function isLocalBackend() {
+  return getConfiguredBackend() !== "supabase"
+}
+
+// Reglas de sugerencia por negocio (ver scripts/create-bank-import.sql)
+export const importRulesService = {
+  async list(workspaceId: string): Promise<ImportRule[]> {
+    if (isLocalBackend()) return loadLocalRules(workspaceId)
+
+    const { data, error } = await supabase
+      .from("import_rules")
+      .select("*")
+      .eq("workspace_id", workspaceId)
+      .order("pattern")
+    if (error) {
+      console.error("❌ Error cargando reglas de importación:", error)
+      throw error
+    }
+    return data || []
+  },
+
+  async create(workspaceId: string, input: ImportRuleInput): Promise<ImportRule> {
+    console.log("🏦 Creando regla de importación:", input.pattern, "→", input.type, input.category)
+    if (isLocalBackend()) {
+      const now = new Date().toISOString()
+      const rule: ImportRule = { ...input, id: generateEntryId(), workspace_id: workspaceId, created_at: now, updated_at: now }
+      saveLocalRules(workspaceId, [...loadLocalRules(workspaceId), rule])
+      return rule
+    }
+
+    const { data, error } = await supabase
+      .from("import_rules")
+      .insert([{ ...input, workspace_id: workspaceId }])
+      .select()
+      .single()
+    if (error) {
+      console.error("❌ Error creando regla de importación:", error)
+      throw error
+    }
+    return data
+  },
+
+  async remove(workspaceId: string, id: string): Promise<void> {
+    if (isLocalBackend()) {
+      saveLocalRules(
+        workspaceId,
+        loadLocalRules(workspaceId).filter((rule) => rule.id !== id),
+      )
+      return
+    }
+
+    const { error } = await supabase.from("import_rules").delete().eq("id", id)
+    if (error) {
+      console.error("❌ Error eliminando regla de importación:", error)
+      throw error
+    }
+  },
+}
@@ -0,0 +1,84 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest"
+import { detectStatementFormat, parseStatement } from "@/lib/import/statement"
+
+const OFX = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>MXN
+<BANKACCTFROM><ACCTID>0123<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240502120000.000[-6:CST]<TRNAMT>-1250.50<FITID>A1
+<NAME>OXXO GAS<MEMO>Sucursal 12</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240503<TRNAMT>3000.00<FITID>A2<NAME>SPEI</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240503<TRNAMT>3000.00<FITID>A2<NAME>SPEI</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`
+
+const QIF = `!Type:Bank
+D05/14/2024
+T-80.00
+PGasera
+^
+D05/14/2024
+T-80.00
+PGasera
+^
+D05/15/2024
+T1,500.00
+PVenta
+MMostrador
+^`
+
+const CAMT = `<?xml version="1.0"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"><BkToCstmrStmt><Stmt>
+<Acct><Id><IBAN>ES001</IBAN></Id></Acct>
+<Ntry><Amt Ccy="EUR">45.10</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>BOOK</Sts><BookgDt><Dt>2024-05-02</Dt></BookgDt>
+<AcctSvcrRef>R1</AcctSvcrRef><NtryDtls><TxDtls><RltdPties><Cdtr><Nm>Proveedor</Nm></Cdtr></RltdPties>
+<RmtInf><Ustrd>Factura 12</Ustrd></RmtInf></TxDtls></NtryDtls></Ntry>
+<Ntry><Amt Ccy="EUR">100.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Sts>PDNG</Sts><BookgDt><Dt>2024-05-03</Dt></BookgDt></Ntry>
+</Stmt></BkToCstmrStmt></Document>`
+
+describe("detectStatementFormat", () => {
+  it("reconoce el formato por extensión o por contenido", () => {
+    expect(detectStatementFormat("", "movimientos.QFX")).toBe("ofx")
+    expect(detectStatementFormat(QIF, "export.txt")).toBe("qif")
+    expect(detectStatementFormat(CAMT, "estado.xml")).toBe("camt053")
+    expect(detectStatementFormat("fecha,monto", "datos.csv")).toBeNull()
+  })
+})
+
+describe("parseStatement", () => {
+  it("OFX: montos con signo, id con la cuenta y sin repetidos", () => {
+    const statement = parseStatement(OFX, "banco.ofx")
+    expect(statement.account).toBe("0123")
+    expect(statement.transactions).toEqual([
+      { id: "0123:A1", date: "2024-05-02", amount: -125050, description: "OXXO GAS · Sucursal 12", currency: "MXN" },
+      { id: "0123:A2", date: "2024-05-03", amount: 300000, description: "SPEI", currency: "MXN" },
+    ])
+  })
+
+  it("QIF: detecta mes/día y distingue movimientos idénticos", () => {
+    const { transactions } = parseStatement(QIF, "banco.qif")
+    expect(transactions.map((transaction) => [transaction.date, transaction.amount])).toEqual([
+      ["2024-05-14", -8000],
+      ["2024-05-14", -8000],
+      ["2024-05-15", 150000],
+    ])
+    expect(transactions[0].id).not.toBe(transactions[1].id)
+    expect(transactions[2].description).toBe("Venta · Mostrador")
+  })
+
+  it("CAMT.053: solo movimientos asentados, con el signo de CdtDbtInd", () => {
+    const statement = parseStatement(CAMT, "estado.xml")
+    expect(statement.account).toBe("ES001")
+    expect(statement.transactions).toEqual([
+      { id: "ES001:R1", date: "2024-05-02", amount: -4510, description: "Proveedor · Factura 12", currency: "EUR" },
+    ])
+  })
+
+  it("rechaza archivos sin movimientos o con uno ilegible", () => {
+    expect(() => parseStatement("!Type:Bank\n", "vacio.qif")).toThrow("El estado de cuenta no tiene movimientos")
+    expect(() => parseStatement("D99/99/2024\nT10\n^", "malo.qif")).toThrow("Movimiento 1 del QIF")
+    expect(() => parseStatement("hola", "notas.txt")).toThrow("No se reconoce el formato")
+  })
+})
@@ -0,0 +1,237 @@
+import type { Cents } from "@/lib/money"
+import { normalizeText, parseAmount, parseSpanishDate } from "./parse"
+import { child, childText, descendants, parseXml } from "./xml"
+
+export type StatementFormat = "ofx" | "qif" | "camt053"
+
+export const STATEMENT_FORMAT_LABELS: Record<StatementFormat, string> = {
+  ofx: "OFX",
+  qif: "QIF",
+  camt053: "CAMT.053",
+}
+
+// Un movimiento del estado de cuenta
+export interface BankTransaction {
+  // Id del movimiento en el banco, con la cuenta como prefijo; es lo que evita importarlo dos veces
+  id: string
+  date: string
+  // Con signo: positivo = abono (entra dinero), negativo = cargo
+  amount: Cents
+  description: string
+  currency?: string
+}
+
+export interface BankStatement {
+  format: StatementFormat
+  account: string | null
+  transactions: BankTransaction[]
+}
+
+// Cabe en entries.bank_transaction_id (ver scripts/create-bank-import.sql)
+const MAX_ID_LENGTH = 200
+
+function transactionId(account: string | null, id: string) {
+  return (account ? `${account}:${id}` : id).slice(0, MAX_ID_LENGTH)
+}
+
+function joinText(parts: (string | null | undefined)[]) {
+  return parts
+    .map((part) => part?.replace(/\s+/g, " ").trim())
+    .filter((part, index, all): part is string => !!part && all.indexOf(part) === index)
+    .join(" · ")
+}
+
+// Los formatos sin id propio reciben uno a partir del contenido; el contador separa movimientos idénticos
+function syntheticIds() {
+  const seen = new Map<string, number>()
+  return (date: string, amount: Cents, description: string) => {
+    const key = `${date}:${amount}:${normalizeText(description).replace(/\s+/g, " ")}`
+    const count = (seen.get(key) || 0) + 1
+    seen.set(key, count)
+    return `${key}#${count}`
+  }
+}
+
+export function detectStatementFormat(text: string, fileName: string): StatementFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop()
+  if (extension === "ofx" || extension === "qfx" || /<OFX>/i.test(text)) return "ofx"
+  if (extension === "qif" || /^\s*!Type:/im.test(text)) return "qif"
+  if (/camt\.053/i.test(text) || /<(\w+:)?BkToCstmrStmt[\s>]/.test(text)) return "camt053"
+  return null
+}
+
+// ---- OFX (1.x SGML y 2.x XML) ----
+
+// En OFX 1.x las etiquetas simples no se cierran: <TRNAMT>-50.00
+function ofxField(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>\\s*([^<\\r\\n]+)`, "i"))
+  return match ? match[1].trim() : null
+}
+
+// Montos con punto decimal; algunos bancos usan coma
+function ofxAmount(value: string | null): Cents | null {
+  if (!value) return null
+  return parseAmount(value, value.includes(".") ? "." : ",")
+}
+
+// 20240315120000.000[-6:CST] → 2024-03-15
+function ofxDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/)
+  return match ? parseSpanishDate(`${match[1]}-${match[2]}-${match[3]}`) : null
+}
+
+function parseOfx(text: string): BankStatement {
+  const statements = Array.from(text.matchAll(/<(?:CC)?STMTRS>([\s\S]*?)<\/(?:CC)?STMTRS>/gi)).map((match) => match[1])
+  const transactions: BankTransaction[] = []
+  let firstAccount: string | null = null
+
+  ;(statements.length > 0 ? statements : [text]).forEach((statement) => {
+    const account = ofxField(statement, "ACCTID")
+    const currency = ofxField(statement, "CURDEF") || undefined
+    firstAccount = firstAccount || account
+    const nextSyntheticId = syntheticIds()
+
+    for (const match of statement.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi)) {
+      const block = match[1]
+      const date = ofxDate(ofxField(block, "DTPOSTED"))
+      const amount = ofxAmount(ofxField(block, "TRNAMT"))
+      if (!date || !amount) throw new Error(`Movimiento OFX ilegible: ${block.replace(/\s+/g, " ").slice(0, 80)}`)
+      const description = joinText([ofxField(block, "NAME"), ofxField(block, "PAYEE"), ofxField(block, "MEMO")])
+      const fitId = ofxField(block, "FITID")
+      transactions.push({
+        id: transactionId(account, fitId || nextSyntheticId(date, amount, description)),
+        date,
+        amount,
+        description,
+        currency: ofxField(block, "CURRENCY") || currency,
+      })
+    }
+  })
+
+  return { format: "ofx", account: firstAccount, transactions }
+}
+
+// ---- QIF ----
+
+// Día/mes o mes/día según el archivo: si algún día pasa de 12 queda claro; si no, día primero
+function qifDateParser(rawDates: string[]) {
+  const parts = rawDates.map((raw) => raw.replace(/'/g, "/").trim().split(/[/.-]/).map(Number))
+  const monthFirst =
+    parts.some((p) => p.length === 3 && p[0] <= 31 && p[1] > 12) && !parts.some((p) => p.length === 3 && p[0] > 12)
+  return (raw: string) => {
+    const text = raw.replace(/'/g, "/").trim()
+    if (!monthFirst) return parseSpanishDate(text)
+    const [month, day, year] = text.split(/[/.-]/)
+    return parseSpanishDate(`${day}/${month}/${year}`)
+  }
+}
+
+function parseQif(text: string): BankStatement {
+  const records: { [field: string]: string[] }[] = []
+  let record: { [field: string]: string[] } = {}
+
+  text.split(/\r?\n/).forEach((line) => {
+    if (line.startsWith("!")) return
+    if (line.trim() === "^") {
+      if (Object.keys(record).length > 0) records.push(record)
+      record = {}
+      return
+    }
+    if (!line.trim()) return
+    const field = line[0]
+    record[field] = [...(record[field] || []), line.slice(1).trim()]
+  })
+  if (Object.keys(record).length > 0) records.push(record)
+
+  const parseDate = qifDateParser(records.map((r) => r.D?.[0] || ""))
+  const nextSyntheticId = syntheticIds()
+  const transactions = records.map((r, index) => {
+    const date = parseDate(r.D?.[0] || "")
+    const amount = parseAmount(r.T?.[0] || r.U?.[0] || "")
+    if (!date || !amount) throw new Error(`Movimiento ${index + 1} del QIF sin fecha o monto válido`)
+    const description = joinText([r.P?.[0], r.M?.[0]])
+    // QIF no trae id de movimiento: se arma con fecha, monto y descripción
+    return { id: transactionId(null, `qif:${nextSyntheticId(date, amount, description)}`), date, amount, description }
+  })
+
+  return { format: "qif", account: null, transactions }
+}
+
+// ---- CAMT.053 (ISO 20022) ----
+
+function parseCamt053(text: string): BankStatement {
+  const doc = parseXml(text, "El XML del estado de cuenta está dañado")
+
+  const transactions: BankTransaction[] = []
+  let firstAccount: string | null = null
+
+  descendants(doc.documentElement, "Stmt").forEach((statement) => {
+    const account = childText(statement, "Acct", "Id", "IBAN") || childText(statement, "Acct", "Id", "Othr", "Id")
+    firstAccount = firstAccount || account
+    const nextSyntheticId = syntheticIds()
+
+    Array.from(statement.children)
+      .filter((node) => node.localName === "Ntry")
+      .forEach((entry, index) => {
+        // Solo movimientos ya asentados, no los pendientes
+        const status = childText(entry, "Sts", "Cd") || childText(entry, "Sts")
+        if (status && status !== "BOOK") return
+
+        const amountElement = child(entry, "Amt")
+        const cents = parseAmount(amountElement?.textContent || "", ".")
+        const rawDate =
+          childText(entry, "BookgDt", "Dt") ||
+          childText(entry, "BookgDt", "DtTm") ||
+          childText(entry, "ValDt", "Dt") ||
+          ""
+        const date = parseSpanishDate(rawDate.slice(0, 10))
+        if (!cents || !date) throw new Error(`Movimiento ${index + 1} del CAMT.053 sin fecha o monto válido`)
+        const credit = childText(entry, "CdtDbtInd") === "CRDT"
+        const amount = credit ? Math.abs(cents) : -Math.abs(cents)
+
+        const details = child(entry, "NtryDtls", "TxDtls")
+        const counterparty = credit
+          ? childText(details, "RltdPties", "Dbtr", "Nm") || childText(details, "RltdPties", "Dbtr", "Pty", "Nm")
+          : childText(details, "RltdPties", "Cdtr", "Nm") || childText(details, "RltdPties", "Cdtr", "Pty", "Nm")
+        const remittance = details ? descendants(details, "Ustrd").map((node) => node.textContent) : []
+        const description = joinText([counterparty, ...remittance, childText(entry, "AddtlNtryInf")])
+
+        const endToEnd = childText(details, "Refs", "EndToEndId")
+        const bankId =
+          childText(entry, "AcctSvcrRef") ||
+          childText(details, "Refs", "AcctSvcrRef") ||
+          (endToEnd && endToEnd !== "NOTPROVIDED" ? endToEnd : null) ||
+          nextSyntheticId(date, amount, description)
+
+        transactions.push({
+          id: transactionId(account, bankId),
+          date,
+          amount,
+          description,
+          currency: amountElement?.getAttribute("Ccy") || undefined,
+        })
+      })
+  })
+
+  return { format: "camt053", account: firstAccount, transactions }
+}
+
+/**
+ * Lee un estado de cuenta OFX, QIF o CAMT.053. Lanza un error en español si el formato no se reconoce
+ * o si algún movimiento no se puede leer: un estado de cuenta se importa completo o no se importa.
+ */
+export function parseStatement(text: string, fileName: string): BankStatement {
+  const format = detectStatementFormat(text, fileName)
+  if (!format) throw new Error("No se reconoce el formato: usa un archivo OFX, QIF o CAMT.053 (XML)")
+
+  const statement = format === "ofx" ? parseOfx(text) : format === "qif" ? parseQif(text) : parseCamt053(text)
+  // Algunos bancos repiten movimientos entre estados que se traslapan
+  const seen = new Set<string>()
+  const transactions = statement.transactions.filter((transaction) => {
+    if (seen.has(transaction.id)) return false
+    seen.add(transaction.id)
+    return true
+  })
+  if (transactions.length === 0) throw new Error("El estado de cuenta no tiene movimientos")
+  return { ...statement, transactions }
+}
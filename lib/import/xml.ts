@@ -0,0 +1,25 @@
+// Lectura de XML con namespaces (CAMT.053, CFDI) por nombre local, sin depender del prefijo
+
+export function parseXml(text: string, damagedMessage: string): Document {
+  const doc = new DOMParser().parseFromString(text, "application/xml")
+  if (doc.getElementsByTagName("parsererror").length > 0) throw new Error(damagedMessage)
+  return doc
+}
+
+// Hijo directo por nombre local, sin importar el prefijo del namespace
+export function child(element: Element | null | undefined, ...path: string[]): Element | null {
+  let current: Element | null = element || null
+  for (const name of path) {
+    if (!current) return null
+    current = Array.from(current.children).find((node) => node.localName === name) || null
+  }
+  return current
+}
+
+export function childText(element: Element | null | undefined, ...path: string[]): string | null {
+  return child(element, ...path)?.textContent?.trim() || null
+}
+
+export function descendants(element: Element, name: string): Element[] {
+  return Array.from(element.getElementsByTagNameNS("*", name))
+}
@@ -0,0 +1,57 @@
+/**
+ * Métricas del estado de resultados, definidas una sola vez para todas las páginas:
+ *   Ingresos brutos       = ingresos
+ *   Gastos operativos     = gastos
+ *   Utilidad operativa    = ingresos − gastos
+ *   Inversiones           = inversiones
+ *   Flujo neto de efectivo = ingresos − gastos − inversiones
+ */
+
+import type { TypeTotals } from "@/lib/aggregation"
+import type { Cents } from "@/lib/money"
+
+export type FinanceMetric = "gross_income" | "operating_expenses" | "operating_profit" | "investments" | "net_cash_flow"
+
+export const FINANCE_METRICS: FinanceMetric[] = [
+  "gross_income",
+  "operating_expenses",
+  "operating_profit",
+  "investments",
+  "net_cash_flow",
+]
+
+export type FinanceMetrics = Record<FinanceMetric, Cents>
+
+export const METRIC_LABELS: Record<FinanceMetric, string> = {
+  gross_income: "Ingresos brutos",
+  operating_expenses: "Gastos operativos",
+  operating_profit: "Utilidad operativa",
+  investments: "Inversiones",
+  net_cash_flow: "Flujo neto de efectivo",
+}
+
+export const METRIC_FORMULAS: Record<FinanceMetric, string> = {
+  gross_income: "Ingresos",
+  operating_expenses: "Gastos",
+  operating_profit: "Ingresos − Gastos",
+  investments: "Inversiones",
+  net_cash_flow: "Ingresos − Gastos − Inversiones",
+}
+
+// Lo que muestra la tarjeta "Balance" si el negocio no eligió otra cosa
+export const DEFAULT_BALANCE_METRIC: FinanceMetric = "net_cash_flow"
+
+export function isFinanceMetric(value: unknown): value is FinanceMetric {
+  return FINANCE_METRICS.includes(value as FinanceMetric)
+}
+
+export function computeMetrics(totals: TypeTotals): FinanceMetrics {
+  const operatingProfit = totals.ingresos - totals.gastos
+  return {
+    gross_income: totals.ingresos,
+    operating_expenses: totals.gastos,
+    operating_profit: operatingProfit,
+    investments: totals.inversiones,
+    net_cash_flow: operatingProfit - totals.inversiones,
+  }
+}
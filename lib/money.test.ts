@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest"
+import { parseMoney } from "@/lib/money"
+
+describe("parseMoney", () => {
+  it("acepta punto o coma como decimal", () => {
+    expect(parseMoney("1234.56")).toBe(123456)
+    expect(parseMoney("1234,56")).toBe(123456)
+    expect(parseMoney("12,5")).toBe(1250)
+    expect(parseMoney("12.5")).toBe(1250)
+  })
+
+  it("un solo separador con un grupo de tres dígitos separa miles", () => {
+    expect(parseMoney("1,250")).toBe(125000)
+    expect(parseMoney("1.250")).toBe(125000)
+    expect(parseMoney("1.250.000")).toBe(125000000)
+  })
+
+  it("con punto y coma el último es el decimal", () => {
+    expect(parseMoney("1,234.56")).toBe(123456)
+    expect(parseMoney("$ 1.234,5")).toBe(123450)
+    expect(parseMoney("-1,234.56 MXN")).toBe(-123456)
+  })
+
+  it("rechaza lo que no es un monto", () => {
+    expect(parseMoney("")).toBeNull()
+    expect(parseMoney("abc")).toBeNull()
+    expect(parseMoney("1234.567")).toBeNull()
+    expect(parseMoney("12.34.5")).toBeNull()
+  })
+})
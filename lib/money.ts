@@ -0,0 +1,127 @@
+/**
+ * Dinero en centavos enteros: los montos llegan como decimales (DECIMAL(12,2) en la base de datos)
+ * y se convierten a centavos antes de sumar, para no arrastrar errores de punto flotante.
+ */
+
+// Cantidad entera de centavos
+export type Cents = number
+
+export const DEFAULT_CURRENCY = "MXN"
+const LOCALE = "es-MX"
+
+// Redondeo simétrico: -0.5 centavos se va a -1, igual que 0.5 se va a 1
+function roundHalfAway(value: number): number {
+  return Math.sign(value) * Math.round(Math.abs(value))
+}
+
+export function toCents(amount: number): Cents {
+  if (!Number.isFinite(amount)) return 0
+  return roundHalfAway(amount * 100)
+}
+
+// De centavos al decimal que se guarda en la base de datos o se pasa a las gráficas
+export function fromCents(cents: Cents): number {
+  return cents / 100
+}
+
+// Suma de montos decimales (entradas, filas de resumen...) en centavos
+export function sumAmounts<T>(items: T[], amountOf: (item: T) => number): Cents {
+  return items.reduce((sum, item) => sum + toCents(amountOf(item)), 0)
+}
+
+// Total en centavos de las entradas, opcionalmente de un solo tipo; `centsOf` permite convertir de moneda
+export function sumEntries<T extends { type: string; amount: number }>(
+  entries: T[],
+  type?: string,
+  centsOf: (entry: T) => Cents = (entry) => toCents(entry.amount),
+): Cents {
+  return entries.reduce((sum, entry) => (!type || entry.type === type ? sum + centsOf(entry) : sum), 0)
+}
+
+// Porcentaje que representa `part` de `total`; 0 si no hay total
+export function percentOf(part: Cents, total: Cents): number {
+  return total !== 0 ? (part / total) * 100 : 0
+}
+
+// Promedio redondeado al centavo
+export function averageCents(total: Cents, count: number): Cents {
+  return count > 0 ? roundHalfAway(total / count) : 0
+}
+
+/**
+ * Interpreta lo que escribe el usuario: "1234.56", "1,234.56", "1234,56", "$ 1.234,5", "1.250".
+ * Si aparecen punto y coma, el último es el separador decimal. Devuelve null si no es un monto válido
+ * o tiene más de dos decimales.
+ */
+export function parseMoney(input: string): Cents | null {
+  let text = input.trim().replace(/[\s$]/g, "").replace(/[A-Za-z]{3}$/, "")
+  if (!text) return null
+
+  const negative = text.startsWith("-")
+  if (negative) text = text.slice(1)
+
+  const lastComma = text.lastIndexOf(",")
+  const lastDot = text.lastIndexOf(".")
+  let decimalSeparator: "," | "." | null = null
+  if (lastComma >= 0 && lastDot >= 0) {
+    decimalSeparator = lastComma > lastDot ? "," : "."
+  } else if (lastComma >= 0) {
+    // Una sola coma seguida de 1 o 2 dígitos es decimal ("12,5"); si no, separa miles ("1,250")
+    decimalSeparator = text.indexOf(",") === lastComma && /,\d{1,2}$/.test(text) ? "," : null
+  } else if (lastDot >= 0) {
+    // Igual que con la coma: un solo punto con un grupo de tres dígitos separa miles ("1.250"); si no, es decimal
+    decimalSeparator = text.indexOf(".") === lastDot && !/^\d{1,3}\.\d{3}$/.test(text) ? "." : null
+  }
+
+  let whole: string
+  let fraction = ""
+  if (decimalSeparator === null) {
+    // "1.250.000" o "1,250,000": todos los separadores son de miles, en grupos de tres
+    if (/[.,]/.test(text) && !/^\d{1,3}([.,]\d{3})+$/.test(text)) return null
+    whole = text.replace(/[.,]/g, "")
+  } else {
+    const thousandsSeparator = decimalSeparator === "," ? "." : ","
+    ;[whole, fraction = ""] = text.split(thousandsSeparator).join("").split(decimalSeparator)
+  }
+  if (!/^\d*$/.test(whole) || !/^\d{0,2}$/.test(fraction) || !(whole || fraction)) return null
+
+  const cents = Number(whole || "0") * 100 + Number(fraction.padEnd(2, "0"))
+  if (!Number.isSafeInteger(cents)) return null
+  return negative ? -cents : cents
+}
+
+const formatters = new Map<string, Intl.NumberFormat>()
+
+function formatterFor(currency: string, fractionDigits: number): Intl.NumberFormat {
+  const key = `${currency}|${fractionDigits}`
+  let formatter = formatters.get(key)
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(LOCALE, {
+      style: "currency",
+      currency,
+      currencyDisplay: "narrowSymbol",
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    })
+    formatters.set(key, formatter)
+  }
+  return formatter
+}
+
+export interface FormatMoneyOptions {
+  currency?: string
+  // Sin centavos (promedios, ejes de gráficas)
+  whole?: boolean
+}
+
+// "$1,234.56"; los montos cerrados se muestran sin ".00"
+export function formatMoney(cents: Cents, options: FormatMoneyOptions = {}): string {
+  const currency = options.currency || DEFAULT_CURRENCY
+  if (options.whole) return formatterFor(currency, 0).format(roundHalfAway(cents / 100))
+  return formatterFor(currency, cents % 100 === 0 ? 0 : 2).format(cents / 100)
+}
+
+// Atajo para un monto decimal tal como viene de una entrada
+export function formatAmount(amount: number, options?: FormatMoneyOptions): string {
+  return formatMoney(toCents(amount), options)
+}
@@ -0,0 +1,80 @@
+import type { Entry } from "@/lib/storage"
+import { currentWorkWeekStart, type BusinessCalendar } from "@/lib/business-calendar"
+
+// Rol de un usuario dentro de un espacio de trabajo (ver scripts/create-roles.sql)
+export type WorkspaceRole = "owner" | "manager" | "cashier" | "viewer"
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "Dueño",
+  manager: "Encargado",
+  cashier: "Cajero",
+  viewer: "Solo lectura",
+}
+
+export const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: "Todo, incluidos miembros y permisos",
+  manager: "Agrega, edita y elimina cualquier entrada; administra categorías",
+  cashier: "Agrega entradas; solo corrige o elimina las de la semana actual",
+  viewer: "Ve reportes y totales sin cambiar nada",
+}
+
+export function canCreateEntries(role: WorkspaceRole): boolean {
+  return role !== "viewer"
+}
+
+// El cajero no toca semanas cerradas; las políticas de la base de datos aplican la misma regla
+export function canModifyEntry(
+  role: WorkspaceRole,
+  entry: Pick<Entry, "date">,
+  calendar: BusinessCalendar,
+  now: Date = new Date(),
+): boolean {
+  if (role === "owner" || role === "manager") return true
+  if (role === "cashier") return entry.date >= currentWorkWeekStart(calendar, now)
+  return false
+}
+
+export function canExport(role: WorkspaceRole, allowViewerExport: boolean): boolean {
+  return role !== "viewer" || allowViewerExport
+}
+
+export function canManageCategories(role: WorkspaceRole): boolean {
+  return role === "owner" || role === "manager"
+}
+
+// Reglas recurrentes: administrarlas y generar sus entradas
+export function canManageRecurring(role: WorkspaceRole): boolean {
+  return role === "owner" || role === "manager"
+}
+
+// Importar historial de otras fuentes (CSV, respaldos, bancos)
+export function canImport(role: WorkspaceRole): boolean {
+  return role === "owner" || role === "manager"
+}
+
+export function canManageBudgets(role: WorkspaceRole): boolean {
+  return role === "owner" || role === "manager"
+}
+
+// Alta, saldo inicial y archivo de cuentas (Caja, Banco, Tarjeta)
+export function canManageAccounts(role: WorkspaceRole): boolean {
+  return role === "owner" || role === "manager"
+}
+
+// Reabrir un arqueo de caja (borra el cierre y su ajuste); cerrar la caja lo puede hacer quien captura
+export function canReopenCashClose(role: WorkspaceRole): boolean {
+  return role === "owner" || role === "manager"
+}
+
+export function canManageExchangeRates(role: WorkspaceRole): boolean {
+  return role === "owner" || role === "manager"
+}
+
+// Ajustes del negocio (moneda base, calendario); la política de la tabla workspaces solo deja al dueño
+export function canManageWorkspace(role: WorkspaceRole): boolean {
+  return role === "owner"
+}
+
+export function canManageMembers(role: WorkspaceRole): boolean {
+  return role === "owner"
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest"
+import {
+  MAX_OCCURRENCES_PER_RUN,
+  dueOccurrences,
+  occurrenceEntry,
+  scheduledDates,
+  type RecurringRule,
+} from "@/lib/recurring"
+import { DEFAULT_BUSINESS_CALENDAR } from "@/lib/business-calendar"
+
+const calendar = DEFAULT_BUSINESS_CALENDAR
+
+function rule(overrides: Partial<RecurringRule>): RecurringRule {
+  return {
+    id: "regla",
+    type: "gasto",
+    category: "Salarios",
+    amount: 1500,
+    frequency: "weekly",
+    weekday: 5,
+    day_of_month: null,
+    interval_weeks: null,
+    start_date: "2024-05-01",
+    end_date: null,
+    paused: false,
+    auto_generate: true,
+    last_generated: null,
+    ...overrides,
+  }
+}
+
+describe("scheduledDates", () => {
+  it("semanal: cada semana en su día", () => {
+    expect(scheduledDates(rule({}), "2024-05-01", "2024-05-20", calendar)).toEqual([
+      "2024-05-03",
+      "2024-05-10",
+      "2024-05-17",
+    ])
+  })
+
+  it("no empieza antes de start_date ni pasa de end_date", () => {
+    const limited = rule({ start_date: "2024-05-04", end_date: "2024-05-15" })
+    expect(scheduledDates(limited, "2024-04-01", "2024-05-31", calendar)).toEqual(["2024-05-10"])
+  })
+
+  it("mensual: en meses cortos cae en el último día", () => {
+    const monthly = rule({ frequency: "monthly", weekday: null, day_of_month: 31, start_date: "2024-01-15" })
+    expect(scheduledDates(monthly, "2024-01-01", "2024-04-30", calendar)).toEqual([
+      "2024-01-31",
+      "2024-02-29",
+      "2024-03-31",
+      "2024-04-30",
+    ])
+  })
+
+  it("cada N semanas de trabajo, contadas desde la semana de start_date", () => {
+    const everyOther = rule({ frequency: "work_weeks", weekday: 6, interval_weeks: 2, start_date: "2024-05-02" })
+    expect(scheduledDates(everyOther, "2024-05-02", "2024-06-01", calendar)).toEqual([
+      "2024-05-04",
+      "2024-05-18",
+      "2024-06-01",
+    ])
+  })
+
+  it("no genera más de MAX_OCCURRENCES_PER_RUN por pasada", () => {
+    const old = rule({ start_date: "2020-01-01" })
+    expect(scheduledDates(old, "2020-01-01", "2024-05-20", calendar)).toHaveLength(MAX_OCCURRENCES_PER_RUN)
+  })
+})
+
+describe("dueOccurrences", () => {
+  it("sigue después de la última generada", () => {
+    const due = dueOccurrences(rule({ last_generated: "2024-05-10" }), "2024-05-20", calendar)
+    expect(due.map((occurrence) => occurrence.date)).toEqual(["2024-05-17"])
+  })
+
+  it("una regla en pausa no genera nada", () => {
+    expect(dueOccurrences(rule({ paused: true }), "2024-05-20", calendar)).toEqual([])
+  })
+
+  it("cada ocurrencia produce una entrada ligada a su regla", () => {
+    const [occurrence] = dueOccurrences(rule({}), "2024-05-03", calendar)
+    expect(occurrenceEntry(occurrence)).toMatchObject({
+      type: "gasto",
+      category: "Salarios",
+      amount: 1500,
+      date: "2024-05-03",
+      recurring_rule_id: "regla",
+    })
+  })
+})
@@ -0,0 +1,254 @@
+import { addDays, addMonths, endOfMonth, startOfMonth } from "date-fns"
+import { supabase } from "@/lib/supabase"
+import { generateEntryId, getConfiguredBackend, type Entry, type EntryInput } from "@/lib/storage"
+import { createLocalDate, formatDateForStorage, getDayName } from "@/lib/date-utils"
+import { workWeekRange, workWeekStarts, workWeeksBetween, type BusinessCalendar } from "@/lib/business-calendar"
+
+// Semanal en un día fijo, mensual en un día del mes, o cada N semanas de trabajo (según el calendario del negocio)
+export type RecurrenceFrequency = "weekly" | "monthly" | "work_weeks"
+
+export interface RecurringRule {
+  id: string
+  workspace_id?: string
+  type: Entry["type"]
+  category: string
+  amount: number
+  currency?: string
+  description?: string
+  frequency: RecurrenceFrequency
+  // Día de la semana (0 = domingo) para "weekly" y "work_weeks"
+  weekday: number | null
+  // Día del mes para "monthly"; en meses más cortos se usa el último día
+  day_of_month: number | null
+  // Cada cuántas semanas de trabajo, para "work_weeks"
+  interval_weeks: number | null
+  start_date: string
+  // Última fecha en la que se genera (inclusive); null = sin fin
+  end_date: string | null
+  paused: boolean
+  // true: se generan solas al abrir la app; false: esperan confirmación en la lista de pendientes
+  auto_generate: boolean
+  // Fecha de la última ocurrencia ya generada u omitida
+  last_generated: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export type RecurringRuleInput = Omit<RecurringRule, "id" | "workspace_id" | "last_generated" | "created_at" | "updated_at">
+
+export type RecurringRuleUpdate = Partial<RecurringRuleInput> & Partial<Pick<RecurringRule, "last_generated">>
+
+// Una ocurrencia pendiente de pasar a las entradas
+export interface RecurringOccurrence {
+  rule: RecurringRule
+  date: string
+}
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  weekly: "Cada semana",
+  monthly: "Cada mes",
+  work_weeks: "Cada N semanas de trabajo",
+}
+
+// Tope por regla y por pasada, para no inundar las entradas si la app estuvo meses sin abrirse
+export const MAX_OCCURRENCES_PER_RUN = 60
+
+export function describeSchedule(rule: Pick<RecurringRule, "frequency" | "weekday" | "day_of_month" | "interval_weeks">) {
+  const weekdayName = rule.weekday !== null ? getDayName(formatDateForStorage(dayOfWeekSample(rule.weekday))) : ""
+  switch (rule.frequency) {
+    case "weekly":
+      return `Cada ${weekdayName.toLowerCase()}`
+    case "monthly":
+      return `El día ${rule.day_of_month} de cada mes`
+    case "work_weeks":
+      return (rule.interval_weeks || 1) === 1
+        ? `Cada semana de trabajo, el ${weekdayName.toLowerCase()}`
+        : `Cada ${rule.interval_weeks} semanas de trabajo, el ${weekdayName.toLowerCase()}`
+  }
+}
+
+// Una fecha cualquiera que cae en ese día de la semana (solo para obtener su nombre)
+function dayOfWeekSample(weekday: number): Date {
+  const sunday = new Date(2024, 0, 7)
+  return addDays(sunday, weekday)
+}
+
+// Primera fecha >= `from` que cae en `weekday`
+function nextWeekday(from: Date, weekday: number): Date {
+  return addDays(from, (weekday - from.getDay() + 7) % 7)
+}
+
+/**
+ * Fechas (YYYY-MM-DD) en las que toca la regla dentro de [from, to], sin pasar de MAX_OCCURRENCES_PER_RUN.
+ * Las semanas de trabajo se cuentan desde la que contiene `start_date`.
+ */
+export function scheduledDates(rule: RecurringRule, from: string, to: string, calendar: BusinessCalendar): string[] {
+  const start = createLocalDate(from > rule.start_date ? from : rule.start_date)
+  const limit = rule.end_date && rule.end_date < to ? rule.end_date : to
+  const end = createLocalDate(limit)
+  const dates: string[] = []
+  if (start > end) return dates
+
+  const push = (date: Date) => {
+    if (date >= start && date <= end && dates.length < MAX_OCCURRENCES_PER_RUN) dates.push(formatDateForStorage(date))
+  }
+
+  if (rule.frequency === "weekly" && rule.weekday !== null) {
+    for (let date = nextWeekday(start, rule.weekday); date <= end; date = addDays(date, 7)) push(date)
+  } else if (rule.frequency === "monthly" && rule.day_of_month) {
+    for (let month = startOfMonth(start); month <= end; month = addMonths(month, 1)) {
+      const day = Math.min(rule.day_of_month, endOfMonth(month).getDate())
+      push(new Date(month.getFullYear(), month.getMonth(), day))
+    }
+  } else if (rule.frequency === "work_weeks" && rule.weekday !== null) {
+    const interval = Math.max(1, rule.interval_weeks || 1)
+    const anchor = workWeekRange(createLocalDate(rule.start_date), calendar).start
+    for (const week of workWeekStarts(workWeekRange(start, calendar).start, end, calendar)) {
+      if (workWeeksBetween(anchor, week, calendar) % interval !== 0) continue
+      push(nextWeekday(week, rule.weekday))
+    }
+  }
+  return dates
+}
+
+// Ocurrencias que ya vencieron (hasta hoy) y aún no se generan
+export function dueOccurrences(rule: RecurringRule, today: string, calendar: BusinessCalendar): RecurringOccurrence[] {
+  if (rule.paused) return []
+  const from = rule.last_generated ? formatDateForStorage(addDays(createLocalDate(rule.last_generated), 1)) : rule.start_date
+  return scheduledDates(rule, from, today, calendar).map((date) => ({ rule, date }))
+}
+
+// Entrada que produce una ocurrencia
+export function occurrenceEntry(occurrence: RecurringOccurrence): EntryInput {
+  const { rule, date } = occurrence
+  return {
+    type: rule.type,
+    category: rule.category,
+    amount: rule.amount,
+    currency: rule.currency,
+    description: rule.description,
+    date,
+    recurring_rule_id: rule.id,
+  }
+}
+
+const LOCAL_RULES_KEY = "gestion-financiera-recurring-rules"
+
+function loadLocalRules(workspaceId: string): RecurringRule[] {
+  const stored = typeof window !== "undefined" ? window.localStorage.getItem(`${LOCAL_RULES_KEY}:${workspaceId}`) : null
+  return stored ? JSON.parse(stored) : []
+}
+
+function saveLocalRules(workspaceId: string, rules: RecurringRule[]) {
+  if (typeof window !== "undefined") {
+    window.localStorage.setItem(`${LOCAL_RULES_KEY}:${workspaceId}`, JSON.stringify(rules))
+  }
+}
+
+function isLocalBackend() {
+  return getConfiguredBackend() !== "supabase"
+}
+
+// Reglas de entradas recurrentes por negocio (ver scripts/create-recurring.sql)
+export const recurringService = {
+  async list(workspaceId: string): Promise<RecurringRule[]> {
+    if (isLocalBackend()) return loadLocalRules(workspaceId)
+
+    const { data, error } = await supabase
+      .from("recurring_rules")
+      .select("*")
+      .eq("workspace_id", workspaceId)
+      .order("created_at")
+    if (error) {
+      console.error("❌ Error cargando entradas recurrentes:", error)
+      throw error
+    }
+    return (data || []).map((rule) => ({ ...rule, amount: Number(rule.amount) }))
+  },
+
+  async create(workspaceId: string, input: RecurringRuleInput): Promise<RecurringRule> {
+    console.log("🔁 Creando entrada recurrente:", input.category, input.frequency)
+    if (isLocalBackend()) {
+      const now = new Date().toISOString()
+      const rule: RecurringRule = {
+        ...input,
+        id: generateEntryId(),
+        workspace_id: workspaceId,
+        last_generated: null,
+        created_at: now,
+        updated_at: now,
+      }
+      saveLocalRules(workspaceId, [...loadLocalRules(workspaceId), rule])
+      return rule
+    }
+
+    const { data, error } = await supabase
+      .from("recurring_rules")
+      .insert([{ ...input, workspace_id: workspaceId }])
+      .select()
+      .single()
+    if (error) {
+      console.error("❌ Error creando entrada recurrente:", error)
+      throw error
+    }
+    return { ...data, amount: Number(data.amount) }
+  },
+
+  async update(workspaceId: string, id: string, changes: RecurringRuleUpdate): Promise<RecurringRule> {
+    if (isLocalBackend()) {
+      const rules = loadLocalRules(workspaceId).map((rule) =>
+        rule.id === id ? { ...rule, ...changes, updated_at: new Date().toISOString() } : rule,
+      )
+      saveLocalRules(workspaceId, rules)
+      return rules.find((rule) => rule.id === id)!
+    }
+
+    const { data, error } = await supabase.from("recurring_rules").update(changes).eq("id", id).select().single()
+    if (error) {
+      console.error("❌ Error actualizando entrada recurrente:", error)
+      throw error
+    }
+    return { ...data, amount: Number(data.amount) }
+  },
+
+  async remove(workspaceId: string, id: string): Promise<void> {
+    if (isLocalBackend()) {
+      saveLocalRules(
+        workspaceId,
+        loadLocalRules(workspaceId).filter((rule) => rule.id !== id),
+      )
+      return
+    }
+
+    const { error } = await supabase.from("recurring_rules").delete().eq("id", id)
+    if (error) {
+      console.error("❌ Error eliminando entrada recurrente:", error)
+      throw error
+    }
+  },
+
+  /**
+   * Marca como generadas las ocurrencias hasta `through` solo si nadie lo hizo antes (otra pestaña u otro
+   * dispositivo). Devuelve false si la regla ya había avanzado: en ese caso no hay que crear las entradas.
+   */
+  async claim(workspaceId: string, rule: RecurringRule, through: string): Promise<boolean> {
+    if (isLocalBackend()) {
+      const current = loadLocalRules(workspaceId).find((candidate) => candidate.id === rule.id)
+      if (!current || current.last_generated !== rule.last_generated) return false
+      await recurringService.update(workspaceId, rule.id, { last_generated: through })
+      return true
+    }
+
+    const request = supabase.from("recurring_rules").update({ last_generated: through }).eq("id", rule.id)
+    const { data, error } = await (
+      rule.last_generated === null
+        ? request.is("last_generated", null)
+        : request.eq("last_generated", rule.last_generated)
+    ).select("id")
+    if (error) {
+      console.error("❌ Error marcando entrada recurrente:", error)
+      throw error
+    }
+    return (data || []).length > 0
+  },
+}
@@ -0,0 +1,103 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { ATTACHMENTS_STORE, openLocalDatabase, requestToPromise } from "./local-db"
+
+const SUPABASE_BUCKET = "attachments"
+// Vigencia de las URLs firmadas para ver un adjunto
+const SIGNED_URL_SECONDS = 60 * 60
+
+// Almacén de archivos adjuntos, con el mismo backend que las entradas
+export interface BlobStore {
+  name: string
+  // Sin `overwrite` una ruta que ya existe es un error: reemplazar un comprobante equivale a borrarlo
+  put(path: string, blob: Blob, options?: { overwrite?: boolean }): Promise<void>
+  get(path: string): Promise<Blob | null>
+  // URL para mostrar o abrir el archivo; las locales se liberan con URL.revokeObjectURL
+  url(path: string): Promise<string | null>
+  remove(paths: string[]): Promise<void>
+}
+
+// Supabase Storage, bucket privado "attachments" (ver scripts/create-attachments.sql)
+export function createSupabaseBlobStore(client: SupabaseClient): BlobStore {
+  const bucket = () => client.storage.from(SUPABASE_BUCKET)
+  return {
+    name: "Supabase Storage",
+    async put(path, blob, options) {
+      // Reemplazar pide la política UPDATE de storage.objects, que solo tienen dueño y encargado
+      const { error } = await bucket().upload(path, blob, { contentType: blob.type, upsert: !!options?.overwrite })
+      if (error) {
+        console.error("❌ Error subiendo adjunto:", error)
+        throw error
+      }
+    },
+    async get(path) {
+      const { data, error } = await bucket().download(path)
+      if (error) {
+        console.error("❌ Error descargando adjunto:", error)
+        return null
+      }
+      return data
+    },
+    async url(path) {
+      const { data, error } = await bucket().createSignedUrl(path, SIGNED_URL_SECONDS)
+      if (error) {
+        console.error("❌ Error firmando URL de adjunto:", error)
+        return null
+      }
+      return data.signedUrl
+    },
+    async remove(paths) {
+      if (paths.length === 0) return
+      const { error } = await bucket().remove(paths)
+      if (error) {
+        console.error("❌ Error eliminando adjuntos:", error)
+        throw error
+      }
+    },
+  }
+}
+
+// IndexedDB del navegador, junto a las entradas del backend local
+export function createIndexedDbBlobStore(): BlobStore {
+  const store = async (mode: IDBTransactionMode) => {
+    const db = await openLocalDatabase()
+    return db.transaction(ATTACHMENTS_STORE, mode).objectStore(ATTACHMENTS_STORE)
+  }
+  return {
+    name: "IndexedDB",
+    async put(path, blob) {
+      await requestToPromise((await store("readwrite")).put(blob, path))
+    },
+    async get(path) {
+      return ((await requestToPromise((await store("readonly")).get(path))) as Blob | undefined) || null
+    },
+    async url(path) {
+      const blob = await this.get(path)
+      return blob ? URL.createObjectURL(blob) : null
+    },
+    async remove(paths) {
+      const objects = await store("readwrite")
+      await Promise.all(paths.map((path) => requestToPromise(objects.delete(path))))
+    },
+  }
+}
+
+// En memoria, para el backend "memory" (se pierde al recargar)
+export function createMemoryBlobStore(): BlobStore {
+  const blobs = new Map<string, Blob>()
+  return {
+    name: "Memoria",
+    async put(path, blob) {
+      blobs.set(path, blob)
+    },
+    async get(path) {
+      return blobs.get(path) || null
+    },
+    async url(path) {
+      const blob = blobs.get(path)
+      return blob ? URL.createObjectURL(blob) : null
+    },
+    async remove(paths) {
+      paths.forEach((path) => blobs.delete(path))
+    },
+  }
+}
@@ -0,0 +1,45 @@
+import { toCents, type Cents } from "@/lib/money"
+import type { CurrencyConversion, Entry, ExchangeRate } from "./types"
+
+// Moneda original de una entrada; las que no tienen están en la moneda base
+export function entryCurrency(entry: Pick<Entry, "currency">, baseCurrency: string): string {
+  return entry.currency || baseCurrency
+}
+
+/**
+ * Tipo de cambio para una fecha: el último capturado hasta ese día o, si no hay anteriores, el primero posterior.
+ * Misma regla que exchange_rate_on() en scripts/create-currencies.sql. Null si la moneda no tiene ninguno.
+ */
+export function findExchangeRate(rates: ExchangeRate[], currency: string, date: string): number | null {
+  let before: ExchangeRate | null = null
+  let after: ExchangeRate | null = null
+  for (const rate of rates) {
+    if (rate.currency !== currency) continue
+    if (rate.date <= date) {
+      if (!before || rate.date > before.date) before = rate
+    } else if (!after || rate.date < after.date) {
+      after = rate
+    }
+  }
+  return (before || after)?.rate ?? null
+}
+
+// Monto de la entrada en centavos de la moneda base; sin tipo de cambio se toma 1 a 1, como en el servidor
+export function entryBaseCents(entry: Pick<Entry, "amount" | "currency" | "date">, conversion?: CurrencyConversion): Cents {
+  if (!conversion || entryCurrency(entry, conversion.baseCurrency) === conversion.baseCurrency) {
+    return toCents(entry.amount)
+  }
+  const rate = findExchangeRate(conversion.rates, entry.currency!, entry.date)
+  return toCents(entry.amount * (rate ?? 1))
+}
+
+// Monedas usadas por las entradas que no tienen ningún tipo de cambio capturado
+export function currenciesWithoutRate(entries: Pick<Entry, "currency">[], conversion: CurrencyConversion): string[] {
+  const missing = new Set<string>()
+  entries.forEach((entry) => {
+    const currency = entryCurrency(entry, conversion.baseCurrency)
+    if (currency === conversion.baseCurrency || missing.has(currency)) return
+    if (!conversion.rates.some((rate) => rate.currency === currency)) missing.add(currency)
+  })
+  return [...missing]
+}
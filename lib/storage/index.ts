@@ -0,0 +1,133 @@
+import { supabase } from "@/lib/supabase"
+import { createSupabaseStorage } from "./supabase-storage"
+import { createIndexedDbStorage, createMemoryStorage } from "./local-storage"
+import { createIndexedDbBlobStore, createMemoryBlobStore, createSupabaseBlobStore, type BlobStore } from "./blob-store"
+import type { EntriesStorage } from "./types"
+import { getActiveWorkspaceId } from "./workspace"
+
+export type {
+  CurrencyConversion,
+  Entry,
+  EntryChange,
+  EntryAttachment,
+  EntryInput,
+  EntryInvoice,
+  EntryPage,
+  EntryPageRequest,
+  EntryQuery,
+  EntrySummaryRow,
+  AccountFlowRow,
+  NewEntry,
+  EntriesStorage,
+  EntriesSubscription,
+  ExchangeRate,
+  RealtimeChannelStatus,
+} from "./types"
+export { createSupabaseStorage } from "./supabase-storage"
+export { createIndexedDbStorage, createMemoryStorage, generateEntryId } from "./local-storage"
+export {
+  offlineQueue,
+  requestQueueReplay,
+  onQueueReplayRequested,
+  isNetworkError,
+  isDuplicateKeyError,
+  applyMutations,
+  getSyncStates,
+} from "./offline-queue"
+export { mergeEntryChange, writeFingerprint } from "./realtime"
+export {
+  DEFAULT_WORKSPACE_ID,
+  getActiveWorkspaceId,
+  getRememberedWorkspaceId,
+  setActiveWorkspaceId,
+  entryWorkspaceId,
+} from "./workspace"
+export { entryCurrency, findExchangeRate, entryBaseCents, currenciesWithoutRate } from "./currency"
+export {
+  matchesQuery,
+  queryKey,
+  paginateEntries,
+  summarizeEntries,
+  summarizeAccountFlows,
+  DEFAULT_PAGE_SIZE,
+} from "./query"
+export type { QueuedMutation, MutationRequest, SyncState } from "./offline-queue"
+export type { BlobStore } from "./blob-store"
+
+export type StorageBackend = "supabase" | "local" | "memory"
+
+// Backend elegido al arrancar: NEXT_PUBLIC_STORAGE_BACKEND=supabase | local | memory
+export function getConfiguredBackend(): StorageBackend {
+  const value = process.env.NEXT_PUBLIC_STORAGE_BACKEND
+  if (value === "local" || value === "memory") return value
+  return "supabase"
+}
+
+function createStorage(backend: StorageBackend, workspaceId: string): EntriesStorage {
+  switch (backend) {
+    case "local":
+      return createIndexedDbStorage(workspaceId)
+    case "memory":
+      return createMemoryStorage([], workspaceId)
+    default:
+      return createSupabaseStorage(supabase, workspaceId)
+  }
+}
+
+// Un backend por espacio de trabajo; se conservan para volver a uno sin perder su estado (p. ej. en memoria)
+const storages = new Map<string, EntriesStorage>()
+
+export function getEntriesStorage(): EntriesStorage {
+  const workspaceId = getActiveWorkspaceId()
+  let storage = storages.get(workspaceId)
+  if (!storage) {
+    storage = createStorage(getConfiguredBackend(), workspaceId)
+    storages.set(workspaceId, storage)
+    console.log("🗄️ Backend de almacenamiento:", storage.name, workspaceId)
+  }
+  return storage
+}
+
+let blobStore: BlobStore | null = null
+
+// Almacén de adjuntos del mismo backend que las entradas (las rutas ya llevan el negocio)
+export function getBlobStore(): BlobStore {
+  if (!blobStore) {
+    const backend = getConfiguredBackend()
+    blobStore =
+      backend === "local"
+        ? createIndexedDbBlobStore()
+        : backend === "memory"
+          ? createMemoryBlobStore()
+          : createSupabaseBlobStore(supabase)
+    console.log("🗄️ Almacén de adjuntos:", blobStore.name)
+  }
+  return blobStore
+}
+
+// Reemplazar el backend de su espacio de trabajo (por ejemplo, con un fake en pruebas); null los descarta todos
+export function setEntriesStorage(storage: EntriesStorage | null) {
+  if (storage) storages.set(storage.workspaceId, storage)
+  else storages.clear()
+}
+
+// Fachada estable que delega en el backend activo
+export const entriesService: EntriesStorage = {
+  get name() {
+    return getEntriesStorage().name
+  },
+  get workspaceId() {
+    return getEntriesStorage().workspaceId
+  },
+  getAll: () => getEntriesStorage().getAll(),
+  query: (request) => getEntriesStorage().query(request),
+  summarize: (query, conversion) => getEntriesStorage().summarize(query, conversion),
+  accountFlows: (conversion) => getEntriesStorage().accountFlows(conversion),
+  get: (id) => getEntriesStorage().get(id),
+  create: (entry) => getEntriesStorage().create(entry),
+  createMany: (entries) => getEntriesStorage().createMany(entries),
+  update: (id, entry) => getEntriesStorage().update(id, entry),
+  delete: (id) => getEntriesStorage().delete(id),
+  subscribeToChanges: (callback, onStatus) => getEntriesStorage().subscribeToChanges(callback, onStatus),
+  checkConnection: () => getEntriesStorage().checkConnection(),
+}
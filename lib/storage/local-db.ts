@@ -0,0 +1,44 @@
+// Base de datos IndexedDB compartida por el backend local y la cola offline
+const DB_NAME = "gestion-financiera"
+const DB_VERSION = 3
+
+export const ENTRIES_STORE = "entries"
+export const MUTATIONS_STORE = "mutations"
+// Archivos adjuntos (Blob) por ruta
+export const ATTACHMENTS_STORE = "attachments"
+
+// Convertir una petición de IndexedDB en promesa
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export function openLocalDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+          db.createObjectStore(ENTRIES_STORE, { keyPath: "id" })
+        }
+        if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+          db.createObjectStore(MUTATIONS_STORE, { keyPath: "seq", autoIncrement: true })
+        }
+        if (!db.objectStoreNames.contains(ATTACHMENTS_STORE)) {
+          db.createObjectStore(ATTACHMENTS_STORE)
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
@@ -0,0 +1,202 @@
+import { ENTRIES_STORE, openLocalDatabase, requestToPromise } from "./local-db"
+import { paginateEntries, summarizeAccountFlows, summarizeEntries } from "./query"
+import type { EntriesStorage, Entry, EntryChange, EntryInput, NewEntry } from "./types"
+import { DEFAULT_WORKSPACE_ID, entryWorkspaceId } from "./workspace"
+
+const BROADCAST_CHANNEL = "gestion-financiera-entries"
+
+// Persistencia mínima que necesita el backend local
+interface EntryPersistence {
+  loadAll(): Promise<Entry[]>
+  put(entry: Entry): Promise<void>
+  // Todas en una sola transacción
+  putMany(entries: Entry[]): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+// Ordenar igual que Supabase: más recientes primero
+function sortByCreatedAt(entries: Entry[]): Entry[] {
+  return [...entries].sort((a, b) => (b.created_at || "").localeCompare(a.created_at || ""))
+}
+
+export function generateEntryId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+function indexedDbPersistence(): EntryPersistence {
+  return {
+    async loadAll() {
+      const db = await openLocalDatabase()
+      const store = db.transaction(ENTRIES_STORE, "readonly").objectStore(ENTRIES_STORE)
+      return requestToPromise(store.getAll() as IDBRequest<Entry[]>)
+    },
+    async put(entry) {
+      const db = await openLocalDatabase()
+      const store = db.transaction(ENTRIES_STORE, "readwrite").objectStore(ENTRIES_STORE)
+      await requestToPromise(store.put(entry))
+    },
+    async putMany(entries) {
+      const db = await openLocalDatabase()
+      const transaction = db.transaction(ENTRIES_STORE, "readwrite")
+      const store = transaction.objectStore(ENTRIES_STORE)
+      entries.forEach((entry) => store.put(entry))
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve()
+        transaction.onerror = () => reject(transaction.error)
+        transaction.onabort = () => reject(transaction.error)
+      })
+    },
+    async remove(id) {
+      const db = await openLocalDatabase()
+      const store = db.transaction(ENTRIES_STORE, "readwrite").objectStore(ENTRIES_STORE)
+      await requestToPromise(store.delete(id))
+    },
+  }
+}
+
+function memoryPersistence(initial: Entry[]): EntryPersistence {
+  const rows = new Map<string, Entry>()
+  initial.forEach((entry) => entry.id && rows.set(entry.id, entry))
+  return {
+    async loadAll() {
+      return Array.from(rows.values())
+    },
+    async put(entry) {
+      rows.set(entry.id!, entry)
+    },
+    async putMany(entries) {
+      entries.forEach((entry) => rows.set(entry.id!, entry))
+    },
+    async remove(id) {
+      rows.delete(id)
+    },
+  }
+}
+
+function createLocalBackend(
+  name: string,
+  persistence: EntryPersistence,
+  shareAcrossTabs: boolean,
+  workspaceId: string,
+): EntriesStorage {
+  const listeners = new Set<(change: EntryChange) => void>()
+  const broadcast =
+    shareAcrossTabs && typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(BROADCAST_CHANNEL) : null
+
+  // Los DELETE no traen la entrada; borrar un id ajeno no tiene efecto
+  const inWorkspace = (change: EntryChange) =>
+    change.eventType === "DELETE" || entryWorkspaceId(change.entry) === workspaceId
+
+  broadcast?.addEventListener("message", (event: MessageEvent<EntryChange>) => {
+    if (inWorkspace(event.data)) listeners.forEach((listener) => listener(event.data))
+  })
+
+  // Avisar a las suscripciones de esta pestaña y de las demás
+  const notify = (change: EntryChange) => {
+    listeners.forEach((listener) => listener(change))
+    broadcast?.postMessage(change)
+  }
+
+  // Solo las entradas del espacio de trabajo activo
+  const loadWorkspace = async () =>
+    (await persistence.loadAll()).filter((entry) => entryWorkspaceId(entry) === workspaceId)
+
+  // Por id en cualquier espacio, como en Supabase (la cola offline puede traer cambios de otro)
+  const findById = async (id: string) => {
+    const entries = await persistence.loadAll()
+    return entries.find((entry) => entry.id === id) || null
+  }
+
+  const stamp = (entry: NewEntry, now: string): Entry => ({
+    workspace_id: workspaceId,
+    ...entry,
+    id: entry.id || generateEntryId(),
+    created_at: now,
+    updated_at: now,
+  })
+
+  return {
+    name,
+    workspaceId,
+
+    async getAll() {
+      return sortByCreatedAt(await loadWorkspace())
+    },
+
+    async query(request) {
+      return paginateEntries(await loadWorkspace(), request)
+    },
+
+    async summarize(query, conversion) {
+      return summarizeEntries(await loadWorkspace(), query, conversion)
+    },
+
+    async accountFlows(conversion) {
+      return summarizeAccountFlows(await loadWorkspace(), conversion)
+    },
+
+    async get(id: string) {
+      return findById(id)
+    },
+
+    async create(entry: NewEntry) {
+      const newEntry = stamp(entry, new Date().toISOString())
+      await persistence.put(newEntry)
+      notify({ eventType: "INSERT", id: newEntry.id!, entry: newEntry })
+      return newEntry
+    },
+
+    async createMany(entries: NewEntry[]) {
+      const now = new Date().toISOString()
+      const created = entries.map((entry) => stamp(entry, now))
+      await persistence.putMany(created)
+      created.forEach((entry) => notify({ eventType: "INSERT", id: entry.id!, entry }))
+      return created
+    },
+
+    async update(id: string, entry: Partial<EntryInput>) {
+      const existing = await findById(id)
+      if (!existing) return null
+      const updated: Entry = { ...existing, ...entry, id, updated_at: new Date().toISOString() }
+      await persistence.put(updated)
+      notify({ eventType: "UPDATE", id, entry: updated })
+      return updated
+    },
+
+    async delete(id: string) {
+      await persistence.remove(id)
+      notify({ eventType: "DELETE", id })
+      return true
+    },
+
+    subscribeToChanges(callback, onStatus) {
+      listeners.add(callback)
+      onStatus?.("SUBSCRIBED")
+      return {
+        unsubscribe: () => {
+          listeners.delete(callback)
+        },
+      }
+    },
+
+    async checkConnection() {
+      await persistence.loadAll()
+    },
+  }
+}
+
+// Backend local persistente en el navegador (sobrevive recargas)
+export function createIndexedDbStorage(workspaceId: string = DEFAULT_WORKSPACE_ID): EntriesStorage {
+  return createLocalBackend("Local (IndexedDB)", indexedDbPersistence(), true, workspaceId)
+}
+
+// Backend en memoria: útil para demos y pruebas; se pierde al recargar
+export function createMemoryStorage(
+  initial: Entry[] = [],
+  workspaceId: string = DEFAULT_WORKSPACE_ID,
+): EntriesStorage {
+  return createLocalBackend("Memoria", memoryPersistence(initial), false, workspaceId)
+}
@@ -0,0 +1,108 @@
+import { MUTATIONS_STORE, openLocalDatabase, requestToPromise } from "./local-db"
+import type { Entry, EntryAttachment, EntryInput, NewEntry } from "./types"
+
+// Estado de sincronización de cada entrada en la interfaz
+export type SyncState = "pending" | "synced" | "failed"
+
+export type QueuedMutation = {
+  seq?: number
+  entryId: string
+  queuedAt: string
+  status: "pending" | "failed"
+  error?: string
+} & (
+  | { kind: "create"; data: NewEntry }
+  | { kind: "update"; data: Partial<EntryInput> }
+  // Comprobantes de la entrada: sus archivos se borran cuando el backend confirma el borrado
+  | { kind: "delete"; attachments?: EntryAttachment[] }
+)
+
+// Mutación tal como se encola, antes de recibir número de secuencia y estado
+export type MutationRequest =
+  | { kind: "create"; entryId: string; data: NewEntry }
+  | { kind: "update"; entryId: string; data: Partial<EntryInput> }
+  | { kind: "delete"; entryId: string; attachments?: EntryAttachment[] }
+
+const replayListeners = new Set<() => void>()
+
+async function getStore(mode: IDBTransactionMode) {
+  const db = await openLocalDatabase()
+  return db.transaction(MUTATIONS_STORE, mode).objectStore(MUTATIONS_STORE)
+}
+
+// Cola persistente (IndexedDB) de escrituras que aún no llegan al backend
+export const offlineQueue = {
+  // Todas las mutaciones en el orden en que se hicieron
+  async list(): Promise<QueuedMutation[]> {
+    const store = await getStore("readonly")
+    const items = await requestToPromise(store.getAll() as IDBRequest<QueuedMutation[]>)
+    return items.sort((a, b) => (a.seq || 0) - (b.seq || 0))
+  },
+
+  async enqueue(request: MutationRequest): Promise<QueuedMutation> {
+    const mutation = { ...request, queuedAt: new Date().toISOString(), status: "pending" } as QueuedMutation
+    const store = await getStore("readwrite")
+    const seq = await requestToPromise(store.add(mutation))
+    console.log("📥 Mutación encolada:", mutation.kind, mutation.entryId)
+    return { ...mutation, seq: Number(seq) }
+  },
+
+  async remove(seq: number): Promise<void> {
+    const store = await getStore("readwrite")
+    await requestToPromise(store.delete(seq))
+  },
+
+  async save(mutation: QueuedMutation): Promise<void> {
+    const store = await getStore("readwrite")
+    await requestToPromise(store.put(mutation))
+  },
+}
+
+// Pedir que se reintente la cola (lo llama ConnectionStatus al recuperar la red)
+export function requestQueueReplay() {
+  replayListeners.forEach((listener) => listener())
+}
+
+export function onQueueReplayRequested(listener: () => void) {
+  replayListeners.add(listener)
+  return () => {
+    replayListeners.delete(listener)
+  }
+}
+
+// Errores que indican falta de red: la mutación se queda pendiente en lugar de fallar
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true
+  const message = error instanceof Error ? error.message : (error as { message?: string })?.message || ""
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message)
+}
+
+// Llave primaria repetida (Postgres 23505): al reintentar un alta que sí llegó aunque se perdió la respuesta
+export function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: string })?.code === "23505"
+}
+
+// Aplicar las mutaciones pendientes sobre una lista de entradas (vista optimista)
+export function applyMutations(entries: Entry[], mutations: QueuedMutation[]): Entry[] {
+  return mutations.reduce((current, mutation) => {
+    switch (mutation.kind) {
+      case "create":
+        if (current.some((entry) => entry.id === mutation.entryId)) return current
+        return [{ ...mutation.data, id: mutation.entryId, created_at: mutation.queuedAt }, ...current]
+      case "update":
+        return current.map((entry) => (entry.id === mutation.entryId ? { ...entry, ...mutation.data } : entry))
+      case "delete":
+        return current.filter((entry) => entry.id !== mutation.entryId)
+    }
+  }, entries)
+}
+
+// Estado de sincronización por id a partir de la cola
+export function getSyncStates(mutations: QueuedMutation[]): Record<string, SyncState> {
+  const states: Record<string, SyncState> = {}
+  mutations.forEach((mutation) => {
+    if (states[mutation.entryId] === "failed") return
+    states[mutation.entryId] = mutation.status === "failed" ? "failed" : "pending"
+  })
+  return states
+}
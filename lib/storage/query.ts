@@ -0,0 +1,93 @@
+import { fromCents, toCents } from "@/lib/money"
+import { entryBaseCents } from "./currency"
+import type {
+  AccountFlowRow,
+  CurrencyConversion,
+  Entry,
+  EntryPageRequest,
+  EntryPage,
+  EntryQuery,
+  EntrySummaryRow,
+} from "./types"
+
+export const DEFAULT_PAGE_SIZE = 500
+
+// El cursor codifica la última fila devuelta: fecha e id
+export function encodeCursor(entry: Entry): string {
+  return `${entry.date}|${entry.id}`
+}
+
+export function decodeCursor(cursor: string): { date: string; id: string } {
+  const [date, id] = cursor.split("|")
+  return { date, id }
+}
+
+// Orden estable para paginar: fecha descendente, luego id descendente
+export function compareByDateDesc(a: Entry, b: Entry): number {
+  if (a.date !== b.date) return a.date < b.date ? 1 : -1
+  return (b.id || "").localeCompare(a.id || "")
+}
+
+export function matchesQuery(entry: Entry, query: EntryQuery = {}): boolean {
+  if (query.from && entry.date < query.from) return false
+  if (query.to && entry.date > query.to) return false
+  if (query.types && query.types.length > 0 && !query.types.includes(entry.type)) return false
+  if (query.categories && query.categories.length > 0 && !query.categories.includes(entry.category)) return false
+  return true
+}
+
+// Clave estable para usar una consulta como dependencia de efectos
+export function queryKey(query?: EntryQuery): string {
+  if (!query) return ""
+  return JSON.stringify([query.from || "", query.to || "", query.types || [], query.categories || []])
+}
+
+// Paginación en memoria, usada por los backends locales
+export function paginateEntries(entries: Entry[], request: EntryPageRequest): EntryPage {
+  const limit = request.limit || DEFAULT_PAGE_SIZE
+  let rows = entries.filter((entry) => matchesQuery(entry, request)).sort(compareByDateDesc)
+
+  if (request.cursor) {
+    const after = decodeCursor(request.cursor)
+    rows = rows.filter((entry) => entry.date < after.date || (entry.date === after.date && (entry.id || "") < after.id))
+  }
+
+  const page = rows.slice(0, limit)
+  return {
+    entries: page,
+    nextCursor: rows.length > limit ? encodeCursor(page[page.length - 1]) : null,
+  }
+}
+
+export function summarizeEntries(
+  entries: Entry[],
+  query: EntryQuery = {},
+  conversion?: CurrencyConversion,
+): EntrySummaryRow[] {
+  const rows: { [key: string]: EntrySummaryRow } = {}
+  entries.forEach((entry) => {
+    if (!matchesQuery(entry, query)) return
+    const key = `${entry.type}|${entry.category}`
+    if (!rows[key]) rows[key] = { type: entry.type, category: entry.category, total: 0, count: 0 }
+    // Sumar en centavos para que el total no arrastre errores de redondeo
+    rows[key].total = fromCents(toCents(rows[key].total) + entryBaseCents(entry, conversion))
+    rows[key].count += 1
+  })
+  return Object.values(rows)
+}
+
+// Versión local de account_flows (ver scripts/create-accounts.sql)
+export function summarizeAccountFlows(entries: Entry[], conversion?: CurrencyConversion): AccountFlowRow[] {
+  const rows: { [key: string]: AccountFlowRow } = {}
+  entries.forEach((entry) => {
+    const account = entry.account_id || null
+    const transfer = entry.transfer_account_id || null
+    const key = `${account}|${transfer}|${entry.type}|${entry.date}`
+    if (!rows[key]) {
+      rows[key] = { account_id: account, transfer_account_id: transfer, type: entry.type, date: entry.date, total: 0, count: 0 }
+    }
+    rows[key].total = fromCents(toCents(rows[key].total) + entryBaseCents(entry, conversion))
+    rows[key].count += 1
+  })
+  return Object.values(rows)
+}
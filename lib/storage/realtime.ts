@@ -0,0 +1,24 @@
+import type { Entry, EntryChange } from "./types"
+
+// Fusionar un cambio de tiempo real en la lista local, por id
+export function mergeEntryChange(entries: Entry[], change: EntryChange): Entry[] {
+  if (change.eventType === "DELETE") {
+    return entries.some((entry) => entry.id === change.id) ? entries.filter((entry) => entry.id !== change.id) : entries
+  }
+
+  const index = entries.findIndex((entry) => entry.id === change.id)
+  if (index === -1) return [change.entry, ...entries]
+
+  const current = entries[index]
+  // Ignorar versiones más viejas que la que ya tenemos
+  if (current.updated_at && change.entry.updated_at && change.entry.updated_at < current.updated_at) return entries
+
+  const next = [...entries]
+  next[index] = change.entry
+  return next
+}
+
+// Huella de una escritura propia, para reconocer su eco en el canal de tiempo real
+export function writeFingerprint(change: EntryChange): string {
+  return change.eventType === "DELETE" ? `${change.id}:deleted` : `${change.id}:${change.entry.updated_at || ""}`
+}
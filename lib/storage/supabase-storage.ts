@@ -0,0 +1,286 @@
+import type { RealtimePostgresChangesPayload, SupabaseClient } from "@supabase/supabase-js"
+import { DEFAULT_PAGE_SIZE, decodeCursor, encodeCursor } from "./query"
+import type {
+  AccountFlowRow,
+  EntriesStorage,
+  Entry,
+  EntryChange,
+  EntryInput,
+  EntryPage,
+  EntryPageRequest,
+  EntryQuery,
+  EntrySummaryRow,
+  NewEntry,
+} from "./types"
+
+// Backend que guarda las entradas en la tabla "entries" de Supabase, limitado a un espacio de trabajo
+export function createSupabaseStorage(client: SupabaseClient, workspaceId: string): EntriesStorage {
+  return {
+    name: "Supabase",
+    workspaceId,
+
+    // Obtener todas las entradas
+    async getAll(): Promise<Entry[]> {
+      try {
+        console.log("📡 Consultando base de datos...")
+        const { data, error } = await client
+          .from("entries")
+          .select("*")
+          .eq("workspace_id", workspaceId)
+          .order("created_at", { ascending: false })
+
+        if (error) {
+          console.error("❌ Error en consulta SQL:", error)
+          throw error
+        }
+
+        console.log("📊 Datos recibidos de la base de datos:", data?.length || 0)
+        return data || []
+      } catch (error) {
+        console.error("❌ Error in getAll:", error)
+        throw error
+      }
+    },
+
+    // Consultar un rango de entradas, página por página
+    async query(request: EntryPageRequest): Promise<EntryPage> {
+      try {
+        const limit = request.limit || DEFAULT_PAGE_SIZE
+        console.log("📡 Consultando rango:", request.from, request.to, request.cursor || "inicio")
+
+        let query = client.from("entries").select("*").eq("workspace_id", workspaceId)
+        if (request.from) query = query.gte("date", request.from)
+        if (request.to) query = query.lte("date", request.to)
+        if (request.types && request.types.length > 0) query = query.in("type", request.types)
+        if (request.categories && request.categories.length > 0) query = query.in("category", request.categories)
+        if (request.cursor) {
+          const after = decodeCursor(request.cursor)
+          query = query.or(`date.lt.${after.date},and(date.eq.${after.date},id.lt.${after.id})`)
+        }
+
+        // Pedir una fila de más para saber si hay otra página
+        const { data, error } = await query
+          .order("date", { ascending: false })
+          .order("id", { ascending: false })
+          .limit(limit + 1)
+
+        if (error) {
+          console.error("❌ Error en consulta SQL:", error)
+          throw error
+        }
+
+        const rows = (data || []) as Entry[]
+        const entries = rows.slice(0, limit)
+        return {
+          entries,
+          nextCursor: rows.length > limit ? encodeCursor(entries[entries.length - 1]) : null,
+        }
+      } catch (error) {
+        console.error("❌ Error in query:", error)
+        throw error
+      }
+    },
+
+    // Totales por tipo y categoría, calculados en la base de datos (ver scripts/create-summary-function.sql)
+    async summarize(query: EntryQuery): Promise<EntrySummaryRow[]> {
+      try {
+        const { data, error } = await client.rpc("entries_summary", {
+          p_workspace_id: workspaceId,
+          p_from: query.from || null,
+          p_to: query.to || null,
+          p_types: query.types && query.types.length > 0 ? query.types : null,
+          p_categories: query.categories && query.categories.length > 0 ? query.categories : null,
+        })
+
+        if (error) {
+          console.error("❌ Error en resumen SQL:", error)
+          throw error
+        }
+
+        return ((data || []) as EntrySummaryRow[]).map((row) => ({
+          ...row,
+          total: Number(row.total),
+          count: Number(row.count),
+        }))
+      } catch (error) {
+        console.error("❌ Error in summarize:", error)
+        throw error
+      }
+    },
+
+    // Movimientos por cuenta y día, calculados en la base de datos (ver scripts/create-accounts.sql)
+    async accountFlows(): Promise<AccountFlowRow[]> {
+      try {
+        const { data, error } = await client.rpc("account_flows", { p_workspace_id: workspaceId })
+
+        if (error) {
+          console.error("❌ Error en saldos SQL:", error)
+          throw error
+        }
+
+        return ((data || []) as AccountFlowRow[]).map((row) => ({
+          ...row,
+          total: Number(row.total),
+          count: Number(row.count),
+        }))
+      } catch (error) {
+        console.error("❌ Error in accountFlows:", error)
+        throw error
+      }
+    },
+
+    // Una entrada por id (la cola offline la busca si un alta ya había llegado)
+    async get(id: string): Promise<Entry | null> {
+      try {
+        const { data, error } = await client.from("entries").select("*").eq("id", id).maybeSingle()
+
+        if (error) {
+          console.error("❌ Error en consulta SQL:", error)
+          throw error
+        }
+
+        return data
+      } catch (error) {
+        console.error("❌ Error in get:", error)
+        throw error
+      }
+    },
+
+    // Crear nueva entrada
+    async create(entry: NewEntry): Promise<Entry | null> {
+      try {
+        console.log("💾 Insertando en base de datos:", entry)
+        const { data, error } = await client
+          .from("entries")
+          .insert([{ workspace_id: workspaceId, ...entry }])
+          .select()
+          .single()
+
+        if (error) {
+          console.error("❌ Error en inserción SQL:", error)
+          throw error
+        }
+
+        console.log("✅ Entrada insertada exitosamente:", data)
+        return data
+      } catch (error) {
+        console.error("❌ Error in create:", error)
+        throw error
+      }
+    },
+
+    // Un solo INSERT: si una fila falla, no se guarda ninguna
+    async createMany(entries: NewEntry[]): Promise<Entry[]> {
+      if (entries.length === 0) return []
+      try {
+        console.log("💾 Insertando lote en base de datos:", entries.length)
+        const { data, error } = await client
+          .from("entries")
+          .insert(entries.map((entry) => ({ workspace_id: workspaceId, ...entry })))
+          .select()
+
+        if (error) {
+          console.error("❌ Error en inserción SQL del lote:", error)
+          throw error
+        }
+
+        console.log("✅ Lote insertado exitosamente:", data?.length || 0)
+        return data || []
+      } catch (error) {
+        console.error("❌ Error in createMany:", error)
+        throw error
+      }
+    },
+
+    // Eliminar entrada
+    async delete(id: string): Promise<boolean> {
+      try {
+        console.log("🗑️ Eliminando de base de datos:", id)
+        const { error } = await client.from("entries").delete().eq("id", id)
+
+        if (error) {
+          console.error("❌ Error en eliminación SQL:", error)
+          throw error
+        }
+
+        console.log("✅ Entrada eliminada exitosamente")
+        return true
+      } catch (error) {
+        console.error("❌ Error in delete:", error)
+        throw error
+      }
+    },
+
+    // Actualizar entrada existente
+    async update(id: string, entry: Partial<EntryInput>): Promise<Entry | null> {
+      try {
+        console.log("✏️ Actualizando en base de datos:", id, entry)
+        const { data, error } = await client.from("entries").update(entry).eq("id", id).select().single()
+
+        if (error) {
+          console.error("❌ Error en actualización SQL:", error)
+          throw error
+        }
+
+        console.log("✅ Entrada actualizada exitosamente:", data)
+        return data
+      } catch (error) {
+        console.error("❌ Error in update:", error)
+        throw error
+      }
+    },
+
+    // Suscribirse a cambios en tiempo real
+    subscribeToChanges(callback, onStatus) {
+      try {
+        console.log("🔔 Configurando canal de tiempo real...")
+
+        const subscription = client
+          .channel(`entries_realtime_${workspaceId}_${Math.random().toString(36).slice(2)}`)
+          .on(
+            "postgres_changes",
+            {
+              event: "*", // Escuchar INSERT, UPDATE, DELETE
+              schema: "public",
+              table: "entries",
+              // Supabase no filtra los DELETE; llegan solo con el id y borrar uno ajeno no tiene efecto
+              filter: `workspace_id=eq.${workspaceId}`,
+            },
+            (payload: RealtimePostgresChangesPayload<Entry>) => {
+              console.log("🔄 Cambio detectado en tiempo real:", payload.eventType, payload)
+              // Pasar el cambio concreto para fusionarlo en el estado local sin recargar todo
+              let change: EntryChange | null = null
+              if (payload.eventType === "DELETE") {
+                if (payload.old.id) change = { eventType: "DELETE", id: payload.old.id }
+              } else if (payload.new.id) {
+                change = { eventType: payload.eventType, id: payload.new.id, entry: payload.new }
+              }
+              if (change) callback(change)
+            },
+          )
+          .subscribe((status) => {
+            console.log("📡 Estado de suscripción realtime:", status)
+            if (status === "SUBSCRIBED") {
+              console.log("✅ Suscripción realtime activa")
+            } else if (status === "CHANNEL_ERROR") {
+              console.error("❌ Error en canal realtime")
+            } else if (status === "TIMED_OUT") {
+              console.error("⏰ Timeout en suscripción realtime")
+            }
+            onStatus?.(status)
+          })
+
+        return subscription
+      } catch (error) {
+        console.error("❌ Error setting up subscription:", error)
+        return null
+      }
+    },
+
+    // Verificar que la tabla responde
+    async checkConnection() {
+      const { error } = await client.from("entries").select("count").eq("workspace_id", workspaceId).limit(1)
+      if (error) throw error
+    },
+  }
+}
@@ -0,0 +1,166 @@
+export interface Entry {
+  id?: string
+  type: "gasto" | "ingreso" | "inversion"
+  category: string
+  amount: number
+  // Moneda original (ISO 4217); sin valor es la moneda base del negocio
+  currency?: string
+  date: string
+  description?: string
+  // Espacio de trabajo (negocio) al que pertenece
+  workspace_id?: string
+  // Regla recurrente que la generó (ver lib/recurring.ts)
+  recurring_rule_id?: string
+  // Id del movimiento en el estado de cuenta del que se importó (ver lib/import/statement.ts)
+  bank_transaction_id?: string
+  // Factura CFDI de la que se importó, con su desglose de impuestos (ver lib/import/cfdi.ts)
+  invoice?: EntryInvoice
+  // Comprobantes (fotos, PDFs); el archivo vive en el almacén de archivos (ver lib/storage/blob-store.ts)
+  attachments?: EntryAttachment[]
+  // Cuenta donde entró o salió el dinero; sin valor es la caja (ver lib/accounts.ts)
+  account_id?: string | null
+  // Solo en traspasos: cuenta que recibe lo que sale de account_id
+  transfer_account_id?: string | null
+  // Usuario dueño de la entrada; lo asigna la base de datos (auth.uid())
+  owner_id?: string
+  created_at?: string
+  updated_at?: string
+}
+
+// Datos fiscales de una factura CFDI; montos en la moneda de la factura
+export interface EntryInvoice {
+  // Folio fiscal (UUID del timbre); no se importa dos veces la misma factura
+  uuid: string
+  issuer_rfc: string
+  issuer_name?: string
+  series?: string
+  folio?: string
+  // Fecha y hora de emisión tal como viene en el XML
+  issued_at: string
+  subtotal: number
+  discount?: number
+  iva: number
+  // IEPS trasladado (refrescos, bebidas azucaradas)
+  ieps?: number
+  // ISR e IVA retenidos
+  withheld?: number
+  total: number
+}
+
+// Archivo adjunto a una entrada
+export interface EntryAttachment {
+  id: string
+  name: string
+  // Tipo MIME (image/jpeg, application/pdf...)
+  type: string
+  size: number
+  // Ruta en el almacén de archivos: {workspace_id}/{entry_id}/{id}-{name}
+  path: string
+  // Miniatura JPEG como data URL, para mostrarla sin descargar el archivo (solo imágenes)
+  thumbnail?: string
+  created_at: string
+  // Contenido como data URL; solo viaja dentro de los respaldos
+  data?: string
+}
+
+// Datos que el usuario captura al crear una entrada
+export type EntryInput = Omit<Entry, "id" | "owner_id" | "created_at" | "updated_at">
+
+// Al crear se puede fijar el id desde el cliente (p. ej. para escrituras offline)
+export type NewEntry = EntryInput & Pick<Entry, "id">
+
+// Filtros que el backend aplica del lado del servidor
+export interface EntryQuery {
+  // Rango de fechas inclusivo, en formato YYYY-MM-DD
+  from?: string
+  to?: string
+  types?: Entry["type"][]
+  categories?: string[]
+}
+
+// Consulta paginada por cursor (orden: fecha descendente, luego id)
+export interface EntryPageRequest extends EntryQuery {
+  limit?: number
+  cursor?: string | null
+}
+
+export interface EntryPage {
+  entries: Entry[]
+  // Cursor para pedir la siguiente página; null si no hay más
+  nextCursor: string | null
+}
+
+// Unidades de la moneda base que vale una unidad de `currency` en esa fecha
+export interface ExchangeRate {
+  id: string
+  workspace_id?: string
+  currency: string
+  date: string
+  rate: number
+  created_at?: string
+}
+
+// Lo necesario para llevar cualquier entrada a la moneda base
+export interface CurrencyConversion {
+  baseCurrency: string
+  rates: ExchangeRate[]
+}
+
+// Totales agrupados por tipo y categoría, en la moneda base
+export interface EntrySummaryRow {
+  type: Entry["type"]
+  category: string
+  total: number
+  count: number
+}
+
+// Movimiento neto por cuenta y día, en la moneda base (ver lib/accounts.ts)
+export interface AccountFlowRow {
+  account_id: string | null
+  transfer_account_id: string | null
+  type: Entry["type"]
+  date: string
+  total: number
+  count: number
+}
+
+// Cambio individual recibido por el canal de tiempo real
+export type EntryChange =
+  { eventType: "INSERT" | "UPDATE"; id: string; entry: Entry } | { eventType: "DELETE"; id: string }
+
+// Estado del canal de cambios en tiempo real
+export type RealtimeChannelStatus = "SUBSCRIBED" | "CHANNEL_ERROR" | "TIMED_OUT" | "CLOSED"
+
+export interface EntriesSubscription {
+  unsubscribe: () => unknown
+}
+
+/**
+ * Contrato que debe cumplir cualquier backend de almacenamiento de entradas.
+ * La app solo habla con `entriesService`, que delega en la implementación activa.
+ */
+export interface EntriesStorage {
+  // Nombre legible del backend (se muestra en el indicador de conexión)
+  readonly name: string
+  // Espacio de trabajo al que se limitan todas las operaciones
+  readonly workspaceId: string
+  getAll(): Promise<Entry[]>
+  query(request: EntryPageRequest): Promise<EntryPage>
+  // Supabase convierte en el servidor; los backends locales usan `conversion`
+  summarize(query: EntryQuery, conversion?: CurrencyConversion): Promise<EntrySummaryRow[]>
+  // Todo el historial agrupado por cuenta y día, para los saldos de las cuentas
+  accountFlows(conversion?: CurrencyConversion): Promise<AccountFlowRow[]>
+  // Una entrada por id; null si no existe o no se puede ver
+  get(id: string): Promise<Entry | null>
+  create(entry: NewEntry): Promise<Entry | null>
+  // Varias entradas de una vez: se guardan todas o ninguna
+  createMany(entries: NewEntry[]): Promise<Entry[]>
+  update(id: string, entry: Partial<EntryInput>): Promise<Entry | null>
+  delete(id: string): Promise<boolean>
+  subscribeToChanges(
+    callback: (change: EntryChange) => void,
+    onStatus?: (status: RealtimeChannelStatus) => void,
+  ): EntriesSubscription | null
+  // Lanza un error si el backend no está disponible
+  checkConnection(): Promise<void>
+}
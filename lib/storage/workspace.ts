@@ -0,0 +1,31 @@
+// Espacio de trabajo (negocio) activo: todas las lecturas y escrituras de entradas se limitan a él
+
+// Espacio implícito de los backends locales; las entradas sin workspace_id pertenecen a él
+export const DEFAULT_WORKSPACE_ID = "default"
+
+const STORAGE_KEY = "gestion-financiera-workspace"
+
+let activeWorkspaceId: string | null = null
+
+export function getActiveWorkspaceId(): string {
+  if (activeWorkspaceId) return activeWorkspaceId
+  return getRememberedWorkspaceId() || DEFAULT_WORKSPACE_ID
+}
+
+// Último espacio elegido en este navegador, para volver a él al recargar
+export function getRememberedWorkspaceId(): string | null {
+  if (typeof window === "undefined") return null
+  return window.localStorage.getItem(STORAGE_KEY)
+}
+
+export function setActiveWorkspaceId(workspaceId: string) {
+  if (workspaceId === activeWorkspaceId) return
+  activeWorkspaceId = workspaceId
+  if (typeof window !== "undefined") window.localStorage.setItem(STORAGE_KEY, workspaceId)
+  console.log("🏪 Espacio de trabajo activo:", workspaceId)
+}
+
+// Las entradas locales anteriores a los espacios de trabajo no tienen workspace_id
+export function entryWorkspaceId(entry: { workspace_id?: string }): string {
+  return entry.workspace_id || DEFAULT_WORKSPACE_ID
+}
@@ -0,0 +1,243 @@
+import { supabase } from "@/lib/supabase"
+import { DEFAULT_WORKSPACE_ID, generateEntryId, getConfiguredBackend } from "@/lib/storage"
+import type { WorkspaceRole } from "@/lib/permissions"
+import { DEFAULT_CURRENCY } from "@/lib/money"
+import { DEFAULT_BUSINESS_CALENDAR, normalizeBusinessCalendar, type BusinessCalendar } from "@/lib/business-calendar"
+import { DEFAULT_BALANCE_METRIC, isFinanceMetric, type FinanceMetric } from "@/lib/metrics"
+
+export interface Workspace {
+  id: string
+  name: string
+  created_at?: string
+  // Rol del usuario actual en este espacio
+  role: WorkspaceRole
+  // Si los miembros de solo lectura pueden exportar los datos
+  allow_viewer_export: boolean
+  // Moneda en la que se muestran los totales (ISO 4217)
+  base_currency: string
+  // Días de operación, inicio de semana, días cerrados y año fiscal
+  calendar: BusinessCalendar
+  // Métrica que muestra la tarjeta "Balance" (ver lib/metrics.ts)
+  balance_metric: FinanceMetric
+}
+
+export interface WorkspaceMember {
+  user_id: string
+  email: string
+  role: WorkspaceRole
+}
+
+// Nombre del primer espacio que se crea para una cuenta nueva
+export const DEFAULT_WORKSPACE_NAME = "Mi negocio"
+
+const LOCAL_WORKSPACES_KEY = "gestion-financiera-workspaces"
+
+// Los backends locales guardan la lista de espacios en el propio navegador
+function loadLocalWorkspaces(): Workspace[] {
+  const stored = typeof window !== "undefined" ? window.localStorage.getItem(LOCAL_WORKSPACES_KEY) : null
+  const workspaces: Workspace[] = stored ? JSON.parse(stored) : []
+  if (!workspaces.some((workspace) => workspace.id === DEFAULT_WORKSPACE_ID)) {
+    workspaces.unshift({
+      id: DEFAULT_WORKSPACE_ID,
+      name: DEFAULT_WORKSPACE_NAME,
+      role: "owner",
+      allow_viewer_export: true,
+      base_currency: DEFAULT_CURRENCY,
+      calendar: DEFAULT_BUSINESS_CALENDAR,
+      balance_metric: DEFAULT_BALANCE_METRIC,
+    })
+  }
+  // Espacios guardados antes de que existieran la moneda base, el calendario y la métrica del balance
+  return workspaces.map((workspace) => ({
+    ...workspace,
+    base_currency: workspace.base_currency || DEFAULT_CURRENCY,
+    calendar: normalizeBusinessCalendar(workspace.calendar),
+    balance_metric: balanceMetricOf(workspace.balance_metric),
+  }))
+}
+
+function balanceMetricOf(value: unknown): FinanceMetric {
+  return isFinanceMetric(value) ? value : DEFAULT_BALANCE_METRIC
+}
+
+function saveLocalWorkspaces(workspaces: Workspace[]) {
+  if (typeof window !== "undefined") window.localStorage.setItem(LOCAL_WORKSPACES_KEY, JSON.stringify(workspaces))
+}
+
+function isLocalBackend() {
+  return getConfiguredBackend() !== "supabase"
+}
+
+// Negocios cuyos libros lleva el usuario (ver scripts/create-workspaces.sql)
+export const workspacesService = {
+  async list(): Promise<Workspace[]> {
+    if (isLocalBackend()) return loadLocalWorkspaces()
+
+    // Incluye el rol del usuario en cada espacio
+    const { data, error } = await supabase.rpc("my_workspaces")
+    if (error) {
+      console.error("❌ Error cargando espacios de trabajo:", error)
+      throw error
+    }
+    return (data || []).map((workspace: Workspace) => ({
+      ...workspace,
+      calendar: normalizeBusinessCalendar(workspace.calendar),
+      balance_metric: balanceMetricOf(workspace.balance_metric),
+    }))
+  },
+
+  async create(name: string): Promise<Workspace> {
+    console.log("🏪 Creando espacio de trabajo:", name)
+    if (isLocalBackend()) {
+      const workspace: Workspace = {
+        id: generateEntryId(),
+        name,
+        created_at: new Date().toISOString(),
+        role: "owner",
+        allow_viewer_export: true,
+        base_currency: DEFAULT_CURRENCY,
+        calendar: DEFAULT_BUSINESS_CALENDAR,
+        balance_metric: DEFAULT_BALANCE_METRIC,
+      }
+      saveLocalWorkspaces([...loadLocalWorkspaces(), workspace])
+      return workspace
+    }
+
+    // El disparador de la base de datos agrega al creador como dueño
+    const { data, error } = await supabase
+      .from("workspaces")
+      .insert([{ name }])
+      .select("id, name, created_at, allow_viewer_export, base_currency, calendar, balance_metric")
+      .single()
+    if (error) {
+      console.error("❌ Error creando espacio de trabajo:", error)
+      throw error
+    }
+    return {
+      ...data,
+      role: "owner",
+      calendar: normalizeBusinessCalendar(data.calendar),
+      balance_metric: balanceMetricOf(data.balance_metric),
+    }
+  },
+
+  async setViewerExport(id: string, allowed: boolean): Promise<void> {
+    if (isLocalBackend()) {
+      saveLocalWorkspaces(
+        loadLocalWorkspaces().map((workspace) =>
+          workspace.id === id ? { ...workspace, allow_viewer_export: allowed } : workspace,
+        ),
+      )
+      return
+    }
+
+    const { error } = await supabase.from("workspaces").update({ allow_viewer_export: allowed }).eq("id", id)
+    if (error) {
+      console.error("❌ Error actualizando permisos de exportación:", error)
+      throw error
+    }
+  },
+
+  // Solo cambia cómo se muestran los totales; los montos guardados no se tocan
+  async setBaseCurrency(id: string, currency: string): Promise<void> {
+    console.log("💱 Cambiando moneda base:", currency)
+    if (isLocalBackend()) {
+      saveLocalWorkspaces(
+        loadLocalWorkspaces().map((workspace) =>
+          workspace.id === id ? { ...workspace, base_currency: currency } : workspace,
+        ),
+      )
+      return
+    }
+
+    const { error } = await supabase.from("workspaces").update({ base_currency: currency }).eq("id", id)
+    if (error) {
+      console.error("❌ Error cambiando moneda base:", error)
+      throw error
+    }
+  },
+
+  // Cambia cómo se agrupan semanas y años; también mueve la semana que el cajero puede corregir
+  async setCalendar(id: string, calendar: BusinessCalendar): Promise<void> {
+    console.log("📆 Guardando calendario del negocio:", calendar)
+    if (isLocalBackend()) {
+      saveLocalWorkspaces(
+        loadLocalWorkspaces().map((workspace) => (workspace.id === id ? { ...workspace, calendar } : workspace)),
+      )
+      return
+    }
+
+    const { error } = await supabase.from("workspaces").update({ calendar }).eq("id", id)
+    if (error) {
+      console.error("❌ Error guardando calendario del negocio:", error)
+      throw error
+    }
+  },
+
+  // Solo cambia qué total se muestra como balance
+  async setBalanceMetric(id: string, metric: FinanceMetric): Promise<void> {
+    console.log("💎 Cambiando métrica del balance:", metric)
+    if (isLocalBackend()) {
+      saveLocalWorkspaces(
+        loadLocalWorkspaces().map((workspace) =>
+          workspace.id === id ? { ...workspace, balance_metric: metric } : workspace,
+        ),
+      )
+      return
+    }
+
+    const { error } = await supabase.from("workspaces").update({ balance_metric: metric }).eq("id", id)
+    if (error) {
+      console.error("❌ Error cambiando métrica del balance:", error)
+      throw error
+    }
+  },
+
+  // Miembros con su correo; solo disponible con Supabase
+  async listMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    const { data, error } = await supabase.rpc("workspace_member_list", { p_workspace_id: workspaceId })
+    if (error) {
+      console.error("❌ Error cargando miembros:", error)
+      throw error
+    }
+    return data || []
+  },
+
+  // El usuario debe tener cuenta; se busca por correo en la base de datos
+  async addMember(workspaceId: string, email: string, role: WorkspaceRole): Promise<void> {
+    console.log("👥 Agregando miembro:", email, role)
+    const { error } = await supabase.rpc("add_workspace_member", {
+      p_workspace_id: workspaceId,
+      p_email: email,
+      p_role: role,
+    })
+    if (error) {
+      console.error("❌ Error agregando miembro:", error)
+      throw error
+    }
+  },
+
+  async setMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<void> {
+    const { error } = await supabase
+      .from("workspace_members")
+      .update({ role })
+      .eq("workspace_id", workspaceId)
+      .eq("user_id", userId)
+    if (error) {
+      console.error("❌ Error cambiando rol:", error)
+      throw error
+    }
+  },
+
+  async removeMember(workspaceId: string, userId: string): Promise<void> {
+    const { error } = await supabase
+      .from("workspace_members")
+      .delete()
+      .eq("workspace_id", workspaceId)
+      .eq("user_id", userId)
+    if (error) {
+      console.error("❌ Error quitando miembro:", error)
+      throw error
+    }
+  },
+}
@@ -0,0 +1,144 @@
+-- Cuentas: dónde está el dinero (Caja, Banco, Tarjeta) y traspasos entre ellas (ver lib/accounts.ts)
+-- Ejecutar después de create-cash-movements.sql
+-- Las entradas sin cuenta (las anteriores a este script) cuentan en la primera caja del negocio
+
+CREATE TABLE IF NOT EXISTS accounts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  kind VARCHAR(10) NOT NULL DEFAULT 'cash' CHECK (kind IN ('cash', 'bank', 'card')),
+  icon VARCHAR(16) NOT NULL DEFAULT '',
+  opening_balance DECIMAL(12,2) NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  archived BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (workspace_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounts_workspace ON accounts(workspace_id, sort_order);
+
+DROP TRIGGER IF EXISTS update_accounts_updated_at ON accounts;
+CREATE TRIGGER update_accounts_updated_at
+    BEFORE UPDATE ON accounts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Cuenta de cada entrada y, en los traspasos, la cuenta a la que llega el dinero
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS transfer_account_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_entries_account ON entries(workspace_id, account_id, date);
+
+-- La llave foránea solo pide que la cuenta exista; además debe ser del mismo negocio que la entrada
+CREATE OR REPLACE FUNCTION check_entry_accounts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.account_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM accounts WHERE id = NEW.account_id AND workspace_id = NEW.workspace_id
+  ) THEN
+    RAISE EXCEPTION 'La cuenta no pertenece a este negocio';
+  END IF;
+  IF NEW.transfer_account_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM accounts WHERE id = NEW.transfer_account_id AND workspace_id = NEW.workspace_id
+  ) THEN
+    RAISE EXCEPTION 'La cuenta destino no pertenece a este negocio';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_entry_accounts ON entries;
+CREATE TRIGGER check_entry_accounts
+    BEFORE INSERT OR UPDATE OF workspace_id, account_id, transfer_account_id ON entries
+    FOR EACH ROW
+    EXECUTE FUNCTION check_entry_accounts();
+
+-- Cuentas iniciales (las mismas que DEFAULT_ACCOUNTS en lib/accounts.ts)
+CREATE OR REPLACE FUNCTION seed_default_accounts(p_workspace_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO accounts (workspace_id, name, kind, icon, sort_order)
+  SELECT p_workspace_id, d.name, d.kind, d.icon, d.sort_order
+  FROM (VALUES
+    ('Caja', 'cash', '💵', 0),
+    ('Banco', 'bank', '🏦', 1),
+    ('Tarjeta', 'card', '💳', 2)
+  ) AS d(name, kind, icon, sort_order)
+  ON CONFLICT (workspace_id, name) DO NOTHING;
+$$;
+
+-- SECURITY DEFINER: sin esto cualquiera podría sembrar en un negocio ajeno; solo lo llama el trigger seed_workspace_accounts
+REVOKE EXECUTE ON FUNCTION seed_default_accounts(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Sembrar los negocios existentes y los que se creen después
+SELECT seed_default_accounts(id) FROM workspaces;
+
+CREATE OR REPLACE FUNCTION seed_workspace_accounts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM seed_default_accounts(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS seed_workspace_accounts ON workspaces;
+CREATE TRIGGER seed_workspace_accounts
+    AFTER INSERT ON workspaces
+    FOR EACH ROW
+    EXECUTE FUNCTION seed_workspace_accounts();
+
+-- Todos los miembros las leen; solo dueño y encargado las administran
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read accounts" ON accounts;
+CREATE POLICY "Members can read accounts" ON accounts
+  FOR SELECT TO authenticated USING (is_workspace_member(workspace_id));
+
+DROP POLICY IF EXISTS "Managers can insert accounts" ON accounts;
+CREATE POLICY "Managers can insert accounts" ON accounts
+  FOR INSERT TO authenticated WITH CHECK (workspace_role(workspace_id) IN ('owner', 'manager'));
+
+DROP POLICY IF EXISTS "Managers can update accounts" ON accounts;
+CREATE POLICY "Managers can update accounts" ON accounts
+  FOR UPDATE TO authenticated
+  USING (workspace_role(workspace_id) IN ('owner', 'manager'))
+  WITH CHECK (workspace_role(workspace_id) IN ('owner', 'manager'));
+
+REVOKE ALL ON accounts FROM anon;
+
+-- Movimiento de cada cuenta por día, en la moneda base (igual que entries_summary)
+-- Lo usa entriesService.accountFlows() para los saldos sin descargar todo el historial
+CREATE OR REPLACE FUNCTION account_flows(p_workspace_id UUID)
+RETURNS TABLE (account_id UUID, transfer_account_id UUID, type VARCHAR, date DATE, total NUMERIC, count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    e.account_id,
+    e.transfer_account_id,
+    e.type,
+    e.date,
+    SUM(
+      CASE
+        WHEN e.currency IS NULL OR e.currency = w.base_currency THEN e.amount
+        ELSE ROUND(e.amount * COALESCE(exchange_rate_on(e.workspace_id, e.currency, e.date), 1), 2)
+      END
+    ) AS total,
+    COUNT(*) AS count
+  FROM entries e
+  JOIN workspaces w ON w.id = e.workspace_id
+  WHERE e.workspace_id = p_workspace_id
+  GROUP BY e.account_id, e.transfer_account_id, e.type, e.date;
+$$;
@@ -0,0 +1,46 @@
+-- Comprobantes (fotos de tickets, PDFs) adjuntos a las entradas
+-- Ejecutar después de create-invoices.sql
+
+-- [{ id, name, type, size, path, thumbnail, created_at }]; el archivo vive en Storage, aquí solo su ruta y miniatura
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS attachments JSONB;
+
+-- Bucket privado: los archivos se sirven con URLs firmadas
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('attachments', 'attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Rutas: {workspace_id}/{entry_id}/{archivo}; el permiso sale del rol en el negocio de la primera carpeta
+DROP POLICY IF EXISTS "Members can read attachments" ON storage.objects;
+CREATE POLICY "Members can read attachments" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'attachments' AND is_workspace_member(((storage.foldername(name))[1])::uuid));
+
+DROP POLICY IF EXISTS "Writers can upload attachments" ON storage.objects;
+CREATE POLICY "Writers can upload attachments" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'attachments'
+    AND workspace_role(((storage.foldername(name))[1])::uuid) IN ('owner', 'manager', 'cashier')
+  );
+
+-- Reemplazar un archivo (restaurar un respaldo sobre la misma ruta) borra el original: mismo permiso que borrar
+DROP POLICY IF EXISTS "Managers can replace attachments" ON storage.objects;
+CREATE POLICY "Managers can replace attachments" ON storage.objects
+  FOR UPDATE TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND workspace_role(((storage.foldername(name))[1])::uuid) IN ('owner', 'manager')
+  )
+  WITH CHECK (
+    bucket_id = 'attachments'
+    AND workspace_role(((storage.foldername(name))[1])::uuid) IN ('owner', 'manager')
+  );
+
+-- Borrar archivos solo dueño y encargado (el cajero quita el adjunto de la entrada; el archivo queda)
+DROP POLICY IF EXISTS "Managers can delete attachments" ON storage.objects;
+CREATE POLICY "Managers can delete attachments" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND workspace_role(((storage.foldername(name))[1])::uuid) IN ('owner', 'manager')
+  );
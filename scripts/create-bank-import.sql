@@ -0,0 +1,49 @@
+-- Importación de estados de cuenta (OFX, QIF, CAMT.053): id del movimiento bancario y reglas de sugerencia
+-- Ejecutar después de create-budgets.sql
+
+-- Id del movimiento en el banco; evita importar dos veces el mismo movimiento
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS bank_transaction_id VARCHAR(200);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entries_bank_transaction
+  ON entries(workspace_id, bank_transaction_id) WHERE bank_transaction_id IS NOT NULL;
+
+-- "Si la descripción contiene X, es un <tipo> de <categoría>"
+CREATE TABLE IF NOT EXISTS import_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  pattern VARCHAR(100) NOT NULL,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('gasto', 'ingreso', 'inversion')),
+  category VARCHAR(100) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_rules_workspace ON import_rules(workspace_id);
+
+DROP TRIGGER IF EXISTS update_import_rules_updated_at ON import_rules;
+CREATE TRIGGER update_import_rules_updated_at
+    BEFORE UPDATE ON import_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Las usa quien puede importar: dueño y encargado
+ALTER TABLE import_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read import rules" ON import_rules;
+CREATE POLICY "Members can read import rules" ON import_rules
+  FOR SELECT TO authenticated USING (is_workspace_member(workspace_id));
+
+DROP POLICY IF EXISTS "Managers can insert import rules" ON import_rules;
+CREATE POLICY "Managers can insert import rules" ON import_rules
+  FOR INSERT TO authenticated WITH CHECK (workspace_role(workspace_id) IN ('owner', 'manager'));
+
+DROP POLICY IF EXISTS "Managers can update import rules" ON import_rules;
+CREATE POLICY "Managers can update import rules" ON import_rules
+  FOR UPDATE TO authenticated
+  USING (workspace_role(workspace_id) IN ('owner', 'manager'))
+  WITH CHECK (workspace_role(workspace_id) IN ('owner', 'manager'));
+
+DROP POLICY IF EXISTS "Managers can delete import rules" ON import_rules;
+CREATE POLICY "Managers can delete import rules" ON import_rules
+  FOR DELETE TO authenticated USING (workspace_role(workspace_id) IN ('owner', 'manager'));
+
+REVOKE ALL ON import_rules FROM anon;
@@ -0,0 +1,104 @@
+-- Presupuestos por categoría de gasto, por semana de trabajo (jueves a domingo) y por mes
+-- Ejecutar después de create-currencies.sql
+
+CREATE TABLE IF NOT EXISTS budgets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  category VARCHAR(100) NOT NULL,
+  period VARCHAR(10) NOT NULL CHECK (period IN ('work_week', 'month')),
+  -- En la moneda base del negocio
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (workspace_id, category, period)
+);
+
+CREATE INDEX IF NOT EXISTS idx_budgets_workspace ON budgets(workspace_id);
+
+DROP TRIGGER IF EXISTS update_budgets_updated_at ON budgets;
+CREATE TRIGGER update_budgets_updated_at
+    BEFORE UPDATE ON budgets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Todos los miembros los ven; solo dueño y encargado los fijan
+ALTER TABLE budgets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read budgets" ON budgets;
+CREATE POLICY "Members can read budgets" ON budgets
+  FOR SELECT TO authenticated USING (is_workspace_member(workspace_id));
+
+DROP POLICY IF EXISTS "Managers can insert budgets" ON budgets;
+CREATE POLICY "Managers can insert budgets" ON budgets
+  FOR INSERT TO authenticated WITH CHECK (workspace_role(workspace_id) IN ('owner', 'manager'));
+
+DROP POLICY IF EXISTS "Managers can update budgets" ON budgets;
+CREATE POLICY "Managers can update budgets" ON budgets
+  FOR UPDATE TO authenticated
+  USING (workspace_role(workspace_id) IN ('owner', 'manager'))
+  WITH CHECK (workspace_role(workspace_id) IN ('owner', 'manager'));
+
+DROP POLICY IF EXISTS "Managers can delete budgets" ON budgets;
+CREATE POLICY "Managers can delete budgets" ON budgets
+  FOR DELETE TO authenticated USING (workspace_role(workspace_id) IN ('owner', 'manager'));
+
+REVOKE ALL ON budgets FROM anon;
+
+-- merge_category (create-recurring.sql) también mueve los presupuestos, ahora que la tabla existe
+CREATE OR REPLACE FUNCTION merge_category(p_workspace_id UUID, p_type TEXT, p_from TEXT, p_to TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected INTEGER;
+  change_kind TEXT;
+BEGIN
+  -- Quien no es miembro tiene rol NULL: sin COALESCE la condición sería NULL y la revisión se saltaría
+  IF COALESCE(workspace_role(p_workspace_id), '') NOT IN ('owner', 'manager') THEN
+    RAISE EXCEPTION 'Solo el dueño o el encargado pueden renombrar categorías';
+  END IF;
+  IF trim(p_to) = '' OR p_from = p_to THEN
+    RAISE EXCEPTION 'El nombre nuevo debe ser distinto del actual';
+  END IF;
+
+  UPDATE entries SET category = p_to
+  WHERE workspace_id = p_workspace_id AND type = p_type AND category = p_from;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+
+  -- Las reglas recurrentes siguen generando con el nombre nuevo
+  UPDATE recurring_rules SET category = p_to
+  WHERE workspace_id = p_workspace_id AND type = p_type AND category = p_from;
+
+  -- Los presupuestos son solo de gasto; si el destino ya tiene uno en ese periodo se queda el suyo
+  IF p_type = 'gasto' THEN
+    DELETE FROM budgets source
+    WHERE source.workspace_id = p_workspace_id AND source.category = p_from
+      AND EXISTS (
+        SELECT 1 FROM budgets target
+        WHERE target.workspace_id = p_workspace_id AND target.category = p_to AND target.period = source.period
+      );
+    UPDATE budgets SET category = p_to
+    WHERE workspace_id = p_workspace_id AND category = p_from;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM categories WHERE workspace_id = p_workspace_id AND type = p_type AND name = p_to) THEN
+    change_kind := 'merge';
+    DELETE FROM categories WHERE workspace_id = p_workspace_id AND type = p_type AND name = p_from;
+  ELSE
+    change_kind := 'rename';
+    UPDATE categories SET name = p_to
+    WHERE workspace_id = p_workspace_id AND type = p_type AND name = p_from;
+    -- La categoría solo existía en las entradas
+    IF NOT FOUND THEN
+      INSERT INTO categories (workspace_id, type, name, sort_order) VALUES (p_workspace_id, p_type, p_to, 100);
+    END IF;
+  END IF;
+
+  INSERT INTO category_changes (workspace_id, type, kind, from_name, to_name, entries_affected, changed_by)
+  VALUES (p_workspace_id, p_type, change_kind, p_from, p_to, affected, auth.uid());
+
+  RETURN affected;
+END;
+$$;
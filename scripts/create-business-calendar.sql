@@ -0,0 +1,68 @@
+-- Calendario del negocio: días de operación, inicio de la semana de trabajo, días cerrados y año fiscal
+-- Ejecutar después de create-attachments.sql (y de nuevo si se vuelve a ejecutar create-roles.sql)
+
+-- { week_starts_on, operating_days, closed_dates: [{ date, reason }], fiscal_year_start_month }
+-- Días como en JavaScript: 0 = domingo ... 6 = sábado. Por omisión, jueves a domingo
+ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS calendar JSONB NOT NULL
+  DEFAULT '{"week_starts_on": 4, "operating_days": [4, 5, 6, 0], "closed_dates": [], "fiscal_year_start_month": 1}';
+
+-- Inicio de la semana de trabajo en curso según el calendario del negocio: el cajero no modifica semanas anteriores
+CREATE OR REPLACE FUNCTION current_work_week_start(p_workspace_id UUID)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CURRENT_DATE - ((EXTRACT(DOW FROM CURRENT_DATE)::INT - COALESCE((calendar->>'week_starts_on')::INT, 4) + 7) % 7)
+  FROM workspaces
+  WHERE id = p_workspace_id;
+$$;
+
+-- Las políticas del cajero pasan a usar la semana del negocio de cada entrada
+DROP POLICY IF EXISTS "Members can update entries" ON entries;
+CREATE POLICY "Members can update entries" ON entries
+  FOR UPDATE TO authenticated
+  USING (
+    workspace_role(workspace_id) IN ('owner', 'manager')
+    OR (workspace_role(workspace_id) = 'cashier' AND date >= current_work_week_start(workspace_id))
+  )
+  WITH CHECK (
+    workspace_role(workspace_id) IN ('owner', 'manager')
+    OR (workspace_role(workspace_id) = 'cashier' AND date >= current_work_week_start(workspace_id))
+  );
+
+DROP POLICY IF EXISTS "Members can delete entries" ON entries;
+CREATE POLICY "Members can delete entries" ON entries
+  FOR DELETE TO authenticated
+  USING (
+    workspace_role(workspace_id) IN ('owner', 'manager')
+    OR (workspace_role(workspace_id) = 'cashier' AND date >= current_work_week_start(workspace_id))
+  );
+
+-- La versión fija de jueves ya no la usa ninguna política
+DROP FUNCTION IF EXISTS current_work_week_start();
+
+-- my_workspaces ahora incluye el calendario
+DROP FUNCTION IF EXISTS my_workspaces();
+CREATE OR REPLACE FUNCTION my_workspaces()
+RETURNS TABLE (
+  id UUID,
+  name VARCHAR,
+  created_at TIMESTAMP WITH TIME ZONE,
+  allow_viewer_export BOOLEAN,
+  base_currency VARCHAR,
+  calendar JSONB,
+  role VARCHAR
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT w.id, w.name, w.created_at, w.allow_viewer_export, w.base_currency, w.calendar, m.role
+  FROM workspaces w
+  JOIN workspace_members m ON m.workspace_id = w.id
+  WHERE m.user_id = auth.uid()
+  ORDER BY w.created_at;
+$$;
@@ -0,0 +1,45 @@
+-- Arqueos de caja: cierre diario de cada cuenta de efectivo contra lo contado por billetes y monedas (ver lib/cash-close.ts)
+-- Ejecutar después de create-accounts.sql
+-- La diferencia se registra además como entrada "Sobrante de caja" o "Faltante de caja" en la misma caja
+
+CREATE TABLE IF NOT EXISTS cash_closes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  -- Montos en la moneda base del negocio
+  opening_float DECIMAL(12,2) NOT NULL DEFAULT 0,
+  cash_in DECIMAL(12,2) NOT NULL DEFAULT 0,
+  cash_out DECIMAL(12,2) NOT NULL DEFAULT 0,
+  expected DECIMAL(12,2) NOT NULL,
+  counted DECIMAL(12,2) NOT NULL,
+  difference DECIMAL(12,2) NOT NULL,
+  -- Piezas por denominación, p. ej. {"bill-50000": 3, "coin-1000": 12, "loose": 350}
+  denominations JSONB NOT NULL DEFAULT '{}',
+  -- Sin llave foránea: el ajuste puede seguir en la cola offline cuando se guarda el arqueo
+  adjustment_entry_id UUID,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (workspace_id, account_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cash_closes_workspace ON cash_closes(workspace_id, date DESC);
+
+-- Todos los miembros los ven; cierra quien captura entradas y solo dueño y encargado reabren
+ALTER TABLE cash_closes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read cash closes" ON cash_closes;
+CREATE POLICY "Members can read cash closes" ON cash_closes
+  FOR SELECT TO authenticated USING (is_workspace_member(workspace_id));
+
+DROP POLICY IF EXISTS "Members can insert cash closes" ON cash_closes;
+CREATE POLICY "Members can insert cash closes" ON cash_closes
+  FOR INSERT TO authenticated
+  WITH CHECK (workspace_role(workspace_id) IN ('owner', 'manager', 'cashier') AND created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Managers can delete cash closes" ON cash_closes;
+CREATE POLICY "Managers can delete cash closes" ON cash_closes
+  FOR DELETE TO authenticated USING (workspace_role(workspace_id) IN ('owner', 'manager'));
+
+REVOKE ALL ON cash_closes FROM anon;
@@ -0,0 +1,44 @@
+-- Movimientos de caja: categorías que mueven efectivo sin ser ingreso ni gasto (el cambio que entra y sale de la caja)
+-- Ejecutar después de create-metrics.sql
+-- Sus entradas siguen en la lista y en el efectivo, pero no suman a ingresos, gastos, gráficas ni avisos
+
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS cash_movement BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- "Cambio" de las categorías iniciales ya era un movimiento de caja
+UPDATE categories SET cash_movement = TRUE WHERE name = 'Cambio' AND type IN ('gasto', 'ingreso');
+
+-- Los negocios nuevos también la siembran marcada (mismas categorías que DEFAULT_CATEGORIES en lib/categories.ts)
+CREATE OR REPLACE FUNCTION seed_default_categories(p_workspace_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO categories (workspace_id, type, name, color, icon, sort_order, cash_movement)
+  SELECT p_workspace_id, d.type, d.name, d.color, d.icon, d.sort_order, d.type || '|' || d.name IN ('gasto|Cambio', 'ingreso|Cambio')
+  FROM (VALUES
+    ('gasto', 'Carne', 'red', '🥩', 0),
+    ('gasto', 'Agua', 'blue', '💧', 1),
+    ('gasto', 'Gas', 'orange', '🔥', 2),
+    ('gasto', 'Salarios', 'purple', '👥', 3),
+    ('gasto', 'Insumos', 'yellow', '📦', 4),
+    ('gasto', 'Transporte', 'green', '🚚', 5),
+    ('gasto', 'Servicios', 'indigo', '🔌', 6),
+    ('gasto', 'Refresco', 'pink', '🥤', 7),
+    ('gasto', 'Otros', 'gray', '📝', 8),
+    ('gasto', 'Cambio', 'teal', '🪙', 9),
+    ('ingreso', 'Efectivo', 'emerald', '💵', 10),
+    ('ingreso', 'Transferencia', 'teal', '🏦', 11),
+    ('ingreso', 'Ventas', 'cyan', '🛒', 12),
+    ('ingreso', 'Servicios', 'indigo', '🔌', 13),
+    ('ingreso', 'Otros', 'gray', '📝', 14),
+    ('ingreso', 'Cambio', 'teal', '🪙', 15),
+    ('inversion', 'Acciones', 'blue', '📈', 16),
+    ('inversion', 'Bonos', 'indigo', '📜', 17),
+    ('inversion', 'Criptomonedas', 'orange', '🪙', 18),
+    ('inversion', 'Bienes Raíces', 'green', '🏠', 19),
+    ('inversion', 'Negocio', 'purple', '🏪', 20),
+    ('inversion', 'Otros', 'gray', '📝', 21)
+  ) AS d(type, name, color, icon, sort_order)
+  ON CONFLICT (workspace_id, type, name) DO NOTHING;
+$$;
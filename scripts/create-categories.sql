@@ -0,0 +1,111 @@
+-- Categorías por negocio y tipo de entrada (antes fijas en el código)
+-- Ejecutar después de create-roles.sql
+-- Las entradas guardan el nombre de la categoría; aquí viven su color, ícono, orden y si está archivada
+
+CREATE TABLE IF NOT EXISTS categories (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  type VARCHAR(10) NOT NULL CHECK (type IN ('gasto', 'ingreso', 'inversion')),
+  name VARCHAR(100) NOT NULL,
+  color VARCHAR(20) NOT NULL DEFAULT 'gray',
+  icon VARCHAR(16) NOT NULL DEFAULT '',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  archived BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (workspace_id, type, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_categories_workspace ON categories(workspace_id, type, sort_order);
+
+DROP TRIGGER IF EXISTS update_categories_updated_at ON categories;
+CREATE TRIGGER update_categories_updated_at
+    BEFORE UPDATE ON categories
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Categorías iniciales (las mismas que DEFAULT_CATEGORIES en lib/categories.ts)
+CREATE OR REPLACE FUNCTION seed_default_categories(p_workspace_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO categories (workspace_id, type, name, color, icon, sort_order)
+  SELECT p_workspace_id, d.type, d.name, d.color, d.icon, d.sort_order
+  FROM (VALUES
+    ('gasto', 'Carne', 'red', '🥩', 0),
+    ('gasto', 'Agua', 'blue', '💧', 1),
+    ('gasto', 'Gas', 'orange', '🔥', 2),
+    ('gasto', 'Salarios', 'purple', '👥', 3),
+    ('gasto', 'Insumos', 'yellow', '📦', 4),
+    ('gasto', 'Transporte', 'green', '🚚', 5),
+    ('gasto', 'Servicios', 'indigo', '🔌', 6),
+    ('gasto', 'Refresco', 'pink', '🥤', 7),
+    ('gasto', 'Otros', 'gray', '📝', 8),
+    ('gasto', 'Cambio', 'teal', '🪙', 9),
+    ('ingreso', 'Efectivo', 'emerald', '💵', 10),
+    ('ingreso', 'Transferencia', 'teal', '🏦', 11),
+    ('ingreso', 'Ventas', 'cyan', '🛒', 12),
+    ('ingreso', 'Servicios', 'indigo', '🔌', 13),
+    ('ingreso', 'Otros', 'gray', '📝', 14),
+    ('ingreso', 'Cambio', 'teal', '🪙', 15),
+    ('inversion', 'Acciones', 'blue', '📈', 16),
+    ('inversion', 'Bonos', 'indigo', '📜', 17),
+    ('inversion', 'Criptomonedas', 'orange', '🪙', 18),
+    ('inversion', 'Bienes Raíces', 'green', '🏠', 19),
+    ('inversion', 'Negocio', 'purple', '🏪', 20),
+    ('inversion', 'Otros', 'gray', '📝', 21)
+  ) AS d(type, name, color, icon, sort_order)
+  ON CONFLICT (workspace_id, type, name) DO NOTHING;
+$$;
+
+-- SECURITY DEFINER: sin esto cualquiera podría sembrar en un negocio ajeno; solo lo llama el trigger seed_workspace_categories
+REVOKE EXECUTE ON FUNCTION seed_default_categories(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Sembrar los negocios existentes y los que se creen después
+SELECT seed_default_categories(id) FROM workspaces;
+
+-- Categorías que ya se usan en entradas pero no están en la lista, para no perder su nombre
+INSERT INTO categories (workspace_id, type, name, sort_order)
+SELECT DISTINCT e.workspace_id, e.type, e.category, 100
+FROM entries e
+WHERE e.workspace_id IS NOT NULL
+ON CONFLICT (workspace_id, type, name) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION seed_workspace_categories()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM seed_default_categories(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS seed_workspace_categories ON workspaces;
+CREATE TRIGGER seed_workspace_categories
+    AFTER INSERT ON workspaces
+    FOR EACH ROW
+    EXECUTE FUNCTION seed_workspace_categories();
+
+-- Todos los miembros las leen; solo dueño y encargado las administran
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read categories" ON categories;
+CREATE POLICY "Members can read categories" ON categories
+  FOR SELECT TO authenticated USING (is_workspace_member(workspace_id));
+
+DROP POLICY IF EXISTS "Managers can insert categories" ON categories;
+CREATE POLICY "Managers can insert categories" ON categories
+  FOR INSERT TO authenticated WITH CHECK (workspace_role(workspace_id) IN ('owner', 'manager'));
+
+DROP POLICY IF EXISTS "Managers can update categories" ON categories;
+CREATE POLICY "Managers can update categories" ON categories
+  FOR UPDATE TO authenticated
+  USING (workspace_role(workspace_id) IN ('owner', 'manager'))
+  WITH CHECK (workspace_role(workspace_id) IN ('owner', 'manager'));
+
+REVOKE ALL ON categories FROM anon;
@@ -0,0 +1,69 @@
+-- Renombrar o fusionar categorías reescribiendo el historial de entradas
+-- Ejecutar después de create-categories.sql
+
+-- Registro de cada renombrado o fusión
+CREATE TABLE IF NOT EXISTS category_changes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  type VARCHAR(10) NOT NULL,
+  kind VARCHAR(10) NOT NULL CHECK (kind IN ('rename', 'merge')),
+  from_name VARCHAR(100) NOT NULL,
+  to_name VARCHAR(100) NOT NULL,
+  entries_affected INTEGER NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_category_changes_workspace ON category_changes(workspace_id, created_at DESC);
+
+ALTER TABLE category_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read category changes" ON category_changes;
+CREATE POLICY "Members can read category changes" ON category_changes
+  FOR SELECT TO authenticated USING (is_workspace_member(workspace_id));
+
+REVOKE ALL ON category_changes FROM anon;
+
+-- Todo en una sola transacción: entradas, categoría y registro
+-- Si el destino ya existe es una fusión (se borra el origen); si no, un renombrado
+CREATE OR REPLACE FUNCTION merge_category(p_workspace_id UUID, p_type TEXT, p_from TEXT, p_to TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected INTEGER;
+  change_kind TEXT;
+BEGIN
+  -- Quien no es miembro tiene rol NULL: sin COALESCE la condición sería NULL y la revisión se saltaría
+  IF COALESCE(workspace_role(p_workspace_id), '') NOT IN ('owner', 'manager') THEN
+    RAISE EXCEPTION 'Solo el dueño o el encargado pueden renombrar categorías';
+  END IF;
+  IF trim(p_to) = '' OR p_from = p_to THEN
+    RAISE EXCEPTION 'El nombre nuevo debe ser distinto del actual';
+  END IF;
+
+  UPDATE entries SET category = p_to
+  WHERE workspace_id = p_workspace_id AND type = p_type AND category = p_from;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+
+  IF EXISTS (SELECT 1 FROM categories WHERE workspace_id = p_workspace_id AND type = p_type AND name = p_to) THEN
+    change_kind := 'merge';
+    DELETE FROM categories WHERE workspace_id = p_workspace_id AND type = p_type AND name = p_from;
+  ELSE
+    change_kind := 'rename';
+    UPDATE categories SET name = p_to
+    WHERE workspace_id = p_workspace_id AND type = p_type AND name = p_from;
+    -- La categoría solo existía en las entradas
+    IF NOT FOUND THEN
+      INSERT INTO categories (workspace_id, type, name, sort_order) VALUES (p_workspace_id, p_type, p_to, 100);
+    END IF;
+  END IF;
+
+  INSERT INTO category_changes (workspace_id, type, kind, from_name, to_name, entries_affected, changed_by)
+  VALUES (p_workspace_id, p_type, change_kind, p_from, p_to, affected, auth.uid());
+
+  RETURN affected;
+END;
+$$;
@@ -0,0 +1,84 @@
+-- Varias monedas: moneda base por negocio, moneda por entrada y tipos de cambio por fecha
+-- Ejecutar después de create-category-merge.sql y antes de create-summary-function.sql
+
+-- Moneda en la que se muestran todos los totales del negocio
+ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS base_currency VARCHAR(3) NOT NULL DEFAULT 'MXN';
+
+-- Moneda original de la entrada; NULL significa la moneda base del negocio
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS currency VARCHAR(3);
+
+-- Tipos de cambio capturados a mano: cuántas unidades de la moneda base vale una unidad de `currency`
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  currency VARCHAR(3) NOT NULL,
+  date DATE NOT NULL,
+  rate NUMERIC(18, 6) NOT NULL CHECK (rate > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (workspace_id, currency, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup ON exchange_rates(workspace_id, currency, date DESC);
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- Todos los miembros los leen; solo dueño y encargado los capturan
+DROP POLICY IF EXISTS "Members can read exchange rates" ON exchange_rates;
+CREATE POLICY "Members can read exchange rates" ON exchange_rates
+  FOR SELECT TO authenticated USING (is_workspace_member(workspace_id));
+
+DROP POLICY IF EXISTS "Managers can insert exchange rates" ON exchange_rates;
+CREATE POLICY "Managers can insert exchange rates" ON exchange_rates
+  FOR INSERT TO authenticated WITH CHECK (workspace_role(workspace_id) IN ('owner', 'manager'));
+
+DROP POLICY IF EXISTS "Managers can update exchange rates" ON exchange_rates;
+CREATE POLICY "Managers can update exchange rates" ON exchange_rates
+  FOR UPDATE TO authenticated
+  USING (workspace_role(workspace_id) IN ('owner', 'manager'))
+  WITH CHECK (workspace_role(workspace_id) IN ('owner', 'manager'));
+
+DROP POLICY IF EXISTS "Managers can delete exchange rates" ON exchange_rates;
+CREATE POLICY "Managers can delete exchange rates" ON exchange_rates
+  FOR DELETE TO authenticated USING (workspace_role(workspace_id) IN ('owner', 'manager'));
+
+REVOKE ALL ON exchange_rates FROM anon;
+
+-- Tipo de cambio para una fecha: el último capturado hasta ese día, o el primero posterior si no hay anteriores
+-- Misma regla que findExchangeRate() en lib/storage/currency.ts
+CREATE OR REPLACE FUNCTION exchange_rate_on(p_workspace_id UUID, p_currency TEXT, p_date DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (SELECT rate FROM exchange_rates
+      WHERE workspace_id = p_workspace_id AND currency = p_currency AND date <= p_date
+      ORDER BY date DESC LIMIT 1),
+    (SELECT rate FROM exchange_rates
+      WHERE workspace_id = p_workspace_id AND currency = p_currency AND date > p_date
+      ORDER BY date ASC LIMIT 1)
+  );
+$$;
+
+-- my_workspaces ahora incluye la moneda base
+DROP FUNCTION IF EXISTS my_workspaces();
+CREATE OR REPLACE FUNCTION my_workspaces()
+RETURNS TABLE (
+  id UUID,
+  name VARCHAR,
+  created_at TIMESTAMP WITH TIME ZONE,
+  allow_viewer_export BOOLEAN,
+  base_currency VARCHAR,
+  role VARCHAR
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT w.id, w.name, w.created_at, w.allow_viewer_export, w.base_currency, m.role
+  FROM workspaces w
+  JOIN workspace_members m ON m.workspace_id = w.id
+  WHERE m.user_id = auth.uid()
+  ORDER BY w.created_at;
+$$;
@@ -0,0 +1,13 @@
+-- Facturas CFDI importadas como gastos: datos fiscales y desglose de impuestos en cada entrada
+-- Ejecutar después de create-bank-import.sql
+
+-- { uuid, issuer_rfc, issuer_name, series, folio, issued_at, subtotal, discount, iva, ieps, withheld, total }
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS invoice JSONB;
+
+-- Una factura (por su UUID) se importa una sola vez por negocio
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entries_invoice_uuid
+  ON entries(workspace_id, (invoice->>'uuid')) WHERE invoice IS NOT NULL;
+
+-- Buscar las facturas de un proveedor
+CREATE INDEX IF NOT EXISTS idx_entries_invoice_rfc
+  ON entries(workspace_id, (invoice->>'issuer_rfc')) WHERE invoice IS NOT NULL;
@@ -0,0 +1,30 @@
+-- Métrica que muestra la tarjeta "Balance" del dashboard (ver lib/metrics.ts)
+-- Ejecutar después de create-business-calendar.sql (y de nuevo si se vuelve a ejecutar esa o create-roles.sql)
+
+ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS balance_metric VARCHAR(30) NOT NULL DEFAULT 'net_cash_flow'
+  CHECK (balance_metric IN ('gross_income', 'operating_expenses', 'operating_profit', 'investments', 'net_cash_flow'));
+
+-- my_workspaces ahora incluye la métrica del balance
+DROP FUNCTION IF EXISTS my_workspaces();
+CREATE OR REPLACE FUNCTION my_workspaces()
+RETURNS TABLE (
+  id UUID,
+  name VARCHAR,
+  created_at TIMESTAMP WITH TIME ZONE,
+  allow_viewer_export BOOLEAN,
+  base_currency VARCHAR,
+  calendar JSONB,
+  balance_metric VARCHAR,
+  role VARCHAR
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT w.id, w.name, w.created_at, w.allow_viewer_export, w.base_currency, w.calendar, w.balance_metric, m.role
+  FROM workspaces w
+  JOIN workspace_members m ON m.workspace_id = w.id
+  WHERE m.user_id = auth.uid()
+  ORDER BY w.created_at;
+$$;
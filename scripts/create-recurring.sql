@@ -0,0 +1,115 @@
+-- Entradas recurrentes (salarios, agua, gas...) que se generan solas o tras confirmarlas
+-- Ejecutar después de create-currencies.sql
+
+CREATE TABLE IF NOT EXISTS recurring_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  type VARCHAR(10) NOT NULL CHECK (type IN ('gasto', 'ingreso', 'inversion')),
+  category VARCHAR(100) NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  currency VARCHAR(3),
+  description TEXT,
+  frequency VARCHAR(12) NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'work_weeks')),
+  -- 0 = domingo; para 'weekly' y 'work_weeks'
+  weekday SMALLINT CHECK (weekday BETWEEN 0 AND 6),
+  -- Para 'monthly'; en meses más cortos se usa el último día
+  day_of_month SMALLINT CHECK (day_of_month BETWEEN 1 AND 31),
+  -- Para 'work_weeks'
+  interval_weeks SMALLINT CHECK (interval_weeks >= 1),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  paused BOOLEAN NOT NULL DEFAULT FALSE,
+  auto_generate BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Última ocurrencia generada u omitida; la app la avanza antes de crear las entradas
+  last_generated DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (
+    (frequency = 'weekly' AND weekday IS NOT NULL)
+    OR (frequency = 'monthly' AND day_of_month IS NOT NULL)
+    OR (frequency = 'work_weeks' AND weekday IS NOT NULL AND interval_weeks IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_rules_workspace ON recurring_rules(workspace_id);
+
+DROP TRIGGER IF EXISTS update_recurring_rules_updated_at ON recurring_rules;
+CREATE TRIGGER update_recurring_rules_updated_at
+    BEFORE UPDATE ON recurring_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Regla que generó cada entrada; una sola entrada por regla y fecha
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS recurring_rule_id UUID REFERENCES recurring_rules(id) ON DELETE SET NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entries_recurring_occurrence
+  ON entries(recurring_rule_id, date) WHERE recurring_rule_id IS NOT NULL;
+
+-- Todos los miembros las leen; solo dueño y encargado las administran y las generan
+ALTER TABLE recurring_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read recurring rules" ON recurring_rules;
+CREATE POLICY "Members can read recurring rules" ON recurring_rules
+  FOR SELECT TO authenticated USING (is_workspace_member(workspace_id));
+
+DROP POLICY IF EXISTS "Managers can insert recurring rules" ON recurring_rules;
+CREATE POLICY "Managers can insert recurring rules" ON recurring_rules
+  FOR INSERT TO authenticated WITH CHECK (workspace_role(workspace_id) IN ('owner', 'manager'));
+
+DROP POLICY IF EXISTS "Managers can update recurring rules" ON recurring_rules;
+CREATE POLICY "Managers can update recurring rules" ON recurring_rules
+  FOR UPDATE TO authenticated
+  USING (workspace_role(workspace_id) IN ('owner', 'manager'))
+  WITH CHECK (workspace_role(workspace_id) IN ('owner', 'manager'));
+
+DROP POLICY IF EXISTS "Managers can delete recurring rules" ON recurring_rules;
+CREATE POLICY "Managers can delete recurring rules" ON recurring_rules
+  FOR DELETE TO authenticated USING (workspace_role(workspace_id) IN ('owner', 'manager'));
+
+REVOKE ALL ON recurring_rules FROM anon;
+
+-- merge_category (create-category-merge.sql) también reescribe las reglas, ahora que la tabla existe
+CREATE OR REPLACE FUNCTION merge_category(p_workspace_id UUID, p_type TEXT, p_from TEXT, p_to TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected INTEGER;
+  change_kind TEXT;
+BEGIN
+  -- Quien no es miembro tiene rol NULL: sin COALESCE la condición sería NULL y la revisión se saltaría
+  IF COALESCE(workspace_role(p_workspace_id), '') NOT IN ('owner', 'manager') THEN
+    RAISE EXCEPTION 'Solo el dueño o el encargado pueden renombrar categorías';
+  END IF;
+  IF trim(p_to) = '' OR p_from = p_to THEN
+    RAISE EXCEPTION 'El nombre nuevo debe ser distinto del actual';
+  END IF;
+
+  UPDATE entries SET category = p_to
+  WHERE workspace_id = p_workspace_id AND type = p_type AND category = p_from;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+
+  -- Las reglas recurrentes siguen generando con el nombre nuevo
+  UPDATE recurring_rules SET category = p_to
+  WHERE workspace_id = p_workspace_id AND type = p_type AND category = p_from;
+
+  IF EXISTS (SELECT 1 FROM categories WHERE workspace_id = p_workspace_id AND type = p_type AND name = p_to) THEN
+    change_kind := 'merge';
+    DELETE FROM categories WHERE workspace_id = p_workspace_id AND type = p_type AND name = p_from;
+  ELSE
+    change_kind := 'rename';
+    UPDATE categories SET name = p_to
+    WHERE workspace_id = p_workspace_id AND type = p_type AND name = p_from;
+    -- La categoría solo existía en las entradas
+    IF NOT FOUND THEN
+      INSERT INTO categories (workspace_id, type, name, sort_order) VALUES (p_workspace_id, p_type, p_to, 100);
+    END IF;
+  END IF;
+
+  INSERT INTO category_changes (workspace_id, type, kind, from_name, to_name, entries_affected, changed_by)
+  VALUES (p_workspace_id, p_type, change_kind, p_from, p_to, affected, auth.uid());
+
+  RETURN affected;
+END;
+$$;
@@ -0,0 +1,153 @@
+-- Roles por espacio de trabajo: owner (dueño), manager (encargado), cashier (cajero), viewer (solo lectura)
+-- Ejecutar después de create-workspaces.sql
+
+ALTER TABLE workspace_members ADD COLUMN IF NOT EXISTS role VARCHAR(10) NOT NULL DEFAULT 'viewer'
+  CHECK (role IN ('owner', 'manager', 'cashier', 'viewer'));
+
+-- Los miembros que ya existían son los creadores de sus espacios
+UPDATE workspace_members m SET role = 'owner'
+FROM workspaces w
+WHERE w.id = m.workspace_id AND w.created_by = m.user_id;
+
+-- Si los miembros de solo lectura pueden exportar (la app oculta el botón si no)
+ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS allow_viewer_export BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- Rol del usuario actual en un espacio (NULL si no es miembro)
+CREATE OR REPLACE FUNCTION workspace_role(p_workspace_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM workspace_members
+  WHERE workspace_id = p_workspace_id AND user_id = auth.uid();
+$$;
+
+-- Inicio de la semana laboral en curso (jueves a domingo): el cajero no modifica semanas anteriores
+CREATE OR REPLACE FUNCTION current_work_week_start()
+RETURNS DATE
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CURRENT_DATE - ((EXTRACT(ISODOW FROM CURRENT_DATE)::INT - 4 + 7) % 7);
+$$;
+
+-- El creador entra como dueño
+CREATE OR REPLACE FUNCTION add_workspace_creator()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.created_by IS NOT NULL THEN
+    INSERT INTO workspace_members (workspace_id, user_id, role) VALUES (NEW.id, NEW.created_by, 'owner')
+    ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = 'owner';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Espacios del usuario con su rol (lo usa workspacesService.list)
+CREATE OR REPLACE FUNCTION my_workspaces()
+RETURNS TABLE (id UUID, name VARCHAR, created_at TIMESTAMP WITH TIME ZONE, allow_viewer_export BOOLEAN, role VARCHAR)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT w.id, w.name, w.created_at, w.allow_viewer_export, m.role
+  FROM workspaces w
+  JOIN workspace_members m ON m.workspace_id = w.id
+  WHERE m.user_id = auth.uid()
+  ORDER BY w.created_at;
+$$;
+
+-- Miembros con su correo; solo el dueño puede verlos
+CREATE OR REPLACE FUNCTION workspace_member_list(p_workspace_id UUID)
+RETURNS TABLE (user_id UUID, email VARCHAR, role VARCHAR)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF workspace_role(p_workspace_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Solo el dueño puede ver los miembros';
+  END IF;
+  RETURN QUERY
+    SELECT m.user_id, u.email::VARCHAR, m.role
+    FROM workspace_members m
+    JOIN auth.users u ON u.id = m.user_id
+    WHERE m.workspace_id = p_workspace_id
+    ORDER BY m.created_at;
+END;
+$$;
+
+-- Agregar (o cambiar de rol) a un usuario existente por su correo
+CREATE OR REPLACE FUNCTION add_workspace_member(p_workspace_id UUID, p_email TEXT, p_role TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member_id UUID;
+BEGIN
+  IF workspace_role(p_workspace_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Solo el dueño puede agregar miembros';
+  END IF;
+  SELECT id INTO member_id FROM auth.users WHERE lower(email) = lower(p_email);
+  IF member_id IS NULL THEN
+    RAISE EXCEPTION 'No existe una cuenta con el correo %', p_email;
+  END IF;
+  INSERT INTO workspace_members (workspace_id, user_id, role) VALUES (p_workspace_id, member_id, p_role)
+  ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+END;
+$$;
+
+-- Espacios: solo el dueño los modifica
+DROP POLICY IF EXISTS "Members can update workspaces" ON workspaces;
+DROP POLICY IF EXISTS "Owners can update workspaces" ON workspaces;
+CREATE POLICY "Owners can update workspaces" ON workspaces
+  FOR UPDATE TO authenticated
+  USING (workspace_role(id) = 'owner') WITH CHECK (workspace_role(id) = 'owner');
+
+-- Miembros: solo el dueño cambia roles o quita miembros, y no a sí mismo (siempre queda un dueño)
+DROP POLICY IF EXISTS "Owners can update memberships" ON workspace_members;
+CREATE POLICY "Owners can update memberships" ON workspace_members
+  FOR UPDATE TO authenticated
+  USING (workspace_role(workspace_id) = 'owner' AND user_id <> auth.uid())
+  WITH CHECK (workspace_role(workspace_id) = 'owner');
+
+DROP POLICY IF EXISTS "Owners can remove members" ON workspace_members;
+CREATE POLICY "Owners can remove members" ON workspace_members
+  FOR DELETE TO authenticated
+  USING (workspace_role(workspace_id) = 'owner' AND user_id <> auth.uid());
+
+-- Entradas: todos leen; viewer no escribe; cashier agrega, pero solo corrige o elimina en la semana actual
+DROP POLICY IF EXISTS "Members can insert entries" ON entries;
+CREATE POLICY "Members can insert entries" ON entries
+  FOR INSERT TO authenticated
+  WITH CHECK (workspace_role(workspace_id) IN ('owner', 'manager', 'cashier') AND owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Members can update entries" ON entries;
+CREATE POLICY "Members can update entries" ON entries
+  FOR UPDATE TO authenticated
+  USING (
+    workspace_role(workspace_id) IN ('owner', 'manager')
+    OR (workspace_role(workspace_id) = 'cashier' AND date >= current_work_week_start())
+  )
+  WITH CHECK (
+    workspace_role(workspace_id) IN ('owner', 'manager')
+    OR (workspace_role(workspace_id) = 'cashier' AND date >= current_work_week_start())
+  );
+
+DROP POLICY IF EXISTS "Members can delete entries" ON entries;
+CREATE POLICY "Members can delete entries" ON entries
+  FOR DELETE TO authenticated
+  USING (
+    workspace_role(workspace_id) IN ('owner', 'manager')
+    OR (workspace_role(workspace_id) = 'cashier' AND date >= current_work_week_start())
+  );
@@ -0,0 +1,40 @@
+-- Totales por tipo y categoría calculados en el servidor
+-- Lo usa entriesService.summarize() para no descargar todo el historial
+-- Se ejecuta con los permisos del usuario: RLS limita las filas a sus espacios de trabajo
+-- Los montos en otra moneda se convierten a la moneda base con el tipo de cambio de su fecha
+-- (requiere scripts/create-currencies.sql); sin tipo de cambio capturado se toman 1 a 1
+DROP FUNCTION IF EXISTS entries_summary(DATE, DATE, TEXT[], TEXT[]);
+CREATE OR REPLACE FUNCTION entries_summary(
+  p_workspace_id UUID,
+  p_from DATE DEFAULT NULL,
+  p_to DATE DEFAULT NULL,
+  p_types TEXT[] DEFAULT NULL,
+  p_categories TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (type VARCHAR, category VARCHAR, total NUMERIC, count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    e.type,
+    e.category,
+    SUM(
+      CASE
+        WHEN e.currency IS NULL OR e.currency = w.base_currency THEN e.amount
+        -- Redondear cada entrada al centavo, igual que el cliente
+        ELSE ROUND(e.amount * COALESCE(exchange_rate_on(e.workspace_id, e.currency, e.date), 1), 2)
+      END
+    ) AS total,
+    COUNT(*) AS count
+  FROM entries e
+  JOIN workspaces w ON w.id = e.workspace_id
+  WHERE e.workspace_id = p_workspace_id
+    AND (p_from IS NULL OR e.date >= p_from)
+    AND (p_to IS NULL OR e.date <= p_to)
+    AND (p_types IS NULL OR e.type = ANY(p_types))
+    AND (p_categories IS NULL OR e.category = ANY(p_categories))
+  GROUP BY e.type, e.category;
+$$;
+
+-- Índice compuesto para la paginación por cursor (fecha descendente, luego id)
+CREATE INDEX IF NOT EXISTS idx_entries_date_id ON entries(date DESC, id DESC);
@@ -6,6 +6,7 @@ CREATE TABLE IF NOT EXISTS entries (
   amount DECIMAL(12,2) NOT NULL,
   date DATE NOT NULL,
   description TEXT,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -14,14 +15,23 @@ CREATE TABLE IF NOT EXISTS entries (
 CREATE INDEX IF NOT EXISTS idx_entries_date ON entries(date);
 CREATE INDEX IF NOT EXISTS idx_entries_type ON entries(type);
 CREATE INDEX IF NOT EXISTS idx_entries_category ON entries(category);
+CREATE INDEX IF NOT EXISTS idx_entries_owner ON entries(owner_id);
 
 -- Habilitar Row Level Security (RLS)
 ALTER TABLE entries ENABLE ROW LEVEL SECURITY;
 
--- Crear política para permitir todas las operaciones (para simplicidad)
--- En producción, deberías usar autenticación y políticas más restrictivas
-CREATE POLICY IF NOT EXISTS "Allow all operations on entries" ON entries
-  FOR ALL USING (true) WITH CHECK (true);
+-- Cada usuario autenticado solo accede a sus propias entradas
+CREATE POLICY "Users can read own entries" ON entries
+  FOR SELECT TO authenticated USING (owner_id = auth.uid());
+
+CREATE POLICY "Users can insert own entries" ON entries
+  FOR INSERT TO authenticated WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Users can update own entries" ON entries
+  FOR UPDATE TO authenticated USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Users can delete own entries" ON entries
+  FOR DELETE TO authenticated USING (owner_id = auth.uid());
 
 -- Función para actualizar updated_at automáticamente
 CREATE OR REPLACE FUNCTION update_updated_at_column()
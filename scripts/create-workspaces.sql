@@ -0,0 +1,127 @@
+-- Espacios de trabajo: cada negocio lleva sus propios libros
+-- Ejecutar después de create-tables.sql (o enable-auth.sql en instalaciones anteriores)
+
+CREATE TABLE IF NOT EXISTS workspaces (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user ON workspace_members(user_id);
+
+-- Pertenencia del usuario actual; SECURITY DEFINER evita la recursión de RLS en workspace_members
+CREATE OR REPLACE FUNCTION is_workspace_member(p_workspace_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM workspace_members
+    WHERE workspace_id = p_workspace_id AND user_id = auth.uid()
+  );
+$$;
+
+-- Quien crea un espacio queda como miembro
+CREATE OR REPLACE FUNCTION add_workspace_creator()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.created_by IS NOT NULL THEN
+    INSERT INTO workspace_members (workspace_id, user_id) VALUES (NEW.id, NEW.created_by)
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS add_workspace_creator ON workspaces;
+CREATE TRIGGER add_workspace_creator
+    AFTER INSERT ON workspaces
+    FOR EACH ROW
+    EXECUTE FUNCTION add_workspace_creator();
+
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read workspaces" ON workspaces;
+CREATE POLICY "Members can read workspaces" ON workspaces
+  FOR SELECT TO authenticated USING (is_workspace_member(id) OR created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create workspaces" ON workspaces;
+CREATE POLICY "Users can create workspaces" ON workspaces
+  FOR INSERT TO authenticated WITH CHECK (created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Members can update workspaces" ON workspaces;
+CREATE POLICY "Members can update workspaces" ON workspaces
+  FOR UPDATE TO authenticated USING (is_workspace_member(id)) WITH CHECK (is_workspace_member(id));
+
+DROP POLICY IF EXISTS "Members can read memberships" ON workspace_members;
+CREATE POLICY "Members can read memberships" ON workspace_members
+  FOR SELECT TO authenticated USING (user_id = auth.uid() OR is_workspace_member(workspace_id));
+
+-- Entradas: pertenecen a un espacio de trabajo
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+
+-- Migrar las entradas existentes: un espacio "Mi negocio" por cada dueño
+DO $$
+DECLARE
+  owner UUID;
+  new_workspace UUID;
+BEGIN
+  FOR owner IN SELECT DISTINCT owner_id FROM entries WHERE workspace_id IS NULL AND owner_id IS NOT NULL LOOP
+    INSERT INTO workspaces (name, created_by) VALUES ('Mi negocio', owner) RETURNING id INTO new_workspace;
+    UPDATE entries SET workspace_id = new_workspace WHERE owner_id = owner AND workspace_id IS NULL;
+  END LOOP;
+END;
+$$;
+
+-- Las entradas sin dueño no se pueden asignar: quedan invisibles hasta asignarles dueño (ver enable-auth.sql)
+-- y volver a ejecutar este script
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM entries WHERE workspace_id IS NULL) THEN
+    RAISE NOTICE 'Hay entradas sin espacio de trabajo; workspace_id sigue admitiendo NULL';
+  ELSE
+    ALTER TABLE entries ALTER COLUMN workspace_id SET NOT NULL;
+  END IF;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_entries_workspace_date_id ON entries(workspace_id, date DESC, id DESC);
+
+-- Cualquier miembro del espacio ve y modifica sus entradas
+DROP POLICY IF EXISTS "Users can read own entries" ON entries;
+DROP POLICY IF EXISTS "Users can insert own entries" ON entries;
+DROP POLICY IF EXISTS "Users can update own entries" ON entries;
+DROP POLICY IF EXISTS "Users can delete own entries" ON entries;
+
+DROP POLICY IF EXISTS "Members can read entries" ON entries;
+CREATE POLICY "Members can read entries" ON entries
+  FOR SELECT TO authenticated USING (is_workspace_member(workspace_id));
+
+DROP POLICY IF EXISTS "Members can insert entries" ON entries;
+CREATE POLICY "Members can insert entries" ON entries
+  FOR INSERT TO authenticated WITH CHECK (is_workspace_member(workspace_id) AND owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Members can update entries" ON entries;
+CREATE POLICY "Members can update entries" ON entries
+  FOR UPDATE TO authenticated USING (is_workspace_member(workspace_id)) WITH CHECK (is_workspace_member(workspace_id));
+
+DROP POLICY IF EXISTS "Members can delete entries" ON entries;
+CREATE POLICY "Members can delete entries" ON entries
+  FOR DELETE TO authenticated USING (is_workspace_member(workspace_id));
+
+REVOKE ALL ON workspaces, workspace_members FROM anon;
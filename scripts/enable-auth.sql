@@ -0,0 +1,34 @@
+-- Cuentas de usuario y seguridad por fila
+-- Cada entrada pertenece al usuario que la creó; solo él puede verla o modificarla
+
+-- Dueño de la entrada: se asigna automáticamente con el usuario autenticado
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+CREATE INDEX IF NOT EXISTS idx_entries_owner ON entries(owner_id);
+
+-- Las entradas existentes no tienen dueño y dejan de ser visibles.
+-- Para asignarlas a una cuenta, reemplaza el correo y ejecuta:
+-- UPDATE entries SET owner_id = (SELECT id FROM auth.users WHERE email = 'tu@correo.com') WHERE owner_id IS NULL;
+
+ALTER TABLE entries ENABLE ROW LEVEL SECURITY;
+
+-- Quitar la política abierta que permitía todo sin autenticación
+DROP POLICY IF EXISTS "Allow all operations on entries" ON entries;
+
+DROP POLICY IF EXISTS "Users can read own entries" ON entries;
+CREATE POLICY "Users can read own entries" ON entries
+  FOR SELECT TO authenticated USING (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can insert own entries" ON entries;
+CREATE POLICY "Users can insert own entries" ON entries
+  FOR INSERT TO authenticated WITH CHECK (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update own entries" ON entries;
+CREATE POLICY "Users can update own entries" ON entries
+  FOR UPDATE TO authenticated USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete own entries" ON entries;
+CREATE POLICY "Users can delete own entries" ON entries
+  FOR DELETE TO authenticated USING (owner_id = auth.uid());
+
+-- El rol anónimo ya no tiene acceso a la tabla
+REVOKE ALL ON entries FROM anon;
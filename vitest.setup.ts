@@ -0,0 +1,4 @@
+import { vi } from "vitest"
+
+// Las pruebas cubren funciones puras; el cliente real de Supabase pide WebSocket nativo (Node 22) al crearse
+vi.mock("@/lib/supabase", () => ({ supabase: {}, isSupabaseConfigured: false }))